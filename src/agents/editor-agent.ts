@@ -2,18 +2,28 @@ import { BaseAgent } from "./base-agent";
 import {
   AgentMessage,
   ArticleCitation,
+  ArticleFormat,
   ArticleTone,
   EditorResult,
+  ResearchEntity,
+  ResearchKeyword,
 } from "./types";
 import { MessageBus } from "@/lib/message-bus";
 import { editArticle } from "@/lib/article-editor";
+import { articleWordCounts } from "@/lib/article-composer";
+import { keyTerms } from "@/lib/entity-extractor";
 
 export interface EditInput {
   title: string;
   article: string;
   topic: string;
   tone?: ArticleTone;
+  /** Formats other than "article" keep the writer's title, which names the format */
+  format?: ArticleFormat;
   citations?: ArticleCitation[];
+  /** Research entities and keywords, used to pick SEO keywords */
+  entities?: ResearchEntity[];
+  keywords?: ResearchKeyword[];
 }
 
 export class EditorAgent extends BaseAgent {
@@ -58,15 +68,30 @@ export class EditorAgent extends BaseAgent {
       article,
       topic,
       tone = "professional",
+      format = "article",
       citations = [],
+      entities,
+      keywords,
     } = input;
 
     if (!article || article.trim().length === 0) {
       throw new Error("A non-empty 'article' string is required for editing");
     }
 
-    const result = editArticle({ article, title, topic, tone });
+    const result = editArticle({
+      article,
+      title,
+      topic,
+      tone,
+      keepTitle: format !== "article",
+      keywords: keyTerms(
+        Array.isArray(entities) ? entities : [],
+        Array.isArray(keywords) ? keywords : [],
+        15
+      ),
+    });
 
+    const counts = articleWordCounts(result.editedArticle);
     return {
       originalTitle: title,
       editedTitle: result.editedTitle,
@@ -75,9 +100,12 @@ export class EditorAgent extends BaseAgent {
       editedArticle: result.editedArticle,
       changes: result.changes,
       qualityScore: result.qualityScore,
-      wordCount: result.editedArticle.split(/\s+/).length,
+      seoKeywords: result.seoKeywords,
+      wordCount: counts.body,
+      referencesWordCount: counts.references,
       topic,
       tone,
+      format,
       citations,
       editedAt: new Date().toISOString(),
     };
@@ -3,6 +3,7 @@ export { AgentRegistry } from "./agent-registry";
 export { ResearchAgent } from "./research-agent";
 export { WriterAgent } from "./writer-agent";
 export { EditorAgent } from "./editor-agent";
+export { RepurposeAgent } from "./repurpose-agent";
 export type {
   AgentMessage,
   AgentConfig,
@@ -11,14 +12,46 @@ export type {
   PipelineStep,
   PipelineResult,
   ResearchFact,
+  FactSource,
+  FactScoringWeights,
+  FactScoreBreakdown,
   ResearchSource,
+  SourceMetadata,
+  SourceTier,
+  SourceCredibility,
+  SourcePolicy,
   ResearchResult,
+  ResearchQuery,
+  ResearchGapKind,
+  ResearchCacheStats,
+  ResearchFetchReport,
+  ResearchConflict,
+  ConflictKind,
+  ResearchStatistic,
+  StatisticKind,
+  ResearchQuote,
+  ResearchEntity,
+  ResearchKeyword,
+  EntityType,
+  ComparisonCell,
+  ComparisonRow,
+  ResearchComparison,
+  TopicCoverage,
   ArticleTone,
+  ArticleLength,
+  ArticleFormat,
   ArticleCitation,
+  ArticleOutline,
+  OutlineSection,
+  OutlineSectionRole,
   WriterResult,
   EditChange,
   QualityScore,
   EditorResult,
+  RepurposedFact,
+  ThreadPost,
+  EmailTeaser,
+  RepurposeResult,
   OrchestrationStep,
   OrchestrationStepStatus,
   OrchestrationResult,
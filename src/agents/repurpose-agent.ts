@@ -0,0 +1,80 @@
+import { BaseAgent } from "./base-agent";
+import { AgentMessage, ArticleCitation, RepurposeResult } from "./types";
+import { MessageBus } from "@/lib/message-bus";
+import { repurposeArticle } from "@/lib/social-derivatives";
+
+export interface RepurposeInput {
+  title: string;
+  /** The edited article, with its Sources list */
+  article: string;
+  topic: string;
+  citations?: ArticleCitation[];
+  /** The editor's SEO keywords, used for hashtags */
+  seoKeywords?: string[];
+  /** Characters per X post; defaults to 280 */
+  postLimit?: number;
+  /** Where the full article is published */
+  articleUrl?: string;
+}
+
+export class RepurposeAgent extends BaseAgent {
+  constructor(bus: MessageBus) {
+    super(
+      {
+        id: "repurpose",
+        name: "Repurpose Agent",
+        description:
+          "Turns a finished article into an X thread, a LinkedIn post, an email teaser and a meta description that keep its key facts and sources",
+        capabilities: [
+          "key-fact-selection",
+          "thread-writing",
+          "linkedin-post",
+          "email-teaser",
+          "meta-description",
+        ],
+      },
+      bus
+    );
+  }
+
+  protected async process(message: AgentMessage): Promise<AgentMessage> {
+    const payload = message.payload as unknown as RepurposeInput;
+    const result = this.repurpose(payload);
+
+    return this.createMessage(
+      message.from,
+      result as unknown as Record<string, unknown>,
+      "response",
+      message.id
+    );
+  }
+
+  /**
+   * Public method so the dedicated API route can call it directly
+   * without going through the message bus.
+   */
+  repurpose(input: RepurposeInput): RepurposeResult {
+    const { title, article, topic, citations = [], seoKeywords, postLimit, articleUrl } = input;
+
+    if (!article || article.trim().length === 0) {
+      throw new Error("A non-empty 'article' string is required for repurposing");
+    }
+
+    const derivatives = repurposeArticle({
+      title,
+      article,
+      topic,
+      citations: Array.isArray(citations) ? citations : [],
+      seoKeywords: Array.isArray(seoKeywords) ? seoKeywords : [],
+      postLimit,
+      articleUrl,
+    });
+
+    return {
+      topic,
+      title,
+      ...derivatives,
+      repurposedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -1,11 +1,79 @@
 import { BaseAgent } from "./base-agent";
-import { AgentMessage, ResearchFact, ResearchResult, ResearchSource } from "./types";
+import {
+  AgentMessage,
+  FactScoringWeights,
+  ResearchEntity,
+  ResearchKeyword,
+  ResearchFact,
+  ResearchQuery,
+  ResearchResult,
+  ResearchSource,
+  SourceCredibility,
+  SourceMetadata,
+  SourcePolicy,
+} from "./types";
 import { MessageBus } from "@/lib/message-bus";
-import { searchWeb, fetchPageContent, SearchResult } from "@/lib/web-search";
+import { searchWeb, fetchPageContent, PageContent, SearchResult } from "@/lib/web-search";
 import { extractFacts } from "@/lib/fact-extractor";
+import { detectConflicts } from "@/lib/contradiction-detector";
+import { extractStatistics } from "@/lib/statistics-extractor";
+import { extractQuotes } from "@/lib/quote-extractor";
+import { extractEntities, extractKeywords } from "@/lib/entity-extractor";
+import {
+  DEFAULT_FOLLOW_UP_ROUNDS,
+  DEFAULT_QUERY_BUDGET,
+  findResearchGaps,
+  ResearchFindings,
+} from "@/lib/research-gaps";
+import { loadSeedSources, SeedDocument } from "@/lib/seed-sources";
+import { getKnowledgeBase, KnowledgeOptions } from "@/lib/knowledge-base";
+import {
+  buildComparison,
+  comparisonTopic,
+  DEFAULT_COMPARISON_DIMENSIONS,
+  dimensionQuery,
+  factSubject,
+} from "@/lib/comparison";
+import { createFetchReport, getHttpClient, HttpClient } from "@/lib/http";
+import type { CacheCounter } from "@/lib/cache";
+import type { SearchScope } from "@/lib/search-providers";
+import {
+  credibilityWeight,
+  getSourceCredibilityScorer,
+  SourceAssessment,
+} from "@/lib/source-credibility";
 
 const TARGET_FACTS = 7;
 const MAX_PAGES_TO_FETCH = 5;
+/** Pages fetched from the new results of each follow-up round */
+const FOLLOW_UP_PAGES_TO_FETCH = 2;
+const FOLLOW_UPS_PER_ROUND = 3;
+
+/** Top keyphrases used to expand the topic when ranking sentences by relevance */
+const EXPANSION_KEYWORDS = 5;
+
+export interface ResearchOptions extends SearchScope, KnowledgeOptions {
+  /** HTTP client for all search and page traffic (e.g. a record/replay client) */
+  http?: HttpClient;
+  /** Which source tiers may contribute facts (defaults to "any") */
+  sourcePolicy?: SourcePolicy;
+  /** Overrides for the signal weights that rank candidate facts */
+  scoringWeights?: Partial<FactScoringWeights>;
+  /** Follow-up rounds after the initial queries (0 disables them) */
+  maxRounds?: number;
+  /** Maximum number of search queries across all rounds */
+  queryBudget?: number;
+  /** Pages the user wants used as sources */
+  seedUrls?: string[];
+  /** Uploaded documents (Markdown, PDF, DOCX, plain text) used as sources */
+  uploads?: SeedDocument[];
+  /** Research from the seed URLs and uploads only, without web search */
+  seedOnly?: boolean;
+  /** Comparison dimensions to cover, e.g. "price" (comparison research) */
+  dimensions?: string[];
+  /** Facts to extract (defaults to 7); longer articles need more */
+  targetFacts?: number;
+}
 
 export class ResearchAgent extends BaseAgent {
   constructor(bus: MessageBus) {
@@ -41,85 +109,263 @@ export class ResearchAgent extends BaseAgent {
   /**
    * Public method so the dedicated API route can call it directly
    * without going through the message bus.
+   *
+   * Research runs in rounds: the initial queries, then up to `maxRounds`
+   * rounds of follow-up queries aimed at what the findings so far are
+   * missing, until no gaps remain or `queryBudget` queries have been issued.
+   * Seed URLs and uploads are read up front and always kept as sources;
+   * with `seedOnly` they are the only sources. With `useKnowledgeBase`,
+   * stored facts on related topics join the candidates before any search;
+   * each run's findings are saved to the knowledge base unless
+   * `saveToKnowledgeBase` is false.
    */
-  async research(topic: string): Promise<ResearchResult> {
-    // Build multiple search queries to get broader coverage
-    const queries = this.buildQueries(topic);
+  async research(topic: string, options: ResearchOptions = {}): Promise<ResearchResult> {
+    const fetchReport = createFetchReport();
+    const http = (options.http ?? getHttpClient()).withReport(fetchReport);
+    const { region, language, recency } = options;
+    const maxRounds = options.seedOnly ? 0 : (options.maxRounds ?? DEFAULT_FOLLOW_UP_ROUNDS);
+    const queryBudget = options.queryBudget ?? DEFAULT_QUERY_BUDGET;
+    const searchCache: CacheCounter = { hits: 0, misses: 0 };
+    const pageCache: CacheCounter = { hits: 0, misses: 0 };
 
-    // Run all searches in parallel
-    const allResults: SearchResult[] = [];
+    const scorer = getSourceCredibilityScorer();
+    const searchQueries: ResearchQuery[] = [];
     const searchErrors: string[] = [];
+    const pageContents = new Map<string, PageContent>();
+    const assessments = new Map<string, SourceAssessment>();
+    // Deduplicated results in discovery order, and the query that first found each
+    const allResults: SearchResult[] = [];
+    const seenKeys = new Set<string>();
+    const foundBy = new Map<string, number>();
 
-    const searchPromises = queries.map(async (query) => {
-      try {
-        return await searchWeb(query, { maxResults: 8 });
-      } catch (err) {
-        searchErrors.push(
-          `Query "${query}": ${err instanceof Error ? err.message : String(err)}`
-        );
-        return [];
-      }
-    });
+    // User-supplied sources come first, already read
+    const seeds = await loadSeedSources(
+      { seedUrls: options.seedUrls ?? [], uploads: options.uploads ?? [] },
+      { http, cacheCounter: pageCache }
+    );
+    for (const r of seeds.results) {
+      seenKeys.add(this.resultKey(r.url));
+      assessments.set(r.url, scorer.assessSeed(r.url));
+      pageContents.set(r.url, seeds.pageContents.get(r.url)!);
+      allResults.push(r);
+    }
+    const seedUrls = new Set(seeds.results.map((r) => r.url));
 
-    const searchBatches = await Promise.all(searchPromises);
-    for (const batch of searchBatches) {
-      allResults.push(...batch);
+    // Then stored facts, each stored source standing in for its page
+    const knowledgeBase = getKnowledgeBase();
+    const recalled = options.useKnowledgeBase ? await knowledgeBase.recall(topic) : null;
+    const storedKeys = new Map<string, string>();
+    // Stored sources, by the URL they are used under, for the summary's "used" count
+    const recalledUrls = new Set(recalled?.sources.keys() ?? []);
+    for (const r of recalled?.results ?? []) {
+      const key = this.resultKey(r.url);
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+      storedKeys.set(key, r.url);
+      assessments.set(
+        r.url,
+        r.url.startsWith("upload:") ? scorer.assessSeed(r.url) : scorer.assess(r.url, options.sourcePolicy)
+      );
+      pageContents.set(r.url, recalled!.pageContents.get(r.url)!);
+      allResults.push(r);
     }
 
-    // Deduplicate results by URL
-    const uniqueResults = this.deduplicateResults(allResults);
+    // Build multiple search queries to get broader coverage
+    let planned: Array<Omit<ResearchQuery, "newResults" | "error">> = options.seedOnly
+      ? []
+      : this.buildQueries(topic)
+          .slice(0, queryBudget)
+          .map((query) => ({ query, round: 0, reason: "Initial query" }));
 
-    // Fetch page content for the top results (in parallel, with limit)
-    const pageTexts = new Map<string, string>();
-    const toFetch = uniqueResults.slice(0, MAX_PAGES_TO_FETCH);
+    let uniqueResults: SearchResult[] = [];
+    let sourceWeights = new Map<string, number>();
+    let findings: ResearchFindings = { facts: [], statistics: [], entities: [], keywords: [] };
 
-    const fetchPromises = toFetch.map(async (result) => {
-      const text = await fetchPageContent(result.url);
-      if (text) {
-        pageTexts.set(result.url, text);
-      }
-    });
+    for (let round = 0; ; round++) {
+      // Run this round's searches in parallel
+      const batches = await Promise.all(
+        planned.map(async ({ query }) => {
+          try {
+            return {
+              results: await searchWeb(query, {
+                maxResults: 8,
+                region,
+                language,
+                recency,
+                http,
+                cacheCounter: searchCache,
+              }),
+            };
+          } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            searchErrors.push(`Query "${query}": ${error}`);
+            return { results: [], error };
+          }
+        })
+      );
 
-    await Promise.all(fetchPromises);
+      // Deduplicate results by URL, then drop sources the policy excludes
+      const roundResults: SearchResult[] = [];
+      batches.forEach(({ results, error }, i) => {
+        const index = searchQueries.length;
+        let newResults = 0;
+        for (const r of results) {
+          const key = this.resultKey(r.url);
+          const stored = storedKeys.get(key);
+          if (stored !== undefined) {
+            // Found again on the web: the fresh result replaces the stored one,
+            // whose facts remain its text unless the page is fetched anew
+            storedKeys.delete(key);
+            allResults.splice(allResults.findIndex((x) => x.url === stored), 1);
+            pageContents.set(r.url, pageContents.get(stored)!);
+            if (stored !== r.url) pageContents.delete(stored);
+            recalled!.sources.delete(stored);
+            recalledUrls.delete(stored);
+            recalledUrls.add(r.url);
+          } else if (seenKeys.has(key)) {
+            continue;
+          }
+          seenKeys.add(key);
+          foundBy.set(r.url, index);
+          assessments.set(r.url, scorer.assess(r.url, options.sourcePolicy));
+          allResults.push(r);
+          roundResults.push(r);
+          newResults++;
+        }
+        searchQueries.push({ ...planned[i], newResults, ...(error ? { error } : {}) });
+      });
+      uniqueResults = allResults.filter((r) => assessments.get(r.url)!.allowed);
 
-    // Extract facts
-    const facts: ResearchFact[] = extractFacts(
-      uniqueResults,
-      pageTexts,
-      TARGET_FACTS
-    );
+      // Follow-ups that found nothing new leave the findings as they were
+      if (round > 0 && roundResults.length === 0) break;
+
+      // Fetch page content for the most credible new results (in parallel, with limit)
+      const toFetch = roundResults
+        .filter((r) => assessments.get(r.url)!.allowed)
+        .sort((a, b) => assessments.get(b.url)!.score - assessments.get(a.url)!.score)
+        .slice(0, round === 0 ? MAX_PAGES_TO_FETCH : FOLLOW_UP_PAGES_TO_FETCH);
+
+      await Promise.all(
+        toFetch.map(async (result) => {
+          const content = await fetchPageContent(result.url, { http, cacheCounter: pageCache });
+          if (content) {
+            pageContents.set(result.url, content);
+          }
+        })
+      );
+
+      sourceWeights = new Map(
+        uniqueResults.map((r) => [r.url, credibilityWeight(assessments.get(r.url)!.score)])
+      );
+      findings = this.analyze(topic, uniqueResults, pageContents, sourceWeights, seedUrls, options);
+
+      // Plan follow-ups for what is still missing, within the round and query budgets
+      const remaining = queryBudget - searchQueries.length;
+      if (round >= maxRounds || remaining <= 0) break;
+
+      const gaps = findResearchGaps(topic, findings, uniqueResults, pageContents, {
+        targetFacts: options.targetFacts ?? TARGET_FACTS,
+        asked: new Set(searchQueries.map((q) => q.query.toLowerCase())),
+        limit: Math.min(remaining, FOLLOW_UPS_PER_ROUND),
+        dimensions: options.dimensions,
+      });
+      if (gaps.length === 0) break;
+
+      planned = gaps.map((gap) => ({
+        query: gap.query,
+        round: round + 1,
+        reason: gap.reason,
+        gap: gap.kind,
+        parentIndex: gap.evidenceUrl !== undefined ? foundBy.get(gap.evidenceUrl) : undefined,
+      }));
+    }
+
+    const { facts, statistics, entities, keywords } = findings;
+    const excludedCount = allResults.length - uniqueResults.length;
+
+    // Flag facts that contradict each other so the writer can hedge or drop them
+    const conflicts = detectConflicts(facts);
+
+    // Attributed direct quotes for the writer's pull quote
+    const quotes = extractQuotes(topic, uniqueResults, pageContents, sourceWeights);
+
+    // Build source list from the seeds and all results that contributed facts or quotes
+    const factUrls = new Set([
+      ...seedUrls,
+      ...facts.flatMap((f) => [f.sourceUrl, ...(f.supportingSources ?? []).map((s) => s.url)]),
+      ...quotes.map((q) => q.sourceUrl),
+    ]);
+    const corroborated = facts.filter((f) => (f.supportingSources?.length ?? 1) > 1).length;
+    const followUps = searchQueries.filter((q) => q.round > 0);
+    const toSource = (r: SearchResult): ResearchSource => ({
+      title: r.title,
+      url: r.url,
+      snippet: recalled?.sources.get(r.url)?.snippet ?? r.snippet,
+      // Stored sources keep the date they were actually retrieved
+      retrievedAt: recalled?.sources.get(r.url)?.retrievedAt ?? new Date().toISOString(),
+      provider: r.provider,
+      ...this.sourceMetadata(pageContents.get(r.url)),
+      credibility: this.credibilityOf(assessments.get(r.url)!),
+    });
 
-    // Build source list from all results that contributed facts
-    const factUrls = new Set(facts.map((f) => f.sourceUrl));
     const sources: ResearchSource[] = uniqueResults
       .filter((r) => factUrls.has(r.url))
-      .map((r) => ({
-        title: r.title,
-        url: r.url,
-        snippet: r.snippet,
-        retrievedAt: new Date().toISOString(),
-      }));
+      .map(toSource);
 
     // Add any remaining unique results as supplementary sources
     const remaining = uniqueResults
       .filter((r) => !factUrls.has(r.url))
       .slice(0, 3);
 
-    for (const r of remaining) {
-      sources.push({
-        title: r.title,
-        url: r.url,
-        snippet: r.snippet,
-        retrievedAt: new Date().toISOString(),
-      });
+    sources.push(...remaining.map(toSource));
+
+    // Saving is best-effort, like the cache: a read-only disk never fails research
+    let saved: { added: number; updated: number } | "failed" | null = null;
+    if (options.saveToKnowledgeBase !== false && facts.length > 0) {
+      saved = await knowledgeBase
+        .save({ topic, facts, sources, entities })
+        .catch(() => "failed" as const);
     }
 
+    const cacheLookups =
+      searchCache.hits + searchCache.misses + pageCache.hits + pageCache.misses;
+
     const summary = [
       `Research on "${topic}" complete.`,
       `Found ${facts.length} key facts from ${sources.length} sources.`,
+      seedUrls.size > 0 ? `${seedUrls.size} supplied source(s) read${options.seedOnly ? " (no web search)" : ""}.` : "",
+      seeds.unreadable.length > 0
+        ? `${seeds.unreadable.length} supplied source(s) could not be read: ${seeds.unreadable.join(", ")}.`
+        : "",
+      recalled
+        ? `${recalled.factCount} stored fact(s) recalled from the knowledge base, ${
+            facts.filter((f) => recalledUrls.has(f.sourceUrl)).length
+          } used.`
+        : "",
+      followUps.length > 0
+        ? `${followUps.length} follow-up query(ies) over ${Math.max(...followUps.map((q) => q.round))} round(s).`
+        : "",
+      corroborated > 0 ? `${corroborated} fact(s) corroborated by multiple sources.` : "",
+      conflicts.length > 0 ? `${conflicts.length} conflicting claim(s) flagged.` : "",
+      statistics.length > 0 ? `${statistics.length} statistic(s) parsed.` : "",
+      quotes.length > 0 ? `${quotes.length} attributed quote(s) found.` : "",
       searchErrors.length > 0
         ? `${searchErrors.length} search query(ies) encountered errors.`
         : "",
+      excludedCount > 0
+        ? `${excludedCount} source(s) excluded by the "${options.sourcePolicy ?? "any"}" source policy.`
+        : "",
+      fetchReport.skippedByRobots.length > 0
+        ? `${fetchReport.skippedByRobots.length} page(s) skipped by robots.txt.`
+        : "",
+      saved === "failed"
+        ? "Knowledge base could not be updated."
+        : saved && saved.added + saved.updated > 0
+          ? `Knowledge base: ${saved.added} fact(s) added, ${saved.updated} refreshed.`
+          : "",
+      cacheLookups > 0
+        ? `Cache: ${searchCache.hits + pageCache.hits} hit(s), ${searchCache.misses + pageCache.misses} miss(es).`
+        : "",
     ]
       .filter(Boolean)
       .join(" ");
@@ -129,32 +375,199 @@ export class ResearchAgent extends BaseAgent {
       summary,
       facts,
       sources,
-      searchQueries: queries,
+      searchQueries,
+      conflicts,
+      statistics,
+      quotes,
+      entities,
+      keywords,
+      cacheStats: {
+        searchHits: searchCache.hits,
+        searchMisses: searchCache.misses,
+        pageHits: pageCache.hits,
+        pageMisses: pageCache.misses,
+      },
+      fetchReport,
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Research two or more subjects in parallel and align their facts along
+   * shared dimensions (price, adoption, performance, history by default).
+   * Each subject gets its own run, with follow-ups for dimensions its facts
+   * don't cover yet; the runs are merged into one result whose facts carry
+   * their `subject` and whose `comparison` holds the matrix.
+   */
+  async compare(subjects: string[], options: ResearchOptions = {}): Promise<ResearchResult> {
+    const dimensions = options.dimensions ?? DEFAULT_COMPARISON_DIMENSIONS;
+    const runs = await Promise.all(subjects.map((s) => this.research(s, { ...options, dimensions })));
+
+    // Each fact goes to the subject its text is about, which needn't be the
+    // run that found it; a fact another run already found for that subject
+    // is dropped as a duplicate. `placed[i]` maps run i's fact indexes to
+    // merged ones.
+    const facts: ResearchFact[] = [];
+    const factKeys = new Map<string, number>();
+    const placed = runs.map((run, i) =>
+      run.facts.map((f) => {
+        const subject = factSubject(f.fact, subjects, subjects[i]);
+        const key = `${subject}\n${f.fact}`;
+        if (factKeys.has(key)) return undefined;
+        factKeys.set(key, facts.length);
+        return facts.push({ ...f, subject }) - 1;
+      })
+    );
+
+    // Concatenate the rest of the runs, shifting indexes into facts and searchQueries
+    const searchQueries: ResearchQuery[] = [];
+    const merged = {
+      conflicts: [] as ResearchResult["conflicts"],
+      statistics: [] as ResearchResult["statistics"],
+      quotes: [] as ResearchResult["quotes"],
+    };
+    runs.forEach((run, i) => {
+      const queryOffset = searchQueries.length;
+      searchQueries.push(
+        ...run.searchQueries.map((q) =>
+          q.parentIndex !== undefined ? { ...q, parentIndex: q.parentIndex + queryOffset } : q
+        )
+      );
+      // Conflicts stay within a subject: different figures for different
+      // subjects are the point, so a conflict whose facts now belong to
+      // different subjects (or were dropped) goes
+      for (const c of run.conflicts) {
+        const [a, b] = c.factIndexes.map((index) => placed[i][index]);
+        if (a === undefined || b === undefined || facts[a].subject !== facts[b].subject) continue;
+        merged.conflicts.push({ ...c, factIndexes: [a, b] });
+      }
+      for (const s of run.statistics) {
+        const factIndex = placed[i][s.factIndex];
+        if (factIndex !== undefined) merged.statistics.push({ ...s, factIndex });
+      }
+      merged.quotes.push(...run.quotes);
+    });
+
+    const comparison = buildComparison(subjects, dimensions, facts, merged.statistics);
+    const sources = runs
+      .flatMap((r) => r.sources)
+      .filter((s, i, all) => all.findIndex((o) => o.url === s.url) === i);
+    const topic = comparisonTopic(subjects);
+
+    return {
+      topic,
+      summary: [
+        `Comparison of ${subjects.map((s) => `"${s}"`).join(", ")} across ${dimensions.join(", ")} complete.`,
+        `${comparison.filledCells} of ${subjects.length * dimensions.length} cells covered by a fact.`,
+        ...runs.map((r) => r.summary),
+      ].join(" "),
+      facts,
+      sources,
+      searchQueries,
+      ...merged,
+      entities: this.mergeEntities(runs.map((r) => r.entities)),
+      keywords: this.mergeKeywords(runs.map((r) => r.keywords)),
+      comparison,
+      cacheStats: {
+        searchHits: runs.reduce((sum, r) => sum + r.cacheStats.searchHits, 0),
+        searchMisses: runs.reduce((sum, r) => sum + r.cacheStats.searchMisses, 0),
+        pageHits: runs.reduce((sum, r) => sum + r.cacheStats.pageHits, 0),
+        pageMisses: runs.reduce((sum, r) => sum + r.cacheStats.pageMisses, 0),
+      },
+      fetchReport: {
+        skippedByRobots: runs.flatMap((r) => r.fetchReport.skippedByRobots),
+        retried: runs.flatMap((r) => r.fetchReport.retried),
+        timedOut: runs.flatMap((r) => r.fetchReport.timedOut),
+      },
       completedAt: new Date().toISOString(),
     };
   }
 
+  /** Facts and what they're about, from everything gathered so far. */
+  private analyze(
+    topic: string,
+    results: SearchResult[],
+    pageContents: Map<string, PageContent>,
+    sourceWeights: Map<string, number>,
+    seedUrls: Set<string>,
+    options: ResearchOptions
+  ): ResearchFindings {
+    // Who and what the material is about, for coverage checks and SEO keywords;
+    // the top keyphrases also expand the topic for relevance ranking
+    const entities = extractEntities(results, pageContents);
+    const keywords = extractKeywords(results, pageContents);
+
+    const facts: ResearchFact[] = extractFacts(results, pageContents, options.targetFacts ?? TARGET_FACTS, {
+      topic,
+      expansionTerms: [
+        ...keywords.slice(0, EXPANSION_KEYWORDS).map((k) => k.phrase),
+        ...(options.dimensions ?? []).map(dimensionQuery),
+      ],
+      sourceWeights,
+      weights: options.scoringWeights,
+      fullTextUrls: seedUrls,
+    });
+
+    // Parse the figures the facts state into structured, unit-normalized statistics
+    const statistics = extractStatistics(facts);
+
+    return { facts, statistics, entities, keywords };
+  }
+
+  /** Entities of several runs, counts summed by name, most widely sourced first. */
+  private mergeEntities(lists: ResearchEntity[][]): ResearchEntity[] {
+    const byName = new Map<string, ResearchEntity>();
+    for (const e of lists.flat()) {
+      const seen = byName.get(e.name.toLowerCase());
+      byName.set(
+        e.name.toLowerCase(),
+        seen
+          ? { ...seen, mentions: seen.mentions + e.mentions, sourceCount: seen.sourceCount + e.sourceCount }
+          : e
+      );
+    }
+    return [...byName.values()].sort((a, b) => b.sourceCount - a.sourceCount || b.mentions - a.mentions);
+  }
+
+  /** Keywords of several runs, best score and summed source counts by phrase. */
+  private mergeKeywords(lists: ResearchKeyword[][]): ResearchKeyword[] {
+    const byPhrase = new Map<string, ResearchKeyword>();
+    for (const k of lists.flat()) {
+      const seen = byPhrase.get(k.phrase);
+      byPhrase.set(
+        k.phrase,
+        seen ? { ...seen, score: Math.max(seen.score, k.score), sourceCount: seen.sourceCount + k.sourceCount } : k
+      );
+    }
+    return [...byPhrase.values()].sort((a, b) => b.score - a.score);
+  }
+
+  /** Bibliographic fields from a fetched page; empty when the page wasn't fetched. */
+  private sourceMetadata(content: PageContent | undefined): SourceMetadata {
+    if (!content) return {};
+    return {
+      author: content.byline,
+      publisher: content.publisher,
+      publishedAt: content.publishedAt,
+      language: content.language,
+      canonicalUrl: content.canonicalUrl,
+    };
+  }
+
+  private credibilityOf({ score, tier, reason }: SourceAssessment): SourceCredibility {
+    return { score, tier, reason };
+  }
+
   private buildQueries(topic: string): string[] {
     return [
       `${topic} key facts`,
-      `${topic} latest information 2025`,
+      `${topic} latest developments`,
       `${topic} statistics and data`,
     ];
   }
 
-  private deduplicateResults(results: SearchResult[]): SearchResult[] {
-    const seen = new Set<string>();
-    const unique: SearchResult[] = [];
-
-    for (const r of results) {
-      // Normalize URL for dedup (strip trailing slash and protocol)
-      const key = r.url.replace(/^https?:\/\//, "").replace(/\/$/, "");
-      if (!seen.has(key)) {
-        seen.add(key);
-        unique.push(r);
-      }
-    }
-
-    return unique;
+  /** Normalized URL for dedup (strip trailing slash and protocol) */
+  private resultKey(url: string): string {
+    return url.replace(/^https?:\/\//, "").replace(/\/$/, "");
   }
 }
@@ -37,17 +37,170 @@ export interface PipelineResult {
   finalOutput: Record<string, unknown>;
 }
 
+export interface FactSource {
+  url: string;
+  title: string;
+  /** 1-based page, for paginated sources such as PDFs */
+  page?: number;
+}
+
 export interface ResearchFact {
+  /** Strongest phrasing of the claim across its sources */
   fact: string;
   sourceUrl: string;
   sourceTitle: string;
+  /** 1-based page the fact was taken from, for paginated sources such as PDFs */
+  page?: number;
+  /** Every source stating the claim, primary source first (set by research) */
+  supportingSources?: FactSource[];
+  /** 0–1, from the number of independent domains corroborating the claim (set by research) */
+  confidence?: number;
+  /** How the fact's ranking score was made up (set by research, for debugging) */
+  scoreBreakdown?: FactScoreBreakdown;
+  /** Which of the compared topics the fact is about (comparison research) */
+  subject?: string;
+}
+
+/**
+ * Weights of the signals that rank candidate sentences. Each signal is
+ * 0–1 (relevance is BM25 against the topic, scaled to the best sentence in
+ * the pool), multiplied by its weight; penalties are subtracted.
+ */
+export interface FactScoringWeights {
+  /** Topical relevance to the topic and expanded query terms */
+  relevance: number;
+  /** States a statistic; other numbers count for less */
+  statistic: number;
+  /** Medium-length sentence */
+  length: number;
+  /** Cites a study, report or source ("according to") */
+  attribution: number;
+  /** Mentions a recent year */
+  year: number;
+  /** Per extra independent domain stating the claim */
+  corroboration: number;
+  question: number;
+  promotional: number;
+  boilerplate: number;
+}
+
+/** Weighted contribution of each signal to a fact's score */
+export interface FactScoreBreakdown {
+  relevance: number;
+  statistic: number;
+  length: number;
+  attribution: number;
+  year: number;
+  /** Sum of the question, promotional and boilerplate penalties (≤ 0) */
+  penalties: number;
+  /** Credibility multiplier applied to a positive sentence score */
+  sourceWeight: number;
+  corroboration: number;
+  total: number;
+}
+
+/** Bibliographic details harvested from a fetched page (JSON-LD, OpenGraph, meta tags) */
+export interface SourceMetadata {
+  author?: string;
+  publisher?: string;
+  /** ISO 8601 publication date */
+  publishedAt?: string;
+  /** BCP 47 language tag */
+  language?: string;
+  canonicalUrl?: string;
+}
+
+/** Trust tier of a source's domain, best first */
+export type SourceTier = "primary" | "reputable" | "general" | "low";
+
+export interface SourceCredibility {
+  /** 0–1; weights how strongly facts from this source are preferred */
+  score: number;
+  tier: SourceTier;
+  /** Why the tier was assigned (e.g. "government domain", "allowlist") */
+  reason: string;
 }
 
-export interface ResearchSource {
+/**
+ * Which sources research may use:
+ * - "any": everything except denylisted domains (default)
+ * - "no-low": also drop low-quality (content farm, user-generated) domains
+ * - "reputable": only primary and reputable domains
+ * - "primary": only primary sources (government, academic, allowlisted)
+ * - "allowlist": only domains on SOURCE_ALLOWLIST
+ */
+export type SourcePolicy = "any" | "no-low" | "reputable" | "primary" | "allowlist";
+
+export interface ResearchSource extends SourceMetadata {
   title: string;
   url: string;
   snippet: string;
   retrievedAt: string;
+  /** ID of the search provider that returned this source (e.g. "google", "wikipedia") */
+  provider?: string;
+  credibility?: SourceCredibility;
+}
+
+export interface ResearchCacheStats {
+  searchHits: number;
+  searchMisses: number;
+  pageHits: number;
+  pageMisses: number;
+}
+
+export interface ResearchFetchReport {
+  /** URLs not fetched because robots.txt disallows them */
+  skippedByRobots: string[];
+  /** Requests retried after 429/5xx responses, with their final status */
+  retried: Array<{ url: string; attempts: number; lastStatus: number }>;
+  /** URLs whose request timed out */
+  timedOut: string[];
+}
+
+export type ConflictKind = "numeric" | "date" | "negation";
+
+/** Two facts that make incompatible claims about the same subject */
+export interface ResearchConflict {
+  kind: ConflictKind;
+  /** Indexes into ResearchResult.facts; the first is the better-supported claim */
+  factIndexes: [number, number];
+  claims: [string, string];
+  /** The disagreeing values as written, e.g. ["12 GW", "15 GW"] or ["2019", "2020"] */
+  values?: [string, string];
+  description: string;
+  /**
+   * How the writer handles it: "hedge" presents the range of figures,
+   * "drop" keeps only the better-supported claim
+   */
+  resolution: "hedge" | "drop";
+}
+
+export type StatisticKind = "percentage" | "currency" | "quantity" | "count" | "ratio";
+
+/** A figure parsed out of a research fact, with its unit normalized */
+export interface ResearchStatistic {
+  kind: StatisticKind;
+  /**
+   * Magnitude words applied: "1.2 million" and "1,200,000" are both 1200000.
+   * The low end of a range; a share from 0 to 1 for a ratio ("3 of 10" is 0.3)
+   */
+  value: number;
+  /** The high end of a range ("between 12,000 and 18,000 euros") */
+  high?: number;
+  /**
+   * "%", "pp" (percentage points), an ISO 4217 code ("USD"), a unit symbol
+   * ("GW", "km") or the counted noun ("users"); empty for a bare count
+   */
+  unit: string;
+  /** The figure as written in the fact, e.g. "$1.2bn" */
+  text: string;
+  /** Year the figure applies to, when the fact states one */
+  year?: number;
+  /** Index into ResearchResult.facts */
+  factIndex: number;
+  sourceUrl: string;
+  sourceTitle: string;
+  page?: number;
 }
 
 export interface ResearchResult {
@@ -55,30 +208,164 @@ export interface ResearchResult {
   summary: string;
   facts: ResearchFact[];
   sources: ResearchSource[];
-  searchQueries: string[];
+  /** Every query issued, initial queries first, then follow-ups round by round */
+  searchQueries: ResearchQuery[];
+  /** Contradictory fact pairs (different figures, dates or negated claims) */
+  conflicts: ResearchConflict[];
+  /** Figures stated in the facts, in fact order, one per value/unit/year */
+  statistics: ResearchStatistic[];
+  /** Attributed quotes from fetched pages, best first */
+  quotes: ResearchQuote[];
+  /** People, organizations, places and products, most widely sourced first */
+  entities: ResearchEntity[];
+  keywords: ResearchKeyword[];
+  /** Set by comparison research: the subjects' facts aligned by dimension */
+  comparison?: ResearchComparison;
+  cacheStats: ResearchCacheStats;
+  fetchReport: ResearchFetchReport;
   completedAt: string;
 }
 
+/** What a follow-up query tries to fill in */
+export type ResearchGapKind = "facts" | "subtopic" | "entity" | "statistics" | "dimension";
+
+/** A search query and why it was issued; follow-ups form a tree via `parentIndex` */
+export interface ResearchQuery {
+  query: string;
+  /** 0 for the initial queries, then 1, 2, … for each follow-up round */
+  round: number;
+  reason: string;
+  /** Set on follow-up queries */
+  gap?: ResearchGapKind;
+  /** Index into searchQueries of the query whose results revealed the gap */
+  parentIndex?: number;
+  /** Results returned that no earlier query had found */
+  newResults: number;
+  /** Set when the search failed */
+  error?: string;
+}
+
+/** What one subject's research says on one comparison dimension */
+export interface ComparisonCell {
+  subject: string;
+  dimension: string;
+  /** Index into ResearchResult.facts; the other fields are unset when no fact covers the cell */
+  factIndex?: number;
+  fact?: string;
+  /** The figure the cell stands for, e.g. "15,000 euros" or "1917" */
+  value?: string;
+  sourceUrl?: string;
+  sourceTitle?: string;
+  page?: number;
+}
+
+export interface ComparisonRow {
+  dimension: string;
+  /** One cell per subject, in `subjects` order */
+  cells: ComparisonCell[];
+}
+
+/** Facts of several researched subjects aligned along shared dimensions */
+export interface ResearchComparison {
+  subjects: string[];
+  dimensions: string[];
+  rows: ComparisonRow[];
+  /** Cells a fact covers, out of subjects × dimensions */
+  filledCells: number;
+}
+
+/** Direct speech found on a fetched page, attributed to a named speaker */
+export interface ResearchQuote {
+  /** The quoted words, without quotation marks */
+  text: string;
+  speaker: string;
+  /** Title or affiliation when the page gives one, e.g. "CEO of Acme" */
+  role?: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  page?: number;
+}
+
+export type EntityType = "person" | "organization" | "place" | "product" | "other";
+
+/** A named entity found across the research snippets and pages */
+export interface ResearchEntity {
+  name: string;
+  type: EntityType;
+  /** Times mentioned across all snippets and pages */
+  mentions: number;
+  /** Distinct sources mentioning it */
+  sourceCount: number;
+}
+
+/** A key phrase of the research material */
+export interface ResearchKeyword {
+  phrase: string;
+  /** Relative to the top keyword (1.0) */
+  score: number;
+  sourceCount: number;
+}
+
 export type ArticleTone = "professional" | "casual" | "academic" | "journalistic";
 
-export interface ArticleCitation {
+/** Length presets: brief ~150, standard ~300, feature ~800, long-form ~1500 words */
+export type ArticleLength = "brief" | "standard" | "feature" | "long-form";
+
+/** The piece's shape, independent of its tone; "article" is headed prose sections */
+export type ArticleFormat = "article" | "listicle" | "how-to" | "faq" | "press-release" | "newsletter";
+
+export interface ArticleCitation extends SourceMetadata {
   index: number;
   sourceTitle: string;
   sourceUrl: string;
 }
 
+/** How many of the research's key entities and keywords an article mentions */
+export interface TopicCoverage {
+  /** Share of the key terms mentioned, 0–1 */
+  score: number;
+  covered: string[];
+  missing: string[];
+}
+
+/** Where a section sits in the article's arc, which also sets the section order */
+export type OutlineSectionRole = "background" | "current" | "data" | "outlook";
+
+export interface OutlineSection {
+  heading: string;
+  role: OutlineSectionRole;
+  /** Indexes into the research facts, in the order the section tells them */
+  factIndexes: number[];
+}
+
+/** The article's sections before they are written; editable before approval */
+export interface ArticleOutline {
+  topic: string;
+  sections: OutlineSection[];
+}
+
 export interface WriterResult {
   title: string;
   article: string;
   tone: ArticleTone;
+  format: ArticleFormat;
+  /** Words in the article body, without the Sources list */
   wordCount: number;
+  /** Words in the Sources list */
+  referencesWordCount: number;
+  /** The body length the writer aimed for, within ±10% when research gives enough material */
+  targetWordCount: number;
   citations: ArticleCitation[];
+  /** Present when the writer was given research entities or keywords */
+  coverage?: TopicCoverage;
+  /** The outline the article follows; absent for comparison articles */
+  outline?: ArticleOutline;
   topic: string;
   generatedAt: string;
 }
 
 export interface EditChange {
-  type: "grammar" | "clarity" | "redundancy" | "headline" | "structure";
+  type: "grammar" | "clarity" | "redundancy" | "headline" | "structure" | "numbers";
   original: string;
   replacement: string;
   reason: string;
@@ -100,13 +387,52 @@ export interface EditorResult {
   editedArticle: string;
   changes: EditChange[];
   qualityScore: QualityScore;
+  /** Topic plus the research key terms the edited article mentions, for meta keywords */
+  seoKeywords: string[];
+  /** Words in the edited body, without the Sources list */
   wordCount: number;
+  /** Words in the Sources list */
+  referencesWordCount: number;
   topic: string;
   tone: ArticleTone;
+  format: ArticleFormat;
   citations: ArticleCitation[];
   editedAt: string;
 }
 
+/** A key fact of an article, with the article's citation numbers for it */
+export interface RepurposedFact {
+  text: string;
+  citations: number[];
+}
+
+export interface ThreadPost {
+  text: string;
+  /** Characters as X counts them: every link counts as 23 */
+  length: number;
+}
+
+export interface EmailTeaser {
+  subject: string;
+  body: string;
+}
+
+/** A finished article repurposed for social channels, email and search */
+export interface RepurposeResult {
+  topic: string;
+  title: string;
+  /** The facts the derivatives are built from, figures first */
+  keyFacts: RepurposedFact[];
+  /** X/Twitter thread, posts numbered "1/5"; each within `postLimit` characters */
+  thread: ThreadPost[];
+  postLimit: number;
+  linkedInPost: string;
+  emailTeaser: EmailTeaser;
+  /** At most 160 characters, without links: search results show it as plain text */
+  metaDescription: string;
+  repurposedAt: string;
+}
+
 export type OrchestrationStepStatus =
   | "pending"
   | "running"
@@ -122,13 +448,19 @@ export interface OrchestrationStep {
 }
 
 export interface OrchestrationResult {
-  status: "completed" | "partial" | "failed";
+  /** "awaiting-approval": research is done and the outline waits to be approved or edited */
+  status: "completed" | "partial" | "failed" | "awaiting-approval";
   topic: string;
   tone: ArticleTone;
+  format: ArticleFormat;
   steps: OrchestrationStep[];
   totalDurationMs: number;
   research: ResearchResult | null;
+  /** The outline awaiting approval, or the one the article follows */
+  outline: ArticleOutline | null;
   article: WriterResult | null;
   edited: EditorResult | null;
+  /** Social posts, email teaser and meta description; only when requested */
+  derivatives: RepurposeResult | null;
   completedAt: string;
 }
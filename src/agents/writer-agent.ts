@@ -1,22 +1,48 @@
 import { BaseAgent } from "./base-agent";
 import {
   AgentMessage,
+  ArticleFormat,
+  ArticleOutline,
   ArticleTone,
+  ResearchComparison,
+  ResearchConflict,
+  ResearchEntity,
   ResearchFact,
+  ResearchKeyword,
+  ResearchQuote,
   ResearchSource,
+  ResearchStatistic,
   WriterResult,
 } from "./types";
 import { MessageBus } from "@/lib/message-bus";
-import { composeArticle } from "@/lib/article-composer";
+import { composeArticle, factBudget, LENGTH_PRESETS, sectionBudget } from "@/lib/article-composer";
+import { buildOutline } from "@/lib/article-outline";
 
 const DEFAULT_TONE: ArticleTone = "professional";
-const TARGET_WORD_COUNT = 300;
+const DEFAULT_FORMAT: ArticleFormat = "article";
 
 export interface WriteInput {
   topic: string;
   facts: ResearchFact[];
   sources: ResearchSource[];
   tone?: ArticleTone;
+  /** Listicle, how-to, FAQ, press release or newsletter instead of an article; not for comparisons */
+  format?: ArticleFormat;
+  /** Body length to aim for; defaults to the standard preset (~300 words) */
+  targetWordCount?: number;
+  /** Conflicting fact pairs from research — hedged or the weaker claim dropped */
+  conflicts?: ResearchConflict[];
+  /** Parsed figures from research, for a "By the numbers" list */
+  statistics?: ResearchStatistic[];
+  /** Attributed quotes from research; journalistic and professional articles use one as a pull quote */
+  quotes?: ResearchQuote[];
+  /** Research entities and keywords, to report the article's topical coverage */
+  entities?: ResearchEntity[];
+  keywords?: ResearchKeyword[];
+  /** Comparison matrix from comparison research; the article then compares the subjects in a table */
+  comparison?: ResearchComparison;
+  /** Approved or edited outline; its fact indexes point into `facts`. Drafted when absent */
+  outline?: ArticleOutline;
 }
 
 export class WriterAgent extends BaseAgent {
@@ -26,10 +52,11 @@ export class WriterAgent extends BaseAgent {
         id: "writer",
         name: "Writer Agent",
         description:
-          "Generates a ~300-word article from research data, maintaining tone and citing sources",
+          "Generates an article, listicle, how-to, FAQ, press release or newsletter of a chosen length (~300 words by default) from research data, maintaining tone and citing sources",
         capabilities: [
           "article-generation",
           "tone-adaptation",
+          "format-adaptation",
           "source-citation",
         ],
       },
@@ -49,12 +76,50 @@ export class WriterAgent extends BaseAgent {
     );
   }
 
+  /**
+   * Draft the outline `write` would follow, for approval or editing
+   * before the article is written. It holds as many facts and sections as
+   * the target length has room for in the format.
+   */
+  outline(
+    input: Pick<WriteInput, "topic" | "facts" | "format" | "targetWordCount" | "conflicts" | "entities" | "keywords">
+  ): ArticleOutline {
+    const { topic, facts, format, targetWordCount = LENGTH_PRESETS.standard, conflicts, entities, keywords } = input;
+
+    if (!facts || facts.length === 0) {
+      throw new Error("At least one research fact is required to outline an article");
+    }
+
+    return buildOutline({
+      topic,
+      facts: facts.slice(0, factBudget(targetWordCount, format)),
+      conflicts: Array.isArray(conflicts) ? conflicts : [],
+      entities: Array.isArray(entities) ? entities : [],
+      keywords: Array.isArray(keywords) ? keywords : [],
+      maxSections: sectionBudget(targetWordCount),
+    });
+  }
+
   /**
    * Public method so the dedicated API route can call it directly
    * without going through the message bus.
    */
   write(input: WriteInput): WriterResult {
-    const { topic, facts, sources, tone = DEFAULT_TONE } = input;
+    const {
+      topic,
+      facts,
+      sources,
+      tone = DEFAULT_TONE,
+      format = DEFAULT_FORMAT,
+      targetWordCount = LENGTH_PRESETS.standard,
+      conflicts,
+      statistics,
+      quotes,
+      entities,
+      keywords,
+      comparison,
+      outline,
+    } = input;
 
     if (!facts || facts.length === 0) {
       throw new Error("At least one research fact is required to write an article");
@@ -65,15 +130,28 @@ export class WriterAgent extends BaseAgent {
       facts,
       sources: sources ?? [],
       tone,
-      targetWordCount: TARGET_WORD_COUNT,
+      format,
+      targetWordCount,
+      conflicts: Array.isArray(conflicts) ? conflicts : [],
+      statistics: Array.isArray(statistics) ? statistics : [],
+      quotes: Array.isArray(quotes) ? quotes : [],
+      entities: Array.isArray(entities) ? entities : [],
+      keywords: Array.isArray(keywords) ? keywords : [],
+      comparison: comparison && Array.isArray(comparison.rows) ? comparison : undefined,
+      outline,
     });
 
     return {
       title: composed.title,
       article: composed.article,
       tone,
+      format,
       wordCount: composed.wordCount,
+      referencesWordCount: composed.referencesWordCount,
+      targetWordCount,
       citations: composed.citations,
+      coverage: composed.coverage,
+      outline: composed.outline,
       topic,
       generatedAt: new Date().toISOString(),
     };
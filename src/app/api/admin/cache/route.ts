@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CACHE_NAMESPACES, CacheNamespace, getCache } from "@/lib/cache";
+
+function parseNamespace(value: string | null): CacheNamespace | undefined | null {
+  if (value === null) return undefined;
+  return CACHE_NAMESPACES.includes(value as CacheNamespace)
+    ? (value as CacheNamespace)
+    : null;
+}
+
+/**
+ * List cache entries. Optional query params:
+ *   namespace — "search" | "page"
+ *   expired   — "true" to list only expired entries
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const namespace = parseNamespace(params.get("namespace"));
+
+  if (namespace === null) {
+    return NextResponse.json(
+      { error: `Invalid namespace. Must be one of: ${CACHE_NAMESPACES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const cache = getCache();
+  let entries = await cache.list(namespace);
+  if (params.get("expired") === "true") {
+    entries = entries.filter((e) => e.expired);
+  }
+
+  return NextResponse.json({
+    enabled: cache.enabled,
+    ttlSeconds: cache.ttlSeconds,
+    count: entries.length,
+    totalBytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0),
+    entries,
+    usage: {
+      "GET ?namespace=search|page&expired=true": "list entries (filters optional)",
+      "DELETE ?namespace=search|page&key=...&expired=true":
+        "purge entries (filters optional; no filters purges everything)",
+    },
+  });
+}
+
+/**
+ * Purge cache entries. Optional query params:
+ *   namespace — "search" | "page"
+ *   key       — exact entry key (as shown by GET)
+ *   expired   — "true" to remove only expired entries
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const namespace = parseNamespace(params.get("namespace"));
+    const key = params.get("key") ?? undefined;
+
+    if (namespace === null) {
+      return NextResponse.json(
+        { error: `Invalid namespace. Must be one of: ${CACHE_NAMESPACES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (key && !namespace) {
+      return NextResponse.json(
+        { error: "A 'namespace' is required when purging by 'key'" },
+        { status: 400 }
+      );
+    }
+
+    const removed = await getCache().purge({
+      namespace,
+      key,
+      expiredOnly: params.get("expired") === "true",
+    });
+
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Cache purge error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Cache purge failed" },
+      { status: 500 }
+    );
+  }
+}
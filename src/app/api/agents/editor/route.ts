@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getMessageBus } from "@/lib/message-bus";
 import { EditorAgent } from "@/agents";
-import type { ArticleCitation, ArticleTone } from "@/agents";
+import { ARTICLE_FORMATS } from "@/lib/article-composer";
+import type { ArticleCitation, ArticleFormat, ArticleTone, ResearchEntity, ResearchKeyword } from "@/agents";
 
 const VALID_TONES: ArticleTone[] = [
   "professional",
@@ -18,7 +19,10 @@ export async function POST(request: NextRequest) {
     const article: string | undefined = body.article;
     const topic: string | undefined = body.topic;
     const tone: ArticleTone = body.tone ?? "professional";
+    const format: ArticleFormat = body.format ?? "article";
     const citations: ArticleCitation[] = body.citations ?? [];
+    const entities: ResearchEntity[] | undefined = body.entities;
+    const keywords: ResearchKeyword[] | undefined = body.keywords;
 
     if (!article || typeof article !== "string" || article.trim().length === 0) {
       return NextResponse.json(
@@ -41,6 +45,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!ARTICLE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${ARTICLE_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     const bus = getMessageBus();
     bus.clear();
     const agent = new EditorAgent(bus);
@@ -50,7 +61,10 @@ export async function POST(request: NextRequest) {
       article: article.trim(),
       topic: topic.trim(),
       tone,
+      format,
       citations,
+      entities,
+      keywords,
     });
 
     return NextResponse.json(result);
@@ -77,20 +91,24 @@ export async function GET() {
         article: "string (required) — the article text to edit",
         topic: "string (required) — the article topic",
         tone: '(optional) "professional" | "casual" | "academic" | "journalistic" — defaults to "professional"',
+        format:
+          '(optional) the writer\'s format — other than "article", the title naming the format is kept; defaults to "article"',
         citations:
           "(optional) array of { index, sourceTitle, sourceUrl } passed through from the writer",
+        entities: "(optional) ResearchResult.entities — candidates for SEO keywords",
+        keywords: "(optional) ResearchResult.keywords — candidates for SEO keywords",
       },
     },
     tip: "You can pipe the output of POST /api/agents/writer directly into this endpoint.",
     response: {
       originalTitle: "string",
-      editedTitle: "string — suggested improved headline",
+      editedTitle: "string — suggested improved headline, or the title as given for formats other than article",
       headlineSuggestions: ["string — 3 alternative headlines"],
       originalArticle: "string",
       editedArticle: "string — the improved article text",
       changes: [
         {
-          type: "grammar | clarity | redundancy | headline | structure",
+          type: "grammar | clarity | redundancy | headline | structure | numbers",
           original: "string",
           replacement: "string",
           reason: "string — explanation of the change",
@@ -103,9 +121,12 @@ export async function GET() {
         structure: "number",
         engagement: "number",
       },
-      wordCount: "number",
+      seoKeywords: ["string — the topic, then research entities/keywords the edited article mentions"],
+      wordCount: "number — words in the edited body, without the Sources list",
+      referencesWordCount: "number — words in the Sources list",
       topic: "string",
       tone: "string",
+      format: "string",
       citations: "array — passed through from input",
       editedAt: "ISO 8601 timestamp",
     },
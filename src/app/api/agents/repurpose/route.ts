@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMessageBus } from "@/lib/message-bus";
+import { RepurposeAgent } from "@/agents";
+import { parseRepurposeOptions, parseRepurposeSources } from "@/lib/social-derivatives";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Accept the full EditorResult shape or just title, article and topic
+    const title: string | undefined = body.editedTitle ?? body.title;
+    const article: string | undefined = body.editedArticle ?? body.article;
+    const topic: string | undefined = body.topic;
+
+    if (!article || typeof article !== "string" || article.trim().length === 0) {
+      return NextResponse.json(
+        { error: "A non-empty 'editedArticle' or 'article' string is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
+      return NextResponse.json(
+        { error: "A non-empty 'topic' string is required" },
+        { status: 400 }
+      );
+    }
+
+    const sources = parseRepurposeSources(body);
+    if ("error" in sources) {
+      return NextResponse.json({ error: sources.error }, { status: 400 });
+    }
+
+    const parsed = parseRepurposeOptions(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const bus = getMessageBus();
+    bus.clear();
+    const agent = new RepurposeAgent(bus);
+
+    const result = agent.repurpose({
+      title: typeof title === "string" && title.trim() ? title.trim() : topic.trim(),
+      article: article.trim(),
+      topic: topic.trim(),
+      ...sources.sources,
+      ...parsed.options,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Repurpose agent error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Repurposing failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    agent: "repurpose",
+    description:
+      "Turns a finished article into an X thread, a LinkedIn post, an email teaser and a meta description that keep its key facts and sources",
+    usage: {
+      method: "POST",
+      body: {
+        editedTitle: "string (optional) — or title; defaults to the topic",
+        editedArticle: "string (required) — or article; the finished article with its Sources list",
+        topic: "string (required) — the article topic",
+        citations:
+          "(optional) array of { index, sourceTitle, sourceUrl } — the article's [n] markers; facts keep their links",
+        seoKeywords: "(optional) string[] — the editor's SEO keywords; the first three become hashtags",
+        postLimit: "(optional) characters per X post, 100–4000 — defaults to 280",
+        articleUrl: "(optional) http(s) URL where the full article is published — linked from the thread, LinkedIn post and email",
+      },
+    },
+    tip: "You can pipe the output of POST /api/agents/editor directly into this endpoint.",
+    response: {
+      topic: "string",
+      title: "string",
+      keyFacts: [{ text: "string — a cited statement of the article", citations: "number[] — its [n] markers" }],
+      thread: [
+        {
+          text: 'string — numbered "1/6"; fact posts end with their source links',
+          length: "number — characters as X counts them (every link is 23), at most postLimit",
+        },
+      ],
+      postLimit: "number",
+      linkedInPost: "string — at most 3000 characters: takeaways with [n] markers, a Sources list, hashtags",
+      emailTeaser: { subject: "string — at most 60 characters", body: "string" },
+      metaDescription: "string — at most 160 characters, without links",
+      repurposedAt: "ISO 8601 timestamp",
+    },
+  });
+}
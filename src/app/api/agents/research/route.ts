@@ -1,24 +1,85 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getMessageBus } from "@/lib/message-bus";
 import { ResearchAgent } from "@/agents";
+import type { FactScoringWeights, SourcePolicy } from "@/agents";
+import { parseSearchScope } from "@/lib/search-providers";
+import { SOURCE_POLICIES } from "@/lib/source-credibility";
+import { parseScoringWeights } from "@/lib/fact-extractor";
+import { parseResearchDepth } from "@/lib/research-gaps";
+import { parseSeedSources, readResearchRequest } from "@/lib/seed-sources";
+import { parseKnowledgeOptions } from "@/lib/knowledge-base";
+import { parseComparison } from "@/lib/comparison";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const { body, uploads } = await readResearchRequest(request);
     const topic = body.topic;
 
-    if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
+    const comparison = parseComparison(body);
+    if ("error" in comparison) {
+      return NextResponse.json({ error: comparison.error }, { status: 400 });
+    }
+    const { topics, dimensions } = comparison.comparison;
+
+    if (!topics && (!topic || typeof topic !== "string" || topic.trim().length === 0)) {
+      return NextResponse.json(
+        { error: "A non-empty 'topic' string, or 2–4 'topics' to compare, is required in the request body" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSearchScope(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const sourcePolicy = body.sourcePolicy as SourcePolicy | undefined;
+    if (sourcePolicy !== undefined && !SOURCE_POLICIES.includes(sourcePolicy)) {
       return NextResponse.json(
-        { error: "A non-empty 'topic' string is required in the request body" },
+        { error: `Invalid sourcePolicy. Must be one of: ${SOURCE_POLICIES.join(", ")}` },
         { status: 400 }
       );
     }
 
+    let scoringWeights: Partial<FactScoringWeights> | undefined;
+    if (body.scoringWeights !== undefined) {
+      const weights = parseScoringWeights(body.scoringWeights);
+      if ("error" in weights) {
+        return NextResponse.json({ error: weights.error }, { status: 400 });
+      }
+      scoringWeights = weights.weights;
+    }
+
+    const depth = parseResearchDepth(body);
+    if ("error" in depth) {
+      return NextResponse.json({ error: depth.error }, { status: 400 });
+    }
+
+    const parsedSeeds = await parseSeedSources(body, uploads);
+    if ("error" in parsedSeeds) {
+      return NextResponse.json({ error: parsedSeeds.error }, { status: 400 });
+    }
+
+    const knowledge = parseKnowledgeOptions(body);
+    if ("error" in knowledge) {
+      return NextResponse.json({ error: knowledge.error }, { status: 400 });
+    }
+
     const bus = getMessageBus();
     bus.clear();
     const agent = new ResearchAgent(bus);
 
-    const result = await agent.research(topic.trim());
+    const options = {
+      ...parsed.scope,
+      sourcePolicy,
+      scoringWeights,
+      ...depth.depth,
+      ...parsedSeeds.seeds,
+      ...knowledge.knowledge,
+    };
+    const result = topics
+      ? await agent.compare(topics, { ...options, dimensions })
+      : await agent.research((topic as string).trim(), options);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -39,7 +100,32 @@ export async function GET() {
       "Searches the web for a given topic and returns 5-7 key facts with sources",
     usage: {
       method: "POST",
-      body: { topic: "string (required)" },
+      contentType:
+        'application/json, or multipart/form-data to upload files — any file field is an upload; JSON-valued fields (scoringWeights, maxRounds, queryBudget, seedOnly, useKnowledgeBase, saveToKnowledgeBase, topics, dimensions) are sent as JSON strings',
+      body: {
+        topic: "string (required unless topics is given)",
+        topics:
+          '(optional) array of 2–4 subjects to compare, e.g. ["heat pumps", "gas boilers"] — each is researched in parallel and the result gets a comparison matrix',
+        dimensions:
+          '(optional, with topics) array of up to 8 dimensions to compare on; defaults to ["price", "adoption", "performance", "history"]; others are matched by name',
+        seedUrls:
+          "(optional) array of up to 10 http(s) URLs to use as sources — in form data, repeat the field or put one URL per line",
+        files: "(optional, multipart only) up to 10 Markdown, PDF, DOCX or plain-text files, 10 MB each",
+        seedOnly: "(optional) boolean — research from the seed URLs and files only, without web search",
+        useKnowledgeBase:
+          "(optional) boolean — recall stored facts on related topics from the knowledge base and merge them with fresh results",
+        saveToKnowledgeBase: "(optional) boolean — save this run's facts, sources and entities to the knowledge base; defaults to true",
+        region: '(optional) two-letter country code, e.g. "us", "de", "gb"',
+        language: '(optional) language code, e.g. "en", "de" — also picks the Wikipedia edition',
+        recency: '(optional) "day" | "week" | "month" | "year" — only recent results',
+        sourcePolicy:
+          '(optional) "any" | "no-low" | "reputable" | "primary" | "allowlist" — which source tiers may contribute facts; defaults to "any"',
+        maxRounds:
+          "(optional) number 0–5 — follow-up rounds that search for missing subtopics, entities, figures or facts; defaults to 2, 0 disables them",
+        queryBudget: "(optional) number 1–20 — maximum search queries across all rounds; defaults to 9",
+        scoringWeights:
+          "(optional) { relevance?, statistic?, length?, attribution?, year?, corroboration?, question?, promotional?, boilerplate? } — non-negative overrides of the fact-ranking weights (defaults 10, 7, 3, 3, 2, 3, 5, 10, 10)",
+      },
     },
     response: {
       topic: "string",
@@ -49,6 +135,24 @@ export async function GET() {
           fact: "A factual statement extracted from search results",
           sourceUrl: "https://...",
           sourceTitle: "Title of the source page",
+          page: "number (optional) — page the fact came from, for PDF sources",
+          supportingSources: [
+            { url: "string", title: "string", page: "number (optional)" },
+          ],
+          confidence:
+            "number 0–1 — 0.5 for one domain, 0.75 for two, 0.88 for three independent domains…",
+          subject: "(optional) string — which of the compared topics the fact is about (comparison research)",
+          scoreBreakdown: {
+            relevance: "number — BM25 relevance to the topic and top keywords (0–1) × weight",
+            statistic: "number",
+            length: "number",
+            attribution: "number",
+            year: "number",
+            penalties: "number ≤ 0 — questions, promotional language, cookie notices",
+            sourceWeight: "number — credibility multiplier applied to a positive sentence score",
+            corroboration: "number — weight × extra independent domains",
+            total: "number — the fact's ranking score",
+          },
         },
       ],
       sources: [
@@ -56,10 +160,115 @@ export async function GET() {
           title: "string",
           url: "string",
           snippet: "string",
-          retrievedAt: "ISO 8601 timestamp",
+          retrievedAt: "ISO 8601 timestamp — for knowledge-base sources, when the source was originally retrieved",
+          provider:
+            'string — search provider that returned the source (e.g. google, serpapi, duckduckgo-html, wikipedia), "seed-url", "upload" or "knowledge-base"',
+          author: "string (optional) — from JSON-LD, OpenGraph or meta tags of the fetched page",
+          publisher: "string (optional)",
+          publishedAt: "ISO 8601 timestamp (optional)",
+          language: "BCP 47 tag (optional)",
+          canonicalUrl: "string (optional)",
+          credibility: {
+            score: "number 0–1 — weights fact selection",
+            tier: '"primary" | "reputable" | "general" | "low"',
+            reason: 'string — e.g. "government or academic domain", "allowlist"',
+          },
         },
       ],
-      searchQueries: ["array of queries used"],
+      searchQueries: [
+        {
+          query: "string",
+          round: "number — 0 for the initial queries, 1+ for follow-ups",
+          reason: 'string — e.g. "Initial query", "No currency figures found"',
+          gap: '(optional) "facts" | "subtopic" | "entity" | "statistics" | "dimension" — what a follow-up looks for',
+          parentIndex: "(optional) number — index of the query whose results revealed the gap",
+          newResults: "number — results no earlier query had found",
+          error: "(optional) string — set when the search failed",
+        },
+      ],
+      conflicts: [
+        {
+          kind: '"numeric" | "date" | "negation"',
+          factIndexes: "[number, number] — indexes into facts; the first is the better-supported claim",
+          claims: "[string, string]",
+          values: '(optional) [string, string] — e.g. ["12 GW", "15 GW"]',
+          description: "string",
+          resolution: '"hedge" | "drop" — how the writer handles it',
+        },
+      ],
+      statistics: [
+        {
+          kind: '"percentage" | "currency" | "quantity" | "count" | "ratio"',
+          value:
+            "number — magnitude applied: \"1.2 million\" and \"1,200,000\" are both 1200000; the low end of a range; a 0–1 share for a ratio (\"3 of 10 homes\" is 0.3)",
+          high: "number (optional) — the high end of a range, e.g. \"between 12,000 and 18,000 euros\"",
+          unit: 'string — "%", "pp", ISO currency code ("USD"), unit symbol ("GW") or counted noun ("users")',
+          text: "string — the figure as written",
+          year: "number (optional) — year the figure applies to",
+          factIndex: "number — index into facts",
+          sourceUrl: "string",
+          sourceTitle: "string",
+          page: "number (optional)",
+        },
+      ],
+      quotes: [
+        {
+          text: "string — the quoted words, without quotation marks",
+          speaker: "string — named speaker",
+          role: '(optional) string — title or affiliation, e.g. "CEO of Acme"',
+          sourceUrl: "string",
+          sourceTitle: "string",
+          page: "number (optional)",
+        },
+      ],
+      entities: [
+        {
+          name: "string",
+          type: '"person" | "organization" | "place" | "product" | "other"',
+          mentions: "number — across snippets and fetched pages",
+          sourceCount: "number — distinct sources mentioning it",
+        },
+      ],
+      keywords: [
+        {
+          phrase: "string — one to three words",
+          score: "number 0–1 — relative to the top keyword",
+          sourceCount: "number",
+        },
+      ],
+      comparison: {
+        subjects: ["string — the compared topics (comparison is only present for comparison research)"],
+        dimensions: ["string — e.g. price, adoption, performance, history"],
+        rows: [
+          {
+            dimension: "string",
+            cells: [
+              {
+                subject: "string",
+                dimension: "string",
+                factIndex: "(optional) number — index into facts; cell fields are unset when no fact covers it",
+                fact: "(optional) string",
+                value: '(optional) string — the figure the cell stands for, e.g. "15,000 euros" or "1917"',
+                sourceUrl: "(optional) string",
+                sourceTitle: "(optional) string",
+                page: "(optional) number",
+              },
+            ],
+          },
+        ],
+        filledCells: "number — cells covered by a fact",
+      },
+      cacheStats: {
+        searchHits: "number — search queries answered from the cache",
+        searchMisses: "number",
+        pageHits: "number — page fetches answered from the cache",
+        pageMisses: "number",
+      },
+      fetchReport: {
+        skippedByRobots: ["URLs not fetched because robots.txt disallows them"],
+        retried: [{ url: "string", attempts: "number", lastStatus: "number" }],
+        timedOut: ["URLs whose request timed out"],
+      },
       completedAt: "ISO 8601 timestamp",
     },
   });
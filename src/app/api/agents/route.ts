@@ -5,6 +5,7 @@ import {
   ResearchAgent,
   WriterAgent,
   EditorAgent,
+  RepurposeAgent,
 } from "@/agents";
 
 function createPipeline(): AgentRegistry {
@@ -15,6 +16,7 @@ function createPipeline(): AgentRegistry {
   registry.register(new ResearchAgent(bus));
   registry.register(new WriterAgent(bus));
   registry.register(new EditorAgent(bus));
+  registry.register(new RepurposeAgent(bus));
 
   return registry;
 }
@@ -52,6 +54,7 @@ export async function GET() {
   registry.register(new ResearchAgent(bus));
   registry.register(new WriterAgent(bus));
   registry.register(new EditorAgent(bus));
+  registry.register(new RepurposeAgent(bus));
 
   const agents = registry.getAll().map((agent) => ({
     ...agent.config,
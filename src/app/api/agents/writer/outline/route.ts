@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMessageBus } from "@/lib/message-bus";
+import { WriterAgent } from "@/agents";
+import { parseArticleLength } from "@/lib/article-composer";
+import type { ResearchConflict, ResearchEntity, ResearchFact, ResearchKeyword } from "@/agents";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Accept the full ResearchResult shape or just topic and facts
+    const topic: string | undefined = body.topic;
+    const facts: ResearchFact[] | undefined = body.facts;
+    const conflicts: ResearchConflict[] | undefined = body.conflicts;
+    const entities: ResearchEntity[] | undefined = body.entities;
+    const keywords: ResearchKeyword[] | undefined = body.keywords;
+
+    if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
+      return NextResponse.json(
+        { error: "A non-empty 'topic' string is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!facts || !Array.isArray(facts) || facts.length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            "A non-empty 'facts' array is required. Each fact needs: { fact, sourceUrl, sourceTitle }",
+        },
+        { status: 400 }
+      );
+    }
+
+    const length = parseArticleLength(body);
+    if ("error" in length) {
+      return NextResponse.json({ error: length.error }, { status: 400 });
+    }
+
+    const bus = getMessageBus();
+    bus.clear();
+    const agent = new WriterAgent(bus);
+
+    return NextResponse.json(
+      agent.outline({ topic: topic.trim(), facts, targetWordCount: length.targetWordCount, conflicts, entities, keywords })
+    );
+  } catch (error) {
+    console.error("Outline error:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Outline generation failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    agent: "writer",
+    description:
+      "Drafts the outline the writer would follow: facts clustered into sections, each with a heading, ordered background → current state → data → outlook",
+    usage: {
+      method: "POST",
+      body: {
+        topic: "string (required)",
+        facts: "array of ResearchFact (required) — as returned by POST /api/agents/research",
+        length:
+          '(optional) "brief" | "standard" | "feature" | "long-form", or targetWordCount (100–3000) — sets how many facts and sections the outline holds',
+        conflicts: "(optional) ResearchResult.conflicts — facts a conflict drops are left out",
+        entities: "(optional) ResearchResult.entities — key terms name the sections",
+        keywords: "(optional) ResearchResult.keywords — key terms name the sections",
+      },
+    },
+    tip: "Edit headings, reorder sections or remove facts, then send the outline with the facts to POST /api/agents/writer.",
+    response: {
+      topic: "string",
+      sections: [
+        {
+          heading: "string — 1 to 100 characters",
+          role: '"background" | "current" | "data" | "outlook"',
+          factIndexes: "number[] — indexes into facts; each fact in at most one section",
+        },
+      ],
+    },
+  });
+}
@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getMessageBus } from "@/lib/message-bus";
 import { WriterAgent } from "@/agents";
-import type { ArticleTone, ResearchFact, ResearchSource } from "@/agents";
+import { parseOutline } from "@/lib/article-outline";
+import { ARTICLE_FORMATS, parseArticleLength } from "@/lib/article-composer";
+import type {
+  ArticleFormat,
+  ArticleTone,
+  ResearchComparison,
+  ResearchConflict,
+  ResearchEntity,
+  ResearchFact,
+  ResearchKeyword,
+  ResearchQuote,
+  ResearchSource,
+  ResearchStatistic,
+} from "@/agents";
 
 const VALID_TONES: ArticleTone[] = [
   "professional",
@@ -19,6 +32,13 @@ export async function POST(request: NextRequest) {
     const facts: ResearchFact[] | undefined = body.facts;
     const sources: ResearchSource[] | undefined = body.sources;
     const tone: ArticleTone = body.tone ?? "professional";
+    const format: ArticleFormat = body.format ?? "article";
+    const conflicts: ResearchConflict[] | undefined = body.conflicts;
+    const statistics: ResearchStatistic[] | undefined = body.statistics;
+    const quotes: ResearchQuote[] | undefined = body.quotes;
+    const entities: ResearchEntity[] | undefined = body.entities;
+    const keywords: ResearchKeyword[] | undefined = body.keywords;
+    const comparison: ResearchComparison | undefined = body.comparison;
 
     if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
       return NextResponse.json(
@@ -44,6 +64,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!ARTICLE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${ARTICLE_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== "article" && comparison) {
+      return NextResponse.json(
+        { error: "A format applies to single-topic articles; comparisons have their own layout" },
+        { status: 400 }
+      );
+    }
+
+    const length = parseArticleLength(body);
+    if ("error" in length) {
+      return NextResponse.json({ error: length.error }, { status: 400 });
+    }
+
+    let outline;
+    if (body.outline !== undefined) {
+      const parsed = parseOutline(body.outline, topic.trim(), facts.length);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      outline = parsed.outline;
+    }
+
     const bus = getMessageBus();
     bus.clear();
     const agent = new WriterAgent(bus);
@@ -53,6 +101,15 @@ export async function POST(request: NextRequest) {
       facts,
       sources: sources ?? [],
       tone,
+      format,
+      targetWordCount: length.targetWordCount,
+      conflicts,
+      statistics,
+      quotes,
+      entities,
+      keywords,
+      comparison,
+      outline,
     });
 
     return NextResponse.json(result);
@@ -71,7 +128,7 @@ export async function GET() {
   return NextResponse.json({
     agent: "writer",
     description:
-      "Generates a ~300-word article from research data, maintaining tone and citing sources",
+      "Generates an article, listicle, how-to, FAQ, press release or newsletter of a chosen length (~300 words by default) from research data, maintaining tone and citing sources",
     usage: {
       method: "POST",
       body: {
@@ -81,22 +138,69 @@ export async function GET() {
             fact: "string — a factual statement",
             sourceUrl: "string — URL of the source",
             sourceTitle: "string — title of the source",
+            supportingSources:
+              "(optional) array of { url, title, page? } — every source stating the fact; each gets its own [n] citation",
           },
         ],
         sources:
-          "(optional) array of { title, url, snippet, retrievedAt } for additional context",
+          "(optional) array of { title, url, snippet, retrievedAt, author?, publisher?, publishedAt?, language?, canonicalUrl? } — metadata is copied onto citations",
         tone: '(optional) "professional" | "casual" | "academic" | "journalistic" — defaults to "professional"',
+        format:
+          '(optional) "article" | "listicle" | "how-to" | "faq" | "press-release" | "newsletter" — the piece\'s shape, independent of tone; defaults to "article". Not with comparison',
+        length:
+          '(optional) "brief" (~150 words) | "standard" (~300) | "feature" (~800) | "long-form" (~1500) — defaults to "standard"',
+        targetWordCount:
+          "(optional, instead of length) body length in words, 100–3000; the body lands within ±10% when the facts and sources give enough material",
+        conflicts:
+          '(optional) ResearchResult.conflicts — "hedge" conflicts present the range of figures, "drop" conflicts omit the weaker claim',
+        statistics:
+          '(optional) ResearchResult.statistics — three or more become a "By the numbers" list',
+        quotes:
+          "(optional) ResearchResult.quotes — journalistic and professional articles place the first as an attributed pull quote",
+        entities: "(optional) ResearchResult.entities — checked for topical coverage",
+        keywords: "(optional) ResearchResult.keywords — checked for topical coverage",
+        comparison:
+          "(optional) ResearchResult.comparison — writes a comparison article: a cited table of the subjects by dimension, then a paragraph per dimension",
+        outline:
+          "(optional) ArticleOutline from POST /api/agents/writer/outline, as approved or edited — the article follows its sections; drafted from the facts when absent",
       },
     },
     tip: "You can pipe the output of POST /api/agents/research directly into this endpoint.",
     response: {
       title: "string",
-      article: "string — full article text with inline [n] citations",
+      article: "string — full article text with inline [n] citations ([1][3] for corroborated facts)",
       tone: "string",
-      wordCount: "number",
+      format: "string",
+      wordCount: "number — words in the body, without the Sources list",
+      referencesWordCount: "number — words in the Sources list",
+      targetWordCount: "number — the body length aimed for",
       citations: [
-        { index: "number", sourceTitle: "string", sourceUrl: "string" },
+        {
+          index: "number",
+          sourceTitle: "string",
+          sourceUrl: "string",
+          author: "string (optional)",
+          publisher: "string (optional)",
+          publishedAt: "ISO 8601 timestamp (optional)",
+          language: "BCP 47 tag (optional)",
+          canonicalUrl: "string (optional)",
+        },
       ],
+      coverage: {
+        score: "number 0–1 — share of the top entities/keywords the article mentions (only with entities or keywords)",
+        covered: ["string"],
+        missing: ["string"],
+      },
+      outline: {
+        topic: "string",
+        sections: [
+          {
+            heading: "string",
+            role: '"background" | "current" | "data" | "outlook"',
+            factIndexes: "number[] — indexes into facts, in the order they are written",
+          },
+        ],
+      },
       topic: "string",
       generatedAt: "ISO 8601 timestamp",
     },
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getKnowledgeBase, parseFactEdit } from "@/lib/knowledge-base";
+
+interface FactRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Fact "${id}" is not in the knowledge base` }, { status: 404 });
+}
+
+export async function GET(_request: NextRequest, { params }: FactRouteContext) {
+  const { id } = await params;
+  const fact = await getKnowledgeBase().getFact(id);
+  return fact ? NextResponse.json(fact) : notFound(id);
+}
+
+/**
+ * Edit a stored fact. Body: { fact?, sourceUrl?, sourceTitle?, page? }
+ * (page null clears it). Edited facts are kept as they are by later research.
+ */
+export async function PATCH(request: NextRequest, { params }: FactRouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const parsed = parseFactEdit(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const fact = await getKnowledgeBase().updateFact(id, parsed.edit);
+    return fact ? NextResponse.json(fact) : notFound(id);
+  } catch (error) {
+    console.error("Knowledge base update error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Knowledge base update failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: FactRouteContext) {
+  const { id } = await params;
+
+  try {
+    return (await getKnowledgeBase().deleteFact(id)) ? NextResponse.json({ deleted: id }) : notFound(id);
+  } catch (error) {
+    console.error("Knowledge base delete error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Knowledge base delete failed" },
+      { status: 500 }
+    );
+  }
+}
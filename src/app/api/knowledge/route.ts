@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getKnowledgeBase } from "@/lib/knowledge-base";
+
+const MAX_LIMIT = 200;
+
+/**
+ * Browse and search the knowledge base. Query params:
+ *   topic — show one stored topic (with q: only search within it)
+ *   q     — search stored facts
+ *   limit — maximum facts returned by a search (1–200, default 50)
+ * Without any, lists the stored topics.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const topic = params.get("topic") ?? undefined;
+  const q = params.get("q");
+  const kb = getKnowledgeBase();
+
+  if (q !== null) {
+    const limit = Number(params.get("limit") ?? 50);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid limit. Use a whole number from 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const facts = await kb.search(q, { topic, limit });
+    return NextResponse.json({ query: q, topic, count: facts.length, facts });
+  }
+
+  if (topic !== undefined) {
+    const stored = await kb.get(topic);
+    if (!stored) {
+      return NextResponse.json({ error: `Topic "${topic}" is not in the knowledge base` }, { status: 404 });
+    }
+    return NextResponse.json(stored);
+  }
+
+  const topics = await kb.list();
+  return NextResponse.json({
+    count: topics.length,
+    factCount: topics.reduce((sum, t) => sum + t.factCount, 0),
+    topics,
+    usage: {
+      "GET ?topic=...": "a stored topic with its facts, sources and entities",
+      "GET ?q=...&topic=...&limit=50": "search stored facts (topic and limit optional)",
+      "DELETE ?topic=...": "delete a topic with all its facts",
+      "GET /api/knowledge/facts/{id}": "a stored fact",
+      "PATCH /api/knowledge/facts/{id}":
+        "edit a fact — body { fact?, sourceUrl?, sourceTitle?, page? }; edited facts are never overwritten by research",
+      "DELETE /api/knowledge/facts/{id}": "delete a fact",
+    },
+  });
+}
+
+/**
+ * Delete a topic with all its facts. Query params:
+ *   topic — the topic as stored (matched case- and whitespace-insensitively)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const topic = request.nextUrl.searchParams.get("topic");
+    if (!topic) {
+      return NextResponse.json({ error: "A 'topic' query parameter is required" }, { status: 400 });
+    }
+
+    if (!(await getKnowledgeBase().deleteTopic(topic))) {
+      return NextResponse.json({ error: `Topic "${topic}" is not in the knowledge base` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: topic });
+  } catch (error) {
+    console.error("Knowledge base delete error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Knowledge base delete failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,29 @@ import { getMessageBus } from "@/lib/message-bus";
 import { ResearchAgent } from "@/agents/research-agent";
 import { WriterAgent } from "@/agents/writer-agent";
 import { EditorAgent } from "@/agents/editor-agent";
+import { RepurposeAgent } from "@/agents/repurpose-agent";
+import { getHttpClient, HttpClient, HttpMode, HTTP_MODES } from "@/lib/http";
+import { cassetteExists, isValidCassetteName, resolveCassetteName } from "@/lib/cassette";
+import { parseSearchScope, SearchScope } from "@/lib/search-providers";
+import { SOURCE_POLICIES } from "@/lib/source-credibility";
+import { parseScoringWeights } from "@/lib/fact-extractor";
+import { parseResearchDepth } from "@/lib/research-gaps";
+import { parseSeedSources, readResearchRequest, SeedSources } from "@/lib/seed-sources";
+import { KnowledgeOptions, parseKnowledgeOptions } from "@/lib/knowledge-base";
+import { comparisonTopic, parseComparison } from "@/lib/comparison";
+import { parseOutline } from "@/lib/article-outline";
+import { ARTICLE_FORMATS, factBudget, parseArticleLength } from "@/lib/article-composer";
+import { parseRepurposeOptions } from "@/lib/social-derivatives";
 import type {
+  ArticleFormat,
+  ArticleOutline,
   ArticleTone,
+  FactScoringWeights,
+  SourcePolicy,
   ResearchResult,
   WriterResult,
   EditorResult,
+  RepurposeResult,
   OrchestrationStep,
   OrchestrationResult,
 } from "@/agents/types";
@@ -52,14 +70,59 @@ export async function POST(request: NextRequest) {
   // Parse & validate input
   let topic: string;
   let tone: ArticleTone;
+  let format: ArticleFormat;
+  let http: HttpClient;
+  let scope: SearchScope;
+  let sourcePolicy: SourcePolicy | undefined;
+  let scoringWeights: Partial<FactScoringWeights> | undefined;
+  let depth: { maxRounds?: number; queryBudget?: number };
+  let seeds: SeedSources;
+  let knowledge: KnowledgeOptions;
+  let comparison: { topics?: string[]; dimensions?: string[] };
+  let givenResearch: ResearchResult | undefined;
+  let reviewOutline: boolean;
+  let approvedOutline: ArticleOutline | undefined;
+  let targetWordCount: number;
+  let repurpose: boolean;
+  let repurposeOptions: { postLimit: number; articleUrl?: string };
   try {
-    const body = await request.json();
-    topic = body.topic;
-    tone = body.tone ?? "professional";
+    const { body, uploads } = await readResearchRequest(request);
+    tone = (body.tone as ArticleTone | undefined) ?? "professional";
+    format = (body.format as ArticleFormat | undefined) ?? "article";
+    const httpMode = body.httpMode as HttpMode | undefined;
+    const cassette = body.cassette as string | undefined;
+
+    const parsedComparison = parseComparison(body);
+    if ("error" in parsedComparison) {
+      return NextResponse.json({ error: parsedComparison.error }, { status: 400 });
+    }
+    comparison = parsedComparison.comparison;
+
+    // Research from an earlier response, to write from after reviewing its outline
+    if (body.research !== undefined) {
+      const research = body.research as ResearchResult | null;
+      if (
+        !research ||
+        typeof research !== "object" ||
+        !Array.isArray(research.facts) ||
+        research.facts.length === 0 ||
+        !Array.isArray(research.sources)
+      ) {
+        return NextResponse.json(
+          { error: "Invalid research. Send the 'research' of an earlier response, with its facts and sources" },
+          { status: 400 }
+        );
+      }
+      givenResearch = research;
+    }
+
+    topic = comparison.topics
+      ? comparisonTopic(comparison.topics)
+      : ((body.topic as string | undefined) ?? givenResearch?.topic ?? "");
 
     if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
       return NextResponse.json(
-        { error: "A non-empty 'topic' string is required" },
+        { error: "A non-empty 'topic' string, or 2–4 'topics' to compare, is required" },
         { status: 400 }
       );
     }
@@ -71,10 +134,131 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!ARTICLE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${ARTICLE_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (httpMode !== undefined && !HTTP_MODES.includes(httpMode)) {
+      return NextResponse.json(
+        { error: `Invalid httpMode. Must be one of: ${HTTP_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (cassette !== undefined && (typeof cassette !== "string" || !isValidCassetteName(cassette))) {
+      return NextResponse.json(
+        { error: "Invalid cassette name. Use letters, digits, '.', '_' or '-'" },
+        { status: 400 }
+      );
+    }
+
+    if (httpMode === "replay" && !(await cassetteExists(resolveCassetteName(cassette)))) {
+      return NextResponse.json(
+        { error: `Cassette "${resolveCassetteName(cassette)}" has not been recorded` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseSearchScope(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    scope = parsed.scope;
+
+    sourcePolicy = body.sourcePolicy as SourcePolicy | undefined;
+    if (sourcePolicy !== undefined && !SOURCE_POLICIES.includes(sourcePolicy)) {
+      return NextResponse.json(
+        { error: `Invalid sourcePolicy. Must be one of: ${SOURCE_POLICIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.scoringWeights !== undefined) {
+      const weights = parseScoringWeights(body.scoringWeights);
+      if ("error" in weights) {
+        return NextResponse.json({ error: weights.error }, { status: 400 });
+      }
+      scoringWeights = weights.weights;
+    }
+
+    const parsedDepth = parseResearchDepth(body);
+    if ("error" in parsedDepth) {
+      return NextResponse.json({ error: parsedDepth.error }, { status: 400 });
+    }
+    depth = parsedDepth.depth;
+
+    const parsedSeeds = await parseSeedSources(body, uploads);
+    if ("error" in parsedSeeds) {
+      return NextResponse.json({ error: parsedSeeds.error }, { status: 400 });
+    }
+    seeds = parsedSeeds.seeds;
+
+    const parsedKnowledge = parseKnowledgeOptions(body);
+    if ("error" in parsedKnowledge) {
+      return NextResponse.json({ error: parsedKnowledge.error }, { status: 400 });
+    }
+    knowledge = parsedKnowledge.knowledge;
+
+    const length = parseArticleLength(body);
+    if ("error" in length) {
+      return NextResponse.json({ error: length.error }, { status: 400 });
+    }
+    targetWordCount = length.targetWordCount;
+
+    if (body.reviewOutline !== undefined && typeof body.reviewOutline !== "boolean") {
+      return NextResponse.json({ error: "Invalid reviewOutline. Use true or false" }, { status: 400 });
+    }
+    reviewOutline = body.reviewOutline ?? false;
+    if (format !== "article" && (comparison.topics || givenResearch?.comparison)) {
+      return NextResponse.json(
+        { error: "A format applies to single-topic articles; comparisons have their own layout" },
+        { status: 400 }
+      );
+    }
+    if ((reviewOutline || body.outline !== undefined) && (comparison.topics || givenResearch?.comparison)) {
+      return NextResponse.json(
+        { error: "An outline applies to single-topic articles, not comparisons" },
+        { status: 400 }
+      );
+    }
+    if (body.outline !== undefined) {
+      if (!givenResearch) {
+        return NextResponse.json(
+          { error: "'outline' needs the 'research' it was drafted from" },
+          { status: 400 }
+        );
+      }
+      const parsedOutline = parseOutline(body.outline, givenResearch.topic, givenResearch.facts.length);
+      if ("error" in parsedOutline) {
+        return NextResponse.json({ error: parsedOutline.error }, { status: 400 });
+      }
+      approvedOutline = parsedOutline.outline;
+    }
+
+    if (body.repurpose !== undefined && typeof body.repurpose !== "boolean") {
+      return NextResponse.json({ error: "Invalid repurpose. Use true or false" }, { status: 400 });
+    }
+    repurpose = body.repurpose ?? false;
+    if (!repurpose && (body.postLimit !== undefined || body.articleUrl !== undefined)) {
+      return NextResponse.json(
+        { error: "postLimit and articleUrl apply to the social posts; set repurpose to true" },
+        { status: 400 }
+      );
+    }
+    const parsedRepurpose = parseRepurposeOptions(body);
+    if ("error" in parsedRepurpose) {
+      return NextResponse.json({ error: parsedRepurpose.error }, { status: 400 });
+    }
+    repurposeOptions = parsedRepurpose.options;
+
+    http = httpMode ? new HttpClient({ mode: httpMode, cassette }) : getHttpClient();
     topic = topic.trim();
   } catch {
     return NextResponse.json(
-      { error: "Invalid JSON body" },
+      { error: "Invalid request body" },
       { status: 400 }
     );
   }
@@ -85,28 +269,55 @@ export async function POST(request: NextRequest) {
   const researchAgent = new ResearchAgent(bus);
   const writerAgent = new WriterAgent(bus);
   const editorAgent = new EditorAgent(bus);
+  const repurposeAgent = new RepurposeAgent(bus);
 
   // Prepare step trackers
   const researchStep = makeStep("research");
   const writerStep = makeStep("writer");
   const editorStep = makeStep("editor");
+  const repurposeStep = makeStep("repurpose");
+  // The repurpose step is listed only when asked for
+  const steps = repurpose
+    ? [researchStep, writerStep, editorStep, repurposeStep]
+    : [researchStep, writerStep, editorStep];
 
   let researchData: ResearchResult | null = null;
   let writerData: WriterResult | null = null;
   let editorData: EditorResult | null = null;
+  let derivatives: RepurposeResult | null = null;
+  let outline: ArticleOutline | null = approvedOutline ?? null;
 
   // ── Step 1: Research ─────────────────────────────────────────────────
+  const researchOptions = {
+    http,
+    ...scope,
+    sourcePolicy,
+    scoringWeights,
+    ...depth,
+    ...seeds,
+    ...knowledge,
+    targetFacts: factBudget(targetWordCount, format),
+  };
   try {
-    researchData = await runStep(researchStep, () =>
-      researchAgent.research(topic)
-    );
+    if (givenResearch) {
+      // Resuming after outline review: the research of the first call is reused
+      researchData = givenResearch;
+      researchStep.status = "skipped";
+    } else {
+      researchData = await runStep(researchStep, () =>
+        comparison.topics
+          ? researchAgent.compare(comparison.topics, { ...researchOptions, dimensions: comparison.dimensions })
+          : researchAgent.research(topic, researchOptions)
+      );
+    }
   } catch {
     // Research failed — mark remaining steps as skipped
     writerStep.status = "skipped";
     editorStep.status = "skipped";
+    repurposeStep.status = "skipped";
 
     return NextResponse.json(
-      buildResult("failed", topic, tone, pipelineStart, [researchStep, writerStep, editorStep], researchData, writerData, editorData),
+      buildResult("failed", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
       { status: 502 }
     );
   }
@@ -117,13 +328,45 @@ export async function POST(request: NextRequest) {
     writerStep.status = "skipped";
     writerStep.error = "No facts available from research to write about";
     editorStep.status = "skipped";
+    repurposeStep.status = "skipped";
 
     return NextResponse.json(
-      buildResult("partial", topic, tone, pipelineStart, [researchStep, writerStep, editorStep], researchData, writerData, editorData),
+      buildResult("partial", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
       { status: 200 }
     );
   }
 
+  // ── Outline review ───────────────────────────────────────────────────
+  // Stop before writing; the writer, editor and repurpose steps run once the outline comes back
+  if (reviewOutline) {
+    try {
+      outline = writerAgent.outline({
+        topic: researchData.topic,
+        facts: researchData.facts,
+        format,
+        targetWordCount,
+        conflicts: researchData.conflicts,
+        entities: researchData.entities,
+        keywords: researchData.keywords,
+      });
+    } catch (err) {
+      // The outline is the writer's first step; it failed, so nothing is left to approve
+      writerStep.status = "failed";
+      writerStep.error = err instanceof Error ? err.message : String(err);
+      editorStep.status = "skipped";
+      repurposeStep.status = "skipped";
+
+      return NextResponse.json(
+        buildResult("failed", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      buildResult("awaiting-approval", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives)
+    );
+  }
+
   // ── Step 2: Writer ───────────────────────────────────────────────────
   try {
     writerData = await runStep(writerStep, () =>
@@ -132,13 +375,24 @@ export async function POST(request: NextRequest) {
         facts: researchData!.facts,
         sources: researchData!.sources,
         tone,
+        format,
+        targetWordCount,
+        conflicts: researchData!.conflicts,
+        statistics: researchData!.statistics,
+        quotes: researchData!.quotes,
+        entities: researchData!.entities,
+        keywords: researchData!.keywords,
+        comparison: researchData!.comparison,
+        outline: outline ?? undefined,
       })
     );
+    outline = writerData.outline ?? null;
   } catch {
     editorStep.status = "skipped";
+    repurposeStep.status = "skipped";
 
     return NextResponse.json(
-      buildResult("partial", topic, tone, pipelineStart, [researchStep, writerStep, editorStep], researchData, writerData, editorData),
+      buildResult("partial", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
       { status: 200 }
     );
   }
@@ -151,19 +405,45 @@ export async function POST(request: NextRequest) {
         article: writerData!.article,
         topic: writerData!.topic,
         tone,
+        format,
         citations: writerData!.citations,
+        entities: researchData!.entities,
+        keywords: researchData!.keywords,
       })
     );
   } catch {
+    repurposeStep.status = "skipped";
+
     return NextResponse.json(
-      buildResult("partial", topic, tone, pipelineStart, [researchStep, writerStep, editorStep], researchData, writerData, editorData),
+      buildResult("partial", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
       { status: 200 }
     );
   }
 
+  // ── Step 4: Repurpose (optional) ─────────────────────────────────────
+  if (repurpose) {
+    try {
+      derivatives = await runStep(repurposeStep, () =>
+        repurposeAgent.repurpose({
+          title: editorData!.editedTitle,
+          article: editorData!.editedArticle,
+          topic: editorData!.topic,
+          citations: editorData!.citations,
+          seoKeywords: editorData!.seoKeywords,
+          ...repurposeOptions,
+        })
+      );
+    } catch {
+      return NextResponse.json(
+        buildResult("partial", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives),
+        { status: 200 }
+      );
+    }
+  }
+
   // ── All steps succeeded ──────────────────────────────────────────────
   return NextResponse.json(
-    buildResult("completed", topic, tone, pipelineStart, [researchStep, writerStep, editorStep], researchData, writerData, editorData)
+    buildResult("completed", topic, tone, format, pipelineStart, steps, researchData, outline, writerData, editorData, derivatives)
   );
 }
 
@@ -173,21 +453,27 @@ function buildResult(
   status: OrchestrationResult["status"],
   topic: string,
   tone: ArticleTone,
+  format: ArticleFormat,
   pipelineStart: number,
   steps: OrchestrationStep[],
   research: ResearchResult | null,
+  outline: ArticleOutline | null,
   article: WriterResult | null,
-  edited: EditorResult | null
+  edited: EditorResult | null,
+  derivatives: RepurposeResult | null
 ): OrchestrationResult {
   return {
     status,
     topic,
     tone,
+    format,
     steps,
     totalDurationMs: Math.round(performance.now() - pipelineStart),
     research,
+    outline,
     article,
     edited,
+    derivatives,
     completedAt: new Date().toISOString(),
   };
 }
@@ -198,18 +484,59 @@ export async function GET() {
   return NextResponse.json({
     endpoint: "/api/orchestrate",
     description:
-      "Runs the full content pipeline: Research → Writer → Editor. Each step feeds its typed output to the next. Includes per-step timing, status tracking, and graceful partial results on failure.",
+      "Runs the full content pipeline: Research → Writer → Editor, then optionally Repurpose. Each step feeds its typed output to the next. Includes per-step timing, status tracking, and graceful partial results on failure.",
     usage: {
       method: "POST",
+      contentType:
+        "application/json, or multipart/form-data to upload files (JSON-valued fields are sent as JSON strings)",
       body: {
-        topic: "string (required) — the subject to research and write about",
+        topic: "string (required unless topics is given) — the subject to research and write about",
+        topics:
+          '(optional) array of 2–4 subjects to compare, e.g. ["heat pumps", "gas boilers"] — researched in parallel; the article compares them in a cited table',
+        dimensions:
+          '(optional, with topics) array of up to 8 comparison dimensions; defaults to ["price", "adoption", "performance", "history"]',
+        seedUrls: "(optional) array of up to 10 http(s) URLs to use as sources",
+        files: "(optional, multipart only) up to 10 Markdown, PDF, DOCX or plain-text files, 10 MB each",
+        seedOnly: "(optional) boolean — research from the seed URLs and files only, without web search",
+        useKnowledgeBase: "(optional) boolean — merge stored facts from the knowledge base with fresh results",
+        saveToKnowledgeBase: "(optional) boolean — save the research to the knowledge base; defaults to true",
         tone: '(optional) "professional" | "casual" | "academic" | "journalistic" — defaults to "professional"',
+        format:
+          '(optional) "article" | "listicle" | "how-to" | "faq" | "press-release" | "newsletter" — the piece\'s shape, independent of tone; defaults to "article". Not with topics',
+        length:
+          '(optional) "brief" (~150 words) | "standard" (~300) | "feature" (~800) | "long-form" (~1500) — defaults to "standard"; longer articles research more facts',
+        targetWordCount:
+          "(optional, instead of length) body length in words, 100–3000 — the body lands within ±10% when research gives enough material",
+        reviewOutline:
+          '(optional) boolean — stop after research with status "awaiting-approval" and the drafted outline, to approve or edit it before writing',
+        research:
+          "(optional) the research of an earlier response — skips the research step; send it back with the outline after review",
+        outline:
+          "(optional, with research) the approved or edited ArticleOutline — { topic, sections: [{ heading, role, factIndexes }] }; the article follows it",
+        repurpose:
+          "(optional) boolean — a fourth step turns the edited article into an X thread, a LinkedIn post, an email teaser and a meta description",
+        postLimit: "(optional, with repurpose) characters per X post, 100–4000 — defaults to 280",
+        articleUrl: "(optional, with repurpose) http(s) URL where the article is published — linked from the posts and email",
+        region: '(optional) two-letter country code for search results, e.g. "us", "de", "gb"',
+        language: '(optional) language code for search results, e.g. "en", "de" — also picks the Wikipedia edition',
+        recency: '(optional) "day" | "week" | "month" | "year" — only search recent results',
+        sourcePolicy:
+          '(optional) "any" | "no-low" | "reputable" | "primary" | "allowlist" — which source tiers may contribute facts; defaults to "any"',
+        maxRounds: "(optional) number 0–5 — follow-up research rounds; defaults to 2",
+        queryBudget: "(optional) number 1–20 — maximum search queries across all rounds; defaults to 9",
+        scoringWeights:
+          "(optional) overrides of the fact-ranking weights — see GET /api/agents/research",
+        httpMode:
+          '(optional) "live" | "record" | "replay" — record search/page traffic to a cassette or replay it offline; defaults to HTTP_MODE',
+        cassette:
+          "(optional) cassette name for record/replay, stored as <HTTP_CASSETTE_DIR>/<name>.json — defaults to HTTP_CASSETTE or \"default\"",
       },
     },
     response: {
-      status: '"completed" | "partial" | "failed"',
+      status: '"completed" | "partial" | "failed" | "awaiting-approval"',
       topic: "string",
       tone: "string",
+      format: "string",
       steps: [
         {
           agent: "string — agent name",
@@ -220,11 +547,15 @@ export async function GET() {
       ],
       totalDurationMs: "number — total pipeline duration in milliseconds",
       research:
-        "ResearchResult | null — facts, sources, search queries (null if step failed)",
+        "ResearchResult | null — facts, sources, search queries, conflicting claims, cache hit/miss stats (null if step failed)",
+      outline:
+        'ArticleOutline | null — sections with headings and fact indexes: awaiting approval, or the one the article follows (null for comparisons)',
       article:
         "WriterResult | null — title, article body, citations (null if step failed/skipped)",
       edited:
         "EditorResult | null — edited article, changes, quality score, headline suggestions (null if step failed/skipped)",
+      derivatives:
+        "RepurposeResult | null — thread, LinkedIn post, email teaser, meta description and the key facts they share (null unless repurpose is true)",
       completedAt: "ISO 8601 timestamp",
     },
     agents: [
@@ -234,12 +565,16 @@ export async function GET() {
       },
       {
         name: "Writer Agent",
-        description: "Composes a ~300-word article with inline citations",
+        description: "Composes an article, listicle, how-to, FAQ, press release or newsletter of the chosen length with inline citations",
       },
       {
         name: "Editor Agent",
         description: "Improves clarity, grammar, and suggests catchy headlines",
       },
+      {
+        name: "Repurpose Agent",
+        description: "Optional: turns the edited article into social posts, an email teaser and a meta description, keeping its sources",
+      },
     ],
   });
 }
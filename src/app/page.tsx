@@ -2,11 +2,17 @@
 
 import { useState, useRef } from "react";
 import type {
+  ArticleFormat,
+  ArticleLength,
+  ArticleOutline,
   ArticleTone,
   OrchestrationResult,
   OrchestrationStepStatus,
   EditChange,
+  EntityType,
 } from "@/agents/types";
+import { LENGTH_PRESETS } from "@/lib/article-composer";
+import { formatStatistic } from "@/lib/statistics-extractor";
 
 // ── Constants ────────────────────────────────────────────────────────────
 
@@ -17,6 +23,22 @@ const TONES: { value: ArticleTone; label: string; desc: string }[] = [
   { value: "journalistic", label: "Journalistic", desc: "News-style" },
 ];
 
+const FORMATS: { value: ArticleFormat; label: string }[] = [
+  { value: "article", label: "Article" },
+  { value: "listicle", label: "Listicle" },
+  { value: "how-to", label: "How-to" },
+  { value: "faq", label: "FAQ" },
+  { value: "press-release", label: "Press release" },
+  { value: "newsletter", label: "Newsletter" },
+];
+
+const LENGTHS: { value: ArticleLength; label: string }[] = [
+  { value: "brief", label: "Brief" },
+  { value: "standard", label: "Standard" },
+  { value: "feature", label: "Feature" },
+  { value: "long-form", label: "Long-form" },
+];
+
 interface AgentMeta {
   label: string;
   icon: string;
@@ -51,6 +73,14 @@ const AGENTS: Record<string, AgentMeta> = {
     accentBorder: "border-purple-500/20",
     desc: "Polishing grammar, clarity & headlines",
   },
+  repurpose: {
+    label: "Repurpose Agent",
+    icon: "M7.217 10.907a2.25 2.25 0 100 2.186m0-2.186c.18.324.283.696.283 1.093s-.103.77-.283 1.093m0-2.186l9.566-5.314m-9.566 7.5l9.566 5.314m0 0a2.25 2.25 0 103.935 2.186 2.25 2.25 0 00-3.935-2.186zm0-12.814a2.25 2.25 0 103.933-2.185 2.25 2.25 0 00-3.933 2.185z",
+    accent: "text-rose-400",
+    accentBg: "bg-rose-500/10",
+    accentBorder: "border-rose-500/20",
+    desc: "Turning the article into social posts",
+  },
 };
 
 const CHANGE_COLORS: Record<EditChange["type"], string> = {
@@ -59,6 +89,15 @@ const CHANGE_COLORS: Record<EditChange["type"], string> = {
   redundancy: "bg-orange-500/15 text-orange-300 border-orange-500/20",
   headline: "bg-violet-500/15 text-violet-300 border-violet-500/20",
   structure: "bg-teal-500/15 text-teal-300 border-teal-500/20",
+  numbers: "bg-emerald-500/15 text-emerald-300 border-emerald-500/20",
+};
+
+const ENTITY_COLORS: Record<EntityType, string> = {
+  person: "border-pink-500/20 bg-pink-500/10 text-pink-300/90",
+  organization: "border-indigo-500/20 bg-indigo-500/10 text-indigo-300/90",
+  place: "border-lime-500/20 bg-lime-500/10 text-lime-300/90",
+  product: "border-cyan-500/20 bg-cyan-500/10 text-cyan-300/90",
+  other: "border-zinc-700/50 bg-zinc-800/40 text-zinc-400",
 };
 
 // ── Main component ───────────────────────────────────────────────────────
@@ -66,6 +105,15 @@ const CHANGE_COLORS: Record<EditChange["type"], string> = {
 export default function Home() {
   const [topic, setTopic] = useState("");
   const [tone, setTone] = useState<ArticleTone>("professional");
+  const [format, setFormat] = useState<ArticleFormat>("article");
+  const [length, setLength] = useState<ArticleLength>("standard");
+  const [seedUrls, setSeedUrls] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [seedOnly, setSeedOnly] = useState(false);
+  const [useKnowledgeBase, setUseKnowledgeBase] = useState(false);
+  const [reviewOutline, setReviewOutline] = useState(false);
+  const [repurpose, setRepurpose] = useState(false);
+  const [outline, setOutline] = useState<ArticleOutline | null>(null);
   const [result, setResult] = useState<OrchestrationResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -78,6 +126,7 @@ export default function Home() {
     setLoading(true);
     setError(null);
     setResult(null);
+    setOutline(null);
     setActiveAgent("research");
 
     // Simulate step progression for the loading UI
@@ -85,11 +134,46 @@ export default function Home() {
     const agentTimer2 = setTimeout(() => setActiveAgent("editor"), 2500);
 
     try {
-      const res = await fetch("/api/orchestrate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ topic: topic.trim(), tone }),
-      });
+      const urls = seedUrls.split("\n").map((u) => u.trim()).filter(Boolean);
+      // "A vs B" compares the subjects instead of researching one topic
+      const subjects = topic.split(/\s+vs\.?\s+/i).map((t) => t.trim()).filter(Boolean);
+      const subject = subjects.length > 1 ? { topics: subjects } : { topic: topic.trim() };
+      const hasSeeds = urls.length > 0 || files.length > 0;
+      let init: RequestInit;
+
+      if (files.length > 0) {
+        // Uploads need multipart; the other fields ride along as form fields
+        const form = new FormData();
+        if ("topics" in subject) form.append("topics", JSON.stringify(subject.topics));
+        else form.append("topic", subject.topic);
+        form.append("tone", tone);
+        form.append("format", format);
+        form.append("length", length);
+        urls.forEach((u) => form.append("seedUrls", u));
+        files.forEach((f) => form.append("files", f));
+        form.append("seedOnly", JSON.stringify(seedOnly));
+        form.append("useKnowledgeBase", JSON.stringify(useKnowledgeBase));
+        form.append("reviewOutline", JSON.stringify(reviewOutline));
+        form.append("repurpose", JSON.stringify(repurpose));
+        init = { method: "POST", body: form };
+      } else {
+        init = {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...subject,
+            tone,
+            format,
+            length,
+            ...(hasSeeds ? { seedUrls: urls, seedOnly } : {}),
+            ...(useKnowledgeBase ? { useKnowledgeBase } : {}),
+            ...(reviewOutline ? { reviewOutline } : {}),
+            ...(repurpose ? { repurpose } : {}),
+          }),
+        };
+      }
+
+      const res = await fetch("/api/orchestrate", init);
 
       const data = await res.json();
 
@@ -98,6 +182,7 @@ export default function Home() {
       }
 
       setResult(data as OrchestrationResult);
+      if (data.status === "awaiting-approval") setOutline(data.outline);
 
       // Scroll to results
       setTimeout(() => {
@@ -113,6 +198,48 @@ export default function Home() {
     }
   }
 
+  /** Write and edit the article from the reviewed outline, reusing the research */
+  async function approveOutline() {
+    if (!result?.research || !outline) return;
+    const researchStep = result.steps[0];
+
+    setLoading(true);
+    setError(null);
+    setActiveAgent("writer");
+    const agentTimer = setTimeout(() => setActiveAgent("editor"), 1000);
+
+    try {
+      const res = await fetch("/api/orchestrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          topic: result.topic,
+          tone,
+          format,
+          length,
+          research: result.research,
+          outline,
+          ...(repurpose ? { repurpose } : {}),
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok && !data.steps) {
+        throw new Error(data.error ?? "Pipeline request failed");
+      }
+
+      // Research ran in the first call; show its step rather than "skipped"
+      setResult({ ...data, steps: [researchStep, ...data.steps.slice(1)] } as OrchestrationResult);
+      setOutline(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      clearTimeout(agentTimer);
+      setLoading(false);
+      setActiveAgent(null);
+    }
+  }
+
   return (
     <div className="min-h-screen bg-zinc-950">
       {/* ── Hero / Input Section ────────────────────────────────────── */}
@@ -168,6 +295,111 @@ export default function Home() {
               ))}
             </div>
 
+            {/* Format selector */}
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <span className="text-xs text-zinc-500">Format</span>
+              {FORMATS.map((f) => (
+                <button
+                  key={f.value}
+                  onClick={() => setFormat(f.value)}
+                  className={`rounded-md border px-2.5 py-1 text-xs transition-all ${
+                    format === f.value
+                      ? "border-blue-500/40 bg-blue-500/10 text-white"
+                      : "border-zinc-700/40 bg-zinc-800/30 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300"
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Length selector */}
+            <div className="flex items-center gap-2 mb-5">
+              <span className="text-xs text-zinc-500">Length</span>
+              {LENGTHS.map((l) => (
+                <button
+                  key={l.value}
+                  onClick={() => setLength(l.value)}
+                  className={`rounded-md border px-2.5 py-1 text-xs transition-all ${
+                    length === l.value
+                      ? "border-blue-500/40 bg-blue-500/10 text-white"
+                      : "border-zinc-700/40 bg-zinc-800/30 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300"
+                  }`}
+                >
+                  {l.label} <span className="opacity-60">~{LENGTH_PRESETS[l.value]}</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Add sources */}
+            <details className="group mb-5 rounded-lg border border-zinc-700/40 bg-zinc-800/20">
+              <summary className="cursor-pointer select-none px-4 py-2.5 text-sm text-zinc-400 hover:text-zinc-300">
+                Add sources
+                {(seedUrls.trim() || files.length > 0) && (
+                  <span className="ml-2 text-xs text-blue-400">
+                    {seedUrls.split("\n").filter((u) => u.trim()).length + files.length} added
+                  </span>
+                )}
+              </summary>
+              <div className="space-y-3 px-4 pb-4">
+                <textarea
+                  value={seedUrls}
+                  onChange={(e) => setSeedUrls(e.target.value)}
+                  rows={3}
+                  placeholder={"Source URLs, one per line\nhttps://example.com/press-release"}
+                  className="w-full rounded-lg border border-zinc-700/60 bg-zinc-800/50 px-3 py-2 text-sm text-white placeholder-zinc-500 outline-none focus:border-blue-500/50"
+                />
+                <input
+                  type="file"
+                  multiple
+                  accept=".md,.markdown,.txt,.pdf,.docx,text/markdown,text/plain,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                  className="block w-full text-xs text-zinc-400 file:mr-3 file:rounded-md file:border-0 file:bg-zinc-700/60 file:px-3 file:py-1.5 file:text-xs file:text-zinc-200 hover:file:bg-zinc-700"
+                />
+                {files.length > 0 && (
+                  <p className="text-xs text-zinc-500">{files.map((f) => f.name).join(", ")}</p>
+                )}
+                <label className="flex items-center gap-2 text-xs text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={seedOnly}
+                    onChange={(e) => setSeedOnly(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Only use these sources (skip web search)
+                </label>
+                <label className="flex items-center gap-2 text-xs text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={useKnowledgeBase}
+                    onChange={(e) => setUseKnowledgeBase(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Include facts stored by earlier research (knowledge base)
+                </label>
+              </div>
+            </details>
+
+            <label className="mb-2 flex items-center gap-2 text-xs text-zinc-400">
+              <input
+                type="checkbox"
+                checked={reviewOutline}
+                onChange={(e) => setReviewOutline(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Review the outline before writing
+            </label>
+
+            <label className="mb-5 flex items-center gap-2 text-xs text-zinc-400">
+              <input
+                type="checkbox"
+                checked={repurpose}
+                onChange={(e) => setRepurpose(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Also create an X thread, LinkedIn post, email teaser and meta description
+            </label>
+
             {/* Generate button */}
             <button
               onClick={runPipeline}
@@ -301,7 +533,7 @@ export default function Home() {
             </div>
           </div>
 
-          {/* Three agent work sections */}
+          {/* Agent work sections */}
           <div className="space-y-6 stagger-children">
             {/* ── 1. Research ──────────────────────────────────────── */}
             {result.research && (
@@ -319,43 +551,250 @@ export default function Home() {
                       </span>
                       <div className="min-w-0">
                         <p className="text-sm text-zinc-300 leading-relaxed">{f.fact}</p>
-                        <a
-                          href={f.sourceUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="mt-1 inline-block text-xs text-blue-500 hover:text-blue-400 truncate max-w-full"
-                        >
-                          {f.sourceTitle}
-                        </a>
+                        <div className="mt-1 flex items-baseline gap-2 min-w-0">
+                          <a
+                            href={f.sourceUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-block text-xs text-blue-500 hover:text-blue-400 truncate max-w-full"
+                          >
+                            {f.sourceTitle}
+                          </a>
+                          {f.supportingSources && f.supportingSources.length > 1 && (
+                            <span
+                              title={f.supportingSources.slice(1).map((s) => s.title).join("\n")}
+                              className="shrink-0 text-[10px] text-zinc-500"
+                            >
+                              +{f.supportingSources.length - 1} more
+                            </span>
+                          )}
+                          {f.confidence !== undefined && (
+                            <span className="shrink-0 text-[10px] font-mono text-zinc-600">
+                              {Math.round(f.confidence * 100)}% confidence
+                            </span>
+                          )}
+                          {f.scoreBreakdown && (
+                            <span
+                              title={Object.entries(f.scoreBreakdown)
+                                .map(([signal, value]) => `${signal}: ${value}`)
+                                .join("\n")}
+                              className="shrink-0 cursor-help text-[10px] font-mono text-zinc-600"
+                            >
+                              score {f.scoreBreakdown.total}
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
                   ))}
                 </div>
 
+                {(result.research.entities.length > 0 || result.research.keywords.length > 0) && (
+                  <div className="mb-4 flex flex-wrap gap-1.5">
+                    {result.research.entities.map((e) => (
+                      <span
+                        key={e.name}
+                        title={`${e.type} · ${e.mentions} mention(s) in ${e.sourceCount} source(s)`}
+                        className={`rounded-md border px-2 py-0.5 text-[11px] ${ENTITY_COLORS[e.type]}`}
+                      >
+                        {e.name}
+                      </span>
+                    ))}
+                    {result.research.keywords.map((k) => (
+                      <span
+                        key={k.phrase}
+                        title={`keyword · score ${k.score} · ${k.sourceCount} source(s)`}
+                        className="rounded-md border border-dashed border-zinc-700/60 px-2 py-0.5 text-[11px] text-zinc-500"
+                      >
+                        {k.phrase}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {result.research.statistics.length > 0 && (
+                  <div className="mb-4 flex flex-wrap gap-1.5">
+                    {result.research.statistics.map((s, i) => (
+                      <span
+                        key={i}
+                        title={`"${s.text}" — ${s.sourceTitle}`}
+                        className="rounded-md border border-emerald-500/20 bg-emerald-500/10 px-2 py-0.5 text-[11px] font-mono text-emerald-300/90"
+                      >
+                        {formatStatistic(s)}
+                        {s.year && <span className="ml-1 text-zinc-500">{s.year}</span>}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {result.research.comparison && (
+                  <div className="mb-4 overflow-x-auto rounded-lg border border-zinc-800/60">
+                    <table className="w-full text-left text-[11px]">
+                      <thead>
+                        <tr className="border-b border-zinc-800/60 text-zinc-500">
+                          <th className="px-2 py-1.5" />
+                          {result.research.comparison.subjects.map((subject) => (
+                            <th key={subject} className="px-2 py-1.5 font-medium text-zinc-300">
+                              {subject}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.research.comparison.rows.map((row) => (
+                          <tr key={row.dimension} className="border-b border-zinc-800/40 last:border-0 align-top">
+                            <td className="px-2 py-1.5 text-zinc-500 capitalize">{row.dimension}</td>
+                            {row.cells.map((cell) => (
+                              <td key={cell.subject} title={cell.fact} className="px-2 py-1.5 text-zinc-400">
+                                {cell.fact ? (
+                                  <>
+                                    {cell.value && (
+                                      <span className="mr-1 font-mono text-emerald-300/90">{cell.value}</span>
+                                    )}
+                                    <a
+                                      href={cell.sourceUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-blue-500/80 hover:text-blue-400"
+                                    >
+                                      {cell.sourceTitle}
+                                    </a>
+                                  </>
+                                ) : (
+                                  <span className="text-zinc-700">—</span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {result.research.quotes.length > 0 && (
+                  <div className="mb-4 space-y-2">
+                    {result.research.quotes.map((q, i) => (
+                      <blockquote key={i} className="border-l-2 border-blue-500/30 pl-3 text-xs">
+                        <p className="italic text-zinc-300">&ldquo;{q.text}&rdquo;</p>
+                        <footer className="mt-0.5 text-[11px] text-zinc-500">
+                          — {q.speaker}
+                          {q.role && <span className="text-zinc-600">, {q.role}</span>}
+                          <a
+                            href={q.sourceUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="ml-2 text-blue-500/80 hover:text-blue-400"
+                          >
+                            {q.sourceTitle}
+                          </a>
+                        </footer>
+                      </blockquote>
+                    ))}
+                  </div>
+                )}
+
+                {result.research.conflicts.length > 0 && (
+                  <div className="mb-4 rounded-lg border border-amber-500/20 bg-amber-500/5 p-3 space-y-2">
+                    <h4 className="text-xs font-semibold text-amber-400/90 uppercase tracking-wider">
+                      Conflicting claims
+                    </h4>
+                    {result.research.conflicts.map((c, i) => (
+                      <div key={i} className="text-xs text-zinc-400 space-y-1">
+                        <p className="text-amber-300/80">
+                          {c.description}
+                          <span className="ml-2 font-mono text-[10px] text-zinc-600">
+                            {c.resolution === "hedge" ? "hedged in article" : "weaker claim dropped"}
+                          </span>
+                        </p>
+                        <p>
+                          <span className="font-mono text-zinc-600">#{c.factIndexes[0] + 1}</span> {c.claims[0]}
+                        </p>
+                        <p className={c.resolution === "drop" ? "line-through text-zinc-600" : ""}>
+                          <span className="font-mono text-zinc-600">#{c.factIndexes[1] + 1}</span> {c.claims[1]}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <details className="group">
                   <summary className="cursor-pointer text-xs text-zinc-500 hover:text-zinc-300 transition-colors">
                     View {result.research.sources.length} sources & search queries
                   </summary>
                   <div className="mt-3 rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-3 space-y-1.5">
                     {result.research.sources.map((s, i) => (
-                      <a
-                        key={i}
-                        href={s.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="block text-xs text-blue-500/80 hover:text-blue-400 truncate"
-                      >
-                        {s.title}
-                      </a>
+                      <div key={i} className="flex items-baseline gap-2 min-w-0">
+                        <a
+                          href={s.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block text-xs text-blue-500/80 hover:text-blue-400 truncate"
+                        >
+                          {s.title}
+                        </a>
+                        {s.provider && (
+                          <span className="shrink-0 text-[10px] text-zinc-600 font-mono">{s.provider}</span>
+                        )}
+                        {s.provider === "knowledge-base" && (
+                          <span className="shrink-0 text-[10px] text-zinc-600">
+                            retrieved {new Date(s.retrievedAt).toLocaleDateString()}
+                          </span>
+                        )}
+                        {s.credibility && (
+                          <span
+                            title={s.credibility.reason}
+                            className={`shrink-0 text-[10px] font-mono ${
+                              s.credibility.tier === "primary"
+                                ? "text-emerald-500/80"
+                                : s.credibility.tier === "low"
+                                  ? "text-amber-500/80"
+                                  : "text-zinc-600"
+                            }`}
+                          >
+                            {s.credibility.tier}
+                          </span>
+                        )}
+                      </div>
                     ))}
-                    <p className="text-xs text-zinc-600 mt-2 pt-2 border-t border-zinc-800">
-                      Queries: {result.research.searchQueries.join("  /  ")}
-                    </p>
+                    <div className="text-xs text-zinc-600 mt-2 pt-2 border-t border-zinc-800 space-y-0.5">
+                      <p>Queries:</p>
+                      {result.research.searchQueries.map((q, i) => (
+                        <p
+                          key={i}
+                          title={
+                            q.parentIndex !== undefined
+                              ? `${q.reason} (from "${result.research!.searchQueries[q.parentIndex]?.query}")`
+                              : q.reason
+                          }
+                          style={{ paddingLeft: `${q.round * 0.75}rem` }}
+                          className={q.error ? "text-red-400/70" : undefined}
+                        >
+                          {q.round > 0 && <span className="text-zinc-700">↳ </span>}
+                          {q.query}
+                          <span className="ml-1.5 font-mono text-zinc-700">+{q.newResults}</span>
+                          {q.gap && <span className="ml-1.5 text-zinc-700">{q.gap}</span>}
+                        </p>
+                      ))}
+                    </div>
                   </div>
                 </details>
               </AgentCard>
             )}
 
+            {/* ── Outline review ───────────────────────────────────── */}
+            {result.status === "awaiting-approval" && outline && result.research && (
+              <AgentCard agent="writer">
+                <OutlineEditor
+                  outline={outline}
+                  facts={result.research.facts.map((f) => f.fact)}
+                  onChange={setOutline}
+                  onApprove={approveOutline}
+                  disabled={loading}
+                />
+              </AgentCard>
+            )}
+
             {/* ── 2. Writer ────────────────────────────────────────── */}
             {result.article && (
               <AgentCard agent="writer">
@@ -364,13 +803,24 @@ export default function Home() {
                     {result.article.title}
                   </h3>
                   <div className="flex gap-2 shrink-0">
-                    <Pill>{result.article.wordCount} words</Pill>
+                    <Pill>
+                      {result.article.wordCount} words (target {result.article.targetWordCount})
+                    </Pill>
+                    <Pill>{result.article.referencesWordCount} reference words</Pill>
                     <Pill>{result.article.citations.length} sources</Pill>
                   </div>
                 </div>
                 <div className="whitespace-pre-wrap text-sm text-zinc-400 leading-relaxed rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-4 max-h-64 overflow-y-auto">
                   {result.article.article}
                 </div>
+                {result.article.coverage && (
+                  <p className="mt-2 text-xs text-zinc-500">
+                    Topic coverage {Math.round(result.article.coverage.score * 100)}%
+                    {result.article.coverage.missing.length > 0 && (
+                      <span className="text-zinc-600"> — not mentioned: {result.article.coverage.missing.join(", ")}</span>
+                    )}
+                  </p>
+                )}
               </AgentCard>
             )}
 
@@ -428,6 +878,16 @@ export default function Home() {
                   </div>
                 )}
 
+                {/* SEO keywords */}
+                <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                  <span className="text-[11px] uppercase tracking-wider text-zinc-600">SEO</span>
+                  {result.edited.seoKeywords.map((k) => (
+                    <span key={k} className="rounded-md border border-zinc-700/50 bg-zinc-800/30 px-2 py-0.5 text-[11px] text-zinc-400">
+                      {k}
+                    </span>
+                  ))}
+                </div>
+
                 {/* Headline suggestions */}
                 <div className="flex flex-wrap gap-2 mb-4">
                   {result.edited.headlineSuggestions.map((h, i) => (
@@ -445,6 +905,56 @@ export default function Home() {
                 </div>
               </AgentCard>
             )}
+
+            {/* ── 4. Repurpose ─────────────────────────────────────── */}
+            {result.derivatives && (
+              <AgentCard agent="repurpose">
+                {/* X thread */}
+                <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+                  X thread · {result.derivatives.thread.length} posts
+                </h4>
+                <ol className="space-y-2 mb-5">
+                  {result.derivatives.thread.map((post, i) => (
+                    <li
+                      key={i}
+                      className="rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-3 text-sm text-zinc-300 whitespace-pre-wrap break-words"
+                    >
+                      {post.text}
+                      <span className="mt-1 block text-right text-[11px] text-zinc-600">
+                        {post.length}/{result.derivatives!.postLimit}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+
+                {/* LinkedIn post */}
+                <details className="group mb-4">
+                  <summary className="cursor-pointer text-xs text-zinc-500 hover:text-zinc-300 transition-colors">
+                    LinkedIn post · {result.derivatives.linkedInPost.length} characters
+                  </summary>
+                  <p className="mt-3 rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-3 text-sm text-zinc-300 whitespace-pre-wrap break-words">
+                    {result.derivatives.linkedInPost}
+                  </p>
+                </details>
+
+                {/* Email teaser */}
+                <details className="group mb-4">
+                  <summary className="cursor-pointer text-xs text-zinc-500 hover:text-zinc-300 transition-colors">
+                    Email teaser · {result.derivatives.emailTeaser.subject}
+                  </summary>
+                  <p className="mt-3 rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-3 text-sm text-zinc-300 whitespace-pre-wrap break-words">
+                    {result.derivatives.emailTeaser.body}
+                  </p>
+                </details>
+
+                {/* Meta description */}
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="shrink-0 text-[11px] uppercase tracking-wider text-zinc-600">Meta</span>
+                  <span className="text-zinc-400">{result.derivatives.metaDescription}</span>
+                  <span className="ml-auto shrink-0 text-zinc-600">{result.derivatives.metaDescription.length}/160</span>
+                </div>
+              </AgentCard>
+            )}
           </div>
 
           {/* ── Final Output (prominent) ───────────────────────────── */}
@@ -459,7 +969,7 @@ export default function Home() {
                   </div>
                   <h2 className="text-2xl font-bold text-white">Final Article</h2>
                   <div className="ml-auto flex gap-2">
-                    <Pill>{result.edited.wordCount} words</Pill>
+                    <Pill>{result.edited.wordCount} words + {result.edited.referencesWordCount} in sources</Pill>
                     <Pill>Score: {result.edited.qualityScore.overall}/100</Pill>
                   </div>
                 </div>
@@ -490,6 +1000,13 @@ export default function Home() {
                           >
                             {c.sourceTitle}
                           </a>
+                          {(c.author || c.publisher || c.publishedAt) && (
+                            <span className="shrink-0 text-zinc-600">
+                              {[c.author, c.publisher, c.publishedAt?.slice(0, 10)]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </span>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -533,6 +1050,15 @@ function PipelineStatusIcon({ status }: { status: OrchestrationResult["status"]
       </div>
     );
   }
+  if (status === "awaiting-approval") {
+    return (
+      <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-500/15">
+        <svg className="h-4 w-4 text-blue-400" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25v13.5m-7.5-13.5v13.5" />
+        </svg>
+      </div>
+    );
+  }
   if (status === "partial") {
     return (
       <div className="flex h-8 w-8 items-center justify-center rounded-full bg-yellow-500/15">
@@ -618,6 +1144,100 @@ function AgentCard({ agent, children }: { agent: string; children: React.ReactNo
   );
 }
 
+/** Rename, reorder or drop outline sections and facts, then approve the outline for writing. */
+function OutlineEditor({
+  outline,
+  facts,
+  onChange,
+  onApprove,
+  disabled,
+}: {
+  outline: ArticleOutline;
+  facts: string[];
+  onChange: (outline: ArticleOutline) => void;
+  onApprove: () => void;
+  disabled: boolean;
+}) {
+  const update = (sections: ArticleOutline["sections"]) =>
+    onChange({ ...outline, sections: sections.filter((s) => s.factIndexes.length > 0) });
+  const move = (from: number, to: number) => {
+    const sections = [...outline.sections];
+    [sections[from], sections[to]] = [sections[to], sections[from]];
+    update(sections);
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-white mb-1">Outline</h3>
+      <p className="text-xs text-zinc-500 mb-4">
+        Rename, reorder or trim the sections, then write the article from this outline.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {outline.sections.map((section, s) => (
+          <div key={s} className="rounded-lg border border-zinc-800/60 bg-zinc-800/20 p-3">
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                value={section.heading}
+                maxLength={100}
+                onChange={(e) =>
+                  update(outline.sections.map((o, i) => (i === s ? { ...o, heading: e.target.value } : o)))
+                }
+                className="flex-1 rounded-md border border-zinc-700/60 bg-zinc-800/50 px-2 py-1 text-sm text-white outline-none focus:border-blue-500/50"
+              />
+              <span className="text-[10px] font-mono text-zinc-600">{section.role}</span>
+              <button
+                onClick={() => move(s, s - 1)}
+                disabled={s === 0}
+                className="text-xs text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(s, s + 1)}
+                disabled={s === outline.sections.length - 1}
+                className="text-xs text-zinc-500 hover:text-zinc-300 disabled:opacity-30"
+              >
+                ↓
+              </button>
+            </div>
+            <ul className="space-y-1">
+              {section.factIndexes.map((f) => (
+                <li key={f} className="flex items-start gap-2 text-xs text-zinc-400">
+                  <span className="font-mono text-zinc-600">#{f + 1}</span>
+                  <span className="flex-1">{facts[f]}</span>
+                  <button
+                    onClick={() =>
+                      update(
+                        outline.sections.map((o, i) =>
+                          i === s ? { ...o, factIndexes: o.factIndexes.filter((x) => x !== f) } : o
+                        )
+                      )
+                    }
+                    title="Leave this fact out"
+                    className="text-zinc-600 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onApprove}
+        disabled={disabled || outline.sections.length === 0 || outline.sections.some((s) => !s.heading.trim())}
+        className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-emerald-500 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Approve outline &amp; write
+      </button>
+    </div>
+  );
+}
+
 function ScoreCard({ label, value }: { label: string; value: number }) {
   const color =
     value >= 85 ? "text-emerald-400" : value >= 70 ? "text-yellow-400" : "text-red-400";
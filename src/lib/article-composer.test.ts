@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ArticleFormat, ArticleTone, ResearchFact, ResearchQuote, ResearchSource } from "@/agents/types";
+import {
+  ARTICLE_FORMATS,
+  articleWordCounts,
+  composeArticle,
+  countWords,
+  LENGTH_PRESETS,
+  parseArticleLength,
+} from "./article-composer";
+
+// Templates are picked at random; pin the picks so word counts are repeatable
+beforeEach(() => {
+  vi.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const SUBJECTS = [
+  "Installers", "Utilities", "Households", "Manufacturers", "Regulators",
+  "Researchers", "Landlords", "Municipalities", "Engineers", "Retailers",
+];
+const FINDINGS = [
+  "reported steady demand for air-source heat pumps in rural districts",
+  "expanded training programmes for heat pump technicians across the region",
+  "measured lower winter running costs after switching from oil heating",
+  "announced new factory capacity for compact heat pump units",
+  "published guidance on sizing heat pumps for older brick houses",
+  "noted longer waiting times for heat pump installations during the autumn season",
+  "compared hybrid heating systems with standalone heat pumps in detached homes",
+  "tracked noise complaints about outdoor heat pump units in dense neighbourhoods",
+];
+
+/** Eighty distinct facts over ten sources, each source with a summary snippet for context */
+const sources: ResearchSource[] = SUBJECTS.map((subject, i) => ({
+  title: `${subject} report`,
+  url: `https://source${i}.example/report`,
+  snippet:
+    `${subject} describe a heating market in transition across many regions. ` +
+    `The ${subject.toLowerCase()} survey covered several thousand buildings over a number of winters. ` +
+    `Most ${subject.toLowerCase()} expected electricity prices to shape future decisions.`,
+  retrievedAt: "2024-01-01T00:00:00.000Z",
+}));
+
+const facts: ResearchFact[] = SUBJECTS.flatMap((subject, i) =>
+  FINDINGS.map((finding) => ({
+    fact: `${subject} ${finding}.`,
+    sourceUrl: sources[i].url,
+    sourceTitle: sources[i].title,
+  }))
+);
+
+describe("composeArticle length targeting", () => {
+  for (const tone of ["professional", "casual"] as ArticleTone[]) {
+    for (const [preset, target] of Object.entries(LENGTH_PRESETS)) {
+      it(`lands a ${preset} ${tone} body within 10% of ${target} words`, () => {
+        const result = composeArticle({
+          topic: "heat pumps",
+          facts,
+          sources,
+          tone,
+          format: "article",
+          targetWordCount: target,
+        });
+        expect(result.wordCount).toBeGreaterThanOrEqual(target * 0.9);
+        expect(result.wordCount).toBeLessThanOrEqual(target * 1.1);
+        expect(articleWordCounts(result.article)).toEqual({
+          body: result.wordCount,
+          references: result.referencesWordCount,
+        });
+      });
+    }
+  }
+
+  it("stays short of the target rather than padding when research runs out", () => {
+    const result = composeArticle({
+      topic: "heat pumps",
+      facts: facts.slice(0, 2),
+      sources: [],
+      tone: "professional",
+      format: "article",
+      targetWordCount: 1500,
+    });
+    expect(result.wordCount).toBeLessThan(1500 * 0.9);
+  });
+});
+
+describe("composeArticle formats", () => {
+  const quote: ResearchQuote = {
+    text: "Heat pumps are now the cheapest way to heat a new home",
+    speaker: "Jane Doe",
+    sourceUrl: sources[0].url,
+    sourceTitle: sources[0].title,
+  };
+  const formatFacts: ResearchFact[] = [
+    "Germany installed 356,000 heat pumps in 2023, a record year.",
+    "A typical air-source heat pump costs about 15,000 euros to install.",
+    "The first heat pump was introduced in 1855 by Peter von Rittinger.",
+    "Heat pump installations are expected to double by 2030 under the new rules.",
+    "Installers say heat pumps now suit most older homes with radiators.",
+  ].map((fact, i) => ({ fact, sourceUrl: sources[i].url, sourceTitle: sources[i].title }));
+
+  const compose = (format: ArticleFormat) => {
+    const { article, title } = composeArticle({
+      topic: "heat pumps",
+      facts: formatFacts,
+      sources: sources.slice(0, 5),
+      tone: "journalistic",
+      format,
+      targetWordCount: 300,
+      quotes: [quote],
+      entities: [{ name: "Germany", type: "place", mentions: 3, sourceCount: 2 }],
+    });
+    return { title, blocks: article.split(/\n\s*---\s*\nSources:/)[0].split("\n\n") };
+  };
+
+  it("writes an article as headed prose sections with the pull quote", () => {
+    const { blocks } = compose("article");
+    expect(blocks.filter((b) => b.startsWith("## ")).length).toBeGreaterThan(1);
+    expect(blocks.some((b) => /^\d+\. /.test(b))).toBe(false);
+    expect(blocks.some((b) => b.includes("Jane Doe"))).toBe(true);
+  });
+
+  it("numbers one listicle item per fact under a counting title", () => {
+    const { title, blocks } = compose("listicle");
+    const items = blocks.filter((b) => /^\d+\. /.test(b));
+    expect(items.slice(0, 5).map((b) => b.split(".")[0])).toEqual(["1", "2", "3", "4", "5"]);
+    expect(title).toMatch(/^\d+ (Facts|Things to Know) About Heat Pumps$/);
+    expect(blocks.some((b) => b.includes("Jane Doe"))).toBe(false);
+  });
+
+  it("numbers how-to steps after the outline sections", () => {
+    const headings = compose("how-to").blocks.filter((b) => b.startsWith("## "));
+    expect(headings.map((h) => h.match(/^## Step (\d+):/)?.[1])).toEqual(
+      headings.map((_h, i) => String(i + 1))
+    );
+  });
+
+  it("puts FAQ facts under the questions they answer", () => {
+    const { blocks } = compose("faq");
+    const headings = blocks.filter((b) => b.startsWith("## "));
+    expect(headings.every((h) => h.endsWith("?"))).toBe(true);
+    const costs = blocks.indexOf("## What are the costs of heat pumps?");
+    expect(blocks[costs + 1]).toContain("15,000 euros");
+  });
+
+  it("opens a press release with the release line and dateline, and ends it with ###", () => {
+    const { blocks } = compose("press-release");
+    expect(blocks[0]).toBe("FOR IMMEDIATE RELEASE");
+    expect(blocks[1]).toMatch(/^GERMANY, \w+ \d+, \d{4} — Germany installed 356,000 heat pumps/);
+    expect(blocks.at(-2)).toMatch(/^This release|^The information in this release/);
+    expect(blocks.at(-1)).toBe("###");
+  });
+
+  it("lists a newsletter's sections up front and its facts as bullets", () => {
+    const { blocks } = compose("newsletter");
+    const headings = blocks.filter((b) => b.startsWith("## ")).map((h) => h.slice(3));
+    const contents = blocks.find((b) => b.startsWith("In this issue:"))!;
+    for (const heading of headings.filter((h) => h !== "Also worth knowing")) {
+      expect(contents).toContain(`• ${heading}`);
+    }
+    expect(blocks[blocks.indexOf(`## ${headings[0]}`) + 1]).toMatch(/^• /);
+    expect(blocks.some((b) => b.startsWith("Quote of the issue:"))).toBe(true);
+  });
+
+  for (const format of ARTICLE_FORMATS) {
+    it(`lands a ${format} body within 10% of its target`, () => {
+      const { wordCount } = composeArticle({
+        topic: "heat pumps",
+        facts,
+        sources,
+        tone: "professional",
+        format,
+        targetWordCount: 300,
+      });
+      expect(wordCount).toBeGreaterThanOrEqual(270);
+      expect(wordCount).toBeLessThanOrEqual(330);
+    });
+
+    it(`sizes the fact budget of a ${format} body to reach a long target`, () => {
+      const { wordCount } = composeArticle({
+        topic: "heat pumps",
+        facts,
+        sources,
+        tone: "professional",
+        format,
+        targetWordCount: 800,
+      });
+      expect(wordCount).toBeGreaterThanOrEqual(720);
+      expect(wordCount).toBeLessThanOrEqual(880);
+    });
+  }
+
+  it("numbers only facts in a listicle, with context as prose after the list", () => {
+    const { article } = composeArticle({
+      topic: "heat pumps",
+      facts: facts.slice(0, 3),
+      sources,
+      tone: "professional",
+      format: "listicle",
+      targetWordCount: 300,
+    });
+    const blocks = article.split(/\n\s*---\s*\nSources:/)[0].split("\n\n");
+    expect(blocks.filter((b) => /^\d+\. /.test(b))).toHaveLength(3);
+  });
+});
+
+describe("countWords", () => {
+  it("skips citations and markup", () => {
+    expect(countWords("## Heat pumps [1] work • well [2, p. 4] | yes")).toBe(5);
+  });
+});
+
+describe("parseArticleLength", () => {
+  it("reads a preset or a target word count, defaulting to standard", () => {
+    expect(parseArticleLength({})).toEqual({ targetWordCount: 300 });
+    expect(parseArticleLength({ length: "feature" })).toEqual({ targetWordCount: 800 });
+    expect(parseArticleLength({ targetWordCount: 450 })).toEqual({ targetWordCount: 450 });
+  });
+
+  it("rejects unknown presets, out-of-range counts and both at once", () => {
+    expect(parseArticleLength({ length: "epic" })).toHaveProperty("error");
+    expect(parseArticleLength({ targetWordCount: 50 })).toHaveProperty("error");
+    expect(parseArticleLength({ targetWordCount: 450.5 })).toHaveProperty("error");
+    expect(parseArticleLength({ length: "brief", targetWordCount: 450 })).toHaveProperty("error");
+  });
+});
@@ -1,23 +1,110 @@
 import {
+  ArticleFormat,
+  ArticleLength,
+  ArticleOutline,
+  ComparisonCell,
+  FactSource,
+  ResearchComparison,
+  ResearchConflict,
+  ResearchEntity,
   ResearchFact,
+  ResearchKeyword,
+  ResearchQuote,
   ResearchSource,
+  ResearchStatistic,
   ArticleTone,
   ArticleCitation,
+  OutlineSectionRole,
+  TopicCoverage,
 } from "@/agents/types";
+import { buildOutline } from "./article-outline";
+import { keyTerms, mentionsTerm } from "./entity-extractor";
+import { formatStatistic, parseFigures } from "./statistics-extractor";
+import { splitSentences } from "./sentence-segmenter";
+
+/** Body word targets of the length presets */
+export const LENGTH_PRESETS: Record<ArticleLength, number> = {
+  brief: 150,
+  standard: 300,
+  feature: 800,
+  "long-form": 1500,
+};
+export const MIN_TARGET_WORDS = 100;
+export const MAX_TARGET_WORDS = 3000;
+
+export const ARTICLE_FORMATS: ArticleFormat[] = ["article", "listicle", "how-to", "faq", "press-release", "newsletter"];
+
+/** The body lands within this share of its target when research gives enough material */
+const LENGTH_TOLERANCE = 0.1;
+/** Rough words per written fact, and for the opening and closing — sizes the fact budget */
+const WORDS_PER_FACT = 25;
+const FRAME_WORDS = 60;
+/** Body words per outline section */
+const WORDS_PER_SECTION = 200;
+/** Source sentences shorter than this are headings or fragments, not context */
+const MIN_CONTEXT_WORDS = 6;
+/** Sentences per context paragraph */
+const CONTEXT_SENTENCES = 2;
+/** Leads into a context paragraph, after a transition phrase */
+const CONTEXT_LEADS = [
+  "a broader view of {topic} shows that",
+  "beyond the headline findings on {topic},",
+  "looking at the wider picture of {topic},",
+];
+
+/** Joins the second sentence of a context paragraph */
+const CONTEXT_JOINER = "Further,";
+
+/** Words a title leaves lowercase unless they open it */
+const MINOR_TITLE_WORDS = new Set([
+  "a", "an", "and", "as", "at", "but", "by", "for", "in", "of", "on", "or", "the", "to", "vs", "vs.", "with",
+]);
+
+const REFERENCES_MARKER = /\s*---\s*\nSources:/;
+
+/** A "By the numbers" list needs at least this many figures, and shows at most the max */
+const MIN_STATISTICS = 3;
+const MAX_STATISTICS = 5;
+
+/** Words of the source clause kept as a statistic's label */
+const STATISTIC_LABEL_WORDS = 14;
+
+/** Words of a fact shown in a comparison table cell that has no figure */
+const CELL_WORDS = 10;
 
 interface ComposeOptions {
   topic: string;
   facts: ResearchFact[];
   sources: ResearchSource[];
   tone: ArticleTone;
+  /** The piece's shape; comparisons keep their own layout */
+  format: ArticleFormat;
   targetWordCount: number;
+  /** Contradictory fact pairs from research; hedged or dropped when composing */
+  conflicts?: ResearchConflict[];
+  /** Parsed figures from research, listed in a "By the numbers" section */
+  statistics?: ResearchStatistic[];
+  /** Attributed quotes from research; the best one becomes a pull quote */
+  quotes?: ResearchQuote[];
+  /** Research entities and keywords the article is checked against for coverage */
+  entities?: ResearchEntity[];
+  keywords?: ResearchKeyword[];
+  /** Comparison matrix from comparison research; switches to the comparison layout */
+  comparison?: ResearchComparison;
+  /** Sections to write, indexing into `facts`; drafted from the facts when absent */
+  outline?: ArticleOutline;
 }
 
 interface ComposeResult {
   title: string;
   article: string;
+  /** Words in the body, without the Sources list */
   wordCount: number;
+  referencesWordCount: number;
   citations: ArticleCitation[];
+  coverage?: TopicCoverage;
+  /** The outline the article follows (not for comparisons) */
+  outline?: ArticleOutline;
 }
 
 // ── Tone templates ──────────────────────────────────────────────────────
@@ -27,6 +114,21 @@ interface ToneKit {
   transitionPhrases: string[];
   closingTemplates: string[];
   citationVerbs: string[];
+  /** Appended to a figure other sources dispute; {low} and {high} are the range */
+  hedgeTemplates: string[];
+  /** Introduces the list of key statistics */
+  statisticsHeading: string;
+  /**
+   * Pull quote after the first body paragraph; {quote} and {speaker} are
+   * filled from research. Empty for tones that don't quote sources directly.
+   */
+  pullQuoteTemplates: string[];
+  /** Opens a comparison article; {subjects} and {dimensions} are lists such as "A and B" */
+  comparisonOpeningTemplates: string[];
+  /** Introduces the comparison table */
+  comparisonHeading: string;
+  /** Leads from one subject's finding to the next within a dimension */
+  contrastPhrases: string[];
 }
 
 const TONE_KITS: Record<ArticleTone, ToneKit> = {
@@ -54,6 +156,21 @@ const TONE_KITS: Record<ArticleTone, ToneKit> = {
       "Analysis by {source} reveals that",
       "Data from {source} shows that",
     ],
+    hedgeTemplates: [
+      "Estimates range from {low} to {high}, depending on the source.",
+      "Reported figures vary between {low} and {high}.",
+    ],
+    statisticsHeading: "Key figures:",
+    pullQuoteTemplates: [
+      'As {speaker} put it: "{quote}."',
+      '"{quote}," noted {speaker}.',
+    ],
+    comparisonOpeningTemplates: [
+      "Choosing between {subjects} calls for a clear view of how they differ. This overview compares them on {dimensions}.",
+      "Decision-makers weighing {subjects} need reliable points of comparison. The sections below set them side by side on {dimensions}.",
+    ],
+    comparisonHeading: "At a glance:",
+    contrastPhrases: ["By comparison,", "In contrast,", "Meanwhile,"],
   },
   casual: {
     openingTemplates: [
@@ -79,6 +196,18 @@ const TONE_KITS: Record<ArticleTone, ToneKit> = {
       "{source} notes that",
       "The folks at {source} report that",
     ],
+    hedgeTemplates: [
+      "Depending on who you ask, though, it's anywhere from {low} to {high}.",
+      "Heads up: other sources put it somewhere between {low} and {high}.",
+    ],
+    statisticsHeading: "By the numbers:",
+    pullQuoteTemplates: [],
+    comparisonOpeningTemplates: [
+      "Trying to pick between {subjects}? Let's put them head to head on {dimensions}.",
+      "{subjects} — which one comes out ahead? Here's how they stack up on {dimensions}.",
+    ],
+    comparisonHeading: "Side by side:",
+    contrastPhrases: ["On the other hand,", "Meanwhile,", "Compare that with this:"],
   },
   academic: {
     openingTemplates: [
@@ -104,6 +233,18 @@ const TONE_KITS: Record<ArticleTone, ToneKit> = {
       "{source} has established that",
       "According to {source},",
     ],
+    hedgeTemplates: [
+      "Reported estimates range from {low} to {high}, reflecting methodological differences across sources.",
+      "The literature reports values between {low} and {high}.",
+    ],
+    statisticsHeading: "Summary of reported figures:",
+    pullQuoteTemplates: [],
+    comparisonOpeningTemplates: [
+      "This review contrasts {subjects} with respect to {dimensions}, drawing on the available evidence for each.",
+      "A comparative assessment of {subjects} is presented below, structured along {dimensions}.",
+    ],
+    comparisonHeading: "Comparative summary:",
+    contrastPhrases: ["Conversely,", "By contrast,", "In comparison,"],
   },
   journalistic: {
     openingTemplates: [
@@ -129,112 +270,944 @@ const TONE_KITS: Record<ArticleTone, ToneKit> = {
       "A report from {source} reveals that",
       "Sources at {source} confirm that",
     ],
+    hedgeTemplates: [
+      "Estimates vary, ranging from {low} to {high}.",
+      "Other reports put the figure between {low} and {high}.",
+    ],
+    statisticsHeading: "By the numbers:",
+    pullQuoteTemplates: [
+      '"{quote}," said {speaker}.',
+      'In the words of {speaker}: "{quote}."',
+    ],
+    comparisonOpeningTemplates: [
+      "{subjects} are competing for the same attention — and the data shows how they measure up on {dimensions}.",
+      "How do {subjects} really compare? A look at {dimensions} tells the story.",
+    ],
+    comparisonHeading: "How they compare:",
+    contrastPhrases: ["Meanwhile,", "By contrast,", "On the other side,"],
   },
 };
 
+// ── Format templates ────────────────────────────────────────────────────
+// The format sets the piece's shape and the tone its wording: formats write
+// facts with the tone's citation verbs, transitions and hedges. Empty
+// templates fall back to the tone's.
+
+interface FormatKit {
+  /** {Topic} is the topic in title case; {count:step} counts the items, steps or questions, e.g. "3 steps" */
+  titleTemplates: string[];
+  openingTemplates: string[];
+  closingTemplates: string[];
+  /** Replaces the tone's pull-quote templates; empty for no pull quote */
+  pullQuoteTemplates?: string[];
+  /** Heads the context the length adds; {topic}, and {n} for a step number */
+  contextHeading?: string;
+  /** Rough words per fact for formats that list facts without citation verbs; sizes the fact budget */
+  wordsPerFact?: number;
+}
+
+const FORMAT_KITS: Record<ArticleFormat, FormatKit> = {
+  article: {
+    titleTemplates: [],
+    openingTemplates: [],
+    closingTemplates: [],
+  },
+  listicle: {
+    titleTemplates: ["{count:Fact} About {Topic}", "{count:Thing} to Know About {Topic}"],
+    openingTemplates: [
+      "Short on time? Here are {count:fact} about {topic}, each with its source.",
+      "What's the latest on {topic}? These {count:finding} sum it up.",
+    ],
+    closingTemplates: [],
+    pullQuoteTemplates: [],
+    wordsPerFact: 14,
+  },
+  "how-to": {
+    titleTemplates: ["{Topic}: A Step-by-Step Guide", "How to Get to Grips with {Topic}"],
+    openingTemplates: [
+      "This guide walks through {topic} in {count:step}, each backed by its sources.",
+      "Getting to grips with {topic} takes {count:step}, built on research from the sources listed at the end.",
+    ],
+    closingTemplates: [],
+    pullQuoteTemplates: [],
+    contextHeading: "Step {n}: Dig deeper",
+  },
+  faq: {
+    titleTemplates: ["{Topic}: Frequently Asked Questions", "{Topic} FAQ: Your Questions Answered"],
+    openingTemplates: [
+      "Here are answers to {count:common question} about {topic}, each backed by its sources.",
+      "Have questions about {topic}? The answers below draw on the latest research.",
+    ],
+    closingTemplates: [],
+    pullQuoteTemplates: [],
+    contextHeading: "What else should you know about {topic}?",
+  },
+  "press-release": {
+    titleTemplates: ["New Findings on {Topic}", "{Topic}: New Figures Released"],
+    openingTemplates: [],
+    closingTemplates: [],
+    pullQuoteTemplates: ['"{quote}," said {speaker}.'],
+  },
+  newsletter: {
+    titleTemplates: ["The {Topic} Briefing", "{Topic} Digest: What's New"],
+    openingTemplates: [
+      "Welcome to this issue of the {topic} briefing. Here's what caught our attention.",
+      "Hello! Here's your roundup of the latest on {topic}.",
+    ],
+    closingTemplates: [
+      "That's all for this issue. Thanks for reading!",
+      "Thanks for reading. See you in the next issue.",
+    ],
+    pullQuoteTemplates: ['Quote of the issue: "{quote}" — {speaker}'],
+    contextHeading: "Also worth knowing",
+    wordsPerFact: 14,
+  },
+};
+
+/** How-to steps open by the role of their outline section; further steps of a role take the next lead */
+const STEP_LEADS: Record<OutlineSectionRole, string[]> = {
+  background: ["Start with the background.", "Look further back."],
+  current: ["Take stock of where things stand.", "Get a clearer picture of the present."],
+  data: ["Check the numbers.", "Look at the figures more closely."],
+  outlook: ["Plan for what comes next.", "Keep an eye on what lies ahead."],
+};
+const STEP_HEADING = "Step {n}: {heading}";
+
+/**
+ * The question a fact answers in a FAQ: the first whose cues it matches,
+ * else the one for the role of its outline section.
+ */
+const FAQ_QUESTIONS: Array<{ cues: RegExp; question: string }> = [
+  { cues: /\b(?:will|expected|forecasts?|plans?|planned|by 20\d{2}|future)\b/i, question: "What's next for {topic}?" },
+  { cues: /\b(?:founded|history|invented|introduced|originally|first|began|established)\b/i, question: "What is the history of {topic}?" },
+  {
+    cues: /[$€£¥]|\b(?:costs?|prices?|priced|pay|euros?|dollars?|subsid\w*|grants?|affordable|expensive|cheap\w*)\b/i,
+    question: "What are the costs of {topic}?",
+  },
+  {
+    cues: /\b(?:installed|installations?|sold|sales|grew|growth|users?|customers|households|adopt\w*|market share|popular)\b/i,
+    question: "How many people use {topic}?",
+  },
+  {
+    cues: /\b(?:efficien\w*|performance|performs?|output|capacity|reliab\w*|lifespan|temperatures?)\b/i,
+    question: "What is known about the performance of {topic}?",
+  },
+];
+const FAQ_ROLE_QUESTIONS: Record<OutlineSectionRole, string> = {
+  background: "What is the history of {topic}?",
+  current: "What is the current state of {topic}?",
+  data: "What do the numbers say about {topic}?",
+  outlook: "What's next for {topic}?",
+};
+
+/** Press releases open with the release line and a dateline, and end with "About" boilerplate and "###" */
+const RELEASE_LINE = "FOR IMMEDIATE RELEASE";
+const BOILERPLATE_TEMPLATES = [
+  "This release draws on {count:source} on {topic}. Each figure is cited where it appears, and the full list of sources follows.",
+  "The information in this release comes from {count:published source} on {topic}, cited throughout and listed below.",
+];
+
 // ── Composer ─────────────────────────────────────────────────────────────
 
+/** What a body is composed from; composeArticle adjusts it to fit the target length */
+interface BodyLayout {
+  /** Top-ranked facts a drafted outline may use */
+  factBudget: number;
+  contextParagraphs: number;
+  /** Include the "By the numbers" list */
+  figures: boolean;
+}
+
+/**
+ * Compose an article whose body lands within ±10% of `targetWordCount`.
+ * Starting from the facts the length has room for, a body that runs long
+ * loses its figures list, then its lowest-ranked facts; one that runs short
+ * gains context paragraphs from the sources' summaries until they run out.
+ * An approved outline keeps all of its facts.
+ */
 export function composeArticle(options: ComposeOptions): ComposeResult {
-  const { topic, facts, sources, tone, targetWordCount } = options;
-  const kit = TONE_KITS[tone];
+  if (options.comparison && options.comparison.filledCells > 0) {
+    return composeComparison(options, options.comparison);
+  }
 
-  // Build a citation index: map sourceUrl → citation number
-  const citationMap = new Map<string, ArticleCitation>();
-  let citationIndex = 1;
+  const { targetWordCount, outline } = options;
+  const low = targetWordCount * (1 - LENGTH_TOLERANCE);
+  const high = targetWordCount * (1 + LENGTH_TOLERANCE);
+  const available = Math.max(
+    1,
+    Math.ceil(contextSentences(options.facts, options.sources).length / CONTEXT_SENTENCES)
+  );
 
-  for (const fact of facts) {
-    if (!citationMap.has(fact.sourceUrl)) {
-      citationMap.set(fact.sourceUrl, {
-        index: citationIndex++,
-        sourceTitle: fact.sourceTitle,
-        sourceUrl: fact.sourceUrl,
-      });
+  const layout: BodyLayout = {
+    factBudget: outline
+      ? options.facts.length
+      : Math.min(factBudget(targetWordCount, options.format), options.facts.length),
+    contextParagraphs: 0,
+    figures: true,
+  };
+  let result = composeBody(options, layout);
+
+  while (result.wordCount > high) {
+    if (layout.figures) layout.figures = false;
+    else if (!outline && layout.factBudget > 1) layout.factBudget--;
+    else break;
+    result = composeBody(options, layout);
+  }
+
+  while (result.wordCount < low && layout.contextParagraphs < available) {
+    layout.contextParagraphs++;
+    const longer = composeBody(options, layout);
+    // Overshooting is fine while it ends up closer to the target
+    if (longer.wordCount > high && longer.wordCount - targetWordCount > targetWordCount - result.wordCount) break;
+    result = longer;
+  }
+
+  // Out of context, a short body takes on the research's further facts
+  while (result.wordCount < low && !outline && layout.factBudget < options.facts.length) {
+    layout.factBudget++;
+    const longer = composeBody(options, layout);
+    if (longer.wordCount > high && longer.wordCount - targetWordCount > targetWordCount - result.wordCount) break;
+    result = longer;
+  }
+
+  return result;
+}
+
+/** Facts a body of `targetWordCount` words in `format` has room for. */
+export function factBudget(targetWordCount: number, format: ArticleFormat = "article"): number {
+  const wordsPerFact = FORMAT_KITS[format].wordsPerFact ?? WORDS_PER_FACT;
+  return Math.max(2, Math.round((targetWordCount - FRAME_WORDS) / wordsPerFact));
+}
+
+/** Outline sections an article body of `targetWordCount` words has room for. */
+export function sectionBudget(targetWordCount: number): number {
+  return Math.max(2, Math.round(targetWordCount / WORDS_PER_SECTION));
+}
+
+/**
+ * Validate the optional `length` preset or `targetWordCount` of a write
+ * request; without either, the standard length.
+ */
+export function parseArticleLength(input: {
+  length?: unknown;
+  targetWordCount?: unknown;
+}): { targetWordCount: number } | { error: string } {
+  const { length, targetWordCount } = input;
+  if (length !== undefined && targetWordCount !== undefined) {
+    return { error: "Use either length or targetWordCount, not both" };
+  }
+
+  if (length !== undefined) {
+    if (typeof length !== "string" || !(length in LENGTH_PRESETS)) {
+      return { error: `Invalid length. Must be one of: ${Object.keys(LENGTH_PRESETS).join(", ")}` };
     }
+    return { targetWordCount: LENGTH_PRESETS[length as ArticleLength] };
   }
 
-  const citations = Array.from(citationMap.values());
+  if (targetWordCount !== undefined) {
+    if (
+      !Number.isInteger(targetWordCount) ||
+      (targetWordCount as number) < MIN_TARGET_WORDS ||
+      (targetWordCount as number) > MAX_TARGET_WORDS
+    ) {
+      return {
+        error: `Invalid targetWordCount. Use a whole number from ${MIN_TARGET_WORDS} to ${MAX_TARGET_WORDS}`,
+      };
+    }
+    return { targetWordCount: targetWordCount as number };
+  }
 
-  // ── Title ────────────────────────────────────────────────────────────
-  const title = generateTitle(topic, tone);
+  return { targetWordCount: LENGTH_PRESETS.standard };
+}
 
-  // ── Body paragraphs ──────────────────────────────────────────────────
-  const paragraphs: string[] = [];
+/** Words in `text`, leaving out [n] citations and markup such as "##", "|" and "•". */
+export function countWords(text: string): number {
+  return (text.replace(/\[\d+(?:, p\. \d+)?\]/g, " ").match(/\S*[\p{L}\p{N}]\S*/gu) ?? []).length;
+}
+
+/** Word counts of an article's body and of its Sources list. */
+export function articleWordCounts(article: string): { body: number; references: number } {
+  const at = article.search(REFERENCES_MARKER);
+  if (at < 0) return { body: countWords(article), references: 0 };
+  return {
+    body: countWords(article.slice(0, at)),
+    references: countWords(article.slice(at).replace(REFERENCES_MARKER, "")),
+  };
+}
 
-  // Opening paragraph
-  const opening = pickRandom(kit.openingTemplates).replace(
-    /\{topic\}/g,
-    topic
+/**
+ * `sentence` without the lead-ins the composer writes before a fact —
+ * transitions, citation verbs naming one of `sourceTitles`, context leads
+ * and how-to step leads — e.g. "Meanwhile, according to Acme, sales rose."
+ * becomes "Sales rose."
+ */
+export function stripLeadIns(sentence: string, topic: string, sourceTitles: string[]): string {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const sources = sourceTitles.map(escape).join("|") || "(?!)";
+  const leads = [
+    ...Object.values(TONE_KITS).flatMap((k) => [...k.transitionPhrases, ...k.citationVerbs, ...k.contrastPhrases]),
+    ...CONTEXT_LEADS,
+    CONTEXT_JOINER,
+    ...Object.values(STEP_LEADS).flat(),
+  ].map(
+    (lead) =>
+      new RegExp(
+        `^${escape(lead)
+          .replace(/\\\{source\\\}/g, () => `(?:${sources})`)
+          .replace(/\\\{topic\\\}/g, () => escape(topic))}\\s+`,
+        "i"
+      )
   );
-  paragraphs.push(opening);
-
-  // Body paragraphs — weave in facts with citations
-  // Group facts into paragraphs (2-3 facts per paragraph)
-  const grouped = groupFacts(facts, 2);
-
-  for (let g = 0; g < grouped.length; g++) {
-    const group = grouped[g];
-    const sentences: string[] = [];
-
-    for (let i = 0; i < group.length; i++) {
-      const fact = group[i];
-      const citation = citationMap.get(fact.sourceUrl)!;
-      const citRef = `[${citation.index}]`;
-
-      if (i === 0 && g > 0) {
-        // Lead with a transition
-        const transition = kit.transitionPhrases[g % kit.transitionPhrases.length];
-        const citVerb = pickRandom(kit.citationVerbs).replace(
-          /\{source\}/g,
-          fact.sourceTitle
-        );
-        sentences.push(`${transition} ${lowerFirst(citVerb)} ${lowerFirst(cleanFact(fact.fact))} ${citRef}`);
-      } else if (i === 0) {
-        // First fact in first body paragraph — use citation verb
-        const citVerb = pickRandom(kit.citationVerbs).replace(
-          /\{source\}/g,
-          fact.sourceTitle
-        );
-        sentences.push(`${citVerb} ${lowerFirst(cleanFact(fact.fact))} ${citRef}`);
-      } else {
-        // Subsequent fact in same paragraph
-        sentences.push(`${upperFirst(cleanFact(fact.fact))} ${citRef}`);
+
+  let text = sentence.trim();
+  for (let stripped = true; stripped; ) {
+    stripped = false;
+    for (const lead of leads) {
+      const match = lead.exec(text);
+      if (match && match[0].length < text.length) {
+        text = text.slice(match[0].length);
+        stripped = true;
       }
     }
-
-    paragraphs.push(sentences.join(" "));
   }
+  return upperFirst(text);
+}
 
-  // If we're short of target, add a context paragraph
-  const currentWords = paragraphs.join(" ").split(/\s+/).length;
-  if (currentWords < targetWordCount * 0.7) {
-    const filler = generateContextParagraph(topic, sources, kit);
-    paragraphs.push(filler);
-  }
+function composeBody(options: ComposeOptions, layout: BodyLayout): ComposeResult {
+  const {
+    topic,
+    sources,
+    tone,
+    format,
+    targetWordCount,
+    conflicts = [],
+    statistics = [],
+    quotes = [],
+    entities = [],
+    keywords = [],
+  } = options;
+  const kit = TONE_KITS[tone];
+  const formatKit = FORMAT_KITS[format];
+  const { byIndex, dropped } = resolveConflicts(options.facts, conflicts, kit);
+  const outline =
+    options.outline ??
+    buildOutline({
+      topic,
+      facts: options.facts.slice(0, layout.factBudget),
+      conflicts,
+      entities,
+      keywords,
+      maxSections: sectionBudget(targetWordCount),
+    });
 
-  // Closing paragraph
-  const closing = pickRandom(kit.closingTemplates).replace(
-    /\{topic\}/g,
-    topic
+  // Each section's facts in outline order; facts dropped by a conflict are left out
+  const sections = outline.sections
+    .map((section) => {
+      const ranks = section.factIndexes.filter((i) => !dropped.has(i) && byIndex[i]);
+      return { heading: section.heading, role: section.role, ranks, facts: ranks.map((i) => byIndex[i]) };
+    })
+    .filter((section) => section.facts.length > 0);
+
+  // The pull quote's and context sentences' sources are cited too, after the fact sources
+  const pullQuoteTemplates = formatKit.pullQuoteTemplates ?? kit.pullQuoteTemplates;
+  const pullQuote = pullQuoteTemplates.length > 0 ? quotes[0] : undefined;
+  const context = contextSentences(options.facts, sources).slice(0, layout.contextParagraphs * CONTEXT_SENTENCES);
+  const citationMap = buildCitationMap(
+    sections.flatMap((section) => section.facts),
+    sources,
+    [
+      ...(pullQuote ? [{ url: pullQuote.sourceUrl, title: pullQuote.sourceTitle }] : []),
+      ...context.map((c) => ({ url: c.source.url, title: c.source.title })),
+    ]
+  );
+  const citations = Array.from(citationMap.values());
+
+  // Key statistics of the outlined facts, leaving out figures from claims dropped as contradicted
+  const outlined = new Set(outline.sections.flatMap((section) => section.factIndexes));
+  const byTheNumbers = buildStatisticsSection(
+    statistics.filter((s) => outlined.has(s.factIndex) && !dropped.has(s.factIndex)),
+    options.facts,
+    citationMap,
+    kit
   );
-  paragraphs.push(closing);
+
+  const { paragraphs, count } = FORMAT_LAYOUTS[format]({
+    topic,
+    kit,
+    formatKit,
+    sections,
+    context,
+    contextParagraphs: layout.contextParagraphs,
+    citationMap,
+    pullQuote: pullQuote && formatPullQuote(pullQuote, pullQuoteTemplates, citationMap.get(pullQuote.sourceUrl)!),
+    figures: layout.figures ? byTheNumbers : null,
+    entities,
+  });
+
+  const title =
+    formatKit.titleTemplates.length > 0
+      ? fillTemplate(pickRandom(formatKit.titleTemplates), topic, count)
+      : generateTitle(topic, tone);
 
   // ── References section ───────────────────────────────────────────────
-  const refsSection = citations
-    .map((c) => `[${c.index}] ${c.sourceTitle} — ${c.sourceUrl}`)
-    .join("\n");
+  const refsSection = citations.map(formatReference).join("\n");
 
   const article = paragraphs.join("\n\n") + "\n\n---\nSources:\n" + refsSection;
 
   return {
     title,
     article,
-    wordCount: article.split(/\s+/).length,
+    wordCount: countWords(paragraphs.join("\n\n")),
+    referencesWordCount: countWords(refsSection),
+    citations,
+    coverage: topicCoverage(paragraphs.join("\n\n"), keyTerms(entities, keywords)),
+    outline,
+  };
+}
+
+// ── Format layouts ──────────────────────────────────────────────────────
+
+type ContextSentence = { text: string; source: ResearchSource };
+
+/** What every format lays out: the outline's sections and the extras the length calls for */
+interface BodyParts {
+  topic: string;
+  kit: ToneKit;
+  formatKit: FormatKit;
+  /** `ranks` are the facts' indexes into the research facts, which are ranked best first */
+  sections: Array<{ heading: string; role: OutlineSectionRole; facts: ResearchFact[]; ranks: number[] }>;
+  context: ContextSentence[];
+  /** Context paragraphs the length calls for; `context` may hold fewer sentences */
+  contextParagraphs: number;
+  citationMap: Map<string, ArticleCitation>;
+  /** The formatted and cited pull quote, if the format or tone uses one */
+  pullQuote?: string;
+  /** The "By the numbers" list, if the length has room for it */
+  figures: string | null;
+  entities: ResearchEntity[];
+}
+
+/** Paragraphs of the body, and how many items, steps or questions they number */
+interface FormatLayout {
+  paragraphs: string[];
+  count: number;
+}
+
+const FORMAT_LAYOUTS: Record<ArticleFormat, (parts: BodyParts) => FormatLayout> = {
+  article: articleLayout,
+  listicle: listicleLayout,
+  "how-to": howToLayout,
+  faq: faqLayout,
+  "press-release": pressReleaseLayout,
+  newsletter: newsletterLayout,
+};
+
+/**
+ * Article: an opening, each section under a `## ` heading with its facts
+ * two to a paragraph, the pull quote after the first, then context,
+ * figures and a closing.
+ */
+function articleLayout(parts: BodyParts): FormatLayout {
+  const { topic, kit, sections, pullQuote, figures } = parts;
+  const paragraphs = [openingOf(parts, 0)];
+
+  let g = 0;
+  for (const section of sections) {
+    paragraphs.push(`## ${section.heading}`);
+    const body = factParagraphs(section.facts, parts, g);
+    // Pull quote right after the first body paragraph
+    if (g === 0 && pullQuote) body.splice(1, 0, pullQuote);
+    g += body.length;
+    paragraphs.push(...body);
+  }
+
+  // Context paragraphs, as many as the length calls for
+  if (parts.contextParagraphs > 0) {
+    paragraphs.push(...formatContextParagraphs(topic, parts.context, parts.citationMap, kit));
+  }
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(closingOf(parts));
+
+  return { paragraphs, count: sections.length };
+}
+
+/** Listicle: a numbered item per fact in outline order; context follows the list as prose. */
+function listicleLayout(parts: BodyParts): FormatLayout {
+  const { topic, kit, sections, context, citationMap, figures } = parts;
+  const items = sections
+    .flatMap((s) => s.facts)
+    .map((f) => `${upperFirst(cleanFact(f.fact))} ${citationRefs(f, citationMap)}`);
+
+  const paragraphs = [openingOf(parts, items.length), ...items.map((item, i) => `${i + 1}. ${item}`)];
+  if (context.length > 0) paragraphs.push(...formatContextParagraphs(topic, context, citationMap, kit));
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(closingOf(parts));
+  return { paragraphs, count: items.length };
+}
+
+/**
+ * How-to: a numbered step per outline section, named after its heading and
+ * led by what the step is for; context becomes a last "dig deeper" step.
+ */
+function howToLayout(parts: BodyParts): FormatLayout {
+  const { topic, kit, formatKit, sections, context, citationMap, figures } = parts;
+  const steps = sections.length + (context.length > 0 ? 1 : 0);
+  const paragraphs = [openingOf(parts, steps)];
+
+  let g = 0;
+  sections.forEach((section, i) => {
+    paragraphs.push(`## ${STEP_HEADING.replace("{n}", String(i + 1)).replace("{heading}", section.heading)}`);
+    const leads = STEP_LEADS[section.role];
+    const lead = leads[sections.slice(0, i).filter((s) => s.role === section.role).length % leads.length];
+    const [first, ...rest] = factParagraphs(section.facts, parts, g);
+    g += rest.length + 1;
+    paragraphs.push(`${lead} ${first}`, ...rest);
+  });
+
+  if (context.length > 0 && formatKit.contextHeading) {
+    paragraphs.push(`## ${formatKit.contextHeading.replace("{n}", String(steps))}`);
+    paragraphs.push(...formatContextParagraphs(topic, context, citationMap, kit));
+  }
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(closingOf(parts));
+  return { paragraphs, count: steps };
+}
+
+/**
+ * FAQ: facts grouped under the question they answer, questions in the
+ * order of their first fact; context answers a closing "what else" question.
+ */
+function faqLayout(parts: BodyParts): FormatLayout {
+  const { topic, formatKit, sections, context, citationMap, figures } = parts;
+  const answers = new Map<string, ResearchFact[]>();
+  for (const section of sections) {
+    for (const fact of section.facts) {
+      const question = faqQuestion(fact.fact, section.role, topic);
+      answers.set(question, [...(answers.get(question) ?? []), fact]);
+    }
+  }
+
+  const paragraphs = [openingOf(parts, answers.size + (context.length > 0 ? 1 : 0))];
+  let g = 0;
+  for (const [question, facts] of answers) {
+    const body = factParagraphs(facts, parts, g);
+    g += body.length;
+    paragraphs.push(`## ${question}`, ...body);
+  }
+
+  if (context.length > 0 && formatKit.contextHeading) {
+    paragraphs.push(`## ${fillTemplate(formatKit.contextHeading, topic)}`);
+    paragraphs.push(...groupFacts(context, CONTEXT_SENTENCES).map((group) => group.map((c) => citeContext(c, citationMap)).join(" ")));
+  }
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(closingOf(parts));
+  return { paragraphs, count: answers.size + (context.length > 0 ? 1 : 0) };
+}
+
+/**
+ * Press release: the release line, a dateline leading into the best-ranked fact,
+ * the remaining facts as prose with the pull quote after the first
+ * paragraph, then context, figures, "About" boilerplate and the "###" end
+ * mark. The dateline names the research's most-mentioned place.
+ */
+function pressReleaseLayout(parts: BodyParts): FormatLayout {
+  const { topic, kit, sections, citationMap, pullQuote, figures, entities } = parts;
+  // The best-ranked fact leads; the rest follow the outline
+  const ranked = sections.flatMap((s) => s.facts.map((fact, i) => ({ fact, rank: s.ranks[i] })));
+  const best = ranked.length > 0 ? ranked.reduce((a, b) => (b.rank < a.rank ? b : a)) : undefined;
+  const lead = best?.fact;
+  const rest = ranked.filter((r) => r !== best).map((r) => r.fact);
+  const place = entities.find((e) => e.type === "place")?.name;
+  const date = new Date().toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+  const dateline = place ? `${place.toUpperCase()}, ${date} —` : `${date} —`;
+
+  const paragraphs = [RELEASE_LINE];
+  if (lead) paragraphs.push(`${dateline} ${upperFirst(cleanFact(lead.fact))} ${citationRefs(lead, citationMap)}`);
+
+  const body = factParagraphs(rest, parts, 0);
+  if (pullQuote) body.splice(1, 0, pullQuote);
+  paragraphs.push(...body);
+
+  if (parts.context.length > 0) {
+    paragraphs.push(...formatContextParagraphs(topic, parts.context, citationMap, kit));
+  }
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(
+    `## About ${topic}`,
+    fillTemplate(pickRandom(BOILERPLATE_TEMPLATES), topic, citationMap.size),
+    "###"
+  );
+  return { paragraphs, count: sections.length };
+}
+
+/**
+ * Newsletter: a greeting, an "In this issue" list of the sections, each
+ * section's facts as bullets, the pull quote after the first section, and
+ * context as an "also worth knowing" list before the sign-off.
+ */
+function newsletterLayout(parts: BodyParts): FormatLayout {
+  const { formatKit, sections, context, citationMap, pullQuote, figures } = parts;
+  const bullets = (items: string[]) => items.map((item) => `• ${item}`).join("\n");
+
+  const paragraphs = [
+    openingOf(parts, sections.length),
+    `In this issue:\n${bullets(sections.map((s) => s.heading))}`,
+  ];
+  sections.forEach((section, i) => {
+    paragraphs.push(
+      `## ${section.heading}`,
+      bullets(section.facts.map((f) => `${upperFirst(cleanFact(f.fact))} ${citationRefs(f, citationMap)}`))
+    );
+    if (i === 0 && pullQuote) paragraphs.push(pullQuote);
+  });
+
+  if (context.length > 0 && formatKit.contextHeading) {
+    paragraphs.push(`## ${formatKit.contextHeading}`, bullets(context.map((c) => citeContext(c, citationMap))));
+  }
+  if (figures) paragraphs.push(figures);
+  paragraphs.push(closingOf(parts));
+  return { paragraphs, count: sections.length };
+}
+
+/**
+ * Facts two to a paragraph, each cited. A paragraph's first fact leads with
+ * a citation verb, and from a section's second paragraph on with a
+ * transition too; `turn` numbers the paragraph across sections so the
+ * transitions vary.
+ */
+function factParagraphs(facts: ResearchFact[], parts: BodyParts, turn: number): string[] {
+  const { kit, citationMap } = parts;
+  return groupFacts(facts, 2).map((group, p) =>
+    group
+      .map((fact, i) => {
+        const citRef = citationRefs(fact, citationMap);
+        if (i > 0) return `${upperFirst(cleanFact(fact.fact))} ${citRef}`;
+
+        const citVerb = pickRandom(kit.citationVerbs).replace(/\{source\}/g, fact.sourceTitle);
+        if (p === 0) return `${citVerb} ${lowerFirst(cleanFact(fact.fact))} ${citRef}`;
+        const transition = kit.transitionPhrases[(turn + p) % kit.transitionPhrases.length];
+        return `${transition} ${lowerFirst(citVerb)} ${lowerFirst(cleanFact(fact.fact))} ${citRef}`;
+      })
+      .join(" ")
+  );
+}
+
+/** The format's opening, or the tone's; `count` fills {count:…} for formats that number things. */
+function openingOf({ topic, kit, formatKit }: BodyParts, count: number): string {
+  const templates = formatKit.openingTemplates.length > 0 ? formatKit.openingTemplates : kit.openingTemplates;
+  return fillTemplate(pickRandom(templates), topic, count);
+}
+
+function closingOf({ topic, kit, formatKit }: BodyParts): string {
+  const templates = formatKit.closingTemplates.length > 0 ? formatKit.closingTemplates : kit.closingTemplates;
+  return fillTemplate(pickRandom(templates), topic);
+}
+
+/** The question a FAQ answers with `fact`; see FAQ_QUESTIONS. */
+function faqQuestion(fact: string, role: OutlineSectionRole, topic: string): string {
+  const question = FAQ_QUESTIONS.find((q) => q.cues.test(fact))?.question ?? FAQ_ROLE_QUESTIONS[role];
+  return fillTemplate(question, topic);
+}
+
+function fillTemplate(template: string, topic: string, count = 0): string {
+  return template
+    .replace(/\{topic\}/g, topic)
+    .replace(/\{Topic\}/g, titleCase(topic))
+    .replace(/\{count:([^}]+)\}/g, (_m, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`);
+}
+
+/**
+ * Comparison layout: an opening naming the subjects, a table with one row
+ * per dimension and one column per subject (each cell cited), a paragraph
+ * per dimension contrasting the subjects' findings, then further facts per
+ * subject while the article is short of its target length.
+ */
+function composeComparison(options: ComposeOptions, comparison: ResearchComparison): ComposeResult {
+  const { sources, tone, targetWordCount, conflicts = [], entities = [], keywords = [] } = options;
+  const { subjects, rows } = comparison;
+  const kit = TONE_KITS[tone];
+  const { byIndex, dropped } = resolveConflicts(options.facts, conflicts, kit);
+  const topic = subjects.join(" vs. ");
+
+  // A cell whose fact was dropped as the weaker side of a conflict shows as empty
+  const cellFact = (cell: ComparisonCell) =>
+    cell.factIndex !== undefined && !dropped.has(cell.factIndex) ? byIndex[cell.factIndex] : undefined;
+  const tableFacts = rows.flatMap((r) => r.cells.map(cellFact)).filter((f): f is ResearchFact => !!f);
+  // Subjects' research often finds the same statement; each is told once
+  const told = new Set(options.facts.filter((_f, i) => tableFacts.includes(byIndex[i])).map((f) => f.fact));
+  const extras = subjects.map((subject) =>
+    byIndex.filter((f, i) => {
+      if (f.subject !== subject || dropped.has(i) || told.has(options.facts[i].fact)) return false;
+      told.add(options.facts[i].fact);
+      return true;
+    })
+  );
+
+  // Further findings are cited as they are written
+  const citationMap = buildCitationMap(tableFacts, sources);
+
+  const covered = rows.filter((r) => r.cells.some(cellFact)).map((r) => r.dimension);
+  const paragraphs: string[] = [
+    upperFirst(
+      pickRandom(kit.comparisonOpeningTemplates)
+        .replace("{subjects}", listOf(subjects))
+        .replace("{dimensions}", listOf(covered))
+    ),
+  ];
+  // Facts opening with a subject or entity name keep its capital mid-sentence
+  const names = [...subjects, ...entities.map((e) => e.name)].filter((n) => /^\p{Lu}/u.test(n));
+  const factText = (fact: ResearchFact) => {
+    const text = cleanFact(fact.fact);
+    return names.some((n) => text.startsWith(n)) ? text : lowerFirst(text);
+  };
+
+  // ── Table ────────────────────────────────────────────────────────────
+  const tableCell = (cell: ComparisonCell) => {
+    const fact = cellFact(cell);
+    if (!fact) return "—";
+    // The clause stating the cell's figure, else the fact's opening words
+    const words = cleanFact(fact.fact).replace(/[.!?]$/, "").split(" ");
+    const text = cell.value
+      ? statisticLabel(fact.fact, cell.value)
+      : words.length > CELL_WORDS
+        ? `${words.slice(0, CELL_WORDS).join(" ")}…`
+        : words.join(" ");
+    return `${text} ${citationRefs(fact, citationMap)}`.replace(/\|/g, "\\|");
+  };
+  paragraphs.push(
+    [
+      kit.comparisonHeading,
+      `| | ${subjects.map(upperFirst).join(" | ")} |`,
+      `|---|${subjects.map(() => "---").join("|")}|`,
+      ...rows.map((r) => `| ${upperFirst(r.dimension)} | ${r.cells.map(tableCell).join(" | ")} |`),
+    ].join("\n")
+  );
+
+  // ── One paragraph per dimension ──────────────────────────────────────
+  for (const row of rows) {
+    const found = row.cells.map(cellFact).filter((f): f is ResearchFact => !!f);
+    if (found.length === 0) continue;
+    const sentences = found.map((fact, i) => {
+      const text = `${factText(fact)} ${citationRefs(fact, citationMap)}`;
+      return i === 0 ? `On ${row.dimension}, ${text}` : `${kit.contrastPhrases[(i - 1) % kit.contrastPhrases.length]} ${text}`;
+    });
+    paragraphs.push(sentences.join(" "));
+  }
+
+  // ── Further findings, while short of the target ──────────────────────
+  // Two facts a paragraph, the subjects taking turns
+  const low = targetWordCount * (1 - LENGTH_TOLERANCE);
+  const queues = extras.map((facts) => groupFacts(facts, 2));
+  for (let round = 0, p = 0; queues.some((q) => q.length > round); round++) {
+    for (const group of queues.map((q) => q[round])) {
+      if (!group || countWords(paragraphs.join("\n\n")) >= low) continue;
+      buildCitationMap(group, sources, [], citationMap);
+      const [first, ...rest] = group;
+      const citVerb = pickRandom(kit.citationVerbs).replace(/\{source\}/g, first.sourceTitle);
+      paragraphs.push(
+        [
+          `${kit.transitionPhrases[p++ % kit.transitionPhrases.length]} ${lowerFirst(citVerb)} ${factText(first)} ${citationRefs(first, citationMap)}`,
+          ...rest.map((f) => `${upperFirst(cleanFact(f.fact))} ${citationRefs(f, citationMap)}`),
+        ].join(" ")
+      );
+    }
+  }
+
+  paragraphs.push(pickRandom(kit.closingTemplates).replace(/\{topic\}/g, topic));
+
+  const citations = Array.from(citationMap.values());
+  const refsSection = citations.map(formatReference).join("\n");
+  const article = paragraphs.join("\n\n") + "\n\n---\nSources:\n" + refsSection;
+
+  return {
+    title: generateComparisonTitle(subjects, tone),
+    article,
+    wordCount: countWords(paragraphs.join("\n\n")),
+    referencesWordCount: countWords(refsSection),
     citations,
+    coverage: topicCoverage(paragraphs.join("\n\n"), keyTerms(entities, keywords)),
   };
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────────
 
+/**
+ * Citation index: sourceUrl → citation number, carrying over the
+ * bibliographic metadata research harvested for that source. Every source
+ * corroborating a fact gets a number, not just the primary one; `extra`
+ * sources (e.g. a pull quote's) are numbered after the fact sources. Pass
+ * `citationMap` to number further sources after those already in it.
+ */
+function buildCitationMap(
+  facts: ResearchFact[],
+  sources: ResearchSource[],
+  extra: FactSource[] = [],
+  citationMap = new Map<string, ArticleCitation>()
+): Map<string, ArticleCitation> {
+  const sourceByUrl = new Map(sources.map((s) => [s.url, s]));
+  const cite = (url: string, title: string) => {
+    if (citationMap.has(url)) return;
+    const source = sourceByUrl.get(url);
+    citationMap.set(url, {
+      index: citationMap.size + 1,
+      sourceTitle: title,
+      sourceUrl: url,
+      author: source?.author,
+      publisher: source?.publisher,
+      publishedAt: source?.publishedAt,
+      language: source?.language,
+      canonicalUrl: source?.canonicalUrl,
+    });
+  };
+
+  for (const fact of facts) {
+    for (const factSource of factSources(fact)) cite(factSource.url, factSource.title);
+  }
+  for (const s of extra) cite(s.url, s.title);
+  return citationMap;
+}
+
+/** One bracket per supporting source, e.g. "[1][3]" or "[2, p. 12]". */
+function citationRefs(fact: ResearchFact, citationMap: Map<string, ArticleCitation>): string {
+  return factSources(fact)
+    .map((s) => {
+      const { index } = citationMap.get(s.url)!;
+      return s.page !== undefined ? `[${index}, p. ${s.page}]` : `[${index}]`;
+    })
+    .join("");
+}
+
+/**
+ * Apply research conflicts: "drop" removes the weaker claim; "hedge" keeps
+ * the preferred figure, appends the range of reported figures and cites
+ * the sources of both claims. `dropped` holds the removed fact indexes;
+ * `byIndex` is the resolved list before removal, aligned with `facts`.
+ */
+function resolveConflicts(
+  facts: ResearchFact[],
+  conflicts: ResearchConflict[],
+  kit: ToneKit
+): { facts: ResearchFact[]; byIndex: ResearchFact[]; dropped: Set<number> } {
+  const resolved = [...facts];
+  const removed = new Set<number>();
+
+  for (const c of conflicts) {
+    const [preferred, weaker] = c.factIndexes;
+    if (removed.has(preferred) || removed.has(weaker) || !resolved[preferred] || !resolved[weaker]) {
+      continue;
+    }
+    removed.add(weaker);
+
+    if (c.resolution === "hedge" && c.values) {
+      const [low, high] = [...c.values].sort((a, b) => figureValue(a) - figureValue(b));
+      const hedge = pickRandom(kit.hedgeTemplates).replace("{low}", low).replace("{high}", high);
+      const base = resolved[preferred];
+      resolved[preferred] = {
+        ...base,
+        fact: `${cleanFact(base.fact)} ${hedge}`,
+        supportingSources: [...factSources(base), ...factSources(resolved[weaker])].filter(
+          (s, i, all) => all.findIndex((o) => o.url === s.url) === i
+        ),
+      };
+    }
+  }
+
+  return { facts: resolved.filter((_f, i) => !removed.has(i)), byIndex: resolved, dropped: removed };
+}
+
+/**
+ * Fill a pull-quote template: `"…," said Jane Doe, CEO of Acme. [4]`.
+ * A quote ending in "?" or "!" keeps its own mark instead of the template's.
+ */
+function formatPullQuote(quote: ResearchQuote, templates: string[], citation: ArticleCitation): string {
+  const speaker = quote.role ? `${quote.speaker}, ${quote.role}` : quote.speaker;
+  const ref = quote.page !== undefined ? `[${citation.index}, p. ${quote.page}]` : `[${citation.index}]`;
+  let template = pickRandom(templates);
+  if (/[?!]$/.test(quote.text)) template = template.replace(/\{quote\}[,.]/, "{quote}");
+  const text = template.replace("{quote}", quote.text).replace("{speaker}", speaker);
+  return `${text} ${ref}`;
+}
+
+/** Which key terms the article body mentions; undefined without any terms. */
+function topicCoverage(body: string, terms: string[]): TopicCoverage | undefined {
+  if (terms.length === 0) return undefined;
+  const covered = terms.filter((t) => mentionsTerm(body, t));
+  return {
+    score: Math.round((covered.length / terms.length) * 100) / 100,
+    covered,
+    missing: terms.filter((t) => !covered.includes(t)),
+  };
+}
+
+/** Numeric value of a figure such as "$1.2 billion" or "15 GW", for ordering. */
+function figureValue(text: string): number {
+  return parseFigures(text)[0]?.value ?? 0;
+}
+
+/**
+ * "By the numbers" list: one statistic per fact, each written in the same
+ * number style with its year, the clause it came from and its citation.
+ * Returns null when research produced too few figures for a list.
+ */
+function buildStatisticsSection(
+  statistics: ResearchStatistic[],
+  facts: ResearchFact[],
+  citationMap: Map<string, ArticleCitation>,
+  kit: ToneKit
+): string | null {
+  const usedFacts = new Set<number>();
+  const lines: string[] = [];
+
+  for (const stat of statistics) {
+    if (lines.length >= MAX_STATISTICS) break;
+    const citation = citationMap.get(stat.sourceUrl);
+    const fact = facts[stat.factIndex];
+    if (usedFacts.has(stat.factIndex) || !citation || !fact) continue;
+    usedFacts.add(stat.factIndex);
+
+    const ref = stat.page !== undefined ? `[${citation.index}, p. ${stat.page}]` : `[${citation.index}]`;
+    const year = stat.year ? ` (${stat.year})` : "";
+    lines.push(`• ${formatStatistic(stat)}${year} — ${statisticLabel(fact.fact, stat.text)} ${ref}`);
+  }
+
+  return lines.length >= MIN_STATISTICS ? [kit.statisticsHeading, ...lines].join("\n") : null;
+}
+
+/** The clause of `sentence` containing `figure`, shortened to a label. */
+function statisticLabel(sentence: string, figure: string): string {
+  // Clause breaks, but not the commas inside "1,200,000"
+  const breaks = /[;:—()]|,(?!\d)|\.(?=\s|$)/g;
+  const at = Math.max(sentence.indexOf(figure), 0);
+  const start = Math.max(-1, ...[...sentence.slice(0, at).matchAll(breaks)].map((m) => m.index ?? -1)) + 1;
+  const rest = sentence.slice(at + figure.length).search(breaks);
+  const clause = sentence
+    .slice(start, rest < 0 ? sentence.length : at + figure.length + rest)
+    .replace(/[.!?]+$/, "")
+    .trim();
+
+  const words = clause.split(/\s+/);
+  return upperFirst(
+    words.length > STATISTIC_LABEL_WORDS
+      ? `${words.slice(0, STATISTIC_LABEL_WORDS).join(" ")}…`
+      : clause
+  );
+}
+
+/** Supporting sources of a fact; manually supplied facts only have their own source. */
+function factSources(fact: ResearchFact): FactSource[] {
+  return fact.supportingSources?.length
+    ? fact.supportingSources
+    : [{ url: fact.sourceUrl, title: fact.sourceTitle, page: fact.page }];
+}
+
+/** "[1] Title (Author; Publisher, 2024) — URL", omitting unknown fields. */
+function formatReference(c: ArticleCitation): string {
+  const year = c.publishedAt?.slice(0, 4);
+  const imprint = [c.publisher, year].filter(Boolean).join(", ");
+  const details = [c.author, imprint].filter(Boolean).join("; ");
+  return `[${c.index}] ${c.sourceTitle}${details ? ` (${details})` : ""} — ${c.sourceUrl}`;
+}
+
 function generateTitle(topic: string, tone: ArticleTone): string {
   const templates: Record<ArticleTone, string[]> = {
     professional: [
@@ -257,24 +1230,77 @@ function generateTitle(topic: string, tone: ArticleTone): string {
   return pickRandom(templates[tone]);
 }
 
-function generateContextParagraph(
+function generateComparisonTitle(subjects: string[], tone: ArticleTone): string {
+  const versus = subjects.map(upperFirst).join(" vs. ");
+  const list = listOf(subjects.map(upperFirst));
+  const templates: Record<ArticleTone, string[]> = {
+    professional: [`${versus}: A Side-by-Side Comparison`, `Comparing ${list}: Key Differences`],
+    casual: [`${versus}: How Do They Stack Up?`, `${list}: Which One Wins?`],
+    academic: [`A Comparative Analysis of ${list}`, `${versus}: A Comparative Review of the Evidence`],
+    journalistic: [`${versus}: What the Numbers Say`, `${list} Go Head to Head`],
+  };
+  return pickRandom(templates[tone]);
+}
+
+/**
+ * Sentences of the sources' summaries that can give context: long enough to
+ * be prose, complete (not cut off with "…") and not already told as a fact.
+ */
+function contextSentences(
+  facts: ResearchFact[],
+  sources: ResearchSource[]
+): ContextSentence[] {
+  const told = facts.map((f) => cleanFact(f.fact).toLowerCase());
+  const seen = new Set<string>();
+  const sentences: ContextSentence[] = [];
+
+  for (const source of sources) {
+    for (const sentence of splitSentences(source.snippet, source.language)) {
+      const text = cleanFact(sentence);
+      const key = text.toLowerCase();
+      if (text.endsWith("…") || countWords(text) < MIN_CONTEXT_WORDS || seen.has(key)) continue;
+      if (told.some((t) => t.includes(key) || key.includes(t))) continue;
+      seen.add(key);
+      sentences.push({ text, source });
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Context sentences two to a paragraph, each cited. Without any, one
+ * general paragraph on the topic.
+ */
+function formatContextParagraphs(
   topic: string,
-  sources: ResearchSource[],
+  context: ContextSentence[],
+  citationMap: Map<string, ArticleCitation>,
   kit: ToneKit
-): string {
-  const snippets = sources
-    .filter((s) => s.snippet.length > 40)
-    .slice(0, 2);
-
-  if (snippets.length === 0) {
-    return `${pickRandom(kit.transitionPhrases)} the broader context around ${topic} reveals a landscape of ongoing change and increasing relevance across multiple sectors.`;
+): string[] {
+  if (context.length === 0) {
+    return [
+      `${pickRandom(kit.transitionPhrases)} the broader context around ${topic} reveals a landscape of ongoing change and increasing relevance across multiple sectors.`,
+    ];
   }
 
-  const parts = snippets.map(
-    (s) => cleanFact(s.snippet.split(/(?<=[.!?])\s+/)[0] ?? s.snippet)
+  const cited = (c: ContextSentence) => lowerFirst(citeContext(c, citationMap));
+  return groupFacts(context, CONTEXT_SENTENCES).map(
+    ([first, second], i) =>
+      `${kit.transitionPhrases[i % kit.transitionPhrases.length]} ${CONTEXT_LEADS[i % CONTEXT_LEADS.length].replace(
+        "{topic}",
+        topic
+      )} ${cited(first)}${second ? ` ${CONTEXT_JOINER} ${cited(second)}` : ""}`
   );
+}
 
-  return `${pickRandom(kit.transitionPhrases)} a broader view of ${topic} shows that ${lowerFirst(parts[0])}${parts[1] ? ` Further, ${lowerFirst(parts[1])}` : ""}`;
+/** A context sentence with its source's citation. */
+function citeContext(c: ContextSentence, citationMap: Map<string, ArticleCitation>): string {
+  return `${c.text} [${citationMap.get(c.source.url)!.index}]`;
+}
+
+/** "a", "a and b", "a, b and c" */
+function listOf(items: string[]): string {
+  return items.length <= 1 ? (items[0] ?? "") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
 }
 
 function groupFacts<T>(items: T[], perGroup: number): T[][] {
@@ -303,6 +1329,18 @@ function lowerFirst(s: string): string {
   return s[0].toLowerCase() + s.slice(1);
 }
 
+/** "heat pumps in the EU" → "Heat Pumps in the EU"; words already holding a capital keep their case. */
+function titleCase(s: string): string {
+  return s
+    .split(" ")
+    .map((word, i) =>
+      (i > 0 && MINOR_TITLE_WORDS.has(word)) || /\p{Lu}/u.test(word)
+        ? word
+        : word.replace(/(^|-)\p{L}/gu, (m) => m.toUpperCase())
+    )
+    .join(" ");
+}
+
 function upperFirst(s: string): string {
   if (!s) return s;
   return s[0].toUpperCase() + s.slice(1);
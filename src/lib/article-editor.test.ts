@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { editArticle } from "./article-editor";
+
+function edit(article: string) {
+  return editArticle({ article, title: "Heat pumps", topic: "heat pumps", tone: "professional", keepTitle: true });
+}
+
+const numberChanges = (article: string) =>
+  edit(article)
+    .changes.filter((c) => c.type === "numbers")
+    .map((c) => [c.original, c.replacement]);
+
+describe("editArticle number formatting", () => {
+  it("adds thousands separators to figures", () => {
+    const { editedArticle } = edit("Installers fitted 356000 heat pumps last year, and 1250000 homes now use one.");
+    expect(editedArticle).toContain("356,000 heat pumps");
+    expect(editedArticle).toContain("1,250,000 homes");
+  });
+
+  it("leaves URLs untouched", () => {
+    const article =
+      "The full survey of 356000 homes is at https://example.org/reports/survey?id=123456#table-234567 online.";
+    expect(edit(article).editedArticle).toContain("https://example.org/reports/survey?id=123456#table-234567");
+    expect(numberChanges(article)).toEqual([["356000", "356,000"]]);
+  });
+
+  it("leaves IDs and tokens next to =, ?, # or : untouched", () => {
+    const article = "Quote ticket #123456 or ref:20240117 when asking about batch=987654 of the rebate forms.";
+    expect(edit(article).editedArticle).toContain("#123456");
+    expect(edit(article).editedArticle).toContain("ref:20240117");
+    expect(edit(article).editedArticle).toContain("batch=987654");
+    expect(numberChanges(article)).toEqual([]);
+  });
+
+  it("treats bare numbers the same whatever punctuation follows", () => {
+    expect(numberChanges("The register lists 356000, the survey fewer.")).toEqual([]);
+    expect(numberChanges("The register lists 356000. The survey lists fewer.")).toEqual([]);
+  });
+});
@@ -1,10 +1,19 @@
 import { ArticleTone, EditChange, QualityScore } from "@/agents/types";
+import { formatNumber, parseFigures } from "./statistics-extractor";
+import { mentionsTerm } from "./entity-extractor";
+import { splitSentences } from "./sentence-segmenter";
+
+const MAX_SEO_KEYWORDS = 8;
 
 export interface EditOptions {
   article: string;
   title: string;
   topic: string;
   tone: ArticleTone;
+  /** Keep `title` rather than the best headline suggestion, e.g. "7 Facts About …" */
+  keepTitle?: boolean;
+  /** Research key terms (entities, keyphrases), best first, for SEO keywords */
+  keywords?: string[];
 }
 
 export interface EditResult {
@@ -13,6 +22,7 @@ export interface EditResult {
   headlineSuggestions: string[];
   changes: EditChange[];
   qualityScore: QualityScore;
+  seoKeywords: string[];
 }
 
 // ── Grammar rules ────────────────────────────────────────────────────────
@@ -56,7 +66,7 @@ const GRAMMAR_RULES: PatternRule[] = [
     type: "grammar",
   },
   {
-    pattern: /\s{2,}/g,
+    pattern: /[ \t]{2,}/g,
     replacement: " ",
     reason: "Normalized extra whitespace",
     type: "grammar",
@@ -253,9 +263,10 @@ function improveStructure(article: string): { text: string; changes: EditChange[
   const improved: string[] = [];
   for (const para of paragraphs) {
     const words = para.split(/\s+/);
-    if (words.length > 120) {
+    // Tables and lists are laid out line by line; only prose is split
+    if (words.length > 120 && !/^[|•]/m.test(para)) {
       // Split around the middle sentence boundary
-      const sentences = para.split(/(?<=[.!?])\s+/);
+      const sentences = splitSentences(para);
       const mid = Math.ceil(sentences.length / 2);
       const firstHalf = sentences.slice(0, mid).join(" ");
       const secondHalf = sentences.slice(mid).join(" ");
@@ -280,10 +291,87 @@ function improveStructure(article: string): { text: string; changes: EditChange[
   return { text, changes };
 }
 
+// ── Number formatting ────────────────────────────────────────────────────
+
+/** References are copied verbatim from sources, so only the body is harmonized */
+const REFERENCES_MARKER = /\s*---\s*\nSources:/;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+/**
+ * Make figures in the article body follow one style: percentages use the
+ * article's majority form ("%" or "percent"), figures of five or more digits
+ * get thousands separators, and exact millions are written in words when the
+ * article already spells large figures that way ("1,200,000" → "1.2 million").
+ * Only numbers parseFigures reads as figures are touched; IDs, URLs and
+ * tokens such as "id=123456" or "ref:20240117" stay as written.
+ */
+function harmonizeNumbers(article: string): { text: string; changes: EditChange[] } {
+  const changes: EditChange[] = [];
+  const split = article.search(REFERENCES_MARKER);
+  let body = split < 0 ? article : article.slice(0, split);
+  const references = split < 0 ? "" : article.slice(split);
+
+  const apply = (pattern: RegExp, rewrite: (match: string, offset: number) => string, reason: string) => {
+    body = body.replace(pattern, (match: string, offset: number) => {
+      const replacement = rewrite(match, offset);
+      if (replacement !== match) {
+        changes.push({ type: "numbers", original: match, replacement, reason });
+      }
+      return replacement;
+    });
+  };
+
+  // Percentages: "%" vs "percent"/"per cent", whichever the article uses more
+  const symbols = (body.match(/\d\s?%/g) ?? []).length;
+  const words = (body.match(/\d\s+per\s?cent\b/gi) ?? []).length;
+  if (symbols > 0 && words > 0) {
+    if (symbols >= words) {
+      apply(/\d[\d,.]*\s+per\s?cent\b/gi, (m) => m.replace(/\s+per\s?cent$/i, "%"), 'Matched the article\'s "%" style for percentages');
+    } else {
+      apply(/\d[\d,.]*\s?%/g, (m) => m.replace(/\s?%$/, " percent"), 'Matched the article\'s "percent" style for percentages');
+    }
+  }
+
+  // Thousands separators on long figures (not years, decimals, identifiers or URLs)
+  apply(
+    /(?<![\w.,/=?#:-])\d{5,}(?![\w/=?#:-]|[.,]\d)/g,
+    (m, offset) => (isFigureAt(body, offset) ? Number(m).toLocaleString("en-US") : m),
+    "Added thousands separators for consistency"
+  );
+
+  // Exact large figures in words when the article already writes them that way
+  if (/\d\s+(million|billion|trillion)\b/i.test(body)) {
+    apply(
+      /(?<![\w.,/=?#:-])\d{1,3}(?:,\d{3}){2,}(?![\w/=?#:-]|[.,]\d)/g,
+      (m, offset) => {
+        const value = Number(m.replace(/,/g, ""));
+        const words = formatNumber(value);
+        // Only when the words state the exact same value ("1,234,567" stays)
+        return isFigureAt(body, offset) && parseFigures(words)[0]?.value === value ? words : m;
+      },
+      'Wrote a large figure in words, like the article\'s other figures ("1.2 million")'
+    );
+  }
+
+  return { text: body + references, changes };
+}
+
+/** Whether the number at `offset` is part of a figure parseFigures finds in its line, outside any URL. */
+function isFigureAt(text: string, offset: number): boolean {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  const lineEnd = text.indexOf("\n", offset);
+  const line = text.slice(lineStart, lineEnd < 0 ? text.length : lineEnd);
+  const at = offset - lineStart;
+  const inside = (start: number, length: number) => at >= start && at < start + length;
+
+  if ([...line.matchAll(URL_PATTERN)].some((m) => inside(m.index ?? 0, m[0].length))) return false;
+  return parseFigures(line).some((figure) => inside(figure.index, figure.text.length));
+}
+
 // ── Quality scoring ──────────────────────────────────────────────────────
 
 function scoreArticle(article: string, changeCount: number): QualityScore {
-  const sentences = article.split(/(?<=[.!?])\s+/).filter((s) => s.length > 5);
+  const sentences = splitSentences(article).filter((s) => s.length > 5);
   const words = article.split(/\s+/);
   const avgSentenceLen = words.length / Math.max(sentences.length, 1);
 
@@ -331,7 +419,7 @@ function scoreArticle(article: string, changeCount: number): QualityScore {
 // ── Main editor function ─────────────────────────────────────────────────
 
 export function editArticle(options: EditOptions): EditResult {
-  const { article, title, topic, tone } = options;
+  const { article, title, topic, tone, keepTitle } = options;
 
   let editedText = article;
   const allChanges: EditChange[] = [];
@@ -399,17 +487,22 @@ export function editArticle(options: EditOptions): EditResult {
     }
   }
 
-  // 4. Improve structure
+  // 4. Harmonize number formatting
+  const numbersResult = harmonizeNumbers(editedText);
+  editedText = numbersResult.text;
+  allChanges.push(...numbersResult.changes);
+
+  // 5. Improve structure
   const structureResult = improveStructure(editedText);
   editedText = structureResult.text;
   allChanges.push(...structureResult.changes);
 
-  // 5. Generate headline suggestions
+  // 6. Generate headline suggestions
   const generators = HEADLINE_TEMPLATES[tone] ?? HEADLINE_TEMPLATES.professional;
   const headlineSuggestions = generators.map((gen) => gen(topic));
 
   // Pick the best headline as the edited title
-  const editedTitle = headlineSuggestions[0];
+  const editedTitle = keepTitle ? title : headlineSuggestions[0];
   if (editedTitle !== title) {
     allChanges.push({
       type: "headline",
@@ -419,7 +512,16 @@ export function editArticle(options: EditOptions): EditResult {
     });
   }
 
-  // 6. Score
+  // 7. SEO keywords: the topic, then the key terms the article actually uses
+  const seoKeywords = [topic.toLowerCase()];
+  for (const term of options.keywords ?? []) {
+    if (seoKeywords.length >= MAX_SEO_KEYWORDS) break;
+    if (!seoKeywords.includes(term.toLowerCase()) && mentionsTerm(editedText, term)) {
+      seoKeywords.push(term.toLowerCase());
+    }
+  }
+
+  // 8. Score
   const qualityScore = scoreArticle(editedText, allChanges.length);
 
   return {
@@ -428,5 +530,6 @@ export function editArticle(options: EditOptions): EditResult {
     headlineSuggestions,
     changes: allChanges,
     qualityScore,
+    seoKeywords,
   };
 }
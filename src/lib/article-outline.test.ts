@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { ResearchFact } from "@/agents/types";
+import { buildOutline, parseOutline } from "./article-outline";
+import { composeArticle } from "./article-composer";
+
+const fact = (text: string): ResearchFact => ({ fact: text, sourceUrl: "https://a.example/", sourceTitle: "A" });
+
+const facts = [
+  fact("Heat pump installations are expected to double by 2030 under the new rules."),
+  fact("Germany installed 356,000 heat pumps last year."),
+  fact("The first heat pump was introduced in 1855 by Peter von Rittinger."),
+  fact("Installers say heat pumps now suit most older homes with radiators."),
+  fact("Heat pump sales reached 440,000 units in Germany in the latest figures."),
+];
+
+describe("buildOutline", () => {
+  it("orders sections background, current, data, outlook", () => {
+    const outline = buildOutline({ topic: "heat pumps", facts });
+    expect(outline.sections.map((s) => [s.role, s.factIndexes])).toEqual([
+      ["background", [2]],
+      ["current", [3]],
+      ["data", [1, 4]],
+      ["outlook", [0]],
+    ]);
+    expect(outline.sections[0].heading).toBe("How heat pumps got here");
+  });
+
+  it("clusters facts sharing words and names the section after their key term", () => {
+    const outline = buildOutline({
+      topic: "heat pumps",
+      facts: [
+        fact("Air-source heat pump prices fell to 12,000 euros in Germany."),
+        fact("Ground-source heat pump prices reached 25,000 euros in Germany."),
+      ],
+      keywords: [{ phrase: "prices", score: 1, sourceCount: 2 }],
+    });
+    expect(outline.sections).toEqual([{ heading: "Prices in numbers", role: "data", factIndexes: [0, 1] }]);
+  });
+
+  it("merges the smallest sections into a neighbour beyond maxSections", () => {
+    const outline = buildOutline({ topic: "heat pumps", facts, maxSections: 2 });
+    expect(outline.sections.map((s) => s.factIndexes)).toEqual([[2, 3], [0, 1, 4]]);
+  });
+
+  it("leaves out the weaker fact of a conflict", () => {
+    const outline = buildOutline({
+      topic: "heat pumps",
+      facts,
+      conflicts: [
+        {
+          kind: "numeric",
+          factIndexes: [4, 1],
+          claims: [facts[4].fact, facts[1].fact],
+          description: "",
+          resolution: "drop",
+        },
+      ],
+    });
+    expect(outline.sections.flatMap((s) => s.factIndexes)).not.toContain(1);
+  });
+});
+
+describe("parseOutline", () => {
+  const section = { heading: "Today", role: "current", factIndexes: [0] };
+
+  it("accepts a valid edited outline", () => {
+    expect(parseOutline({ sections: [section] }, "heat pumps", 2)).toEqual({
+      outline: { topic: "heat pumps", sections: [section] },
+    });
+  });
+
+  it("rejects bad roles, out-of-range or repeated facts and empty headings", () => {
+    expect(parseOutline({ sections: [] }, "t", 2)).toHaveProperty("error");
+    expect(parseOutline({ sections: [{ ...section, role: "intro" }] }, "t", 2)).toHaveProperty("error");
+    expect(parseOutline({ sections: [{ ...section, factIndexes: [2] }] }, "t", 2)).toHaveProperty("error");
+    expect(parseOutline({ sections: [section, { ...section, heading: "Again" }] }, "t", 2)).toHaveProperty("error");
+    expect(parseOutline({ sections: [{ ...section, heading: " " }] }, "t", 2)).toHaveProperty("error");
+  });
+});
+
+describe("composeArticle with an outline", () => {
+  it("writes the sections in the outline's order with the outline's facts", () => {
+    const { article } = composeArticle({
+      topic: "heat pumps",
+      facts,
+      sources: [],
+      tone: "professional",
+      format: "article",
+      targetWordCount: 300,
+      outline: {
+        topic: "heat pumps",
+        sections: [
+          { heading: "Looking ahead", role: "outlook", factIndexes: [0] },
+          { heading: "Where it started", role: "background", factIndexes: [2] },
+        ],
+      },
+    });
+
+    const headings = article.split("\n").filter((line) => line.startsWith("## "));
+    expect(headings.slice(0, 2)).toEqual(["## Looking ahead", "## Where it started"]);
+    expect(article).not.toContain("356,000");
+  });
+});
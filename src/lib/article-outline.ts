@@ -0,0 +1,217 @@
+import type {
+  ArticleOutline,
+  OutlineSection,
+  OutlineSectionRole,
+  ResearchConflict,
+  ResearchEntity,
+  ResearchFact,
+  ResearchKeyword,
+} from "@/agents/types";
+import { contentWords } from "./claims";
+import { keyTerms, mentionsTerm } from "./entity-extractor";
+import { findYears, parseFigures } from "./statistics-extractor";
+
+// ── Article outline ──────────────────────────────────────────────────────
+// Before writing, facts are sorted into sections: each fact gets a role in
+// the article's arc (background → current state → data → outlook), facts
+// of a role are clustered by what they talk about, and each cluster is
+// named after the key term its facts share. The outline can be edited and
+// approved before the writer fills it in.
+
+export const OUTLINE_ROLES: OutlineSectionRole[] = ["background", "current", "data", "outlook"];
+export const MAX_OUTLINE_SECTIONS = 12;
+const MAX_HEADING_LENGTH = 100;
+
+/** A section stops taking facts at this size */
+const MAX_SECTION_FACTS = 3;
+/** Shared content words (besides the topic's) that put two facts in one cluster */
+const MIN_SHARED_WORDS = 2;
+/** Facts dated this many years back or more are background */
+const BACKGROUND_YEARS = 5;
+
+const OUTLOOK_CUES =
+  /\b(?:will|expected|expects|forecasts?|projected|projections?|plans?|planned|aims?|outlook|future|upcoming|next year|by 20\d{2})\b/i;
+const BACKGROUND_CUES =
+  /\b(?:founded|history|historically|originally|first|invented|introduced|began|pioneered|traditionally|established|decades? ago)\b/i;
+
+/** Heading per role, named after the section's key term (or the topic) */
+const HEADINGS: Record<OutlineSectionRole, (term: string) => string> = {
+  background: (t) => `How ${t} got here`,
+  current: (t) => `${upperFirst(t)} today`,
+  data: (t) => `${upperFirst(t)} in numbers`,
+  outlook: (t) => `What's next for ${t}`,
+};
+
+export interface OutlineOptions {
+  topic: string;
+  facts: ResearchFact[];
+  /** Facts a conflict drops are left out, as the composer would drop them */
+  conflicts?: ResearchConflict[];
+  /** Key terms name the sections */
+  entities?: ResearchEntity[];
+  keywords?: ResearchKeyword[];
+  /** Shorter articles get fewer sections; the smallest are merged into a neighbour */
+  maxSections?: number;
+}
+
+/**
+ * Draft an outline: sections in role order, facts in rank order. A fact
+ * joins the cluster of its role it shares the most words with, up to three
+ * facts; leftover single facts of a role are gathered into one section.
+ * Sections that would get the same heading are merged, and so are the
+ * smallest sections while there are more than `maxSections`.
+ */
+export function buildOutline({
+  topic,
+  facts,
+  conflicts = [],
+  entities = [],
+  keywords = [],
+  maxSections = MAX_OUTLINE_SECTIONS,
+}: OutlineOptions): ArticleOutline {
+  const dropped = droppedFacts(conflicts);
+  const topicWords = new Set(contentWords(topic));
+  const terms = keyTerms(entities, keywords, 20).filter(
+    (t) => !mentionsTerm(topic, t) && !mentionsTerm(t, topic)
+  );
+
+  const clusters: Array<{ role: OutlineSectionRole; indexes: number[]; words: Set<string> }> = [];
+  facts.forEach((fact, index) => {
+    if (dropped.has(index)) return;
+    const role = factRole(fact.fact);
+    const words = new Set(contentWords(fact.fact).filter((w) => !topicWords.has(w)));
+
+    let best: (typeof clusters)[number] | undefined;
+    let bestShared = MIN_SHARED_WORDS - 1;
+    for (const c of clusters) {
+      if (c.role !== role || c.indexes.length >= MAX_SECTION_FACTS) continue;
+      const shared = [...words].filter((w) => c.words.has(w)).length;
+      if (shared > bestShared) [best, bestShared] = [c, shared];
+    }
+
+    if (best) {
+      best.indexes.push(index);
+      for (const w of words) best.words.add(w);
+    } else {
+      clusters.push({ role, indexes: [index], words });
+    }
+  });
+
+  // Single facts of a role share one section rather than a heading each
+  const grouped: Array<{ role: OutlineSectionRole; indexes: number[] }> = [];
+  for (const role of OUTLINE_ROLES) {
+    const ofRole = clusters.filter((c) => c.role === role);
+    const singles = ofRole.filter((c) => c.indexes.length === 1).flatMap((c) => c.indexes);
+    grouped.push(...ofRole.filter((c) => c.indexes.length > 1));
+    if (singles.length > 0) grouped.push({ role, indexes: singles });
+  }
+
+  const sections: OutlineSection[] = [];
+  for (const { role, indexes } of grouped) {
+    const heading = HEADINGS[role](sectionTerm(indexes.map((i) => facts[i].fact), terms) ?? topic);
+    const same = sections.find((s) => s.heading === heading);
+    if (same) same.factIndexes.push(...indexes);
+    else sections.push({ heading, role, factIndexes: indexes });
+  }
+
+  // Role order first, then the rank of each section's best fact
+  sections.sort(
+    (a, b) =>
+      OUTLINE_ROLES.indexOf(a.role) - OUTLINE_ROLES.indexOf(b.role) ||
+      Math.min(...a.factIndexes) - Math.min(...b.factIndexes)
+  );
+
+  while (sections.length > Math.max(1, maxSections)) {
+    const smallest = sections.reduce(
+      (min, s, i) => (s.factIndexes.length <= sections[min].factIndexes.length ? i : min),
+      0
+    );
+    const [merged] = sections.splice(smallest, 1);
+    sections[Math.max(0, smallest - 1)].factIndexes.push(...merged.factIndexes);
+  }
+  sections.forEach((s) => s.factIndexes.sort((a, b) => a - b));
+
+  return { topic, sections };
+}
+
+/**
+ * Validate an edited outline against the facts it indexes: 1–12 sections,
+ * each with a heading, a role and at least one fact; no fact in two
+ * sections.
+ */
+export function parseOutline(
+  input: unknown,
+  topic: string,
+  factCount: number
+): { outline: ArticleOutline } | { error: string } {
+  const sections = (input as { sections?: unknown } | null)?.sections;
+  if (!Array.isArray(sections) || sections.length === 0 || sections.length > MAX_OUTLINE_SECTIONS) {
+    return { error: `Invalid outline. Use { sections: [...] } with 1 to ${MAX_OUTLINE_SECTIONS} sections` };
+  }
+
+  const seen = new Set<number>();
+  const parsed: OutlineSection[] = [];
+  for (const [i, section] of sections.entries()) {
+    const { heading, role, factIndexes } = (section ?? {}) as Record<string, unknown>;
+    if (typeof heading !== "string" || !heading.trim() || heading.trim().length > MAX_HEADING_LENGTH) {
+      return { error: `Invalid outline section ${i + 1}. Its heading must be 1 to ${MAX_HEADING_LENGTH} characters` };
+    }
+    if (!OUTLINE_ROLES.includes(role as OutlineSectionRole)) {
+      return { error: `Invalid outline section ${i + 1}. Its role must be one of: ${OUTLINE_ROLES.join(", ")}` };
+    }
+    if (
+      !Array.isArray(factIndexes) ||
+      factIndexes.length === 0 ||
+      !factIndexes.every((f) => Number.isInteger(f) && f >= 0 && f < factCount)
+    ) {
+      return {
+        error: `Invalid outline section ${i + 1}. factIndexes must list facts 0 to ${factCount - 1}`,
+      };
+    }
+    const repeated = factIndexes.find((f) => seen.has(f));
+    if (repeated !== undefined) {
+      return { error: `Invalid outline. Fact ${repeated} appears in more than one section` };
+    }
+    factIndexes.forEach((f) => seen.add(f));
+    parsed.push({ heading: heading.trim(), role: role as OutlineSectionRole, factIndexes });
+  }
+
+  return { outline: { topic, sections: parsed } };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** Outlook and background are told by their wording or dates; facts with figures are data. */
+function factRole(fact: string): OutlineSectionRole {
+  const thisYear = new Date().getFullYear();
+  const years = findYears(fact).map((y) => y.year);
+  if (OUTLOOK_CUES.test(fact) || years.some((y) => y > thisYear)) return "outlook";
+  if (BACKGROUND_CUES.test(fact) || (years.length > 0 && Math.max(...years) <= thisYear - BACKGROUND_YEARS)) {
+    return "background";
+  }
+  return parseFigures(fact).length > 0 ? "data" : "current";
+}
+
+/** The key term mentioned by the most facts, if at least half of them mention it. */
+function sectionTerm(facts: string[], terms: string[]): string | undefined {
+  let best: string | undefined;
+  let bestCount = Math.ceil(facts.length / 2) - 1;
+  for (const term of terms) {
+    const count = facts.filter((f) => mentionsTerm(f, term)).length;
+    if (count > bestCount) [best, bestCount] = [term, count];
+  }
+  return best;
+}
+
+/** Weaker facts of conflicts, skipping conflicts whose facts were already dropped. */
+function droppedFacts(conflicts: ResearchConflict[]): Set<number> {
+  const dropped = new Set<number>();
+  for (const { factIndexes: [preferred, weaker] } of conflicts) {
+    if (!dropped.has(preferred) && !dropped.has(weaker)) dropped.add(weaker);
+  }
+  return dropped;
+}
+
+function upperFirst(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
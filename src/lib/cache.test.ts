@@ -0,0 +1,64 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileCache, normalizeQuery, normalizeUrl } from "./cache";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "cache-"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("FileCache", () => {
+  it("serves an entry until its TTL passes", async () => {
+    vi.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z"), toFake: ["Date"] });
+    const cache = new FileCache(dir, 60);
+    await cache.set("search", "heat pumps", ["result"]);
+
+    vi.setSystemTime(new Date("2025-01-01T00:00:59Z"));
+    expect(await cache.get("search", "heat pumps")).toEqual(["result"]);
+
+    vi.setSystemTime(new Date("2025-01-01T00:01:00Z"));
+    expect(await cache.get("search", "heat pumps")).toBeUndefined();
+    expect((await cache.list()).map((e) => [e.key, e.expired])).toEqual([["heat pumps", true]]);
+  });
+
+  it("keeps namespaces apart", async () => {
+    const cache = new FileCache(dir, 60);
+    await cache.set("page", "https://example.org", "page text");
+    expect(await cache.get("search", "https://example.org")).toBeUndefined();
+    expect(await cache.get("page", "https://example.org")).toBe("page text");
+  });
+
+  it("stores nothing with a TTL of 0", async () => {
+    const cache = new FileCache(dir, 0);
+    await cache.set("search", "heat pumps", ["result"]);
+    expect(cache.enabled).toBe(false);
+    expect(await new FileCache(dir, 60).get("search", "heat pumps")).toBeUndefined();
+  });
+
+  it("purges only expired entries when asked", async () => {
+    vi.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z"), toFake: ["Date"] });
+    await new FileCache(dir, 10).set("search", "old", 1);
+    await new FileCache(dir, 3600).set("search", "fresh", 2);
+    vi.setSystemTime(new Date("2025-01-01T00:01:00Z"));
+
+    const cache = new FileCache(dir, 3600);
+    expect(await cache.purge({ expiredOnly: true })).toBe(1);
+    expect((await cache.list()).map((e) => e.key)).toEqual(["fresh"]);
+    expect(await cache.purge()).toBe(1);
+  });
+});
+
+describe("normalizing keys", () => {
+  it("shares entries between trivially different queries and URLs", () => {
+    expect(normalizeQuery("  Heat   Pumps ")).toBe("heat pumps");
+    expect(normalizeUrl("https://Example.org/page/#section")).toBe("https://example.org/page");
+  });
+});
@@ -0,0 +1,193 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+// ── Persistent cache ─────────────────────────────────────────────────────
+// File-backed key/value store for search results and fetched page text.
+// Each entry is its own JSON file under <CACHE_DIR>/<namespace>/, so
+// concurrent requests never rewrite a shared index. The cache is best-effort:
+// read and write failures are treated as misses and never fail a request.
+
+export type CacheNamespace = "search" | "page";
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ["search", "page"];
+
+export interface CacheEntry<T = unknown> {
+  namespace: CacheNamespace;
+  key: string;
+  value: T;
+  storedAt: string;
+  expiresAt: string;
+}
+
+export interface CacheEntryInfo {
+  namespace: CacheNamespace;
+  key: string;
+  storedAt: string;
+  expiresAt: string;
+  expired: boolean;
+  sizeBytes: number;
+}
+
+export interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+export interface PurgeFilter {
+  namespace?: CacheNamespace;
+  key?: string;
+  /** Only remove entries whose TTL has passed */
+  expiredOnly?: boolean;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export class FileCache {
+  private dir: string;
+  readonly ttlSeconds: number;
+
+  constructor(dir: string, ttlSeconds: number) {
+    this.dir = dir;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /** A TTL of 0 disables caching entirely. */
+  get enabled(): boolean {
+    return this.ttlSeconds > 0;
+  }
+
+  async get<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+    if (!this.enabled) return undefined;
+
+    const entry = await this.readEntry<T>(this.entryPath(namespace, key));
+    if (!entry || entry.key !== key) return undefined;
+    if (Date.parse(entry.expiresAt) <= Date.now()) return undefined;
+
+    return entry.value;
+  }
+
+  async set<T>(namespace: CacheNamespace, key: string, value: T): Promise<void> {
+    if (!this.enabled) return;
+
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      namespace,
+      key,
+      value,
+      storedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlSeconds * 1000).toISOString(),
+    };
+
+    try {
+      const file = this.entryPath(namespace, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(entry));
+    } catch {
+      // Read-only or full disk — run uncached
+    }
+  }
+
+  async list(namespace?: CacheNamespace): Promise<CacheEntryInfo[]> {
+    const infos: CacheEntryInfo[] = [];
+    const now = Date.now();
+
+    for (const ns of namespace ? [namespace] : CACHE_NAMESPACES) {
+      for (const file of await this.listFiles(ns)) {
+        const entry = await this.readEntry(file);
+        if (!entry) continue;
+
+        const stat = await fs.stat(file).catch(() => null);
+        infos.push({
+          namespace: ns,
+          key: entry.key,
+          storedAt: entry.storedAt,
+          expiresAt: entry.expiresAt,
+          expired: Date.parse(entry.expiresAt) <= now,
+          sizeBytes: stat?.size ?? 0,
+        });
+      }
+    }
+
+    return infos.sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+  }
+
+  /** Delete matching entries and return how many were removed. */
+  async purge(filter: PurgeFilter = {}): Promise<number> {
+    const { namespace, key, expiredOnly = false } = filter;
+    const now = Date.now();
+    let removed = 0;
+
+    for (const ns of namespace ? [namespace] : CACHE_NAMESPACES) {
+      const files = key ? [this.entryPath(ns, key)] : await this.listFiles(ns);
+
+      for (const file of files) {
+        if (expiredOnly) {
+          const entry = await this.readEntry(file);
+          if (entry && Date.parse(entry.expiresAt) > now) continue;
+        }
+        try {
+          await fs.unlink(file);
+          removed++;
+        } catch {
+          // Already gone
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  private entryPath(namespace: CacheNamespace, key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.dir, namespace, `${hash}.json`);
+  }
+
+  private async listFiles(namespace: CacheNamespace): Promise<string[]> {
+    const nsDir = path.join(this.dir, namespace);
+    try {
+      const names = await fs.readdir(nsDir);
+      return names.filter((n) => n.endsWith(".json")).map((n) => path.join(nsDir, n));
+    } catch {
+      return [];
+    }
+  }
+
+  private async readEntry<T>(file: string): Promise<CacheEntry<T> | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as CacheEntry<T>;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Lowercase and collapse whitespace so trivially different queries share an entry. */
+export function normalizeQuery(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Drop fragments and trailing slashes and lowercase the host. */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url.trim();
+  }
+}
+
+let cacheInstance: FileCache | null = null;
+
+export function getCache(): FileCache {
+  if (!cacheInstance) {
+    const ttl = Number(process.env.CACHE_TTL_SECONDS ?? DEFAULT_TTL_SECONDS);
+    cacheInstance = new FileCache(
+      path.resolve(process.env.CACHE_DIR ?? ".cache"),
+      Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_SECONDS
+    );
+  }
+  return cacheInstance;
+}
@@ -0,0 +1,164 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// ── HTTP cassettes ───────────────────────────────────────────────────────
+// A cassette is a JSON file of recorded request/response pairs. Record mode
+// appends live traffic to it; replay mode serves the stored responses back
+// so research runs can be reproduced without network access.
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /** Text bodies are stored as-is, binary bodies (e.g. PDFs) as base64 */
+  encoding: "utf8" | "base64";
+}
+
+export interface CassetteEntry {
+  request: { method: string; url: string; body?: string };
+  response: RecordedResponse;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+const CASSETTE_NAME_PATTERN = /^[\w.-]+$/;
+
+/** Query parameters holding credentials; never written to disk. */
+const SECRET_PARAMS = ["key", "api_key", "apikey", "token", "access_token"];
+
+/** Fall back to HTTP_CASSETTE, then "default", when no name is given. */
+export function resolveCassetteName(name?: string): string {
+  return name ?? process.env.HTTP_CASSETTE ?? "default";
+}
+
+export function isValidCassetteName(name: string): boolean {
+  return CASSETTE_NAME_PATTERN.test(name) && !name.startsWith(".");
+}
+
+export function getCassettePath(name: string): string {
+  const dir = path.resolve(process.env.HTTP_CASSETTE_DIR ?? "cassettes");
+  return path.join(dir, `${name}.json`);
+}
+
+export async function cassetteExists(name: string): Promise<boolean> {
+  try {
+    await fs.access(getCassettePath(name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class Cassette {
+  readonly name: string;
+  private filePath: string;
+  private entries: CassetteEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  /** Per-key replay position, so repeated identical requests replay in order */
+  private playCursor = new Map<string, number>();
+  /** Keys re-recorded in this session; older entries for them are dropped */
+  private rerecorded = new Set<string>();
+
+  constructor(name: string) {
+    if (!isValidCassetteName(name)) {
+      throw new Error(`Invalid cassette name "${name}"`);
+    }
+    this.name = name;
+    this.filePath = getCassettePath(name);
+  }
+
+  /** Find the next recorded response for a request, or undefined if none. */
+  async play(method: string, url: string, body?: string): Promise<RecordedResponse | undefined> {
+    await this.load();
+    const key = requestKey(method, url, body);
+    const matches = this.entries.filter(
+      (e) => requestKey(e.request.method, e.request.url, e.request.body) === key
+    );
+    if (matches.length === 0) return undefined;
+
+    const position = this.playCursor.get(key) ?? 0;
+    this.playCursor.set(key, position + 1);
+    return matches[Math.min(position, matches.length - 1)].response;
+  }
+
+  async record(
+    method: string,
+    url: string,
+    body: string | undefined,
+    response: RecordedResponse
+  ): Promise<void> {
+    await this.load();
+    const request = { method, url: redactUrl(url), body: body && redactBody(body) };
+    const key = requestKey(request.method, request.url, request.body);
+
+    if (!this.rerecorded.has(key)) {
+      this.rerecorded.add(key);
+      this.entries = this.entries.filter(
+        (e) => requestKey(e.request.method, e.request.url, e.request.body) !== key
+      );
+    }
+
+    this.entries.push({ request, response, recordedAt: new Date().toISOString() });
+    await this.save();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = fs
+        .readFile(this.filePath, "utf8")
+        .then((raw) => {
+          const parsed = JSON.parse(raw) as CassetteFile;
+          this.entries = parsed.entries ?? [];
+        })
+        .catch((err: NodeJS.ErrnoException) => {
+          // A missing file is an empty cassette; anything else is corrupt
+          if (err.code !== "ENOENT") throw err;
+        });
+    }
+    return this.loaded;
+  }
+
+  private save(): Promise<void> {
+    // Serialize writes so concurrent recordings never interleave on disk
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const file: CassetteFile = { version: 1, entries: this.entries };
+      await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+    });
+    return this.writing;
+  }
+}
+
+function requestKey(method: string, url: string, body?: string): string {
+  return `${method.toUpperCase()} ${redactUrl(url)}${body ? ` ${redactBody(body)}` : ""}`;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of SECRET_PARAMS) {
+      if (parsed.searchParams.has(param)) parsed.searchParams.set(param, "REDACTED");
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function redactBody(body: string): string {
+  const params = new URLSearchParams(body);
+  let changed = false;
+  for (const param of SECRET_PARAMS) {
+    if (params.has(param)) {
+      params.set(param, "REDACTED");
+      changed = true;
+    }
+  }
+  return changed ? params.toString() : body;
+}
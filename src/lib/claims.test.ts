@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { claimTerms, isEquivalent } from "./claims";
+
+const equivalent = (a: string, b: string) => isEquivalent(claimTerms(a), claimTerms(b));
+
+describe("isEquivalent", () => {
+  it("keeps claims apart when only their year matches", () => {
+    expect(
+      equivalent(
+        "Germany installed 356,000 heat pump units in 2023, the federal association said.",
+        "Germany installed 410,000 heat pump units in 2023, the federal association said."
+      )
+    ).toBe(false);
+  });
+
+  it("matches the same figure written differently", () => {
+    expect(
+      equivalent(
+        "Germany installed 1.2 million heat pump units in 2023.",
+        "In 2023, Germany installed 1,200,000 heat pump units."
+      )
+    ).toBe(true);
+  });
+
+  it("matches figures within rounding", () => {
+    expect(
+      equivalent("Heat pump sales in Europe reached $4.6 billion last year.", "Heat pump sales in Europe reached $4.62 billion last year.")
+    ).toBe(true);
+  });
+
+  it("keeps claims with different figures of the same unit apart", () => {
+    expect(
+      equivalent("A typical heat pump costs about 15,000 euros to install.", "A typical heat pump costs about 9,000 euros to install.")
+    ).toBe(false);
+  });
+
+  it("still matches claims without figures", () => {
+    expect(equivalent("Heat pumps are efficient in most climates.", "Heat pumps are efficient in most cold climates.")).toBe(true);
+    expect(equivalent("Heat pumps are efficient in cold climates.", "Heat pumps are not efficient in cold climates.")).toBe(false);
+  });
+});
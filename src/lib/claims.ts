@@ -0,0 +1,99 @@
+import { ParsedFigure, parseFigures } from "./statistics-extractor";
+
+// ── Claim matching ───────────────────────────────────────────────────────
+// Lightweight lexical comparison of factual sentences, shared by fact
+// corroboration (same claim?) and contradiction detection (same subject,
+// different figures?). Words are lowercased and crudely stemmed; negation
+// is tracked separately so "X is not Y" never matches "X is Y".
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "was", "were", "has", "have", "had", "that", "this",
+  "with", "from", "its", "their", "they", "but", "been", "which", "into",
+  "than", "also", "more", "about", "over", "such", "can", "will", "would", "one",
+]);
+
+const NEGATIONS = new Set(["not", "no", "never", "none", "neither", "nor", "cannot", "without"]);
+
+/** Figures this close (relative to the larger) are the same figure rounded differently */
+const FIGURE_TOLERANCE = 0.02;
+
+export interface ClaimTerms {
+  /** Stemmed content words */
+  words: Set<string>;
+  /** Figures with a unit; years, ordinals and bare numbers are not figures */
+  figures: ParsedFigure[];
+  negated: boolean;
+}
+
+/** Stemmed content words, figures and negation of a sentence. */
+export function claimTerms(sentence: string): ClaimTerms {
+  const words = new Set<string>();
+  let negated = /n['’]t\b/i.test(sentence);
+
+  for (const token of sentence.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    if (NEGATIONS.has(token)) {
+      negated = true;
+    } else if (token.length > 2 && !STOPWORDS.has(token)) {
+      words.add(stem(token));
+    }
+  }
+
+  return { words, figures: parseFigures(sentence), negated };
+}
+
+/** Stemmed content words of a text in order, repeats kept (for term frequencies). */
+export function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/\p{L}+/gu) ?? [])
+    .filter((t) => t.length > 2 && !STOPWORDS.has(t) && !NEGATIONS.has(t))
+    .map(stem);
+}
+
+/** Share of the smaller word set found in the other, and how many words are shared. */
+export function wordOverlap(a: ClaimTerms, b: ClaimTerms): { overlap: number; jaccard: number; shared: number } {
+  const shared = [...a.words].filter((w) => b.words.has(w)).length;
+  const smaller = Math.min(a.words.size, b.words.size);
+  return {
+    shared,
+    overlap: smaller > 0 ? shared / smaller : 0,
+    jaccard: shared / Math.max(1, a.words.size + b.words.size - shared),
+  };
+}
+
+/**
+ * Two sentences state the same claim when most content words of the shorter
+ * one appear in the other, they agree on negation, and they don't cite
+ * different figures. When both give figures, each figure that has a
+ * counterpart of the same kind and unit must agree with it within 2%, and
+ * at least one must have one: "356,000 units in 2023" and "410,000 units in
+ * 2023" are different claims, however alike the wording. Years don't count.
+ */
+export function isEquivalent(a: ClaimTerms, b: ClaimTerms): boolean {
+  const { overlap, jaccard } = wordOverlap(a, b);
+  if (overlap < 0.6 || jaccard < 0.35) return false;
+  if (a.negated !== b.negated) return false;
+
+  if (a.figures.length > 0 && b.figures.length > 0) {
+    const paired = a.figures.filter((f) => b.figures.some((g) => sameMeasure(f, g)));
+    return (
+      paired.length > 0 &&
+      paired.every((f) => b.figures.some((g) => sameMeasure(f, g) && closeTo(f.value, g.value) && closeTo(f.high ?? f.value, g.high ?? g.value)))
+    );
+  }
+  return true;
+}
+
+/** Same kind and unit; counts of differently named things ("units", "heat pumps") compare too. */
+function sameMeasure(a: ParsedFigure, b: ParsedFigure): boolean {
+  return a.kind === b.kind && (a.kind === "count" || a.unit === b.unit);
+}
+
+function closeTo(a: number, b: number): boolean {
+  return Math.abs(a - b) <= FIGURE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+}
+
+export function stem(word: string): string {
+  return word
+    .replace(/ies$/, "y")
+    .replace(/(ing|ed|es|s)$/, "")
+    .slice(0, 8);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { ResearchFact } from "@/agents/types";
+import { buildComparison, dimensionScore, factSubject, parseComparison } from "./comparison";
+import { extractStatistics } from "./statistics-extractor";
+
+const subjects = ["heat pumps", "gas boilers"];
+
+const fact = (text: string, subject: string): ResearchFact => ({
+  fact: text,
+  subject,
+  sourceUrl: `https://${subject.replace(" ", "-")}.example/`,
+  sourceTitle: subject,
+});
+
+describe("dimensionScore", () => {
+  it("counts cues and a figure of the dimension's kind", () => {
+    const text = "A heat pump costs about 15,000 euros to install.";
+    const statistics = extractStatistics([fact(text, "heat pumps")]);
+    expect(dimensionScore(text, "price", statistics)).toBe(3);
+    expect(dimensionScore(text, "history")).toBe(0);
+    expect(dimensionScore("The first gas boiler was introduced in 1889.", "history")).toBe(3);
+  });
+
+  it("matches a custom dimension by name", () => {
+    expect(dimensionScore("Heat pumps are quiet but need maintenance.", "maintenance")).toBe(1);
+  });
+});
+
+describe("buildComparison", () => {
+  it("fills one cell per subject and dimension with the value and source", () => {
+    const facts = [
+      fact("A heat pump costs about 15,000 euros to install.", "heat pumps"),
+      fact("A new gas boiler costs about 3,000 euros installed.", "gas boilers"),
+      fact("The first gas boiler was introduced in 1889.", "gas boilers"),
+    ];
+    const comparison = buildComparison(subjects, ["price", "history"], facts, extractStatistics(facts));
+
+    expect(comparison.filledCells).toBe(3);
+    expect(comparison.rows[0].cells.map((c) => c.value)).toEqual(["15,000 euros", "3,000 euros"]);
+    expect(comparison.rows[1].cells).toEqual([
+      { subject: "heat pumps", dimension: "history" },
+      expect.objectContaining({ value: "1889", factIndex: 2, sourceUrl: "https://gas-boilers.example/" }),
+    ]);
+  });
+
+  it("uses each fact for at most one cell", () => {
+    const facts = [fact("Heat pumps cost 15,000 euros and were first introduced in 1855.", "heat pumps")];
+    const comparison = buildComparison(subjects, ["price", "history"], facts, extractStatistics(facts));
+    expect(comparison.filledCells).toBe(1);
+  });
+});
+
+describe("parseComparison", () => {
+  it("accepts 2–4 distinct topics with optional dimensions", () => {
+    expect(parseComparison({})).toEqual({ comparison: {} });
+    expect(parseComparison({ topics: [" heat pumps ", "gas boilers"], dimensions: ["Price", "price"] })).toEqual({
+      comparison: { topics: ["heat pumps", "gas boilers"], dimensions: ["price"] },
+    });
+  });
+
+  it("rejects too few, repeated or invalid topics and dimensions", () => {
+    expect(parseComparison({ topics: ["heat pumps"] })).toHaveProperty("error");
+    expect(parseComparison({ topics: ["heat pumps", "Heat pumps"] })).toHaveProperty("error");
+    expect(parseComparison({ dimensions: ["price"] })).toHaveProperty("error");
+    expect(parseComparison({ topics: subjects, dimensions: [] })).toHaveProperty("error");
+  });
+});
+describe("factSubject", () => {
+  it("moves a fact naming only another subject to that subject", () => {
+    expect(factSubject("A new gas boiler costs about 3,000 euros installed.", subjects, "heat pumps")).toBe(
+      "gas boilers"
+    );
+  });
+
+  it("gives a fact naming several subjects to the one it names first", () => {
+    expect(
+      factSubject("Heat pumps cut heating emissions by 42% compared with gas boilers.", subjects, "gas boilers")
+    ).toBe("heat pumps");
+  });
+
+  it("keeps a fact naming no subject with the subject it was researched for", () => {
+    expect(factSubject("Installers reported waiting times of 11 weeks in 2022.", subjects, "gas boilers")).toBe(
+      "gas boilers"
+    );
+  });
+});
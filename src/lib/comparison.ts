@@ -0,0 +1,236 @@
+import type {
+  ComparisonCell,
+  ResearchComparison,
+  ResearchFact,
+  ResearchStatistic,
+  StatisticKind,
+} from "@/agents/types";
+import { contentWords } from "./claims";
+import { mentionsTerm } from "./entity-extractor";
+
+// ── Comparison ───────────────────────────────────────────────────────────
+// "X vs Y" research: each subject is researched on its own, then the facts
+// are aligned along shared dimensions (price, adoption, performance,
+// history, or any the caller names) into a matrix. Each cell holds the
+// subject's fact that best covers the dimension, with its source.
+
+export const DEFAULT_COMPARISON_DIMENSIONS = ["price", "adoption", "performance", "history"];
+export const MIN_COMPARISON_SUBJECTS = 2;
+export const MAX_COMPARISON_SUBJECTS = 4;
+export const MAX_COMPARISON_DIMENSIONS = 8;
+
+const YEAR = /\b(?:1[5-9]|20)\d{2}\b/;
+
+interface DimensionProfile {
+  /** Appended to the subject for a follow-up query on the dimension */
+  query: string;
+  /** Words and phrases that show a fact is about the dimension */
+  cues: string[];
+  /** Figures that make a fact a good cell value */
+  kinds: StatisticKind[];
+  /** A year is the value (history) */
+  year?: boolean;
+}
+
+const DIMENSIONS: Record<string, DimensionProfile> = {
+  price: {
+    query: "price cost",
+    cues: [
+      "price", "pricing", "cost", "costly", "cheap", "cheaper", "expensive", "affordable",
+      "subsidy", "subsidies", "subsidizes", "fee", "tariff", "euro", "dollar", "pay",
+    ],
+    kinds: ["currency"],
+  },
+  adoption: {
+    query: "adoption market share",
+    cues: [
+      "adoption", "adopted", "installed", "installations", "users", "customers", "market share",
+      "sales", "sold", "popular", "deployed", "households", "uptake",
+    ],
+    kinds: ["count", "percentage"],
+  },
+  performance: {
+    query: "performance efficiency",
+    cues: [
+      "performance", "efficiency", "efficient", "faster", "speed", "output", "capacity",
+      "reliable", "reliability", "benchmark", "lifespan", "range",
+    ],
+    kinds: ["quantity", "percentage"],
+  },
+  history: {
+    query: "history origins",
+    cues: [
+      "founded", "invented", "introduced", "launched", "first", "history", "origins",
+      "established", "developed", "since", "pioneered",
+    ],
+    kinds: [],
+    year: true,
+  },
+};
+
+/** Subjects joined as the topic of a comparison, e.g. "heat pumps vs gas boilers". */
+export function comparisonTopic(subjects: string[]): string {
+  return subjects.join(" vs ");
+}
+
+/** Query suffix for researching a dimension. */
+export function dimensionQuery(dimension: string): string {
+  return DIMENSIONS[dimension.toLowerCase()]?.query ?? dimension;
+}
+
+/**
+ * The compared subject a fact is about, from its text: the subject it names
+ * first, so "heat pumps cut emissions by 42% compared with gas boilers" is
+ * about heat pumps whichever run found it, or the subject it was researched
+ * for when it names none of them.
+ */
+export function factSubject(fact: string, subjects: string[], researched: string): string {
+  const words = contentWords(fact);
+  const named = subjects
+    .map((subject) => ({ subject, terms: contentWords(subject) }))
+    .filter(({ terms }) => terms.length > 0 && terms.every((w) => words.includes(w)))
+    .map(({ subject, terms }) => ({ subject, at: Math.min(...terms.map((w) => words.indexOf(w))) }))
+    .sort((a, b) => a.at - b.at);
+  return named[0]?.subject ?? researched;
+}
+
+/**
+ * How strongly a fact speaks to a dimension: one point per cue it mentions,
+ * plus one for a figure of the dimension's kind (or a year, for history).
+ * 0 means it doesn't cover the dimension at all.
+ */
+export function dimensionScore(
+  fact: string,
+  dimension: string,
+  statistics: ResearchStatistic[] = []
+): number {
+  const profile = DIMENSIONS[dimension.toLowerCase()];
+  if (!profile) return mentionsTerm(fact, dimension) ? 1 : 0;
+
+  const cues = profile.cues.filter((cue) => mentionsTerm(fact, cue)).length;
+  if (cues === 0) return 0;
+  const figure = profile.year
+    ? YEAR.test(fact)
+    : statistics.some((s) => profile.kinds.includes(s.kind));
+  return cues + (figure ? 1 : 0);
+}
+
+/**
+ * The comparison matrix: one row per dimension, one cell per subject.
+ * Facts are assigned greedily, best-scoring (fact, subject, dimension)
+ * first, so one statement fills at most one cell even when several
+ * subjects' research found it. A fact naming its subject scores higher; one
+ * naming only another compared subject is left to that subject. Facts must
+ * carry their `subject`; `statistics` index into `facts`.
+ */
+export function buildComparison(
+  subjects: string[],
+  dimensions: string[],
+  facts: ResearchFact[],
+  statistics: ResearchStatistic[]
+): ResearchComparison {
+  const cells = new Map<string, ComparisonCell>();
+  const cellKey = (subject: string, dimension: string) => `${subject}\n${dimension}`;
+  const subjectWords = new Map(subjects.map((s) => [s, contentWords(s)]));
+
+  const pairs = facts
+    .map((fact, index) => ({ fact, index, subject: fact.subject ?? "" }))
+    .filter(({ subject }) => subjectWords.has(subject))
+    .flatMap(({ fact, index, subject }) => {
+      const words = new Set(contentWords(fact.fact));
+      const named = subjects.filter((s) => subjectWords.get(s)!.every((w) => words.has(w)));
+      if (named.length > 0 && !named.includes(subject)) return [];
+
+      const stats = statistics.filter((s) => s.factIndex === index);
+      return dimensions.map((dimension) => {
+        const score = dimensionScore(fact.fact, dimension, stats);
+        const bonus = score > 0 && named.length > 0 ? 1 : 0;
+        return { fact, index, subject, stats, dimension, score: score + bonus };
+      });
+    })
+    .filter((p) => p.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const used = new Set<string>();
+  for (const p of pairs) {
+    const key = cellKey(p.subject, p.dimension);
+    if (used.has(p.fact.fact) || cells.has(key)) continue;
+    used.add(p.fact.fact);
+    cells.set(key, {
+      subject: p.subject,
+      dimension: p.dimension,
+      factIndex: p.index,
+      fact: p.fact.fact,
+      value: cellValue(p.fact.fact, p.dimension, p.stats),
+      sourceUrl: p.fact.sourceUrl,
+      sourceTitle: p.fact.sourceTitle,
+      page: p.fact.page,
+    });
+  }
+
+  const rows = dimensions.map((dimension) => ({
+    dimension,
+    cells: subjects.map((subject) => cells.get(cellKey(subject, dimension)) ?? { subject, dimension }),
+  }));
+  return {
+    subjects,
+    dimensions,
+    rows,
+    filledCells: cells.size,
+  };
+}
+
+/**
+ * Validate the optional `topics` (2–4 distinct subjects to compare) and
+ * `dimensions` of a research request.
+ */
+export function parseComparison(input: {
+  topics?: unknown;
+  dimensions?: unknown;
+}): { comparison: { topics?: string[]; dimensions?: string[] } } | { error: string } {
+  const isStrings = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim().length > 0);
+
+  if (input.topics === undefined) {
+    if (input.dimensions !== undefined) {
+      return { error: "dimensions need at least two 'topics' to compare" };
+    }
+    return { comparison: {} };
+  }
+
+  if (!isStrings(input.topics)) {
+    return { error: "Invalid topics. Use an array of non-empty strings" };
+  }
+  const topics = input.topics.map((t) => t.trim());
+  if (topics.length < MIN_COMPARISON_SUBJECTS || topics.length > MAX_COMPARISON_SUBJECTS) {
+    return {
+      error: `Invalid topics. Compare ${MIN_COMPARISON_SUBJECTS} to ${MAX_COMPARISON_SUBJECTS} topics`,
+    };
+  }
+  if (new Set(topics.map((t) => t.toLowerCase())).size < topics.length) {
+    return { error: "Invalid topics. Each topic may appear only once" };
+  }
+
+  if (input.dimensions === undefined) return { comparison: { topics } };
+  if (
+    !isStrings(input.dimensions) ||
+    input.dimensions.length === 0 ||
+    input.dimensions.length > MAX_COMPARISON_DIMENSIONS
+  ) {
+    return {
+      error: `Invalid dimensions. Use an array of 1 to ${MAX_COMPARISON_DIMENSIONS} names, e.g. ${DEFAULT_COMPARISON_DIMENSIONS.join(", ")}`,
+    };
+  }
+  const dimensions = [...new Set(input.dimensions.map((d) => d.trim().toLowerCase()))];
+  return { comparison: { topics, dimensions } };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** The figure a cell stands for: a statistic of the dimension's kind, or the year for history. */
+function cellValue(fact: string, dimension: string, statistics: ResearchStatistic[]): string | undefined {
+  const profile = DIMENSIONS[dimension.toLowerCase()];
+  if (!profile) return statistics[0]?.text;
+  if (profile.year) return YEAR.exec(fact)?.[0];
+  return statistics.find((s) => profile.kinds.includes(s.kind))?.text;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { extractMainContent } from "./content-extractor";
+
+const ARTICLE = `<!doctype html>
+<html lang="de">
+<head>
+  <title>Heat pumps | Example News</title>
+  <meta property="og:title" content="Heat pumps in Germany">
+  <meta name="author" content="By Anna Schmidt">
+  <meta property="article:published_time" content="2024-03-05T10:00:00Z">
+</head>
+<body>
+  <nav><a href="/">Home</a> <a href="/energy">Energy news and more from our newsroom</a></nav>
+  <div class="sidebar"><p>Subscribe to our newsletter for the latest energy headlines every week.</p></div>
+  <article class="article-body">
+    <p>Germany installed 356,000 heat pumps in 2023, according to the federal association.</p>
+    <p>Heat pumps move heat from outside air into buildings, using far less energy than they deliver.</p>
+    <p>Germany installed 356,000 heat pumps in 2023, according to the federal association.</p>
+  </article>
+  <div class="comments"><p>Great article, thanks for writing about heat pumps and energy!</p></div>
+  <footer><p>Copyright Example News, all rights reserved worldwide since 1999.</p></footer>
+</body>
+</html>`;
+
+describe("extractMainContent", () => {
+  it("keeps the article's paragraphs and drops navigation, sidebars, comments and footers", () => {
+    expect(extractMainContent(ARTICLE).paragraphs).toEqual([
+      "Germany installed 356,000 heat pumps in 2023, according to the federal association.",
+      "Heat pumps move heat from outside air into buildings, using far less energy than they deliver.",
+    ]);
+  });
+
+  it("reads the title, byline, date and language from the page's metadata", () => {
+    const { title, byline, publishedAt, language } = extractMainContent(ARTICLE);
+    expect({ title, byline, publishedAt, language }).toEqual({
+      title: "Heat pumps in Germany",
+      byline: "Anna Schmidt",
+      publishedAt: "2024-03-05T10:00:00.000Z",
+      language: "de",
+    });
+  });
+
+  it("keeps whole paragraphs within the length cap", () => {
+    expect(extractMainContent(ARTICLE, 100).paragraphs).toHaveLength(1);
+  });
+});
+
+describe("extractMainContent metadata", () => {
+  it("prefers JSON-LD Article markup, found inside @graph", () => {
+    const html = `<html lang="en"><head>
+      <meta property="og:title" content="OpenGraph title">
+      <meta property="og:site_name" content="Example News">
+      <script type="application/ld+json">{ not json }</script>
+      <script type="application/ld+json">${JSON.stringify({
+        "@graph": [
+          { "@type": "WebSite", name: "Example" },
+          {
+            "@type": ["NewsArticle"],
+            headline: "Heat pumps break records",
+            author: [{ "@type": "Person", name: "Anna Schmidt" }, { name: "Jan Weber" }],
+            publisher: { "@type": "Organization", name: "Example Media Group" },
+            datePublished: "2024-03-05",
+          },
+        ],
+      })}</script>
+    </head><body><article><p>Germany installed 356,000 heat pumps in 2023.</p></article></body></html>`;
+
+    const { title, byline, publisher, publishedAt } = extractMainContent(html);
+    expect({ title, byline, publisher, publishedAt }).toEqual({
+      title: "Heat pumps break records",
+      byline: "Anna Schmidt, Jan Weber",
+      publisher: "Example Media Group",
+      publishedAt: "2024-03-05T00:00:00.000Z",
+    });
+  });
+
+  it("reads citation_* tags and resolves a relative canonical link against the page URL", () => {
+    const html = `<html><head>
+      <meta name="citation_title" content="Heat pump efficiency in cold climates">
+      <meta name="citation_author" content="Schmidt, Anna">
+      <meta name="citation_author" content="Weber, Jan">
+      <meta name="citation_journal_title" content="Energy Journal">
+      <meta name="citation_publication_date" content="2023-06-01">
+      <meta property="article:author" content="https://example.org/authors/anna">
+      <link rel="canonical" href="/articles/heat-pumps">
+    </head><body><p>Heat pumps work well at temperatures far below freezing.</p></body></html>`;
+
+    const content = extractMainContent(html, Infinity, "https://example.org/articles/heat-pumps?ref=feed");
+    expect(content.title).toBe("Heat pump efficiency in cold climates");
+    expect(content.byline).toBe("Schmidt, Anna, Weber, Jan");
+    expect(content.publisher).toBe("Energy Journal");
+    expect(content.publishedAt).toBe("2023-06-01T00:00:00.000Z");
+    expect(content.canonicalUrl).toBe("https://example.org/articles/heat-pumps");
+  });
+});
@@ -0,0 +1,451 @@
+import * as cheerio from "cheerio";
+import type { Cheerio, CheerioAPI } from "cheerio";
+
+// ── Main-content extraction ──────────────────────────────────────────────
+// A Readability-style extractor: strips boilerplate, scores block containers
+// by text density, comma count and class/id hints, penalizes link-heavy
+// blocks, then keeps the best container plus related siblings. Paragraph
+// boundaries are preserved so downstream sentence splitting stays clean.
+
+export type DocumentFormat = "html" | "pdf" | "docx" | "text" | "markdown" | "json" | "csv";
+
+export interface PageContent {
+  format?: DocumentFormat;
+  title: string;
+  byline?: string;
+  /** Site or organization that published the page */
+  publisher?: string;
+  /** ISO 8601 date when the page states one */
+  publishedAt?: string;
+  /** BCP 47 language tag from JSON-LD, <html lang> or meta tags */
+  language?: string;
+  /** Absolute canonical URL declared by the page */
+  canonicalUrl?: string;
+  paragraphs: string[];
+  /** For paginated documents (PDF): the 1-based page of each paragraph */
+  paragraphPages?: number[];
+}
+
+type Element = ReturnType<Cheerio<never>["children"]> extends Cheerio<infer T> ? T : never;
+
+const BOILERPLATE_SELECTORS =
+  "script, style, noscript, iframe, nav, header, footer, aside, form, button, svg, select, template";
+
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|foot|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tweet|twitter|ad-break|agegate/i;
+
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story|entry|post/i;
+
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+
+const NEGATIVE_HINTS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const PARAGRAPH_TAGS = "p, pre, blockquote, li, h2, h3, h4, td";
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const JSON_LD_ARTICLE_TYPES = new Set([
+  "Article",
+  "NewsArticle",
+  "ScholarlyArticle",
+  "AnalysisNewsArticle",
+  "ReportageNewsArticle",
+  "BlogPosting",
+  "TechArticle",
+  "Report",
+]);
+
+/**
+ * Extract the main article content and metadata from an HTML document.
+ * `maxLength` caps the total paragraph text; whole paragraphs are kept.
+ * `baseUrl` (the page URL) resolves a relative canonical link.
+ */
+export function extractMainContent(
+  html: string,
+  maxLength = Infinity,
+  baseUrl?: string
+): PageContent {
+  const $ = cheerio.load(html);
+  const meta = extractMetadata($, baseUrl);
+
+  $(BOILERPLATE_SELECTORS).remove();
+  removeUnlikelyCandidates($);
+
+  const top = findTopCandidate($);
+  const containers = top ? collectSiblings($, top) : [];
+  let paragraphs = containers.flatMap((c) => paragraphsOf($, c));
+
+  // Nothing scored well (e.g. a page of bare text nodes) — fall back to body
+  if (paragraphs.length === 0) {
+    paragraphs = paragraphsOf($, $("body").get(0));
+  }
+
+  return { format: "html", ...meta, paragraphs: capLength(dedupe(paragraphs), maxLength) };
+}
+
+/** Flatten extracted paragraphs back into a single string. */
+export function contentToText(content: PageContent): string {
+  return content.paragraphs.join("\n\n");
+}
+
+// ── Metadata ─────────────────────────────────────────────────────────────
+// Sources in order of reliability: JSON-LD Article markup, then OpenGraph,
+// then citation_* (Highwire, used by journals), Dublin Core and plain meta
+// tags, and finally visible page elements.
+
+function extractMetadata(
+  $: CheerioAPI,
+  baseUrl: string | undefined
+): Omit<PageContent, "paragraphs"> {
+  const metaContent = (selector: string) =>
+    $(selector).first().attr("content")?.trim() || undefined;
+  const ld = findJsonLdArticle($);
+
+  const title =
+    ldText(ld?.headline) ??
+    metaContent('meta[property="og:title"]') ??
+    metaContent('meta[name="twitter:title"]') ??
+    metaContent('meta[name="citation_title"]') ??
+    ($("title").first().text().trim() || $("h1").first().text().trim());
+
+  const citationAuthors = $('meta[name="citation_author"]')
+    .toArray()
+    .map((el) => $(el).attr("content")?.trim())
+    .filter(Boolean);
+
+  const byline =
+    ldNames(ld?.author) ??
+    metaContent('meta[name="author"]') ??
+    notUrl(metaContent('meta[property="article:author"]')) ??
+    (citationAuthors.length > 0 ? citationAuthors.join(", ") : undefined) ??
+    metaContent('meta[name="dc.creator" i]') ??
+    cleanInline($('[rel="author"], [itemprop="author"], .byline, .author').first().text());
+
+  const publisher =
+    ldNames(ld?.publisher) ??
+    metaContent('meta[property="og:site_name"]') ??
+    metaContent('meta[name="citation_publisher"]') ??
+    metaContent('meta[name="citation_journal_title"]') ??
+    metaContent('meta[name="dc.publisher" i]');
+
+  const rawDate =
+    ldText(ld?.datePublished) ??
+    metaContent('meta[property="article:published_time"]') ??
+    metaContent('meta[name="citation_publication_date"]') ??
+    metaContent('meta[name="citation_date"]') ??
+    metaContent('meta[itemprop="datePublished"]') ??
+    metaContent('meta[name="dc.date" i]') ??
+    metaContent('meta[name="date"]') ??
+    metaContent('meta[name="pubdate"]') ??
+    $("time[datetime]").first().attr("datetime");
+
+  const language =
+    ldNames(ld?.inLanguage) ||
+    $("html").attr("lang")?.trim() ||
+    metaContent('meta[http-equiv="content-language"]') ||
+    metaContent('meta[name="dc.language" i]') ||
+    metaContent('meta[property="og:locale"]')?.replace("_", "-");
+
+  const canonical =
+    $('link[rel="canonical"]').first().attr("href")?.trim() ||
+    metaContent('meta[property="og:url"]') ||
+    ldText(ld?.url) ||
+    ldId(ld?.mainEntityOfPage);
+
+  return {
+    title: cleanInline(title) ?? "",
+    byline: byline && byline.length < 120 ? byline.replace(/^by\s+/i, "") : undefined,
+    publisher: publisher && publisher.length < 120 ? cleanInline(publisher) : undefined,
+    publishedAt: toIsoDate(rawDate),
+    language: language || undefined,
+    canonicalUrl: toAbsoluteUrl(canonical, baseUrl),
+  };
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/** First JSON-LD node typed as an article, searching arrays and @graph. */
+function findJsonLdArticle($: CheerioAPI): JsonLdNode | undefined {
+  const isArticle = (node: JsonLdNode) => {
+    const types = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+    return types.some((t) => typeof t === "string" && JSON_LD_ARTICLE_TYPES.has(t));
+  };
+
+  const search = (value: unknown): JsonLdNode | undefined => {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const found = search(item);
+        if (found) return found;
+      }
+      return undefined;
+    }
+    if (!value || typeof value !== "object") return undefined;
+    const node = value as JsonLdNode;
+    return isArticle(node) ? node : search(node["@graph"]);
+  };
+
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    try {
+      const found = search(JSON.parse($(script).text()));
+      if (found) return found;
+    } catch {
+      // Malformed JSON-LD is common — ignore the block
+    }
+  }
+  return undefined;
+}
+
+function ldText(value: unknown): string | undefined {
+  return typeof value === "string" ? cleanInline(value) : undefined;
+}
+
+/** Names from a JSON-LD Person/Organization, a string, or an array of either. */
+function ldNames(value: unknown): string | undefined {
+  const items = Array.isArray(value) ? value : [value];
+  const names = items
+    .map((item) => {
+      if (typeof item === "string") return notUrl(cleanInline(item));
+      if (item && typeof item === "object") {
+        const node = item as JsonLdNode;
+        return ldText(node.name) ?? ldText(node.alternateName);
+      }
+      return undefined;
+    })
+    .filter((name): name is string => Boolean(name));
+  return names.length > 0 ? names.join(", ") : undefined;
+}
+
+function ldId(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object") return ldText((value as JsonLdNode)["@id"]);
+  return undefined;
+}
+
+/** article:author is often a profile URL rather than a name */
+function notUrl(value: string | undefined): string | undefined {
+  return value && !/^https?:\/\//i.test(value) ? value : undefined;
+}
+
+function toAbsoluteUrl(value: string | undefined, baseUrl: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────────
+
+function removeUnlikelyCandidates($: CheerioAPI): void {
+  $("body *").each((_i, el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === "body" || tag === "article" || tag === "main") return;
+
+    const hint = `${$(el).attr("class") ?? ""} ${$(el).attr("id") ?? ""}`;
+    if (UNLIKELY_CANDIDATES.test(hint) && !MAYBE_CANDIDATE.test(hint)) {
+      $(el).remove();
+    }
+  });
+}
+
+function classWeight($: CheerioAPI, el: Element): number {
+  const hint = `${$(el).attr("class") ?? ""} ${$(el).attr("id") ?? ""}`;
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(hint)) weight -= 25;
+  if (POSITIVE_HINTS.test(hint)) weight += 25;
+  return weight;
+}
+
+function tagWeight(tag: string): number {
+  switch (tag) {
+    case "article":
+    case "main":
+      return 10;
+    case "div":
+    case "section":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+    case "form":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function linkDensity($: CheerioAPI, el: Element): number {
+  const textLength = $(el).text().replace(/\s+/g, " ").trim().length;
+  if (textLength === 0) return 0;
+  const linkLength = $(el)
+    .find("a")
+    .toArray()
+    .reduce((sum, a) => sum + $(a).text().replace(/\s+/g, " ").trim().length, 0);
+  return linkLength / textLength;
+}
+
+function findTopCandidate($: CheerioAPI): Element | null {
+  const scores = new Map<Element, number>();
+
+  const initialize = (el: Element) => {
+    if (!scores.has(el)) {
+      scores.set(el, tagWeight(el.tagName.toLowerCase()) + classWeight($, el));
+    }
+  };
+
+  $("p, pre, td, blockquote").each((_i, el) => {
+    const text = $(el).text().replace(/\s+/g, " ").trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // One point per paragraph, per comma, and per 100 chars (max 3)
+    const commas = text.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = $(el).parent().get(0);
+    const grandparent = parent ? $(parent).parent().get(0) : undefined;
+
+    if (parent && parent.type === "tag") {
+      initialize(parent);
+      scores.set(parent, scores.get(parent)! + score);
+    }
+    if (grandparent && grandparent.type === "tag") {
+      initialize(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + score / 2);
+    }
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, el));
+    scores.set(el, adjusted);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Readability keeps siblings of the top candidate that are likely part of
+ * the same article (e.g. content split across several <div>s).
+ */
+function collectSiblings($: CheerioAPI, top: Element): Element[] {
+  const parent = $(top).parent();
+  if (!parent.length) return [top];
+
+  const topLength = $(top).text().replace(/\s+/g, " ").trim().length;
+  const threshold = Math.max(10, topLength * 0.2);
+  const kept: Element[] = [];
+
+  parent.children().each((_i, sibling) => {
+    if (sibling === top) {
+      kept.push(sibling);
+      return;
+    }
+
+    const text = $(sibling).text().replace(/\s+/g, " ").trim();
+    const density = linkDensity($, sibling);
+    const isParagraph = sibling.tagName.toLowerCase() === "p";
+
+    if (
+      (isParagraph && text.length > 80 && density < 0.25) ||
+      (isParagraph && text.length > 0 && density === 0 && /\.( |$)/.test(text)) ||
+      (!isParagraph && classWeight($, sibling) >= 0 && text.length >= threshold && density < 0.2)
+    ) {
+      kept.push(sibling);
+    }
+  });
+
+  return kept;
+}
+
+// ── Paragraphs ───────────────────────────────────────────────────────────
+
+function paragraphsOf($: CheerioAPI, container: Element | undefined): string[] {
+  if (!container) return [];
+  const $c = $(container);
+
+  const blocks = $c.is(PARAGRAPH_TAGS) ? [container] : $c.find(PARAGRAPH_TAGS).toArray();
+  const paragraphs: string[] = [];
+
+  for (const block of blocks) {
+    // Skip wrappers whose paragraph children are collected on their own
+    if ($(block).find(PARAGRAPH_TAGS).length > 0) continue;
+    if (linkDensity($, block) > 0.5) continue;
+
+    const text = cleanInline($(block).text());
+    if (text && text.length >= MIN_PARAGRAPH_LENGTH) paragraphs.push(text);
+  }
+
+  // No block markup at all — split the raw text on line breaks
+  if (paragraphs.length === 0) {
+    return $c
+      .text()
+      .split(/\n\s*\n|\r\n\s*\r\n/)
+      .map((p) => cleanInline(p) ?? "")
+      .filter((p) => p.length >= MIN_PARAGRAPH_LENGTH);
+  }
+
+  return paragraphs;
+}
+
+function cleanInline(text: string | undefined): string | undefined {
+  const cleaned = text?.replace(/\s+/g, " ").trim();
+  return cleaned ? cleaned : undefined;
+}
+
+function dedupe(paragraphs: string[]): string[] {
+  const seen = new Set<string>();
+  return paragraphs.filter((p) => {
+    if (seen.has(p)) return false;
+    seen.add(p);
+    return true;
+  });
+}
+
+function capLength(paragraphs: string[], maxLength: number): string[] {
+  const kept: string[] = [];
+  let total = 0;
+
+  for (const p of paragraphs) {
+    if (total + p.length > maxLength) {
+      // Always return something, even if the first paragraph is too long
+      if (kept.length === 0) kept.push(p.slice(0, maxLength));
+      break;
+    }
+    kept.push(p);
+    total += p.length;
+  }
+
+  return kept;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { ResearchFact } from "@/agents/types";
+import { detectConflicts } from "./contradiction-detector";
+
+const facts = (...sentences: string[]): ResearchFact[] =>
+  sentences.map((fact, i) => ({ fact, sourceUrl: `https://example${i}.com`, sourceTitle: `Source ${i}` }));
+
+describe("detectConflicts", () => {
+  it("flags different figures for the same quantity and hedges equal-confidence claims", () => {
+    const conflicts = detectConflicts(
+      facts(
+        "Germany installed 356,000 heat pumps in 2023.",
+        "Germany installed 236,000 heat pumps in 2023."
+      )
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ kind: "numeric", factIndexes: [0, 1], resolution: "hedge" });
+  });
+
+  it("prefers the better-corroborated claim and drops the other", () => {
+    const input = facts(
+      "Germany installed 236,000 heat pumps in 2023.",
+      "Germany installed 356,000 heat pumps in 2023."
+    );
+    input[1].confidence = 0.75;
+    input[0].confidence = 0.5;
+
+    const [conflict] = detectConflicts(input);
+    expect(conflict.factIndexes).toEqual([1, 0]);
+    expect(conflict.resolution).toBe("drop");
+  });
+
+  it("treats figures within 5% as the same estimate", () => {
+    expect(
+      detectConflicts(
+        facts("Germany installed 356,000 heat pumps in 2023.", "Germany installed 350,000 heat pumps in 2023.")
+      )
+    ).toEqual([]);
+  });
+
+  it("treats statistics for different years as different periods", () => {
+    expect(
+      detectConflicts(
+        facts("Germany installed 356,000 heat pumps in 2023.", "Germany installed 236,000 heat pumps in 2022.")
+      )
+    ).toEqual([]);
+  });
+
+  it("flags an event dated differently", () => {
+    const [conflict] = detectConflicts(
+      facts("The Federal Network Agency was founded in 1998.", "The Federal Network Agency was founded in 2005.")
+    );
+    expect(conflict).toMatchObject({ kind: "date", values: ["1998", "2005"] });
+  });
+
+  it("flags a negated claim", () => {
+    const [conflict] = detectConflicts(
+      facts(
+        "Heat pumps are eligible for federal renovation subsidies.",
+        "Heat pumps are not eligible for federal renovation subsidies."
+      )
+    );
+    expect(conflict?.kind).toBe("negation");
+  });
+
+  it("does not compare the prices of two different subjects", () => {
+    const conflicts = detectConflicts(
+      facts(
+        "A typical air-source heat pump costs between 12,000 and 18,000 euros to install.",
+        "A gas boiler costs between 3,000 and 6,000 euros to install."
+      )
+    );
+    expect(conflicts).toEqual([]);
+  });
+
+  it("flags different figures for the same subject", () => {
+    const conflicts = detectConflicts(
+      facts(
+        "A typical air-source heat pump costs about 15,000 euros to install.",
+        "Heat pumps cost about 9,000 euros to install."
+      )
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe("numeric");
+  });
+
+  it("matches a subject named later in the sentence", () => {
+    const conflicts = detectConflicts(
+      facts(
+        "Germany installed 356,000 heat pumps in 2023.",
+        "In 2023, 410,000 heat pumps were installed in Germany."
+      )
+    );
+    expect(conflicts.map((c) => c.kind)).toEqual(["numeric"]);
+  });
+});
@@ -0,0 +1,227 @@
+import { ConflictKind, ResearchConflict, ResearchFact } from "@/agents/types";
+import { ClaimTerms, claimTerms, contentWords, stem, wordOverlap } from "./claims";
+import { findYears, parseFigures } from "./statistics-extractor";
+
+// ── Contradiction detection ──────────────────────────────────────────────
+// Compares every pair of extracted facts that talk about the same subject
+// and flags three kinds of disagreement: different figures for the same
+// quantity, different years for the same event, and one claim negating the
+// other. Facts referring to different years are treated as different
+// periods, not conflicts ("12 GW in 2023" vs "15 GW in 2024"). Figures are
+// only compared between facts whose subjects match: "a heat pump costs
+// 15,000 euros" and "a gas boiler costs 9,000 euros" share most words but
+// are about different things.
+
+/** Figures within this relative difference are considered the same estimate */
+const NUMERIC_TOLERANCE = 0.05;
+
+/** Minimum share of the shorter fact's content words both facts must use */
+const SAME_SUBJECT_OVERLAP = 0.5;
+
+/** A clause before the subject: "In 2023, …", "According to the IEA, …" */
+const LEADING_CLAUSE = /^(?:in|by|since|during|as of|last|this|according to)\b[^,]{0,60},\s*/i;
+
+/** Words that end the subject noun phrase: the verb, or a preposition after the head noun */
+const SUBJECT_END = new Set([
+  "is", "are", "was", "were", "be", "has", "have", "had", "will", "would", "can", "could",
+  "may", "might", "must", "should", "cost", "costs", "reach", "reaches", "rose", "rise", "rises",
+  "fell", "fall", "falls", "grew", "grow", "grows", "stood", "stands", "total", "totals",
+  "account", "accounts", "make", "makes", "employ", "employs", "produce", "produces",
+  "generate", "generates", "use", "uses", "save", "saves", "sell", "sells", "sold", "need",
+  "needs", "require", "requires", "take", "takes", "last", "lasts", "range", "ranges",
+  "average", "averages", "run", "runs", "hold", "holds", "saw", "see", "sees", "get", "gets",
+  "in", "at", "on", "across", "from", "for", "by", "to", "with", "during", "since", "between",
+  "that", "which", "who",
+]);
+
+/** Modifiers dropped from the subject so "a typical heat pump" matches "heat pumps" */
+const SUBJECT_MODIFIERS = new Set([
+  "typical", "average", "most", "many", "some", "all", "each", "every", "new", "modern",
+  "standard", "basic", "nearly", "around", "over", "almost",
+]);
+
+const EVENT_VERBS =
+  /\b(founded|established|launched|introduced|released|created|invented|discovered|opened|born|died|began|started|signed|enacted|ratified|built|completed)\b/i;
+
+interface Quantity {
+  value: number;
+  /** The high end of a range */
+  high?: number;
+  unit: string;
+  text: string;
+}
+
+interface FactProfile {
+  terms: ClaimTerms;
+  /** Stemmed words of the subject noun phrase; empty when the sentence opens on a figure */
+  subject: Set<string>;
+  /** Stemmed words of capitalized names ("Germany", "Viessmann") */
+  names: Set<string>;
+  quantities: Quantity[];
+  years: Set<number>;
+  event: boolean;
+}
+
+/**
+ * Detect contradictory pairs among `facts`. In each conflict the first index
+ * is the preferred claim: higher confidence, then the higher-ranked fact.
+ */
+export function detectConflicts(facts: ResearchFact[]): ResearchConflict[] {
+  const profiles = facts.map((f) => profile(f.fact));
+  const conflicts: ResearchConflict[] = [];
+
+  for (let i = 0; i < facts.length; i++) {
+    for (let j = i + 1; j < facts.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+
+      const { overlap, shared } = wordOverlap(a.terms, b.terms);
+      if (overlap < SAME_SUBJECT_OVERLAP || shared < 2) continue;
+
+      const [first, second] =
+        (facts[j].confidence ?? 0) > (facts[i].confidence ?? 0) ? [j, i] : [i, j];
+      const swapped = first !== i;
+      const conflict = compare(swapped ? b : a, swapped ? a : b);
+      if (!conflict) continue;
+
+      conflicts.push({
+        ...conflict,
+        factIndexes: [first, second],
+        claims: [facts[first].fact, facts[second].fact],
+        resolution:
+          conflict.kind === "numeric" && facts[first].confidence === facts[second].confidence
+            ? "hedge"
+            : "drop",
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+function compare(
+  a: FactProfile,
+  b: FactProfile
+): Pick<ResearchConflict, "kind" | "values" | "description"> | null {
+  const bothDated = a.years.size > 0 && b.years.size > 0;
+  const sameYears = bothDated && [...a.years].some((y) => b.years.has(y));
+
+  // Different years: an event dated differently is a conflict; a statistic
+  // for a different year is just a different period
+  if (bothDated && !sameYears) {
+    if (a.event && b.event && a.years.size === 1 && b.years.size === 1) {
+      const values: [string, string] = [String([...a.years][0]), String([...b.years][0])];
+      return conflict("date", values, `Sources date this differently: ${values[0]} vs ${values[1]}`);
+    }
+    return null;
+  }
+
+  // Same subject and unit on both sides but no figure in agreement
+  const units = sameSubject(a, b) ? new Set(a.quantities.map((q) => q.unit)) : new Set<string>();
+  for (const unit of units) {
+    const ours = a.quantities.filter((q) => q.unit === unit);
+    const theirs = b.quantities.filter((q) => q.unit === unit);
+    if (theirs.length === 0) continue;
+    if (ours.some((x) => theirs.some((y) => agrees(x, y)))) continue;
+
+    const values: [string, string] = [ours[0].text, theirs[0].text];
+    return conflict("numeric", values, `Sources give different figures: ${values[0]} vs ${values[1]}`);
+  }
+
+  if (a.terms.negated !== b.terms.negated && wordOverlap(a.terms, b.terms).overlap >= 0.6) {
+    return conflict("negation", undefined, "One source states the opposite of the other");
+  }
+
+  return null;
+}
+
+function conflict(
+  kind: ConflictKind,
+  values: [string, string] | undefined,
+  description: string
+): Pick<ResearchConflict, "kind" | "values" | "description"> {
+  return { kind, values, description };
+}
+
+function isClose(x: number, y: number): boolean {
+  if (x === y) return true;
+  return Math.abs(x - y) / Math.max(Math.abs(x), Math.abs(y)) <= NUMERIC_TOLERANCE;
+}
+
+/** Figures agree when they are close, or when a range contains or overlaps the other figure. */
+function agrees(x: Quantity, y: Quantity): boolean {
+  if (x.high === undefined && y.high === undefined) return isClose(x.value, y.value);
+  const [xHigh, yHigh] = [x.high ?? x.value, y.high ?? y.value];
+  return (
+    (x.value <= yHigh || isClose(x.value, yHigh)) && (y.value <= xHigh || isClose(y.value, xHigh))
+  );
+}
+
+/**
+ * Whether two facts are about the same thing. When both open on a subject,
+ * one subject's words must contain the other's or share more than half of
+ * them ("heat pumps" and "a typical air-source heat pump" match, "heat
+ * pumps" and "heating oil" don't). A fact opening on a figure ("410,000
+ * heat pumps were installed in Germany") is matched by the names both
+ * mention instead.
+ */
+function sameSubject(a: FactProfile, b: FactProfile): boolean {
+  if (a.subject.size > 0 && b.subject.size > 0) {
+    const shared = [...a.subject].filter((w) => b.subject.has(w)).length;
+    const smaller = Math.min(a.subject.size, b.subject.size);
+    const larger = Math.max(a.subject.size, b.subject.size);
+    return shared === smaller || shared > larger / 2;
+  }
+  return [...a.names].some((n) => b.names.has(n));
+}
+
+// ── Profiles ─────────────────────────────────────────────────────────────
+
+function profile(sentence: string): FactProfile {
+  return {
+    terms: claimTerms(sentence),
+    subject: subjectOf(sentence),
+    names: namesIn(sentence),
+    quantities: quantitiesOf(sentence),
+    years: new Set(findYears(sentence).map((y) => y.year)),
+    event: EVENT_VERBS.test(sentence),
+  };
+}
+
+/**
+ * Figures keyed by normalized unit, so "12 GW" and "12 gigawatts" compare
+ * equal. Counted nouns are stemmed ("users" vs "user").
+ */
+function quantitiesOf(sentence: string): Quantity[] {
+  return parseFigures(sentence).map(({ kind, value, high, unit, text }) => ({
+    value,
+    high,
+    unit: kind === "count" ? stem(unit) : `${kind}:${unit}`,
+    text,
+  }));
+}
+
+/**
+ * The noun phrase a sentence opens with, after a leading clause ("In 2023,"),
+ * up to its verb or a preposition: "A typical air-source heat pump costs …"
+ * gives {air, source, heat, pump}. Empty when the sentence opens on a figure.
+ */
+function subjectOf(sentence: string): Set<string> {
+  const words: string[] = [];
+  for (const token of sentence.replace(LEADING_CLAUSE, "").split(/\s+/)) {
+    const word = token.toLowerCase().replace(/[^\p{L}-]/gu, "");
+    if (!word || /\d/.test(token) || SUBJECT_END.has(word) || /\p{Ll}ed$/u.test(word)) break;
+    words.push(word);
+    if (/[,;:]$/.test(token)) break;
+  }
+  return new Set(contentWords(words.filter((w) => !SUBJECT_MODIFIERS.has(w)).join(" ")));
+}
+
+/** Stemmed capitalized words, the first word only when it alone is the subject ("Germany installed …"). */
+function namesIn(sentence: string): Set<string> {
+  const tokens = sentence.replace(LEADING_CLAUSE, "").split(/\s+/);
+  const names = tokens
+    .filter((t, i) => /^\p{Lu}\p{L}+/u.test(t) && (i > 0 || subjectOf(sentence).size === 1))
+    .map((t) => stem(t.toLowerCase().replace(/[^\p{L}]/gu, "")));
+  return new Set(names.filter((n) => n.length > 1));
+}
@@ -0,0 +1,165 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { detectFormat, extractDocument } from "./document-extractor";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * A zip archive of deflated text entries, as Word writes them. `declaredSize`
+ * replaces the uncompressed size written in the central directory.
+ */
+function zip(files: Record<string, string>, declaredSize?: number): Uint8Array {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(text));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(text.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(declaredSize ?? text.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, directory, end]));
+}
+
+describe("detectFormat", () => {
+  it("trusts the Content-Type header", () => {
+    expect(detectFormat("application/pdf", "https://example.org/page", bytes(""))).toBe("pdf");
+    expect(detectFormat("text/csv; charset=utf-8", "https://example.org/a.json", bytes(""))).toBe("csv");
+    expect(detectFormat("image/png", "https://example.org/a.txt", bytes(""))).toBeNull();
+  });
+
+  it("falls back to the URL extension, then the first bytes", () => {
+    expect(detectFormat("application/octet-stream", "https://example.org/report.PDF", bytes(""))).toBe("pdf");
+    expect(detectFormat(null, "https://example.org/download", bytes("%PDF-1.7 ..."))).toBe("pdf");
+    expect(detectFormat(null, "https://example.org/download", bytes("  <!DOCTYPE html><html>"))).toBe("html");
+    expect(detectFormat(null, "https://example.org/download", bytes('{"a": 1}'))).toBe("json");
+  });
+
+  it("tells Markdown, plain text and Word uploads apart", () => {
+    expect(detectFormat("text/markdown", "upload://documents/notes", bytes(""))).toBe("markdown");
+    expect(detectFormat(null, "upload://documents/notes.md", bytes(""))).toBe("markdown");
+    expect(detectFormat(null, "upload://documents/notes.txt", bytes(""))).toBe("text");
+    expect(detectFormat(null, "upload://documents/q3-report.docx", bytes(""))).toBe("docx");
+  });
+});
+
+describe("extractDocument", () => {
+  it("turns CSV rows into header: value sentences, leaving out empty fields", async () => {
+    const csv = 'country;installed;year\nGermany;"356,000";2023\nFrance;;2023\n';
+    const content = await extractDocument(bytes(csv), "csv");
+    expect(content?.paragraphs).toEqual([
+      "country: Germany, installed: 356,000, year: 2023.",
+      "country: France, year: 2023.",
+    ]);
+  });
+
+  it("keeps JSON prose and joins short fields with their labels", async () => {
+    const json = JSON.stringify({
+      title: "Heat pump market",
+      summary: "Heat pump sales in Germany rose sharply in 2023 as subsidies grew.",
+      figures: [{ unitsSold: 356000, marketShare: "23%" }],
+    });
+    const content = await extractDocument(bytes(json), "json");
+    expect(content?.title).toBe("Heat pump market");
+    expect(content?.paragraphs).toEqual([
+      "Heat pump sales in Germany rose sharply in 2023 as subsidies grew.",
+      "units sold: 356000, market share: 23%.",
+    ]);
+  });
+
+  it("splits plain text on blank lines and titles it with the first line", async () => {
+    const content = await extractDocument(
+      bytes("Heat pumps\n\nHeat pumps move heat from outside air\ninto buildings.\n\nShort."),
+      "text"
+    );
+    expect(content?.title).toBe("Heat pumps");
+    expect(content?.paragraphs).toEqual(["Heat pumps move heat from outside air into buildings."]);
+  });
+
+  it("reads Markdown as prose, dropping front matter, code and images", async () => {
+    const md = [
+      "---",
+      "draft: true",
+      "---",
+      "# Heat pump notes",
+      "",
+      "Heat pumps [move heat](https://example.org) from **outside air** into buildings.",
+      "",
+      "```",
+      "const ignored = true;",
+      "```",
+      "",
+      "![diagram](pump.png)",
+    ].join("\n");
+    const content = await extractDocument(bytes(md), "markdown");
+    expect(content?.title).toBe("Heat pump notes");
+    expect(content?.paragraphs).toEqual(["Heat pumps move heat from outside air into buildings."]);
+  });
+
+  it("reads Word paragraphs and document properties", async () => {
+    const docx = zip({
+      "word/document.xml":
+        '<w:document xmlns:w="w"><w:body>' +
+        "<w:p><w:r><w:t>Quarterly report</w:t></w:r></w:p>" +
+        "<w:p><w:r><w:t>Heat pump sales rose </w:t></w:r><w:r><w:t>by a third in the quarter.</w:t></w:r></w:p>" +
+        "</w:body></w:document>",
+      "docProps/core.xml":
+        '<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc" xmlns:dcterms="dcterms">' +
+        "<dc:title>Q3 heat pump report</dc:title><dc:creator>Jane Doe</dc:creator>" +
+        "<dcterms:created>2024-10-01T09:00:00Z</dcterms:created></cp:coreProperties>",
+    });
+    const content = await extractDocument(docx, "docx");
+    expect(content).toMatchObject({
+      format: "docx",
+      title: "Q3 heat pump report",
+      byline: "Jane Doe",
+      publishedAt: "2024-10-01T09:00:00.000Z",
+      paragraphs: ["Heat pump sales rose by a third in the quarter."],
+    });
+  });
+
+  it("inflates only the Word parts it reads, within a size limit", async () => {
+    const document =
+      '<w:document xmlns:w="w"><w:body><w:p><w:r><w:t>Heat pump sales rose by a third in the quarter.</w:t></w:r></w:p></w:body></w:document>';
+    const bomb = "0".repeat(9 * 1024 * 1024);
+
+    const withMedia = zip({ "word/document.xml": document, "word/media/filler.bin": bomb });
+    expect((await extractDocument(withMedia, "docx"))?.paragraphs).toEqual([
+      "Heat pump sales rose by a third in the quarter.",
+    ]);
+
+    expect(await extractDocument(zip({ "word/document.xml": bomb }), "docx")).toBeNull();
+    expect(await extractDocument(zip({ "word/document.xml": bomb }, 1000), "docx")).toBeNull();
+  });
+
+  it("returns null for documents it cannot parse", async () => {
+    expect(await extractDocument(bytes("{not json"), "json")).toBeNull();
+    expect(await extractDocument(bytes("not a zip archive"), "docx")).toBeNull();
+  });
+});
@@ -0,0 +1,455 @@
+import { inflateRawSync } from "zlib";
+import * as cheerio from "cheerio";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import { DocumentFormat, extractMainContent, PageContent } from "./content-extractor";
+
+// ── Document extraction ──────────────────────────────────────────────────
+// Dispatches a fetched body to the right extractor by Content-Type, falling
+// back to the URL extension and magic bytes when servers send a generic
+// type. Every format is reduced to the same PageContent paragraphs so fact
+// extraction does not care where the text came from; PDFs also keep the
+// page number of each paragraph for "p. 12"-style citations.
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/** CSV rows beyond this are ignored — facts come from the first rows anyway */
+const MAX_CSV_ROWS = 200;
+
+/** JSON strings shorter than this are treated as labels, not prose */
+const MIN_JSON_PROSE_LENGTH = 40;
+
+/** Accept header for page fetches: HTML first, then the formats we can read */
+export const DOCUMENT_ACCEPT =
+  "text/html,application/xhtml+xml;q=0.9,application/pdf;q=0.8,text/plain;q=0.7,text/markdown;q=0.7,application/json;q=0.6,text/csv;q=0.6,*/*;q=0.1";
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+/** The only parts of a Word document that are inflated */
+const DOCX_PARTS = new Set(["word/document.xml", "docProps/core.xml"]);
+/** Parts larger than this once inflated are not read, so zip bombs stay small */
+const MAX_DOCX_PART_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Work out the format of a fetched document. The Content-Type header wins;
+ * `application/octet-stream` and missing headers fall back to the URL
+ * extension, then to sniffing the first bytes.
+ */
+export function detectFormat(
+  contentType: string | null,
+  url: string,
+  body: Uint8Array
+): DocumentFormat | null {
+  const mime = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+
+  if (mime === "application/pdf" || mime === "application/x-pdf") return "pdf";
+  if (mime === DOCX_MIME) return "docx";
+  if (mime === "text/html" || mime === "application/xhtml+xml") return "html";
+  if (mime === "text/csv" || mime === "application/csv") return "csv";
+  if (mime === "application/json" || mime.endsWith("+json")) return "json";
+  if (mime === "text/markdown" || mime === "text/x-markdown") return "markdown";
+  if (mime === "text/plain") return "text";
+
+  if (mime && mime !== "application/octet-stream" && mime !== "binary/octet-stream") {
+    // Some other text/* type we can still read as prose; anything else is unsupported
+    return mime.startsWith("text/") ? "text" : null;
+  }
+
+  let pathname = "";
+  try {
+    pathname = new URL(url).pathname.toLowerCase();
+  } catch {
+    // Not a URL — rely on sniffing
+  }
+
+  if (pathname.endsWith(".pdf")) return "pdf";
+  if (pathname.endsWith(".docx")) return "docx";
+  if (pathname.endsWith(".csv")) return "csv";
+  if (pathname.endsWith(".json")) return "json";
+  if (/\.(md|markdown)$/.test(pathname)) return "markdown";
+  if (pathname.endsWith(".txt")) return "text";
+  if (/\.x?html?$/.test(pathname)) return "html";
+
+  const head = new TextDecoder().decode(body.subarray(0, 512)).trimStart();
+  if (head.startsWith("%PDF-")) return "pdf";
+  if (/^<(!doctype html|html|head|body)/i.test(head)) return "html";
+  if (head.startsWith("{") || head.startsWith("[")) return "json";
+  return null;
+}
+
+/**
+ * Extract paragraphs and metadata from a fetched document of any supported
+ * format. `maxLength` caps the total paragraph text; whole paragraphs are kept.
+ * `url` is the document's address, used to resolve relative links.
+ * Returns null for unsupported or unparseable documents.
+ */
+export async function extractDocument(
+  body: Uint8Array,
+  format: DocumentFormat,
+  maxLength = Infinity,
+  url?: string
+): Promise<PageContent | null> {
+  try {
+    switch (format) {
+      case "html":
+        return extractMainContent(decode(body), maxLength, url);
+      case "pdf":
+        return capContent(await extractPdf(body), maxLength);
+      case "docx": {
+        const content = extractDocx(body);
+        return content && capContent(content, maxLength);
+      }
+      case "text":
+        return capContent(extractPlainText(decode(body)), maxLength);
+      case "markdown":
+        return capContent(extractMarkdown(decode(body)), maxLength);
+      case "json":
+        return capContent(extractJson(decode(body)), maxLength);
+      case "csv":
+        return capContent(extractCsv(decode(body)), maxLength);
+    }
+  } catch {
+    return null;
+  }
+}
+
+/** Split plain text on blank lines into whitespace-normalized paragraphs. */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+// ── PDF ──────────────────────────────────────────────────────────────────
+
+async function extractPdf(body: Uint8Array): Promise<PageContent> {
+  // pdf.js transfers the buffer to its worker, so hand it a copy
+  const pdf = await getDocumentProxy(new Uint8Array(body));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf, { parseDates: true });
+
+  const paragraphs: string[] = [];
+  const paragraphPages: number[] = [];
+
+  pages.forEach((pageText, i) => {
+    for (const p of pdfParagraphs(pageText)) {
+      paragraphs.push(p);
+      paragraphPages.push(i + 1);
+    }
+  });
+
+  const creation = info?.CreationDate;
+  const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+  const author = typeof info?.Author === "string" ? info.Author.trim() : "";
+
+  return {
+    format: "pdf",
+    title: title || paragraphs[0]?.slice(0, 200) || "",
+    byline: author || undefined,
+    publishedAt: creation instanceof Date && !Number.isNaN(creation.getTime())
+      ? creation.toISOString()
+      : undefined,
+    language: typeof info?.Language === "string" ? info.Language : undefined,
+    paragraphs,
+    paragraphPages,
+  };
+}
+
+/**
+ * PDF text comes out as hard-wrapped lines. Re-join hyphenated and wrapped
+ * lines, split on blank lines, and drop running headers/footers such as
+ * bare page numbers.
+ */
+function pdfParagraphs(pageText: string): string[] {
+  return pageText
+    .replace(/^[ \t]*(page[ \t]*)?\d+([ \t]*(of|\/)[ \t]*\d+)?[ \t]*(\r?\n|$)/gim, "")
+    .replace(/(\p{L})-\r?\n(\p{Ll})/gu, "$1$2")
+    .split(/\r?\n\s*\r?\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter((p) => p.length >= MIN_PARAGRAPH_LENGTH);
+}
+
+// ── Plain text ───────────────────────────────────────────────────────────
+
+function extractPlainText(text: string): PageContent {
+  const paragraphs = splitParagraphs(text);
+  return {
+    format: "text",
+    title: paragraphs[0] && paragraphs[0].length < 200 ? paragraphs[0] : "",
+    paragraphs: paragraphs.filter((p) => p.length >= MIN_PARAGRAPH_LENGTH),
+  };
+}
+
+// ── Markdown ─────────────────────────────────────────────────────────────
+
+function extractMarkdown(md: string): PageContent {
+  return {
+    format: "markdown",
+    title: md.match(/^#\s+(.+)$/m)?.[1]?.trim() ?? "",
+    paragraphs: splitParagraphs(stripMarkdown(md)).filter((p) => p.length >= MIN_PARAGRAPH_LENGTH),
+  };
+}
+
+/** Markdown to plain prose: drop front matter, code and images; headings become sentences. */
+export function stripMarkdown(md: string): string {
+  return md
+    .replace(/^---\n[\s\S]*?\n---\n/, "") // front matter
+    .replace(/```[\s\S]*?```/g, " ") // fenced code
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ") // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // links → text
+    .replace(/^#{1,6}\s+(.+)$/gm, "$1.") // headings become sentences
+    .replace(/^\s*[-*+]\s+/gm, "") // bullets
+    .replace(/[*_`>~]/g, "");
+}
+
+// ── DOCX ─────────────────────────────────────────────────────────────────
+
+/**
+ * A Word document is a zip archive of XML parts: paragraphs (`w:p`) come
+ * from word/document.xml, title/author/date from docProps/core.xml.
+ * Returns null when the body is not a zip archive or its document part is
+ * missing or too large to read.
+ */
+function extractDocx(body: Uint8Array): PageContent | null {
+  const entries = readZip(body, DOCX_PARTS, MAX_DOCX_PART_BYTES);
+  const document = entries?.get("word/document.xml");
+  if (!entries || !document) return null;
+
+  const $ = cheerio.load(decode(document), { xml: true });
+  const paragraphs = $("w\\:body w\\:p")
+    .toArray()
+    .map((p) =>
+      $(p)
+        .find("w\\:t, w\\:tab, w\\:br")
+        .toArray()
+        .map((node) => (node.tagName === "w:t" ? $(node).text() : " "))
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter(Boolean);
+
+  const core = entries.get("docProps/core.xml");
+  const meta = core ? cheerio.load(decode(core), { xml: true }) : null;
+  const field = (tag: string) => meta?.(tag.replace(":", "\\:")).first().text().trim() || undefined;
+  const created = field("dcterms:created");
+
+  return {
+    format: "docx",
+    title: field("dc:title") ?? (paragraphs[0] && paragraphs[0].length < 200 ? paragraphs[0] : ""),
+    byline: field("dc:creator"),
+    publishedAt: created && !Number.isNaN(Date.parse(created)) ? new Date(created).toISOString() : undefined,
+    language: field("dc:language"),
+    paragraphs: paragraphs.filter((p) => p.length >= MIN_PARAGRAPH_LENGTH),
+  };
+}
+
+/**
+ * Minimal zip reader: walks the central directory and inflates the stored
+ * or deflated entries named in `names`. Entries whose uncompressed size
+ * (declared or actual) exceeds `maxBytes` are left out. Enough for Office
+ * documents; no zip64 or encryption. Returns null for non-zip bodies.
+ */
+function readZip(body: Uint8Array, names: Set<string>, maxBytes: number): Map<string, Uint8Array> | null {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const entries = new Map<string, Uint8Array>();
+
+  // End of central directory record, searched from the end (it may carry a comment)
+  let eocd = -1;
+  for (let i = body.byteLength - 22; i >= Math.max(0, body.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let n = 0; n < count && offset + 46 <= body.byteLength; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decode(body.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.has(name) || uncompressedSize > maxBytes || localOffset + 30 > body.byteLength) continue;
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = body.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0 && data.byteLength <= maxBytes) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      try {
+        // The declared size may lie; the output limit holds either way
+        entries.set(name, new Uint8Array(inflateRawSync(data, { maxOutputLength: maxBytes })));
+      } catch {
+        // Larger than declared, or corrupt
+      }
+    }
+  }
+
+  return entries;
+}
+
+// ── JSON ─────────────────────────────────────────────────────────────────
+
+/**
+ * Flatten a JSON document into readable sentences: long string values are
+ * kept as paragraphs, and each object's short scalar fields are joined into
+ * one "key: value" line so figures stay next to their labels.
+ */
+function extractJson(text: string): PageContent {
+  const root: unknown = JSON.parse(text);
+  const paragraphs: string[] = [];
+  let title = "";
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (typeof value === "string") {
+      if (value.length >= MIN_JSON_PROSE_LENGTH) paragraphs.push(value.replace(/\s+/g, " ").trim());
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    const fields: string[] = [];
+    for (const [key, v] of Object.entries(value)) {
+      if (typeof v === "string" && v.length >= MIN_JSON_PROSE_LENGTH) {
+        paragraphs.push(v.replace(/\s+/g, " ").trim());
+      } else if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") {
+        if (!title && /^(title|headline|name)$/i.test(key) && typeof v === "string") title = v;
+        fields.push(`${humanizeKey(key)}: ${v}`);
+      } else {
+        visit(v);
+      }
+    }
+    if (fields.length > 0) paragraphs.push(`${fields.join(", ")}.`);
+  };
+
+  visit(root);
+
+  return {
+    format: "json",
+    title,
+    paragraphs: paragraphs.filter((p) => p.length >= MIN_PARAGRAPH_LENGTH),
+  };
+}
+
+function humanizeKey(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .toLowerCase();
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────
+
+/**
+ * Turn each CSV row into a sentence of "header: value" pairs, using the
+ * first row as the header.
+ */
+function extractCsv(text: string): PageContent {
+  const rows = parseCsv(text);
+  const [header, ...data] = rows;
+  if (!header) return { format: "csv", title: "", paragraphs: [] };
+
+  const paragraphs = data.slice(0, MAX_CSV_ROWS).flatMap((row) => {
+    const fields = row
+      .map((value, i) => [humanizeKey(header[i]?.trim() || `column ${i + 1}`), value.trim()] as const)
+      .filter(([, value]) => value.length > 0)
+      .map(([name, value]) => `${name}: ${value}`);
+    const line = fields.length > 0 ? `${fields.join(", ")}.` : "";
+    return line.length >= MIN_PARAGRAPH_LENGTH ? [line] : [];
+  });
+
+  return { format: "csv", title: "", paragraphs };
+}
+
+/** RFC 4180 parser: quoted fields, escaped quotes and embedded newlines. */
+function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f.length > 0)) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  row.push(field);
+  if (row.some((f) => f.length > 0)) rows.push(row);
+  return rows;
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function decode(body: Uint8Array): string {
+  return new TextDecoder().decode(body);
+}
+
+/** Cap total paragraph text like extractMainContent, keeping page numbers aligned. */
+function capContent(content: PageContent, maxLength: number): PageContent {
+  const paragraphs: string[] = [];
+  const pages: number[] = [];
+  let total = 0;
+
+  content.paragraphs.forEach((p, i) => {
+    if (total > maxLength) return;
+    if (total + p.length > maxLength) {
+      // Always return something, even if the first paragraph is too long
+      if (paragraphs.length === 0) {
+        paragraphs.push(p.slice(0, maxLength));
+        if (content.paragraphPages) pages.push(content.paragraphPages[i]);
+      }
+      total = maxLength + 1;
+      return;
+    }
+    paragraphs.push(p);
+    if (content.paragraphPages) pages.push(content.paragraphPages[i]);
+    total += p.length;
+  });
+
+  return content.paragraphPages
+    ? { ...content, paragraphs, paragraphPages: pages }
+    : { ...content, paragraphs };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { extractEntities, extractKeywords, keyTerms, mentionsTerm } from "./entity-extractor";
+import type { SearchResult } from "./web-search";
+
+const results: SearchResult[] = [
+  {
+    title: "A",
+    url: "https://a.example/",
+    snippet:
+      "Chancellor Olaf Scholz said Germany will subsidize heat pumps. Scholz spoke in Berlin. Solar panels and heat pumps cut bills.",
+    provider: "test",
+  },
+  {
+    title: "B",
+    url: "https://b.example/",
+    snippet:
+      "Siemens Energy expects heat pumps to replace gas boilers in Germany. Olaf Scholz backed the plan. Heat pumps need electricity.",
+    provider: "test",
+  },
+];
+
+describe("extractEntities", () => {
+  it("keeps named things seen twice, counting surname-only mentions towards the full name", () => {
+    const entities = extractEntities(results, new Map());
+    expect(entities.find((e) => e.name === "Olaf Scholz")).toEqual({
+      name: "Olaf Scholz",
+      type: "person",
+      mentions: 3,
+      sourceCount: 2,
+    });
+    expect(entities.find((e) => e.name === "Germany")).toMatchObject({ type: "place", sourceCount: 2 });
+    expect(entities.some((e) => e.name === "Scholz")).toBe(false);
+    // One-off capitalized sentence openers are not entities
+    expect(entities.some((e) => e.name === "Solar")).toBe(false);
+  });
+});
+
+describe("extractKeywords", () => {
+  it("ranks repeated phrases and leaves out words mostly used inside them", () => {
+    const keywords = extractKeywords(results, new Map());
+    expect(keywords[0]).toMatchObject({ phrase: "heat pumps", score: 1, sourceCount: 2 });
+    expect(keywords.some((k) => k.phrase === "heat")).toBe(false);
+  });
+});
+
+describe("keyTerms", () => {
+  it("lists entities first and skips keywords repeating an entity name", () => {
+    expect(
+      keyTerms(
+        [{ name: "Siemens Energy", type: "organization", mentions: 2, sourceCount: 1 }],
+        [
+          { phrase: "energy", score: 1, sourceCount: 2 },
+          { phrase: "heat pumps", score: 0.8, sourceCount: 2 },
+        ]
+      )
+    ).toEqual(["Siemens Energy", "heat pumps"]);
+  });
+});
+
+describe("mentionsTerm", () => {
+  it("matches whole words, ignoring case and a plural", () => {
+    expect(mentionsTerm("Two Heat Pumps were fitted.", "heat pump")).toBe(true);
+    expect(mentionsTerm("Heat pumping stations", "heat pump")).toBe(false);
+  });
+});
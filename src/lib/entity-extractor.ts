@@ -0,0 +1,353 @@
+import { EntityType, ResearchEntity, ResearchKeyword } from "@/agents/types";
+import { stem } from "./claims";
+import { splitSentences } from "./sentence-segmenter";
+import type { PageContent, SearchResult } from "./web-search";
+
+// ── Entities & keywords ──────────────────────────────────────────────────
+// Rule-based named-entity recognition and keyphrase extraction over search
+// snippets and fetched page text. Entities are runs of capitalized words,
+// typed by their shape (acronyms, "Inc", version numbers), a small
+// gazetteer of places and the words around them ("Dr.", "said", "in").
+// Keywords are RAKE-style phrases: runs of content words between stopwords,
+// ranked by frequency and by how many sources use them.
+
+const MAX_ENTITIES = 20;
+const MAX_KEYWORDS = 15;
+
+/** Paragraphs read per page; entities and key terms show up early */
+const MAX_PARAGRAPHS_PER_PAGE = 60;
+
+/** A phrase is dropped when this share of its uses is inside longer key phrases */
+const SUBSUMED_RATIO = 0.6;
+
+/** Capitalized words that start sentences or clauses rather than names */
+const LEADING_WORDS = new Set([
+  "The", "A", "An", "In", "On", "At", "For", "But", "And", "Or", "This", "That", "These",
+  "Those", "However", "According", "While", "When", "After", "Before", "As", "If", "Its",
+  "Their", "Our", "It", "We", "They", "He", "She", "Since", "Despite", "During", "With",
+  "By", "From", "To", "Under", "Over", "Unlike", "Meanwhile", "Also", "Many", "Most",
+  "Some", "Other", "Each", "Every", "Both", "All", "Such", "There", "Here", "What", "Why",
+  "How", "Where", "Who", "Which", "Although", "Though", "Yet", "So", "Then", "Today",
+  "Now", "Last", "Next", "Still", "Even", "More", "Overall", "Instead", "Because", "Once",
+  "I", "You", "My", "Your", "His", "Her", "Further", "Furthermore", "Moreover", "Thus",
+]);
+
+const CALENDAR_WORDS = new Set([
+  "January", "February", "March", "April", "May", "June", "July", "August", "September",
+  "October", "November", "December", "Monday", "Tuesday", "Wednesday", "Thursday",
+  "Friday", "Saturday", "Sunday",
+]);
+
+/** Titles before a name mark a person: "President Jane Doe" */
+const PERSON_TITLES = new Set([
+  "President", "Minister", "Senator", "Governor", "Chairman", "Chairwoman", "Chair",
+  "Director", "Professor", "Secretary", "Chancellor", "King", "Queen", "Pope", "Judge",
+  "Mayor", "CEO", "Founder", "Dr", "Mr", "Mrs", "Ms", "Prof", "Sen", "Rep", "Gov",
+]);
+
+const ORGANIZATION_SUFFIXES = new Set([
+  "Inc", "Corp", "Corporation", "Ltd", "LLC", "PLC", "GmbH", "AG", "SA", "Co", "Company",
+  "Group", "Holdings", "Agency", "Institute", "University", "College", "Association",
+  "Foundation", "Council", "Commission", "Ministry", "Department", "Bank", "Organization",
+  "Organisation", "Authority", "Office", "Party", "Committee", "Federation", "Union",
+  "Society", "Center", "Centre", "Laboratory", "Labs", "Network", "Fund", "Board",
+  "Administration", "Service", "Times", "Post", "News", "Journal",
+]);
+
+const ORGANIZATION_PREFIXES = new Set(["University", "Bank", "Department", "Ministry", "Institute", "Office"]);
+
+/** Named things that are neither people nor organizations: laws, treaties, events */
+const OTHER_SUFFIXES = new Set([
+  "Act", "Agreement", "Treaty", "Protocol", "Accord", "Law", "Prize", "Award", "Summit",
+  "Conference", "Report", "Index", "War", "Revolution", "Day",
+]);
+
+const PLACE_SUFFIXES = new Set([
+  "City", "County", "Province", "State", "Republic", "Kingdom", "Island", "Islands",
+  "River", "Mountains", "Valley", "Bay", "Sea", "Ocean", "Region", "Coast", "Peninsula",
+]);
+
+const PLACES = new Set([
+  "Africa", "Asia", "Europe", "North America", "South America", "Latin America", "Oceania",
+  "Antarctica", "Middle East", "Arctic", "Scandinavia", "Argentina", "Australia", "Austria",
+  "Bangladesh", "Belgium", "Brazil", "Canada", "Chile", "China", "Colombia", "Denmark",
+  "Egypt", "Ethiopia", "Finland", "France", "Germany", "Greece", "India", "Indonesia",
+  "Iran", "Iraq", "Ireland", "Israel", "Italy", "Japan", "Kenya", "Mexico", "Morocco",
+  "Netherlands", "New Zealand", "Nigeria", "Norway", "Pakistan", "Peru", "Philippines",
+  "Poland", "Portugal", "Russia", "Saudi Arabia", "Singapore", "South Africa",
+  "South Korea", "Korea", "Spain", "Sweden", "Switzerland", "Taiwan", "Thailand", "Turkey",
+  "Ukraine", "United Arab Emirates", "United Kingdom", "United States", "Vietnam",
+  "England", "Scotland", "Wales", "California", "Texas", "Florida", "New York", "London",
+  "Paris", "Berlin", "Tokyo", "Beijing", "Shanghai", "Delhi", "New Delhi", "Mumbai",
+  "Moscow", "Madrid", "Rome", "Brussels", "Amsterdam", "Washington", "Los Angeles",
+  "San Francisco", "Chicago", "Toronto", "Sydney", "Hong Kong", "Seoul", "Dubai",
+  "Silicon Valley", "US", "USA", "UK", "EU",
+]);
+
+/** Acronyms that are places or regions, not organizations */
+const PLACE_ACRONYMS = new Set(["US", "USA", "UK", "UAE"]);
+
+const SPEECH_AFTER = /^\s*(?:,\s*who\b|said\b|says\b|told\b|added\b|explained\b|wrote\b|argued\b)/;
+const CONNECTOR = /^(of|for|&|de|du|van|von|der|the)$/;
+const PLACE_BEFORE = /\b(?:in|from|across|throughout|near)\s+$/i;
+
+const STOPWORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and",
+  "any", "are", "around", "as", "at", "be", "because", "been", "before", "being", "below",
+  "between", "both", "but", "by", "can", "could", "did", "do", "does", "doing", "down",
+  "during", "each", "either", "even", "ever", "every", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how",
+  "however", "i", "if", "in", "into", "is", "it", "its", "itself", "just", "least", "less",
+  "like", "many", "may", "me", "might", "more", "most", "much", "must", "my", "near",
+  "new", "no", "nor", "not", "now", "of", "off", "often", "on", "once", "one", "only", "or",
+  "other", "our", "out", "over", "own", "per", "rather", "said", "same", "says", "several",
+  "she", "should", "since", "so", "some", "still", "such", "than", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "those", "though", "through", "thus",
+  "to", "too", "two", "under", "until", "up", "upon", "us", "use", "used", "using", "very",
+  "via", "was", "we", "well", "were", "what", "when", "where", "whether", "which", "while",
+  "who", "whom", "whose", "why", "will", "with", "within", "without", "would", "yet",
+  "you", "your", "according", "including", "among", "across", "already", "another",
+  "became", "become", "first", "get", "got", "make", "made", "next", "last", "year",
+  "years", "percent", "million", "billion", "thousand", "almost", "based", "way", "ways",
+  "whilst", "three", "four",
+]);
+
+interface Mention {
+  name: string;
+  sourceUrl: string;
+  atSentenceStart: boolean;
+  personCue: boolean;
+  placeCue: boolean;
+}
+
+/**
+ * Named entities in the snippets and fetched pages, most widely sourced first.
+ * An entity needs two mentions or two sources, so one-off capitalized words
+ * drop out; surname-only mentions count towards the full name.
+ */
+export function extractEntities(
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>
+): ResearchEntity[] {
+  const mentions = documentsOf(results, pageContents).flatMap(({ url, sentences }) =>
+    sentences.flatMap((sentence) => mentionsIn(sentence, url))
+  );
+
+  const byName = new Map<string, Mention[]>();
+  for (const m of mentions) {
+    byName.set(m.name, [...(byName.get(m.name) ?? []), m]);
+  }
+
+  const entities = [...byName].map(([name, group]) => ({ name, type: classify(name, group), group }));
+
+  // "Doe" after "Jane Doe" is the same person
+  for (const person of entities.filter((e) => e.type === "person")) {
+    const surname = person.name.split(" ").pop()!;
+    const alias = entities.find((e) => e.name === surname && e.type !== "place");
+    if (alias && alias !== person) {
+      person.group.push(...alias.group);
+      alias.group = [];
+    }
+  }
+
+  // Single words only ever seen opening a sentence are ordinary capitalized
+  // words ("Solar panels…"), unless they are known places
+  return entities
+    .filter(({ name, group }) => name.includes(" ") || PLACES.has(name) || group.some((m) => !m.atSentenceStart))
+    .map(({ name, type, group }) => ({
+      name,
+      type,
+      mentions: group.length,
+      sourceCount: new Set(group.map((m) => m.sourceUrl)).size,
+    }))
+    .filter((e) => e.mentions >= 2 || e.sourceCount >= 2)
+    .sort((a, b) => b.sourceCount - a.sourceCount || b.mentions - a.mentions)
+    .slice(0, MAX_ENTITIES);
+}
+
+/**
+ * Key phrases of one to three words, scored by frequency, spread across
+ * sources and length; a phrase mostly used inside a longer key phrase
+ * ("solar" in "solar panels") is left out. Scores are relative to the top
+ * phrase (1.0).
+ */
+export function extractKeywords(
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>
+): ResearchKeyword[] {
+  const stats = new Map<string, { forms: Map<string, number>; count: number; sources: Set<string>; words: number }>();
+
+  for (const { url, sentences } of documentsOf(results, pageContents)) {
+    for (const sentence of sentences) {
+      for (const phrase of candidatePhrases(sentence)) {
+        const key = phrase.split(" ").map(stem).join(" ");
+        const entry = stats.get(key) ?? { forms: new Map(), count: 0, sources: new Set(), words: phrase.split(" ").length };
+        entry.count++;
+        entry.sources.add(url);
+        entry.forms.set(phrase, (entry.forms.get(phrase) ?? 0) + 1);
+        stats.set(key, entry);
+      }
+    }
+  }
+
+  const ranked = [...stats]
+    .filter(([, s]) => s.count >= 2)
+    .map(([key, s]) => ({
+      key,
+      count: s.count,
+      phrase: [...s.forms].sort((a, b) => b[1] - a[1])[0][0],
+      sourceCount: s.sources.size,
+      score: s.count * (1 + Math.log2(s.sources.size)) * (1 + 0.4 * (s.words - 1)),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  // Count how often each phrase occurs inside the next-longer phrases
+  const words = (key: string) => key.split(" ").length;
+  const kept = ranked.filter((shorter) => {
+    const inside = ranked
+      .filter((longer) => words(longer.key) === words(shorter.key) + 1 && ` ${longer.key} `.includes(` ${shorter.key} `))
+      .reduce((sum, longer) => sum + longer.count, 0);
+    return inside < shorter.count * SUBSUMED_RATIO;
+  });
+
+  const top = kept[0]?.score ?? 1;
+  return kept.slice(0, MAX_KEYWORDS).map((k) => ({
+    phrase: k.phrase,
+    score: Math.round((k.score / top) * 100) / 100,
+    sourceCount: k.sourceCount,
+  }));
+}
+
+/**
+ * The terms an article on this research should mention: the top entities,
+ * then the top keywords that don't repeat an entity name.
+ */
+export function keyTerms(entities: ResearchEntity[], keywords: ResearchKeyword[], limit = 10): string[] {
+  const terms = entities.slice(0, Math.ceil(limit / 2)).map((e) => e.name);
+  for (const k of keywords) {
+    if (terms.length >= limit) break;
+    if (terms.some((t) => t.toLowerCase().includes(k.phrase) || k.phrase.includes(t.toLowerCase()))) continue;
+    terms.push(k.phrase);
+  }
+  return terms;
+}
+
+/** Whether `text` mentions `term` as whole words, ignoring case and a plural "s". */
+export function mentionsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?:e?s)?(?![\\p{L}\\p{N}])`, "iu").test(text);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** Snippet and page sentences per source URL. */
+function documentsOf(
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>
+): Array<{ url: string; sentences: string[] }> {
+  return results.map((r) => {
+    const page = pageContents.get(r.url);
+    const texts = [r.snippet, ...(page?.paragraphs.slice(0, MAX_PARAGRAPHS_PER_PAGE) ?? [])];
+    return {
+      url: r.url,
+      sentences: texts.flatMap((t) => splitSentences(t, page?.language)),
+    };
+  });
+}
+
+function mentionsIn(sentence: string, sourceUrl: string): Mention[] {
+  const mentions: Mention[] = [];
+  const span =
+    /(?:\p{Lu}[\p{L}\p{N}'’&-]*|\p{Ll}+\p{Lu}\p{L}*)(?:\s+(?:(?:of|for|&|de|du|van|von|der|the)\s+){0,2}(?:\p{Lu}[\p{L}\p{N}'’&-]*|\d+(?:\.\d+)?\b))*/gu;
+
+  for (const match of sentence.matchAll(span)) {
+    const start = match.index ?? 0;
+    const words = match[0].replace(/['’]s$/, "").split(/\s+/);
+    const before = sentence.slice(0, start);
+    let personCue = /\b(Dr|Mr|Mrs|Ms|Prof|Sen|Rep|Gov)\.\s*$/.test(before);
+    let leading = 0;
+
+    // Drop sentence-opening words and titles. A title before a name marks a
+    // person; before a connector it is a role ("CEO of SunCorp")
+    while (leading < words.length && (LEADING_WORDS.has(words[leading]) || PERSON_TITLES.has(words[leading]))) {
+      const title = PERSON_TITLES.has(words[leading]);
+      leading++;
+      if (title) personCue = !CONNECTOR.test(words[leading] ?? "");
+    }
+    while (leading < words.length && CONNECTOR.test(words[leading])) leading++;
+
+    const kept = words.slice(leading);
+    while (kept.length > 0 && (CONNECTOR.test(kept[kept.length - 1]) || /^\d/.test(kept[kept.length - 1]))) {
+      // "Windows 11" keeps its number; a trailing connector or bare year does not
+      if (/^\d/.test(kept[kept.length - 1]) && kept.length > 1 && !/^\d{4}$/.test(kept[kept.length - 1])) break;
+      kept.pop();
+    }
+
+    const name = kept.join(" ");
+    if (!name || !/^\p{L}/u.test(name) || CALENDAR_WORDS.has(name) || name.length < 2) continue;
+    if (kept.every((w) => CALENDAR_WORDS.has(w) || LEADING_WORDS.has(w))) continue;
+
+    const after = sentence.slice(start + match[0].length);
+    mentions.push({
+      name,
+      sourceUrl,
+      atSentenceStart: start === 0 && leading === 0,
+      personCue: personCue || SPEECH_AFTER.test(after),
+      // "In Bavaria": the preposition may have been part of the span
+      placeCue: PLACE_BEFORE.test(`${before}${words.slice(0, leading).join(" ")} `),
+    });
+  }
+
+  return mentions;
+}
+
+function classify(name: string, mentions: Mention[]): EntityType {
+  const words = name.split(" ");
+  const first = words[0];
+  const last = words[words.length - 1];
+
+  if (PLACES.has(name) || PLACE_ACRONYMS.has(name)) return "place";
+  if (ORGANIZATION_SUFFIXES.has(last.replace(/\.$/, "")) || (ORGANIZATION_PREFIXES.has(first) && words.length > 1)) {
+    return "organization";
+  }
+  // Version numbers and lower camel case: "GPT-4", "Windows 11", "iPhone"
+  if (/\d/.test(name) || /^\p{Ll}+\p{Lu}/u.test(name) || /[™®]/.test(name)) return "product";
+  if (/^\p{Lu}{2,6}$/u.test(name)) return "organization";
+  if (PLACE_SUFFIXES.has(last)) return "place";
+  if (OTHER_SUFFIXES.has(last)) return "other";
+
+  const personCues = mentions.filter((m) => m.personCue).length;
+  const placeCues = mentions.filter((m) => m.placeCue).length;
+  if (personCues > 0 && personCues >= placeCues) return "person";
+  if (placeCues >= 2 && placeCues * 2 >= mentions.length) return "place";
+
+  // Two or three plain capitalized words with no other signal read as a name
+  if (words.length >= 2 && words.length <= 3 && words.every((w) => /^\p{Lu}\p{Ll}+$/u.test(w))) {
+    return "person";
+  }
+  return "other";
+}
+
+/** Runs of one to three content words between stopwords and punctuation. */
+function candidatePhrases(sentence: string): string[] {
+  const phrases: string[] = [];
+
+  for (const chunk of sentence.toLowerCase().split(/[^\p{L}\p{N}\s'’-]+/u)) {
+    let run: string[] = [];
+    const flush = () => {
+      for (let n = 1; n <= 3; n++) {
+        for (let i = 0; i + n <= run.length; i++) phrases.push(run.slice(i, i + n).join(" "));
+      }
+      run = [];
+    };
+
+    for (const token of chunk.split(/\s+/)) {
+      const word = token.replace(/^['’-]+|['’-]+$/g, "").replace(/['’]s$/, "");
+      if (word.length < 3 || STOPWORDS.has(word) || /\d/.test(word)) flush();
+      else run.push(word);
+    }
+    flush();
+  }
+
+  return phrases;
+}
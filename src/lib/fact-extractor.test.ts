@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { extractFacts, parseScoringWeights } from "./fact-extractor";
+import type { SearchResult } from "./web-search";
+
+function result(url: string, snippet: string): SearchResult {
+  return { title: new URL(url).hostname, url, snippet, provider: "test" };
+}
+
+describe("extractFacts clustering", () => {
+  it("merges the same claim from different domains into one corroborated fact", () => {
+    const facts = extractFacts(
+      [
+        result("https://a.example.org/report", "Germany installed 356,000 heat pumps in 2023, a record year."),
+        result("https://b.example.com/news", "In 2023 Germany installed 356,000 heat pumps, a record."),
+        result("https://c.example.net/blog", "Gas boilers still heat most homes across the country today."),
+      ],
+      new Map(),
+      10
+    );
+
+    const heatPumps = facts.find((f) => f.fact.includes("356,000"));
+    expect(heatPumps?.supportingSources?.map((s) => s.url).sort()).toEqual([
+      "https://a.example.org/report",
+      "https://b.example.com/news",
+    ]);
+    expect(heatPumps?.confidence).toBe(0.75);
+    expect(facts[0]).toBe(heatPumps);
+
+    const boilers = facts.find((f) => f.fact.includes("boilers"));
+    expect(boilers?.supportingSources).toHaveLength(1);
+    expect(boilers?.confidence).toBe(0.5);
+  });
+
+  it("counts pages on one domain as a single source", () => {
+    const [fact] = extractFacts(
+      [
+        result("https://www.example.org/a", "Germany installed 356,000 heat pumps in 2023, a record year."),
+        result("https://news.example.org/b", "Germany installed 356,000 heat pumps in 2023, a record year."),
+      ],
+      new Map(),
+      10
+    );
+    expect(fact.supportingSources).toHaveLength(2);
+    expect(fact.confidence).toBe(0.5);
+  });
+
+  it("keeps claims worded alike but citing different figures apart", () => {
+    const facts = extractFacts(
+      [
+        result("https://a.example.org/", "Germany installed 356,000 heat pumps last year, a new record."),
+        result("https://b.example.com/", "Germany installed 236,000 heat pumps last year, a new record."),
+      ],
+      new Map(),
+      10
+    );
+    expect(facts).toHaveLength(2);
+  });
+});
+
+describe("extractFacts ranking", () => {
+  const results = [
+    result("https://a.example.org/", "Gas prices rose by 12% across Europe during the winter of 2022."),
+    result("https://b.example.com/", "A heat pump moves heat from outside air into the home using electricity."),
+  ];
+
+  it("ranks an on-topic sentence above an off-topic statistic", () => {
+    const facts = extractFacts(results, new Map(), 10, { topic: "heat pumps" });
+    expect(facts[0].sourceUrl).toBe("https://b.example.com/");
+    expect(facts[0].scoreBreakdown?.relevance).toBe(10);
+    expect(facts[1].scoreBreakdown?.relevance).toBe(0);
+  });
+
+  it("applies weight overrides", () => {
+    const facts = extractFacts(results, new Map(), 10, { topic: "heat pumps", weights: { relevance: 1 } });
+    expect(facts[0].sourceUrl).toBe("https://a.example.org/");
+    expect(facts[1].scoreBreakdown?.relevance).toBe(1);
+  });
+
+  it("scales positive scores by source weight", () => {
+    const facts = extractFacts(results, new Map(), 10, {
+      topic: "heat pumps",
+      sourceWeights: new Map([["https://b.example.com/", 0.1]]),
+    });
+    expect(facts[0].sourceUrl).toBe("https://a.example.org/");
+    expect(facts[1].scoreBreakdown?.sourceWeight).toBe(0.1);
+  });
+});
+
+describe("parseScoringWeights", () => {
+  it("accepts known non-negative weights and rejects anything else", () => {
+    expect(parseScoringWeights({ relevance: 4, year: 0 })).toEqual({ weights: { relevance: 4, year: 0 } });
+    expect(parseScoringWeights({ freshness: 1 })).toHaveProperty("error");
+    expect(parseScoringWeights({ relevance: -1 })).toHaveProperty("error");
+    expect(parseScoringWeights([1])).toHaveProperty("error");
+  });
+});
@@ -1,128 +1,329 @@
-import { SearchResult } from "./web-search";
-import { ResearchFact } from "@/agents/types";
+import { PageContent, SearchResult } from "./web-search";
+import { FactScoreBreakdown, FactScoringWeights, FactSource, ResearchFact } from "@/agents/types";
+import { ClaimTerms, claimTerms, contentWords, isEquivalent } from "./claims";
+import { parseFigures } from "./statistics-extractor";
+import { splitSentences } from "./sentence-segmenter";
+
+/** Page sentences considered per source; paginated documents get a deeper look */
+const PAGE_SENTENCE_LIMIT = 20;
+const DOCUMENT_SENTENCE_LIMIT = 200;
+
+/**
+ * Relevance outweighs any one heuristic, so an on-topic definition beats an
+ * off-topic sentence that merely contains numbers.
+ */
+export const DEFAULT_SCORING_WEIGHTS: FactScoringWeights = {
+  relevance: 10,
+  statistic: 7,
+  length: 3,
+  attribution: 3,
+  year: 2,
+  corroboration: 3,
+  question: 5,
+  promotional: 10,
+  boilerplate: 10,
+};
+
+// BM25 tuning constants (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Expanded query terms count for less than the topic's own words */
+const EXPANSION_TERM_WEIGHT = 0.5;
+
+export interface FactExtractionOptions {
+  /** Research topic; sentences are ranked by BM25 relevance to it */
+  topic?: string;
+  /** Related terms (e.g. recurring keyphrases) that also count towards relevance */
+  expansionTerms?: string[];
+  /** Credibility multiplier by URL; unlisted sources weigh 1 */
+  sourceWeights?: Map<string, number>;
+  /** Overrides for individual signal weights */
+  weights?: Partial<FactScoringWeights>;
+  /** Sources read in full (user-supplied), not just their opening sentences */
+  fullTextUrls?: Set<string>;
+}
+
+interface Candidate {
+  sentence: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  page?: number;
+  score: number;
+  breakdown: Omit<FactScoreBreakdown, "corroboration" | "total">;
+}
+
+interface FactCluster {
+  /** Highest-scoring phrasing of the claim */
+  representative: Candidate;
+  terms: ClaimTerms;
+  members: Candidate[];
+}
 
 /**
  * Extract distinct factual statements from search result snippets
- * and optionally from fetched page content.
+ * and optionally from fetched page content. Page sentences are split per
+ * paragraph so they never run across block boundaries, and facts from
+ * paginated documents (PDFs) keep the page they came from.
  *
- * Applies heuristics to pick the most informative, non-duplicate sentences.
+ * Each sentence is scored on weighted signals: BM25 relevance to the topic
+ * and expansion terms, computed over the whole candidate pool, plus
+ * heuristics for how informative it looks. Equivalent sentences across
+ * sources are then clustered into one claim. Each fact keeps its strongest
+ * phrasing, lists every supporting source, and gets a confidence from the
+ * number of independent domains stating it; claims corroborated by more
+ * domains rank higher. `sourceWeights` scales each source's positive
+ * scores, so credible sources win ties against content farms.
  */
 export function extractFacts(
   results: SearchResult[],
-  pageTexts: Map<string, string>,
-  targetCount: number
+  pageContents: Map<string, PageContent>,
+  targetCount: number,
+  options: FactExtractionOptions = {}
 ): ResearchFact[] {
-  const candidates: Array<{
-    sentence: string;
-    sourceUrl: string;
-    sourceTitle: string;
-    score: number;
-  }> = [];
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, ...options.weights };
+  const sourceWeights = options.sourceWeights ?? new Map<string, number>();
+  const pool: Array<Pick<Candidate, "sentence" | "sourceUrl" | "sourceTitle" | "page">> = [];
 
   for (const result of results) {
     // Sentences from snippet
-    const snippetSentences = splitSentences(result.snippet);
-    for (const s of snippetSentences) {
-      candidates.push({
-        sentence: s,
-        sourceUrl: result.url,
-        sourceTitle: result.title,
-        score: scoreSentence(s),
-      });
+    for (const s of candidateSentences(result.snippet)) {
+      pool.push({ sentence: s, sourceUrl: result.url, sourceTitle: result.title });
     }
 
-    // Sentences from fetched page content (boosted slightly less to avoid noise)
-    const pageText = pageTexts.get(result.url);
-    if (pageText) {
-      const pageSentences = splitSentences(pageText).slice(0, 20); // limit to first 20
-      for (const s of pageSentences) {
-        candidates.push({
-          sentence: s,
-          sourceUrl: result.url,
-          sourceTitle: result.title,
-          score: scoreSentence(s) * 0.8,
-        });
+    // Sentences from fetched page content
+    const page = pageContents.get(result.url);
+    if (page) {
+      const limit =
+        page.paragraphPages || options.fullTextUrls?.has(result.url)
+          ? DOCUMENT_SENTENCE_LIMIT
+          : PAGE_SENTENCE_LIMIT;
+      const pageSentences = page.paragraphs
+        .flatMap((p, i) =>
+          candidateSentences(p, page.language).map((s) => ({ s, page: page.paragraphPages?.[i] }))
+        )
+        .slice(0, limit);
+      for (const { s, page: pageNumber } of pageSentences) {
+        pool.push({ sentence: s, sourceUrl: result.url, sourceTitle: result.title, page: pageNumber });
       }
     }
   }
 
-  // Sort by score descending, then deduplicate
+  const relevance = relevanceScores(
+    pool.map((c) => c.sentence),
+    options.topic ?? "",
+    options.expansionTerms ?? []
+  );
+
+  const candidates: Candidate[] = pool.map((c, i) => {
+    const signals = scoreSentence(c.sentence, relevance[i], weights);
+    const sourceWeight = sourceWeights.get(c.sourceUrl) ?? 1;
+    const positive = signals.relevance + signals.statistic + signals.length + signals.attribution + signals.year;
+    const score = positive + signals.penalties;
+    return {
+      ...c,
+      // Penalties stay penalties: only positive scores are scaled
+      score: score > 0 ? score * sourceWeight : score,
+      breakdown: { ...signals, sourceWeight },
+    };
+  });
+
+  // Sort by score descending so each cluster is founded by its best phrasing
   candidates.sort((a, b) => b.score - a.score);
 
-  const facts: ResearchFact[] = [];
-  const seen = new Set<string>();
+  const clusters: FactCluster[] = [];
 
   for (const c of candidates) {
-    if (facts.length >= targetCount) break;
-
-    const normalized = c.sentence.toLowerCase().replace(/\s+/g, " ").trim();
-    // Skip very short sentences or ones too similar to already-selected facts
-    if (normalized.length < 30) continue;
-    if (isDuplicate(normalized, seen)) continue;
-
-    seen.add(normalized);
-    facts.push({
-      fact: c.sentence,
-      sourceUrl: c.sourceUrl,
-      sourceTitle: c.sourceTitle,
+    // Skip very short sentences
+    if (c.sentence.replace(/\s+/g, " ").trim().length < 30) continue;
+
+    const terms = claimTerms(c.sentence);
+    if (terms.words.size === 0) continue;
+
+    const match = clusters.find((cluster) => isEquivalent(terms, cluster.terms));
+    if (match) match.members.push(c);
+    else clusters.push({ representative: c, terms, members: [c] });
+  }
+
+  return clusters
+    .map((cluster) => {
+      const domains = new Set(cluster.members.map((m) => sourceDomain(m.sourceUrl))).size;
+      const corroboration = weights.corroboration * (domains - 1);
+      return {
+        cluster,
+        domains,
+        corroboration,
+        rank: cluster.representative.score + corroboration,
+      };
+    })
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, targetCount)
+    .map(({ cluster, domains, corroboration, rank }) => {
+      const { representative: best } = cluster;
+      return {
+        fact: best.sentence,
+        sourceUrl: best.sourceUrl,
+        sourceTitle: best.sourceTitle,
+        page: best.page,
+        supportingSources: supportingSources(cluster.members),
+        confidence: Math.round((1 - 0.5 ** domains) * 100) / 100,
+        scoreBreakdown: roundBreakdown({ ...best.breakdown, corroboration, total: rank }),
+      };
     });
+}
+
+/**
+ * Validate user-supplied weight overrides: an object of known signal names
+ * mapped to non-negative numbers.
+ */
+export function parseScoringWeights(
+  input: unknown
+): { weights: Partial<FactScoringWeights> } | { error: string } {
+  const names = Object.keys(DEFAULT_SCORING_WEIGHTS);
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: `Invalid scoringWeights. Use an object with any of: ${names.join(", ")}` };
   }
 
-  return facts;
+  const weights: Partial<FactScoringWeights> = {};
+  for (const [name, value] of Object.entries(input)) {
+    if (!names.includes(name)) {
+      return { error: `Unknown scoring weight "${name}". Must be one of: ${names.join(", ")}` };
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return { error: `Scoring weight "${name}" must be a non-negative number` };
+    }
+    weights[name as keyof FactScoringWeights] = value;
+  }
+  return { weights };
 }
 
-function splitSentences(text: string): string[] {
-  return text
-    .split(/(?<=[.!?])\s+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 15);
+/** One entry per URL, best-scoring first (members are already sorted). */
+function supportingSources(members: Candidate[]): FactSource[] {
+  const byUrl = new Map<string, FactSource>();
+  for (const m of members) {
+    if (!byUrl.has(m.sourceUrl)) {
+      byUrl.set(m.sourceUrl, { url: m.sourceUrl, title: m.sourceTitle, page: m.page });
+    }
+  }
+  return [...byUrl.values()];
 }
 
 /**
- * Score a sentence based on how "factual" and informative it appears.
- * Higher is better.
+ * Registrable domain, approximated as the last two labels (three for
+ * "co.uk"-style country suffixes). Local files and uploads each count as their own source.
  */
-function scoreSentence(sentence: string): number {
-  let score = 0;
+function sourceDomain(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === "file:" || parsed.protocol === "upload:") return url;
+    const labels = parsed.hostname.toLowerCase().split(".");
+    const countrySecondLevel =
+      labels.length > 2 && labels.at(-1)!.length === 2 && labels.at(-2)!.length <= 3;
+    return labels.slice(countrySecondLevel ? -3 : -2).join(".");
+  } catch {
+    return url;
+  }
+}
 
-  // Length bonus (prefer medium-length sentences)
-  if (sentence.length > 40 && sentence.length < 300) score += 3;
-  else if (sentence.length >= 300) score += 1;
+function candidateSentences(text: string, language?: string): string[] {
+  return splitSentences(text, language).filter((s) => s.length > 15);
+}
 
-  // Contains numbers (dates, stats, percentages)
-  if (/\d/.test(sentence)) score += 4;
+function roundBreakdown(breakdown: FactScoreBreakdown): FactScoreBreakdown {
+  const rounded = { ...breakdown };
+  for (const key of Object.keys(rounded) as Array<keyof FactScoreBreakdown>) {
+    rounded[key] = Math.round(rounded[key] * 100) / 100;
+  }
+  return rounded;
+}
 
-  // Contains percentage or dollar sign
-  if (/%|\$/.test(sentence)) score += 3;
+// ── Scoring ──────────────────────────────────────────────────────────────
 
-  // Contains specific factual indicators
-  if (/according to|study|report|research|found that|data shows/i.test(sentence))
-    score += 3;
+/**
+ * Weighted signals for how "factual" and informative a sentence appears.
+ * `relevance` is the sentence's 0–1 topical relevance.
+ */
+function scoreSentence(
+  sentence: string,
+  relevance: number,
+  weights: FactScoringWeights
+): Omit<FactScoreBreakdown, "sourceWeight" | "corroboration" | "total"> {
+  // Prefer medium-length sentences
+  const length = sentence.length > 40 && sentence.length < 300 ? 1 : sentence.length >= 300 ? 1 / 3 : 0;
 
-  // Contains a year (2000+)
-  if (/20[0-2]\d/.test(sentence)) score += 2;
+  // A statistic (percentage, amount, measured or counted quantity) counts
+  // fully; other numbers such as dates or rankings count for less
+  const statistic = parseFigures(sentence).length > 0 ? 1 : /\d/.test(sentence) ? 4 / 7 : 0;
 
-  // Penalty for questions
-  if (sentence.endsWith("?")) score -= 5;
+  // Specific factual indicators
+  const attribution = /according to|study|report|research|found that|data shows/i.test(sentence) ? 1 : 0;
 
-  // Penalty for vague or promotional language
-  if (/click here|sign up|subscribe|buy now|best ever/i.test(sentence))
-    score -= 10;
+  // A year (2000+)
+  const year = /20[0-2]\d/.test(sentence) ? 1 : 0;
 
-  // Penalty for cookie/privacy notices
-  if (/cookie|privacy policy|consent/i.test(sentence)) score -= 10;
+  let penalties = 0;
+  // Questions
+  if (sentence.endsWith("?")) penalties -= weights.question;
+  // Vague or promotional language
+  if (/click here|sign up|subscribe|buy now|best ever/i.test(sentence)) penalties -= weights.promotional;
+  // Cookie/privacy notices
+  if (/cookie|privacy policy|consent/i.test(sentence)) penalties -= weights.boilerplate;
 
-  return score;
+  return {
+    relevance: relevance * weights.relevance,
+    statistic: statistic * weights.statistic,
+    length: length * weights.length,
+    attribution: attribution * weights.attribution,
+    year: year * weights.year,
+    penalties,
+  };
 }
 
-function isDuplicate(normalized: string, seen: Set<string>): boolean {
-  for (const existing of seen) {
-    // Simple overlap check: if >60% of words overlap, consider duplicate
-    const wordsA = new Set(normalized.split(/\s+/));
-    const wordsB = new Set(existing.split(/\s+/));
-    const intersection = [...wordsA].filter((w) => wordsB.has(w));
-    const overlap = intersection.length / Math.min(wordsA.size, wordsB.size);
-    if (overlap > 0.6) return true;
+/**
+ * BM25 relevance of each sentence to the topic, with every sentence in the
+ * pool as a document, scaled so the most relevant sentence scores 1. Topic
+ * words count fully and expansion terms at EXPANSION_TERM_WEIGHT. Without
+ * query terms every sentence scores 0.
+ */
+function relevanceScores(sentences: string[], topic: string, expansionTerms: string[]): number[] {
+  const queryWeights = new Map<string, number>();
+  for (const word of contentWords(topic)) queryWeights.set(word, 1);
+  for (const term of expansionTerms) {
+    for (const word of contentWords(term)) {
+      if (!queryWeights.has(word)) queryWeights.set(word, EXPANSION_TERM_WEIGHT);
+    }
+  }
+  if (queryWeights.size === 0 || sentences.length === 0) return sentences.map(() => 0);
+
+  const docs = sentences.map((s) => termFrequencies(s));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const docFreqs = new Map<string, number>();
+  for (const { freqs } of docs) {
+    for (const term of freqs.keys()) {
+      if (queryWeights.has(term)) docFreqs.set(term, (docFreqs.get(term) ?? 0) + 1);
+    }
   }
-  return false;
+
+  const scores = docs.map(({ freqs, length }) => {
+    let score = 0;
+    for (const [term, weight] of queryWeights) {
+      const tf = freqs.get(term);
+      if (!tf) continue;
+      const df = docFreqs.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      const norm = 1 - BM25_B + BM25_B * (length / avgLength);
+      score += weight * idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm));
+    }
+    return score;
+  });
+
+  const best = Math.max(...scores);
+  return best > 0 ? scores.map((s) => s / best) : scores;
+}
+
+function termFrequencies(sentence: string): { freqs: Map<string, number>; length: number } {
+  const words = contentWords(sentence);
+  const freqs = new Map<string, number>();
+  for (const word of words) freqs.set(word, (freqs.get(word) ?? 0) + 1);
+  return { freqs, length: words.length };
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { HostLimiter, sleep } from "./host-limiter";
+
+describe("HostLimiter", () => {
+  it("caps concurrent requests per host", async () => {
+    const limiter = new HostLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 5 }, async () => {
+        const release = await limiter.acquire("example.org", 0);
+        peak = Math.max(peak, ++active);
+        await sleep(5);
+        active--;
+        release();
+      })
+    );
+    expect(peak).toBe(2);
+  });
+
+  it("spaces request starts on a host by the delay, but not across hosts", async () => {
+    const limiter = new HostLimiter(5);
+    const starts: Array<[string, number]> = [];
+    const begin = Date.now();
+
+    await Promise.all(
+      ["a.org", "a.org", "a.org", "b.org"].map(async (host) => {
+        const release = await limiter.acquire(host, 40);
+        starts.push([host, Date.now() - begin]);
+        release();
+      })
+    );
+
+    const aStarts = starts.filter(([host]) => host === "a.org").map(([, at]) => at);
+    expect(aStarts[2] - aStarts[0]).toBeGreaterThanOrEqual(75);
+    expect(starts.find(([host]) => host === "b.org")![1]).toBeLessThan(40);
+  });
+});
@@ -0,0 +1,55 @@
+// ── Per-host rate limiting ───────────────────────────────────────────────
+// Caps concurrent requests per host and spaces request starts by a minimum
+// delay. State is module-level so limits hold across concurrent API requests
+// served by the same process.
+
+interface HostState {
+  active: number;
+  nextStart: number;
+  waiters: Array<() => void>;
+}
+
+export class HostLimiter {
+  private hosts: Map<string, HostState> = new Map();
+  private maxConcurrent: number;
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * Wait for a free slot on `host` and for its delay window, then return
+   * a release function that must be called once the request finishes.
+   */
+  async acquire(host: string, minDelayMs: number): Promise<() => void> {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStart: 0, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    const s = state;
+
+    while (s.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => s.waiters.push(resolve));
+    }
+    s.active++;
+
+    // Reserve the next start slot before sleeping so waiters queue up in order
+    const now = Date.now();
+    const startAt = Math.max(now, s.nextStart);
+    s.nextStart = startAt + minDelayMs;
+    if (startAt > now) await sleep(startAt - now);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      s.active--;
+      s.waiters.shift()?.();
+    };
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
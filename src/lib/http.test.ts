@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isValidCassetteName } from "./cassette";
+import { createFetchReport, HttpClient } from "./http";
+
+// No spacing between requests to one host, so the tests run at full speed
+vi.stubEnv("CRAWL_HOST_DELAY_MS", "0");
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "cassettes-"));
+  vi.stubEnv("HTTP_CASSETTE_DIR", dir);
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("HttpClient record/replay", () => {
+  it("records responses with credentials redacted and replays them offline", async () => {
+    let call = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(`result ${++call}`, { headers: { "content-type": "text/plain" } }))
+    );
+
+    const recorder = new HttpClient({ mode: "record", cassette: "search" });
+    const url = "https://api.example.org/search?q=heat+pumps&key=secret-123";
+    expect(await (await recorder.fetch(url)).text()).toBe("result 1");
+    expect(await (await recorder.fetch(url)).text()).toBe("result 2");
+
+    const file = await readFile(path.join(dir, "search.json"), "utf8");
+    expect(file).not.toContain("secret-123");
+    expect(file).toContain("key=REDACTED");
+
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new Error("offline"))));
+    const player = new HttpClient({ mode: "replay", cassette: "search" });
+    // Another key replays the same recording; identical requests replay in order
+    const replayed = "https://api.example.org/search?q=heat+pumps&key=other-key";
+    expect(await (await player.fetch(replayed)).text()).toBe("result 1");
+    expect(await (await player.fetch(replayed)).text()).toBe("result 2");
+    await expect(player.fetch("https://api.example.org/search?q=gas+boilers")).rejects.toThrow(
+      /no recorded response/
+    );
+  });
+
+  it("round-trips binary bodies", async () => {
+    const bytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(bytes, { headers: { "content-type": "application/pdf" } }))
+    );
+    await new HttpClient({ mode: "record", cassette: "pdf" }).fetch("https://example.org/report.pdf");
+
+    const replayed = await new HttpClient({ mode: "replay", cassette: "pdf" }).fetch("https://example.org/report.pdf");
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes);
+    expect(replayed.headers.get("content-type")).toBe("application/pdf");
+  });
+});
+
+describe("crawl policy", () => {
+  it("retries 429 and 5xx responses and reports the retries", async () => {
+    const statuses = [503, 429, 200];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("body", { status: statuses.shift(), headers: { "retry-after": "0" } }))
+    );
+    const report = createFetchReport();
+
+    const response = await new HttpClient().withReport(report).fetch("https://example.org/page");
+    expect(response.status).toBe(200);
+    expect(report.retried).toEqual([{ url: "https://example.org/page", attempts: 3, lastStatus: 200 }]);
+  });
+
+  it("returns the response when Retry-After asks for too long a wait", async () => {
+    const fetch = vi.fn(async () => new Response("busy", { status: 429, headers: { "retry-after": "3600" } }));
+    vi.stubGlobal("fetch", fetch);
+
+    expect((await new HttpClient().fetch("https://example.org/busy")).status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips pages robots.txt disallows and reports them", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.endsWith("/robots.txt")
+          ? new Response("User-agent: *\nDisallow: /private/\n", { headers: { "content-type": "text/plain" } })
+          : new Response("page", { headers: { "content-type": "text/html" } })
+      )
+    );
+    const report = createFetchReport();
+    const client = new HttpClient().withReport(report);
+
+    await expect(
+      client.fetch("https://robots.example.org/private/a", {}, { respectRobots: true })
+    ).rejects.toThrow(/robots\.txt/);
+    expect(await (await client.fetch("https://robots.example.org/public", {}, { respectRobots: true })).text()).toBe(
+      "page"
+    );
+    expect(report.skippedByRobots).toEqual(["https://robots.example.org/private/a"]);
+  });
+});
+
+describe("isValidCassetteName", () => {
+  it("accepts file stems and rejects paths", () => {
+    expect(isValidCassetteName("heat-pumps_2024.v1")).toBe(true);
+    expect(isValidCassetteName("../etc/passwd")).toBe(false);
+    expect(isValidCassetteName(".hidden")).toBe(false);
+    expect(isValidCassetteName("a/b")).toBe(false);
+  });
+});
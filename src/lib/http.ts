@@ -0,0 +1,285 @@
+import type { ResearchFetchReport } from "@/agents/types";
+import { Cassette, RecordedResponse, resolveCassetteName } from "./cassette";
+import { HostLimiter, sleep } from "./host-limiter";
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobots, RobotsRules } from "./robots";
+
+export const USER_AGENT =
+  "ContentStudio/1.0 (Multi-Agent Research Pipeline; contact@example.com)";
+
+/** Product token matched against robots.txt User-agent lines */
+const ROBOTS_AGENT_TOKEN = "ContentStudio";
+
+export type HttpMode = "live" | "record" | "replay";
+
+export const HTTP_MODES: HttpMode[] = ["live", "record", "replay"];
+
+export interface HttpClientOptions {
+  mode?: HttpMode;
+  /** Cassette name (file stem under HTTP_CASSETTE_DIR) used by record/replay */
+  cassette?: string;
+}
+
+export interface RequestOptions {
+  /** Check robots.txt before fetching. Used for page crawling, not search APIs. */
+  respectRobots?: boolean;
+  /** Per-attempt timeout covering both headers and body */
+  timeoutMs?: number;
+}
+
+// ── Crawl policy ─────────────────────────────────────────────────────────
+
+interface CrawlConfig {
+  respectRobots: boolean;
+  maxConcurrentPerHost: number;
+  hostDelayMs: number;
+  maxRetries: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const ROBOTS_TIMEOUT_MS = 5_000;
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+/** Upper bound for a site's Crawl-delay; longer delays are clamped to it, not honoured in full */
+const MAX_CRAWL_DELAY_MS = 10_000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+/** Retry-After values beyond this are not waited out; the response is returned */
+const MAX_RETRY_AFTER_MS = 30_000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+let crawlConfig: CrawlConfig | null = null;
+
+function getCrawlConfig(): CrawlConfig {
+  if (!crawlConfig) {
+    const num = (value: string | undefined, fallback: number) => {
+      const n = Number(value);
+      return value !== undefined && Number.isFinite(n) && n >= 0 ? n : fallback;
+    };
+    crawlConfig = {
+      respectRobots: process.env.CRAWL_RESPECT_ROBOTS !== "false",
+      maxConcurrentPerHost: num(process.env.CRAWL_MAX_CONCURRENCY_PER_HOST, 2),
+      hostDelayMs: num(process.env.CRAWL_HOST_DELAY_MS, 500),
+      maxRetries: num(process.env.CRAWL_MAX_RETRIES, 3),
+    };
+  }
+  return crawlConfig;
+}
+
+let hostLimiter: HostLimiter | null = null;
+
+function getHostLimiter(): HostLimiter {
+  if (!hostLimiter) {
+    hostLimiter = new HostLimiter(getCrawlConfig().maxConcurrentPerHost);
+  }
+  return hostLimiter;
+}
+
+/** Parsed robots.txt per origin, shared by all live clients */
+const liveRobotsCache = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+
+export function createFetchReport(): ResearchFetchReport {
+  return { skippedByRobots: [], retried: [], timedOut: [] };
+}
+
+/**
+ * All outbound traffic from search providers and page fetching goes through
+ * an HttpClient so it can be recorded to, or replayed from, a cassette, and
+ * so it follows the crawl policy: robots.txt, per-host concurrency and delay
+ * limits, timeouts, and retries with exponential backoff on 429/5xx.
+ */
+export class HttpClient {
+  readonly mode: HttpMode;
+  private cassette: Cassette | null;
+  private report: ResearchFetchReport | null = null;
+  /** robots.txt cache for record/replay, so the cassette sees every robots fetch */
+  private robotsCache = new Map<string, { rules: RobotsRules; expiresAt: number }>();
+
+  constructor(options: HttpClientOptions = {}) {
+    this.mode = options.mode ?? "live";
+    this.cassette =
+      this.mode === "live" ? null : new Cassette(resolveCassetteName(options.cassette));
+  }
+
+  /**
+   * A client sharing this one's mode and cassette that logs skipped,
+   * retried and timed-out requests into `report`.
+   */
+  withReport(report: ResearchFetchReport): HttpClient {
+    const child = new HttpClient({ mode: this.mode, cassette: this.cassette?.name });
+    child.cassette = this.cassette;
+    child.robotsCache = this.robotsCache;
+    child.report = report;
+    return child;
+  }
+
+  async fetch(url: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> {
+    const { respectRobots = false, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+    const config = getCrawlConfig();
+    let hostDelayMs = config.hostDelayMs;
+
+    if (respectRobots && config.respectRobots) {
+      const rules = await this.robotsFor(url);
+      const { pathname, search } = new URL(url);
+      if (!isPathAllowed(rules, pathname + search)) {
+        this.report?.skippedByRobots.push(url);
+        throw new Error(`Disallowed by robots.txt: ${url}`);
+      }
+      if (rules.crawlDelay !== undefined) {
+        hostDelayMs = Math.max(hostDelayMs, Math.min(rules.crawlDelay * 1000, MAX_CRAWL_DELAY_MS));
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.fetchOnce(url, init, timeoutMs, hostDelayMs);
+      const retryable = RETRYABLE_STATUSES.has(response.status);
+      const wait = retryable && attempt < config.maxRetries ? retryDelay(response, attempt) : null;
+
+      if (wait === null) {
+        if (attempt > 0) {
+          this.report?.retried.push({ url, attempts: attempt + 1, lastStatus: response.status });
+        }
+        return response;
+      }
+
+      // Replays are instant; the recorded retry sequence plays back in order
+      if (this.mode !== "replay") await sleep(wait);
+    }
+  }
+
+  private async fetchOnce(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    hostDelayMs: number
+  ): Promise<Response> {
+    const method = init.method ?? "GET";
+    const body = typeof init.body === "string" ? init.body : undefined;
+
+    if (this.mode === "replay") {
+      const recorded = await this.cassette!.play(method, url, body);
+      if (!recorded) {
+        throw new Error(`Replay: no recorded response for ${method} ${url}`);
+      }
+      return toResponse(recorded);
+    }
+
+    const release = await getHostLimiter().acquire(new URL(url).host, hostDelayMs);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      // Buffer the body inside the timeout window so slow bodies time out too
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const recorded = await fromResponse(response);
+      if (this.mode === "record") {
+        await this.cassette!.record(method, url, body, recorded);
+      }
+      return toResponse(recorded);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        this.report?.timedOut.push(url);
+        throw new Error(`Timed out after ${timeoutMs}ms: ${url}`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
+  }
+
+  private async robotsFor(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    const cache = this.mode === "live" ? liveRobotsCache : this.robotsCache;
+    const cached = cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+    let rules: RobotsRules;
+    try {
+      const response = await this.fetchOnce(
+        `${origin}/robots.txt`,
+        { headers: { "User-Agent": USER_AGENT, Accept: "text/plain" } },
+        ROBOTS_TIMEOUT_MS,
+        getCrawlConfig().hostDelayMs
+      );
+      // RFC 9309: 4xx means no restrictions, 5xx means assume full disallow
+      if (response.ok) rules = parseRobots(await response.text(), ROBOTS_AGENT_TOKEN);
+      else rules = response.status >= 500 ? DISALLOW_ALL : ALLOW_ALL;
+    } catch {
+      // Unreachable counts as a server error, except for cassettes recorded
+      // without robots.txt, which replay as unrestricted
+      rules = this.mode === "replay" ? ALLOW_ALL : DISALLOW_ALL;
+    }
+
+    cache.set(origin, { rules, expiresAt: Date.now() + ROBOTS_TTL_MS });
+    return rules;
+  }
+}
+
+/**
+ * How long to wait before retry number `attempt + 1`: the server's
+ * Retry-After when present, otherwise exponential backoff with jitter.
+ * Returns null when the server asks for longer than we are willing to wait.
+ */
+function retryDelay(response: Response, attempt: number): number | null {
+  const header = response.headers.get("retry-after");
+  if (header) {
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    if (!Number.isNaN(ms)) {
+      return ms > MAX_RETRY_AFTER_MS ? null : Math.max(0, ms);
+    }
+  }
+
+  const backoff = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return backoff + Math.random() * BACKOFF_BASE_MS * 0.5;
+}
+
+let defaultClient: HttpClient | null = null;
+
+/** Client configured from HTTP_MODE (and HTTP_CASSETTE), shared across requests. */
+export function getHttpClient(): HttpClient {
+  if (!defaultClient) {
+    const mode = process.env.HTTP_MODE as HttpMode | undefined;
+    defaultClient = new HttpClient({
+      mode: mode && HTTP_MODES.includes(mode) ? mode : "live",
+    });
+  }
+  return defaultClient;
+}
+
+// ── Response (de)serialization ───────────────────────────────────────────
+
+async function fromResponse(response: Response): Promise<RecordedResponse> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  const contentType = headers["content-type"] ?? "";
+  const isText = /^text\/|json|xml|javascript/i.test(contentType) || contentType === "";
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: buffer.toString(isText ? "utf8" : "base64"),
+    encoding: isText ? "utf8" : "base64",
+  };
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  const nullBody = [101, 204, 205, 304].includes(recorded.status);
+  const body =
+    recorded.encoding === "base64" ? Buffer.from(recorded.body, "base64") : recorded.body;
+
+  // Bodies are stored decoded, so the original encoding/length no longer apply
+  const headers = { ...recorded.headers };
+  delete headers["content-encoding"];
+  delete headers["content-length"];
+
+  return new Response(nullBody ? null : body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,142 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ResearchFact, ResearchSource } from "@/agents/types";
+import { KnowledgeBase, parseFactEdit } from "./knowledge-base";
+
+const source = (url: string, retrievedAt: string): ResearchSource => ({
+  title: url,
+  url,
+  snippet: "",
+  retrievedAt,
+});
+
+const fact = (text: string, sourceUrl: string): ResearchFact => ({ fact: text, sourceUrl, sourceTitle: sourceUrl });
+
+const HEAT_PUMPS = "Germany installed 356,000 heat pumps in 2023, a record year.";
+
+describe("KnowledgeBase", () => {
+  let dir: string;
+  let kb: KnowledgeBase;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "kb-"));
+    kb = new KnowledgeBase(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const run = (facts: ResearchFact[], retrievedAt: string) =>
+    kb.save({
+      topic: "Heat pumps in Germany",
+      facts,
+      sources: [...new Set(facts.map((f) => f.sourceUrl))].map((url) => source(url, retrievedAt)),
+      entities: [],
+    });
+
+  it("adds new facts and refreshes an equivalent one from a newer retrieval", async () => {
+    expect(await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z")).toEqual({
+      added: 1,
+      updated: 0,
+    });
+    const reworded = fact("In 2023 Germany installed 356,000 heat pumps, a record.", "https://b.example/");
+    expect(await run([reworded], "2024-06-01T00:00:00.000Z")).toEqual({ added: 0, updated: 1 });
+
+    const topic = await kb.get("heat pumps in germany");
+    expect(topic?.runs).toBe(2);
+    expect(topic?.facts.map((f) => f.sourceUrl)).toEqual(["https://b.example/"]);
+    expect(topic?.sources.map((s) => s.url)).toEqual(["https://b.example/"]);
+  });
+
+  it("never overwrites an edited fact", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+    const [stored] = (await kb.get("Heat pumps in Germany"))!.facts;
+
+    const edited = await kb.updateFact(stored.id, { fact: "Germany installed about 356,000 heat pumps in 2023." });
+    expect(edited?.editedAt).toBeDefined();
+
+    expect(await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-06-01T00:00:00.000Z")).toEqual({
+      added: 0,
+      updated: 0,
+    });
+    expect((await kb.getFact(stored.id))?.fact).toBe("Germany installed about 356,000 heat pumps in 2023.");
+  });
+
+  it("does not add a deleted fact back", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+    const [stored] = (await kb.get("Heat pumps in Germany"))!.facts;
+
+    expect(await kb.deleteFact(stored.id)).toBe(true);
+    expect(await kb.deleteFact(stored.id)).toBe(false);
+    expect(await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-06-01T00:00:00.000Z")).toEqual({
+      added: 0,
+      updated: 0,
+    });
+    expect((await kb.get("Heat pumps in Germany"))?.sources).toEqual([]);
+  });
+
+  it("does not add a deleted claim back from another source", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+    const [stored] = (await kb.get("Heat pumps in Germany"))!.facts;
+    await kb.deleteFact(stored.id);
+
+    const reworded = fact("In 2023 Germany installed 356,000 heat pumps, a record.", "https://b.example/");
+    const other = fact("Heat pump sales in Germany fell by half in 2024.", "https://b.example/");
+    expect(await run([reworded, other], "2024-06-01T00:00:00.000Z")).toEqual({ added: 1, updated: 0 });
+    expect((await kb.get("Heat pumps in Germany"))?.facts.map((f) => f.fact)).toEqual([other.fact]);
+  });
+
+  it("refuses to overwrite a topic file it cannot parse", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+    const topics = path.join(dir, "topics");
+    const [name] = await readdir(topics);
+    await writeFile(path.join(topics, name), "{ truncated");
+
+    await expect(run([fact(HEAT_PUMPS, "https://b.example/")], "2024-06-01T00:00:00.000Z")).rejects.toThrow(
+      /corrupt/
+    );
+    expect(await readFile(path.join(topics, name), "utf8")).toBe("{ truncated");
+    expect(await kb.list()).toEqual([]);
+  });
+
+  it("searches and recalls stored facts as page content", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+
+    const [match] = await kb.search("heat pumps installed");
+    expect(match).toMatchObject({ topic: "Heat pumps in Germany", score: 1 });
+    expect(await kb.search("solar panels")).toEqual([]);
+
+    const recalled = await kb.recall("heat pumps");
+    expect(recalled.factCount).toBe(1);
+    expect(recalled.results[0]).toMatchObject({ url: "https://a.example/", provider: "knowledge-base" });
+    expect(recalled.pageContents.get("https://a.example/")?.paragraphs).toEqual([HEAT_PUMPS]);
+  });
+
+  it("deletes a whole topic", async () => {
+    await run([fact(HEAT_PUMPS, "https://a.example/")], "2024-01-01T00:00:00.000Z");
+    expect(await kb.deleteTopic("Heat pumps in Germany")).toBe(true);
+    expect(await kb.list()).toEqual([]);
+    expect(await kb.deleteTopic("Heat pumps in Germany")).toBe(false);
+  });
+});
+
+describe("parseFactEdit", () => {
+  it("accepts known fields and clears the page with null", () => {
+    expect(parseFactEdit({ fact: " Updated. ", page: null })).toEqual({ edit: { fact: "Updated.", page: undefined } });
+    for (const sourceUrl of ["https://a.example/", "upload://documents/1/notes.md", "file:///corpus/notes.md"]) {
+      expect(parseFactEdit({ sourceUrl })).toEqual({ edit: { sourceUrl } });
+    }
+  });
+
+  it("rejects empty, unknown or mistyped fields", () => {
+    expect(parseFactEdit({})).toHaveProperty("error");
+    expect(parseFactEdit({ fact: "" })).toHaveProperty("error");
+    expect(parseFactEdit({ page: 0 })).toHaveProperty("error");
+    expect(parseFactEdit({ confidence: 1 })).toHaveProperty("error");
+    expect(parseFactEdit({ sourceUrl: "javascript:alert(1)" })).toHaveProperty("error");
+    expect(parseFactEdit({ sourceUrl: "not a url" })).toHaveProperty("error");
+  });
+});
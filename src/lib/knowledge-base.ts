@@ -0,0 +1,508 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type {
+  FactSource,
+  ResearchEntity,
+  ResearchResult,
+  ResearchSource,
+} from "@/agents/types";
+import { normalizeQuery, normalizeUrl } from "./cache";
+import { claimTerms, contentWords, isEquivalent } from "./claims";
+import type { PageContent, SearchResult } from "./web-search";
+
+// ── Knowledge base ───────────────────────────────────────────────────────
+// Facts, sources and entities kept across research runs, one JSON file per
+// topic under <KNOWLEDGE_BASE_DIR>/topics/. Research saves what it found;
+// with `useKnowledgeBase` it recalls stored facts on related topics first
+// and merges them with fresh web results. Facts edited through the API are
+// never overwritten by later runs, and deleted ones are not added back, not
+// even when the same claim turns up on another source. A topic file that
+// cannot be parsed is left as it is rather than overwritten.
+
+export interface StoredFact {
+  /** "<topic key>-<hash>", stable across edits */
+  id: string;
+  fact: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  page?: number;
+  supportingSources?: FactSource[];
+  confidence?: number;
+  /** When the fact's source was retrieved */
+  retrievedAt: string;
+  /** Set once the fact has been edited through the API */
+  editedAt?: string;
+}
+
+export interface KnowledgeTopic {
+  topic: string;
+  key: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Research runs saved into this topic */
+  runs: number;
+  facts: StoredFact[];
+  sources: ResearchSource[];
+  entities: ResearchEntity[];
+  /** Facts deleted through the API; research never adds them back */
+  deletedFactIds: string[];
+  /** Wording of the deleted facts, so equivalent claims from other sources stay out too */
+  deletedClaims?: string[];
+}
+
+export interface KnowledgeTopicInfo {
+  topic: string;
+  key: string;
+  createdAt: string;
+  updatedAt: string;
+  runs: number;
+  factCount: number;
+  sourceCount: number;
+  entityCount: number;
+}
+
+export interface FactMatch extends StoredFact {
+  topic: string;
+  /** Share of the query's words found in the fact or its topic, 0–1 */
+  score: number;
+}
+
+export type FactEdit = Partial<Pick<StoredFact, "fact" | "sourceUrl" | "sourceTitle" | "page">>;
+
+export interface SearchFilter {
+  /** Only search this topic */
+  topic?: string;
+  limit?: number;
+  /** Minimum match score (default 0.5) */
+  minScore?: number;
+}
+
+export interface KnowledgeOptions {
+  /** Recall stored facts on the topic and merge them with fresh results */
+  useKnowledgeBase?: boolean;
+  /** Save the run's facts, sources and entities (defaults to true) */
+  saveToKnowledgeBase?: boolean;
+}
+
+export interface RecalledKnowledge {
+  /** One result per stored source, its facts as the page content */
+  results: SearchResult[];
+  pageContents: Map<string, PageContent>;
+  /** Stored source records by URL, with their original retrieval dates */
+  sources: Map<string, ResearchSource>;
+  factCount: number;
+}
+
+/** Oldest facts beyond this are dropped when a topic is saved */
+const MAX_FACTS_PER_TOPIC = 200;
+const MAX_ENTITIES_PER_TOPIC = 50;
+/** Deleted fact ids and claims remembered per topic */
+const MAX_DELETED = 1000;
+/** Stored facts recalled into a research run */
+const RECALL_LIMIT = 40;
+const DEFAULT_SEARCH_LIMIT = 50;
+const DEFAULT_MIN_SCORE = 0.5;
+/** Where stored facts can come from: the web, uploads and the local corpus */
+const SOURCE_URL_PROTOCOLS = new Set(["http:", "https:", "upload:", "file:"]);
+
+export class KnowledgeBase {
+  private dir: string;
+  /** Writes are serialized so concurrent runs never lose each other's facts */
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /** Every stored topic, most recently updated first. */
+  async list(): Promise<KnowledgeTopicInfo[]> {
+    const topics = await this.readAll();
+    return topics
+      .map((t) => ({
+        topic: t.topic,
+        key: t.key,
+        createdAt: t.createdAt,
+        updatedAt: t.updatedAt,
+        runs: t.runs,
+        factCount: t.facts.length,
+        sourceCount: t.sources.length,
+        entityCount: t.entities.length,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(topic: string): Promise<KnowledgeTopic | null> {
+    return this.read(topicKey(topic));
+  }
+
+  /**
+   * Stored facts matching a query, best match first, then most recently
+   * retrieved. Without a query, every fact (of `topic`, if given) matches.
+   */
+  async search(query: string, filter: SearchFilter = {}): Promise<FactMatch[]> {
+    const { limit = DEFAULT_SEARCH_LIMIT, minScore = DEFAULT_MIN_SCORE } = filter;
+    const topics = filter.topic
+      ? [await this.get(filter.topic)].filter((t): t is KnowledgeTopic => t !== null)
+      : await this.readAll();
+    const queryWords = new Set(contentWords(query));
+
+    const matches: FactMatch[] = [];
+    for (const t of topics) {
+      for (const fact of t.facts) {
+        const words = new Set(contentWords(`${fact.fact} ${t.topic}`));
+        const score =
+          queryWords.size > 0 ? [...queryWords].filter((w) => words.has(w)).length / queryWords.size : 1;
+        if (score >= minScore) matches.push({ ...fact, topic: t.topic, score: Math.round(score * 100) / 100 });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || b.retrievedAt.localeCompare(a.retrievedAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Stored facts related to a topic, as search results whose page content
+   * is the facts themselves, so they are ranked and corroborated alongside
+   * fresh material. Read failures recall nothing.
+   */
+  async recall(topic: string): Promise<RecalledKnowledge> {
+    const recalled: RecalledKnowledge = {
+      results: [],
+      pageContents: new Map(),
+      sources: new Map(),
+      factCount: 0,
+    };
+
+    const matches = await this.search(topic, { limit: RECALL_LIMIT }).catch(() => []);
+    const storedSources = new Map<string, ResearchSource>();
+    for (const t of await this.readAll()) {
+      for (const s of t.sources) storedSources.set(normalizeUrl(s.url), s);
+    }
+
+    const byUrl = new Map<string, FactMatch[]>();
+    for (const m of matches) {
+      const facts = byUrl.get(m.sourceUrl) ?? [];
+      if (facts.some((f) => f.fact === m.fact)) continue;
+      byUrl.set(m.sourceUrl, [...facts, m]);
+    }
+
+    for (const [url, facts] of byUrl) {
+      const source = storedSources.get(normalizeUrl(url)) ?? {
+        title: facts[0].sourceTitle,
+        url,
+        snippet: "",
+        retrievedAt: facts[0].retrievedAt,
+      };
+      const pages = facts.map((f) => f.page);
+
+      recalled.results.push({ title: source.title, url, snippet: "", provider: "knowledge-base" });
+      recalled.pageContents.set(url, {
+        title: source.title,
+        byline: source.author,
+        publisher: source.publisher,
+        publishedAt: source.publishedAt,
+        language: source.language,
+        canonicalUrl: source.canonicalUrl,
+        paragraphs: facts.map((f) => f.fact),
+        paragraphPages: pages.every((p) => p !== undefined) ? (pages as number[]) : undefined,
+      });
+      recalled.sources.set(url, { ...source, url });
+      recalled.factCount += facts.length;
+    }
+
+    return recalled;
+  }
+
+  /**
+   * Merge a research run into its topic. A fact equivalent to a stored one
+   * refreshes it (unless it was edited); sources newer than the stored copy
+   * replace it. Returns how many facts were added and refreshed.
+   */
+  async save(
+    result: Pick<ResearchResult, "topic" | "facts" | "sources" | "entities">
+  ): Promise<{ added: number; updated: number }> {
+    const key = topicKey(result.topic);
+
+    return this.update(key, (stored) => {
+      const now = new Date().toISOString();
+      const t: KnowledgeTopic = stored ?? {
+        topic: result.topic,
+        key,
+        createdAt: now,
+        updatedAt: now,
+        runs: 0,
+        facts: [],
+        sources: [],
+        entities: [],
+        deletedFactIds: [],
+        deletedClaims: [],
+      };
+      let added = 0;
+      const deleted = (t.deletedClaims ?? []).map(claimTerms);
+      let updated = 0;
+
+      const retrievedAt = new Map(result.sources.map((s) => [s.url, s.retrievedAt]));
+      for (const f of result.facts) {
+        const fact: Omit<StoredFact, "id"> = {
+          fact: f.fact,
+          sourceUrl: f.sourceUrl,
+          sourceTitle: f.sourceTitle,
+          page: f.page,
+          supportingSources: f.supportingSources,
+          confidence: f.confidence,
+          retrievedAt: retrievedAt.get(f.sourceUrl) ?? now,
+        };
+        // The id is derived from the sentence as first found, so it still
+        // matches a fact whose wording has since been edited
+        const id = factId(key, f.sourceUrl, f.fact);
+        if (t.deletedFactIds.includes(id)) continue;
+        const terms = claimTerms(f.fact);
+        if (deleted.some((d) => isEquivalent(terms, d))) continue;
+        const existing =
+          t.facts.find((s) => s.id === id) ?? t.facts.find((s) => isEquivalent(terms, claimTerms(s.fact)));
+
+        if (!existing) {
+          t.facts.push({ id, ...fact });
+          added++;
+        } else if (!existing.editedAt && fact.retrievedAt > existing.retrievedAt) {
+          Object.assign(existing, fact);
+          updated++;
+        }
+      }
+      t.facts = t.facts
+        .sort((a, b) => b.retrievedAt.localeCompare(a.retrievedAt))
+        .slice(0, MAX_FACTS_PER_TOPIC);
+
+      for (const s of result.sources) {
+        const i = t.sources.findIndex((x) => normalizeUrl(x.url) === normalizeUrl(s.url));
+        if (i < 0) t.sources.push(s);
+        else if (s.retrievedAt > t.sources[i].retrievedAt) t.sources[i] = s;
+      }
+      t.sources = t.sources.filter((s) => t.facts.some((f) => citesSource(f, s.url)));
+
+      const entities = new Map(t.entities.map((e) => [e.name.toLowerCase(), e]));
+      for (const e of result.entities) entities.set(e.name.toLowerCase(), e);
+      t.entities = [...entities.values()]
+        .sort((a, b) => b.sourceCount - a.sourceCount || b.mentions - a.mentions)
+        .slice(0, MAX_ENTITIES_PER_TOPIC);
+
+      t.runs++;
+      t.updatedAt = now;
+      return { topic: t, value: { added, updated } };
+    });
+  }
+
+  async getFact(id: string): Promise<FactMatch | null> {
+    const t = await this.read(keyOfFact(id));
+    const fact = t?.facts.find((f) => f.id === id);
+    return t && fact ? { ...fact, topic: t.topic, score: 1 } : null;
+  }
+
+  /** Apply an edit to a stored fact; null when there is no such fact. */
+  async updateFact(id: string, edit: FactEdit): Promise<StoredFact | null> {
+    return this.update(keyOfFact(id), (t) => {
+      const fact = t?.facts.find((f) => f.id === id);
+      if (!t || !fact) return { value: null };
+
+      // Corroboration was for the old source; a fact moved elsewhere stands alone
+      if (edit.sourceUrl !== undefined && edit.sourceUrl !== fact.sourceUrl) {
+        fact.supportingSources = undefined;
+      }
+      Object.assign(fact, edit, { editedAt: new Date().toISOString() });
+      t.updatedAt = fact.editedAt!;
+      return { topic: t, value: fact };
+    });
+  }
+
+  /** Remove a stored fact; false when there is no such fact. */
+  async deleteFact(id: string): Promise<boolean> {
+    return this.update(keyOfFact(id), (t) => {
+      const index = t?.facts.findIndex((f) => f.id === id) ?? -1;
+      if (!t || index < 0) return { value: false };
+
+      const [fact] = t.facts.splice(index, 1);
+      t.deletedFactIds = [...t.deletedFactIds, id].slice(-MAX_DELETED);
+      t.deletedClaims = [...(t.deletedClaims ?? []), fact.fact].slice(-MAX_DELETED);
+      t.sources = t.sources.filter((s) => t.facts.some((f) => citesSource(f, s.url)));
+      t.updatedAt = new Date().toISOString();
+      return { topic: t, value: true };
+    });
+  }
+
+  /** Remove a topic with all its facts; false when it wasn't stored. */
+  async deleteTopic(topic: string): Promise<boolean> {
+    const file = this.topicPath(topicKey(topic));
+    return this.serialize(async () => {
+      try {
+        await fs.unlink(file);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Read-modify-write one topic file. `change` returns the topic to write
+   * (omitted to leave the file alone) and the value to resolve with. Rejects
+   * without writing when the stored file cannot be read.
+   */
+  private update<T>(
+    key: string,
+    change: (topic: KnowledgeTopic | null) => { topic?: KnowledgeTopic; value: T }
+  ): Promise<T> {
+    return this.serialize(async () => {
+      const { topic, value } = change(await this.read(key));
+      if (topic) {
+        const file = this.topicPath(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(`${file}.tmp`, JSON.stringify(topic, null, 2));
+        await fs.rename(`${file}.tmp`, file);
+      }
+      return value;
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writing.then(task, task);
+    this.writing = run.catch(() => undefined);
+    return run;
+  }
+
+  private topicPath(key: string): string {
+    return path.join(this.dir, "topics", `${key}.json`);
+  }
+
+  /** A stored topic; null when there is no file for it. Throws when the file is unreadable or corrupt. */
+  private async read(key: string): Promise<KnowledgeTopic | null> {
+    if (!/^[0-9a-f]+$/.test(key)) return null;
+    const file = this.topicPath(key);
+    let text: string;
+    try {
+      text = await fs.readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(text) as KnowledgeTopic;
+    } catch {
+      throw new Error(`Knowledge base file ${file} is corrupt; it was left unchanged`);
+    }
+  }
+
+  private async readAll(): Promise<KnowledgeTopic[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(this.dir, "topics"));
+    } catch {
+      return [];
+    }
+    // Corrupt files are skipped here; writing to their topic still fails
+    const topics = await Promise.all(
+      names
+        .filter((n) => n.endsWith(".json"))
+        .map((n) => this.read(n.slice(0, -".json".length)).catch(() => null))
+    );
+    return topics.filter((t): t is KnowledgeTopic => t !== null);
+  }
+}
+
+/**
+ * Validate the optional `useKnowledgeBase` and `saveToKnowledgeBase` flags
+ * of a research request.
+ */
+export function parseKnowledgeOptions(input: {
+  useKnowledgeBase?: unknown;
+  saveToKnowledgeBase?: unknown;
+}): { knowledge: KnowledgeOptions } | { error: string } {
+  for (const field of ["useKnowledgeBase", "saveToKnowledgeBase"] as const) {
+    if (input[field] !== undefined && typeof input[field] !== "boolean") {
+      return { error: `Invalid ${field}. Use true or false` };
+    }
+  }
+  return {
+    knowledge: {
+      useKnowledgeBase: input.useKnowledgeBase as boolean | undefined,
+      saveToKnowledgeBase: input.saveToKnowledgeBase as boolean | undefined,
+    },
+  };
+}
+
+/**
+ * Validate a fact edit: at least one of `fact`, `sourceUrl`, `sourceTitle`
+ * (non-empty strings) or `page` (a positive whole number, or null to clear it).
+ */
+export function parseFactEdit(input: unknown): { edit: FactEdit } | { error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Invalid edit. Send an object with fact, sourceUrl, sourceTitle or page" };
+  }
+
+  const body = input as Record<string, unknown>;
+  const edit: FactEdit = {};
+  for (const field of ["fact", "sourceUrl", "sourceTitle"] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || value.trim().length === 0) {
+      return { error: `Invalid ${field}. Use a non-empty string` };
+    }
+    edit[field] = value.trim();
+  }
+  if (edit.sourceUrl !== undefined && !SOURCE_URL_PROTOCOLS.has(protocolOf(edit.sourceUrl))) {
+    return { error: "Invalid sourceUrl. Use an http(s), upload:// or file:// URL" };
+  }
+  if (body.page !== undefined) {
+    if (body.page !== null && !(Number.isInteger(body.page) && (body.page as number) > 0)) {
+      return { error: "Invalid page. Use a positive whole number, or null to clear it" };
+    }
+    edit.page = (body.page as number | null) ?? undefined;
+  }
+
+  const unknown = Object.keys(body).filter((k) => !["fact", "sourceUrl", "sourceTitle", "page"].includes(k));
+  if (unknown.length > 0) {
+    return { error: `Unknown field(s): ${unknown.join(", ")}` };
+  }
+  if (Object.keys(body).length === 0) {
+    return { error: "Nothing to edit. Send fact, sourceUrl, sourceTitle or page" };
+  }
+  return { edit };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function topicKey(topic: string): string {
+  return createHash("sha256").update(normalizeQuery(topic)).digest("hex").slice(0, 16);
+}
+
+function factId(key: string, sourceUrl: string, fact: string): string {
+  return `${key}-${createHash("sha256").update(`${sourceUrl}\n${fact}`).digest("hex").slice(0, 12)}`;
+}
+
+function keyOfFact(id: string): string {
+  return id.split("-")[0];
+}
+
+function protocolOf(url: string): string {
+  try {
+    return new URL(url).protocol;
+  } catch {
+    return "";
+  }
+}
+
+function citesSource(fact: StoredFact, url: string): boolean {
+  return fact.sourceUrl === url || (fact.supportingSources ?? []).some((s) => s.url === url);
+}
+
+let knowledgeBaseInstance: KnowledgeBase | null = null;
+
+export function getKnowledgeBase(): KnowledgeBase {
+  if (!knowledgeBaseInstance) {
+    knowledgeBaseInstance = new KnowledgeBase(
+      path.resolve(process.env.KNOWLEDGE_BASE_DIR ?? ".knowledge")
+    );
+  }
+  return knowledgeBaseInstance;
+}
@@ -0,0 +1,58 @@
+import { promises as dns } from "dns";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isPublicAddress, reachesPrivateNetwork } from "./public-address";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("isPublicAddress", () => {
+  it("refuses loopback, private, link-local, ULA and unspecified addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:127.0.0.1",
+      "::ffff:10.0.0.1",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses and rejects non-addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("172.32.0.1")).toBe(true);
+    expect(isPublicAddress("2606:4700::1111")).toBe(true);
+    expect(isPublicAddress("example.org")).toBe(false);
+  });
+});
+
+describe("reachesPrivateNetwork", () => {
+  it("checks IP literals without resolving them", async () => {
+    const lookup = vi.spyOn(dns, "lookup");
+    expect(await reachesPrivateNetwork("http://127.0.0.1:3000/admin")).toBe(true);
+    expect(await reachesPrivateNetwork("http://[::1]/")).toBe(true);
+    expect(await reachesPrivateNetwork("https://93.184.216.34/")).toBe(false);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("refuses a host when any of its addresses is private", async () => {
+    vi.spyOn(dns, "lookup").mockImplementation(
+      async () => [{ address: "93.184.216.34", family: 4 }, { address: "10.0.0.5", family: 4 }] as never
+    );
+    expect(await reachesPrivateNetwork("https://intranet.example.org/")).toBe(true);
+  });
+
+  it("leaves hosts that do not resolve to the fetch", async () => {
+    vi.spyOn(dns, "lookup").mockRejectedValue(new Error("ENOTFOUND"));
+    expect(await reachesPrivateNetwork("https://missing.example.org/")).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+
+// ── Public addresses ─────────────────────────────────────────────────────
+// URLs the user supplies (seed sources) are fetched by the server, so they
+// must not reach into the server's own network. Loopback, private
+// (RFC 1918), link-local, unique local (IPv6 ULA) and unspecified addresses
+// are refused. IPv4-mapped IPv6 addresses match the IPv4 ranges.
+
+const NON_PUBLIC = new BlockList();
+NON_PUBLIC.addSubnet("0.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("127.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("10.0.0.0", 8, "ipv4");
+NON_PUBLIC.addSubnet("172.16.0.0", 12, "ipv4");
+NON_PUBLIC.addSubnet("192.168.0.0", 16, "ipv4");
+NON_PUBLIC.addSubnet("169.254.0.0", 16, "ipv4");
+NON_PUBLIC.addAddress("::", "ipv6");
+NON_PUBLIC.addAddress("::1", "ipv6");
+NON_PUBLIC.addSubnet("fc00::", 7, "ipv6");
+NON_PUBLIC.addSubnet("fe80::", 10, "ipv6");
+
+/** Whether `address` is an IP address outside the refused ranges. */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Whether the host of `url` is, or resolves to, a non-public address. Every
+ * resolved address is checked. Hosts that do not resolve are not refused
+ * here: fetching them fails on its own.
+ */
+export async function reachesPrivateNetwork(url: string): Promise<boolean> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+
+  if (isIP(host)) return !isPublicAddress(host);
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(host, { all: true });
+  } catch {
+    return false;
+  }
+  return addresses.some(({ address }) => !isPublicAddress(address));
+}
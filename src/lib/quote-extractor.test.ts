@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { extractQuotes } from "./quote-extractor";
+import type { PageContent, SearchResult } from "./web-search";
+
+const result: SearchResult = { title: "Heat pump report", url: "https://news.example/heat", snippet: "", provider: "test" };
+
+function page(...paragraphs: string[]): Map<string, PageContent> {
+  return new Map([[result.url, { title: result.title, paragraphs }]]);
+}
+
+describe("extractQuotes", () => {
+  it("reads the common attribution patterns with speaker and role", () => {
+    const quotes = extractQuotes(
+      "heat pumps",
+      [result],
+      page(
+        "“Heat pumps are now the cheapest way to heat a new home,” said Jane Doe, CEO of Acme Energy.",
+        "“We expect installations to double by the end of the decade,” John Smith said.",
+        "Maria Garcia, an analyst at the agency, told Reuters: “Demand for boilers is collapsing across Europe.”"
+      )
+    );
+
+    expect(quotes.map(({ speaker, role }) => ({ speaker, role }))).toEqual([
+      { speaker: "Jane Doe", role: "CEO of Acme Energy" },
+      { speaker: "Maria Garcia", role: "an analyst at the agency" },
+      { speaker: "John Smith", role: undefined },
+    ]);
+    expect(quotes[0].text).toBe("Heat pumps are now the cheapest way to heat a new home");
+    expect(quotes[0].sourceUrl).toBe(result.url);
+  });
+
+  it("skips anonymous and too-short quotes", () => {
+    const quotes = extractQuotes(
+      "heat pumps",
+      [result],
+      page(
+        "“This is a turning point for the whole heating industry,” he said.",
+        "“A real game changer,” said Jane Doe."
+      )
+    );
+    expect(quotes).toEqual([]);
+  });
+
+  it("keeps a quote found on several pages once", () => {
+    const other = { ...result, url: "https://other.example/heat" };
+    const paragraph = "“Heat pumps are now the cheapest way to heat a new home,” said Jane Doe.";
+    const quotes = extractQuotes(
+      "heat pumps",
+      [result, other],
+      new Map([
+        [result.url, { title: "A", paragraphs: [paragraph] }],
+        [other.url, { title: "B", paragraphs: [paragraph] }],
+      ])
+    );
+    expect(quotes).toHaveLength(1);
+  });
+});
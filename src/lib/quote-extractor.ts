@@ -0,0 +1,145 @@
+import { ResearchQuote } from "@/agents/types";
+import { claimTerms } from "./claims";
+import type { PageContent, SearchResult } from "./web-search";
+
+// ── Quote extraction ─────────────────────────────────────────────────────
+// Finds attributed direct speech in fetched page paragraphs — the common
+// news patterns `"…," said Jane Doe, CEO of X`, `"…," Jane Doe said` and
+// `Jane Doe said: "…"`. Quotes without a named speaker ("he said") are
+// skipped, since an anonymous pull quote can't be attributed in an article.
+
+const MAX_QUOTES = 5;
+
+/** Shorter quotes are usually scare quotes or titles, longer ones whole passages */
+const MIN_QUOTE_WORDS = 5;
+const MAX_QUOTE_LENGTH = 320;
+
+/** Roles longer than this are probably the rest of the sentence */
+const MAX_ROLE_WORDS = 12;
+
+const OPEN = `["“„«]`;
+const CLOSE = `["”“»]`;
+const QUOTE = `${OPEN}(?<quote>[^"“”„«»]{20,${MAX_QUOTE_LENGTH}})${CLOSE}`;
+
+const HONORIFIC = String.raw`(?:(?:Dr|Prof|Mr|Mrs|Ms|Sen|Rep|Gov|Gen|Sir|Dame)\.?\s+)?`;
+const NAME_WORD = String.raw`\p{Lu}[\p{L}'’-]*\.?`;
+const PARTICLE = String.raw`(?:(?:de|da|di|van|von|der|den|du|la|le|bin|al)\s+){0,2}`;
+const NAME = `(?<speaker>${HONORIFIC}${NAME_WORD}(?:\\s+${PARTICLE}${NAME_WORD}){1,3})`;
+
+const VERB = String.raw`(?:said|says|told|added|explained|noted|argued|stated|wrote|warned|commented|remarked|insisted|acknowledged|observed|declared|asserted)`;
+
+/** Who someone "told", e.g. "told Reuters", skipped before the quote */
+const AUDIENCE = String.raw`(?:\s+(?:\p{Lu}[\p{L}-]*|reporters|journalists|the\s+\p{L}+))?`;
+
+const ROLE = String.raw`(?<role>[^.;"“”]+?)`;
+
+const PATTERNS: RegExp[] = [
+  // "…," said Jane Doe, CEO of X.
+  new RegExp(`${QUOTE}\\s*${VERB}\\s+${NAME}(?:,\\s*${ROLE})?(?=[.;]|$)`, "gu"),
+  // "…," Jane Doe, CEO of X, said.
+  new RegExp(`${QUOTE}\\s*${NAME}(?:,\\s*${ROLE},)?\\s+${VERB}\\b`, "gu"),
+  // Jane Doe, CEO of X, said: "…"
+  new RegExp(`${NAME}(?:,\\s*${ROLE},)?\\s+${VERB}${AUDIENCE}[,:]?\\s*${QUOTE}`, "gu"),
+  // According to Jane Doe, CEO of X, "…"
+  new RegExp(`[Aa]ccording to ${NAME}(?:,\\s*${ROLE})?,\\s*${QUOTE}`, "gu"),
+];
+
+/** Capitalized words that start sentences rather than names ("The Company said") */
+const NOT_NAMES = new Set([
+  "The", "This", "That", "These", "Those", "A", "An", "It", "In", "On", "At", "We", "They",
+  "He", "She", "Our", "Their", "His", "Her", "Officials", "Experts", "Analysts", "Researchers",
+]);
+
+/**
+ * Attributed quotes from the fetched pages, best first: quotes mentioning the
+ * topic, with a known role and from credible sources rank higher. The same
+ * quote found on several pages is kept once.
+ * `sourceWeights` (by URL) is the same credibility weighting facts use.
+ */
+export function extractQuotes(
+  topic: string,
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>,
+  sourceWeights: Map<string, number> = new Map()
+): ResearchQuote[] {
+  const topicWords = claimTerms(topic).words;
+  const scored: Array<{ quote: ResearchQuote; score: number }> = [];
+  const seen = new Set<string>();
+
+  for (const result of results) {
+    const page = pageContents.get(result.url);
+    if (!page) continue;
+
+    page.paragraphs.forEach((paragraph, i) => {
+      for (const found of quotesIn(paragraph)) {
+        const key = found.text.toLowerCase().replace(/[^\p{L}\d]+/gu, " ").trim();
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const words = claimTerms(found.text).words;
+        const relevance =
+          topicWords.size > 0 ? [...topicWords].filter((w) => words.has(w)).length / topicWords.size : 0;
+
+        scored.push({
+          quote: {
+            ...found,
+            sourceUrl: result.url,
+            sourceTitle: result.title,
+            page: page.paragraphPages?.[i],
+          },
+          score: (1 + relevance + (found.role ? 0.5 : 0)) * (sourceWeights.get(result.url) ?? 1),
+        });
+      }
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_QUOTES)
+    .map((s) => s.quote);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function quotesIn(paragraph: string): Array<Pick<ResearchQuote, "text" | "speaker" | "role">> {
+  const quotes: Array<Pick<ResearchQuote, "text" | "speaker" | "role">> = [];
+  const taken: Array<[number, number]> = [];
+
+  for (const pattern of PATTERNS) {
+    for (const match of paragraph.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // Earlier patterns win where two read the same passage
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+
+      const text = cleanQuote(match.groups?.quote ?? "");
+      const speaker = match.groups?.speaker.trim() ?? "";
+      const role = cleanRole(match.groups?.role);
+
+      if (text.split(/\s+/).length < MIN_QUOTE_WORDS) continue;
+      if (!speaker || NOT_NAMES.has(speaker.split(/\s+/)[0])) continue;
+
+      taken.push([start, end]);
+      quotes.push(role ? { text, speaker, role } : { text, speaker });
+    }
+  }
+
+  return quotes;
+}
+
+/** Trim the quote and the comma or period that ends it inside the marks. */
+function cleanQuote(text: string): string {
+  return text.replace(/\s+/g, " ").trim().replace(/[,;:]$/, "").replace(/(?<!\.\.)\.$/, "");
+}
+
+function cleanRole(role: string | undefined): string | undefined {
+  // Keep the title, not where or when they spoke: "CEO of X, at a briefing"
+  const cleaned = role
+    ?.replace(/,\s*(at|in|on|during|when|after|before|while|speaking)\b.*$/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!cleaned || cleaned.split(" ").length > MAX_ROLE_WORDS) return undefined;
+  // A clause, not a title: ", who has led the firm since 2019"
+  if (/^(who|which|that|and|but|in|on|at)\b/i.test(cleaned)) return undefined;
+  return cleaned;
+}
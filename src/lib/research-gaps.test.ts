@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { ResearchStatistic } from "@/agents/types";
+import { findResearchGaps, parseResearchDepth, ResearchFindings } from "./research-gaps";
+import type { SearchResult } from "./web-search";
+
+const results: SearchResult[] = [
+  {
+    title: "Subsidies",
+    url: "https://a.example/",
+    snippet: "The BAFA grant covers part of the installation cost.",
+    provider: "test",
+  },
+];
+
+const statistic = (kind: ResearchStatistic["kind"]): ResearchStatistic => ({
+  kind,
+  value: 1,
+  unit: "",
+  text: "1",
+  factIndex: 0,
+  sourceUrl: "https://a.example/",
+  sourceTitle: "A",
+});
+
+const findings: ResearchFindings = {
+  facts: [{ fact: "Heat pumps use electricity to move heat.", sourceUrl: "https://a.example/", sourceTitle: "A" }],
+  statistics: [statistic("percentage"), statistic("currency"), statistic("count")],
+  entities: [{ name: "BAFA", type: "organization", mentions: 3, sourceCount: 2 }],
+  keywords: [
+    { phrase: "installation cost", score: 1, sourceCount: 2 },
+    { phrase: "electricity", score: 0.8, sourceCount: 2 },
+  ],
+};
+
+describe("findResearchGaps", () => {
+  it("asks for more facts first, then interleaves subtopics, entities and missing figures", () => {
+    const gaps = findResearchGaps("heat pumps", findings, results, new Map(), {
+      targetFacts: 5,
+      asked: new Set(["heat pumps"]),
+      limit: 10,
+    });
+
+    expect(gaps.map((g) => [g.kind, g.query])).toEqual([
+      ["facts", "heat pumps explained"],
+      ["subtopic", "heat pumps installation cost"],
+      ["entity", "heat pumps BAFA"],
+      ["statistics", "heat pumps capacity output"],
+    ]);
+    expect(gaps[1].evidenceUrl).toBe("https://a.example/");
+  });
+
+  it("never repeats a query already asked and honors the limit", () => {
+    const gaps = findResearchGaps("heat pumps", findings, results, new Map(), {
+      targetFacts: 5,
+      asked: new Set(["heat pumps explained", "heat pumps bafa"]),
+      limit: 2,
+    });
+    expect(gaps.map((g) => g.query)).toEqual(["heat pumps overview", "heat pumps installation cost"]);
+  });
+});
+
+describe("parseResearchDepth", () => {
+  it("accepts whole numbers in range", () => {
+    expect(parseResearchDepth({ maxRounds: 0, queryBudget: 20 })).toEqual({ depth: { maxRounds: 0, queryBudget: 20 } });
+    expect(parseResearchDepth({})).toEqual({ depth: {} });
+  });
+
+  it("rejects out-of-range or fractional values", () => {
+    expect(parseResearchDepth({ maxRounds: 6 })).toHaveProperty("error");
+    expect(parseResearchDepth({ queryBudget: 0 })).toHaveProperty("error");
+    expect(parseResearchDepth({ queryBudget: 2.5 })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,198 @@
+import type {
+  ResearchEntity,
+  ResearchFact,
+  ResearchGapKind,
+  ResearchKeyword,
+  ResearchStatistic,
+  StatisticKind,
+} from "@/agents/types";
+import { contentWords } from "./claims";
+import { dimensionQuery, dimensionScore } from "./comparison";
+import { mentionsTerm } from "./entity-extractor";
+import type { PageContent, SearchResult } from "./web-search";
+
+// ── Research gaps ────────────────────────────────────────────────────────
+// After each research round, looks at what was found and plans follow-up
+// queries for what is missing: too few facts, comparison dimensions no fact
+// covers, recurring subtopics and prominent entities no fact covers, and
+// kinds of figures nobody stated.
+
+/** Follow-up rounds after the initial queries, and the cap on total queries */
+export const DEFAULT_FOLLOW_UP_ROUNDS = 2;
+export const DEFAULT_QUERY_BUDGET = 9;
+export const MAX_FOLLOW_UP_ROUNDS = 5;
+export const MAX_QUERY_BUDGET = 20;
+
+/** Keywords and entities considered as possible gaps, best-ranked first */
+const GAP_CANDIDATES = 8;
+
+/** Broader phrasings tried, in order, while facts are short of the target */
+const BROADER_QUERIES = ["explained", "overview", "research findings", "history"];
+
+/** Ratios ("3 of 10 homes") are rare enough that their absence isn't a gap */
+const STATISTIC_QUERIES: Record<Exclude<StatisticKind, "ratio">, string> = {
+  percentage: "growth rate percent",
+  currency: "cost investment",
+  count: "number of",
+  quantity: "capacity output",
+};
+
+export interface ResearchFindings {
+  facts: ResearchFact[];
+  statistics: ResearchStatistic[];
+  entities: ResearchEntity[];
+  keywords: ResearchKeyword[];
+}
+
+export interface ResearchGap {
+  kind: ResearchGapKind;
+  query: string;
+  reason: string;
+  /** A result that revealed the gap, for tracing which query led to it */
+  evidenceUrl?: string;
+}
+
+export interface GapOptions {
+  targetFacts: number;
+  /** Queries already issued (any case); gaps never repeat them */
+  asked: Set<string>;
+  /** Maximum number of gaps returned */
+  limit: number;
+  /** Comparison dimensions the facts should cover (comparison research) */
+  dimensions?: string[];
+}
+
+/**
+ * Follow-up queries for what the findings are missing, at most `limit`.
+ * A shortfall of facts comes first, then uncovered comparison dimensions;
+ * the other kinds take turns so one round covers subtopics, entities and
+ * figures alike.
+ */
+export function findResearchGaps(
+  topic: string,
+  findings: ResearchFindings,
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>,
+  { targetFacts, asked, limit, dimensions = [] }: GapOptions
+): ResearchGap[] {
+  const isNew = (query: string) => !asked.has(query.toLowerCase());
+  const topicWords = new Set(contentWords(topic));
+  const factText = findings.facts.map((f) => f.fact).join(" ");
+  const uncovered = (term: string) =>
+    !mentionsTerm(factText, term) && contentWords(term).some((w) => !topicWords.has(w));
+  const evidence = (term: string) => evidenceUrl(term, results, pageContents);
+
+  const factGaps: ResearchGap[] = [];
+  if (findings.facts.length < targetFacts) {
+    const query = BROADER_QUERIES.map((q) => `${topic} ${q}`).find(isNew);
+    if (query) {
+      factGaps.push({
+        kind: "facts",
+        query,
+        reason: `Only ${findings.facts.length} of ${targetFacts} facts found`,
+      });
+    }
+  }
+
+  const dimensionGaps: ResearchGap[] = dimensions
+    .filter((d) => !findings.facts.some((f) => dimensionScore(f.fact, d) > 0))
+    .map((d) => ({
+      kind: "dimension" as const,
+      query: `${topic} ${dimensionQuery(d)}`,
+      reason: `No fact on ${d} for the comparison`,
+    }));
+
+  const subtopicGaps: ResearchGap[] = findings.keywords
+    .slice(0, GAP_CANDIDATES)
+    .filter((k) => uncovered(k.phrase))
+    .map((k) => ({
+      kind: "subtopic" as const,
+      query: `${topic} ${k.phrase}`,
+      reason: `Subtopic "${k.phrase}" recurs in ${k.sourceCount} source(s) but no fact covers it`,
+      evidenceUrl: evidence(k.phrase),
+    }));
+
+  const entityGaps: ResearchGap[] = findings.entities
+    .slice(0, GAP_CANDIDATES)
+    .filter((e) => uncovered(e.name))
+    .map((e) => ({
+      kind: "entity" as const,
+      query: `${topic} ${e.name}`,
+      reason: `${e.name} (${e.type}) is mentioned ${e.mentions} time(s) but no fact covers it`,
+      evidenceUrl: evidence(e.name),
+    }));
+
+  const foundKinds = new Set(findings.statistics.map((s) => s.kind));
+  const statisticGaps: ResearchGap[] = (Object.keys(STATISTIC_QUERIES) as Array<keyof typeof STATISTIC_QUERIES>)
+    .filter((kind) => !foundKinds.has(kind))
+    .map((kind) => ({
+      kind: "statistics" as const,
+      query: `${topic} ${STATISTIC_QUERIES[kind]}`,
+      reason: `No ${kind} figures found`,
+    }));
+
+  const gaps = [...factGaps, ...dimensionGaps, ...interleave([subtopicGaps, entityGaps, statisticGaps])];
+  const seen = new Set<string>();
+  return gaps
+    .filter((g) => {
+      const key = g.query.toLowerCase();
+      if (seen.has(key) || !isNew(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Validate the optional `maxRounds` and `queryBudget` of a research request.
+ */
+export function parseResearchDepth(input: {
+  maxRounds?: unknown;
+  queryBudget?: unknown;
+}): { depth: { maxRounds?: number; queryBudget?: number } } | { error: string } {
+  const depth: { maxRounds?: number; queryBudget?: number } = {};
+  const isInt = (value: unknown, min: number, max: number): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+  if (input.maxRounds !== undefined) {
+    if (!isInt(input.maxRounds, 0, MAX_FOLLOW_UP_ROUNDS)) {
+      return { error: `Invalid maxRounds. Use a whole number from 0 to ${MAX_FOLLOW_UP_ROUNDS}` };
+    }
+    depth.maxRounds = input.maxRounds;
+  }
+
+  if (input.queryBudget !== undefined) {
+    if (!isInt(input.queryBudget, 1, MAX_QUERY_BUDGET)) {
+      return { error: `Invalid queryBudget. Use a whole number from 1 to ${MAX_QUERY_BUDGET}` };
+    }
+    depth.queryBudget = input.queryBudget;
+  }
+
+  return { depth };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** First result whose snippet, else fetched page, mentions the term. */
+function evidenceUrl(
+  term: string,
+  results: SearchResult[],
+  pageContents: Map<string, PageContent>
+): string | undefined {
+  return (
+    results.find((r) => mentionsTerm(r.snippet, term))?.url ??
+    results.find((r) => pageContents.get(r.url)?.paragraphs.some((p) => mentionsTerm(p, term)))?.url
+  );
+}
+
+/** [a1, b1, c1, a2, b2, …] */
+function interleave<T>(lists: T[][]): T[] {
+  const merged: T[] = [];
+  const longest = Math.max(0, ...lists.map((l) => l.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) merged.push(list[i]);
+    }
+  }
+  return merged;
+}
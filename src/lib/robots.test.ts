@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isPathAllowed, parseRobots } from "./robots";
+
+const ROBOTS = `
+# Comments are ignored
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: ContentStudio
+Disallow: /drafts/
+`;
+
+describe("parseRobots", () => {
+  it("uses the group naming our agent over the * group", () => {
+    const rules = parseRobots(ROBOTS, "ContentStudio");
+    expect(rules).toEqual({ allow: [], disallow: ["/drafts/"] });
+  });
+
+  it("falls back to the * group, with its Crawl-delay", () => {
+    const rules = parseRobots(ROBOTS, "OtherAgent");
+    expect(rules.disallow).toEqual(["/private/", "/*.pdf$"]);
+    expect(rules.crawlDelay).toBe(2);
+  });
+});
+
+describe("isPathAllowed", () => {
+  const rules = parseRobots(ROBOTS, "OtherAgent");
+
+  it("applies the longest matching rule, Allow winning ties", () => {
+    expect(isPathAllowed(rules, "/private/notes")).toBe(false);
+    expect(isPathAllowed(rules, "/private/press/release")).toBe(true);
+    expect(isPathAllowed({ allow: ["/a"], disallow: ["/a"] }, "/a")).toBe(true);
+  });
+
+  it("matches * wildcards and $ anchors", () => {
+    expect(isPathAllowed(rules, "/reports/2024.pdf")).toBe(false);
+    expect(isPathAllowed(rules, "/reports/2024.pdf?download=1")).toBe(true);
+  });
+});
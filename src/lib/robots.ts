@@ -0,0 +1,96 @@
+// ── robots.txt ───────────────────────────────────────────────────────────
+// Minimal RFC 9309 parser: user-agent groups, Allow/Disallow with `*` and `$`
+// patterns (longest match wins, Allow wins ties) and the non-standard but
+// widely used Crawl-delay directive.
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  /** Seconds between requests requested by the site, if any */
+  crawlDelay?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRules;
+}
+
+/** Treat every path as allowed (missing or 4xx robots.txt). */
+export const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+
+/** Treat every path as disallowed (unreachable or 5xx robots.txt). */
+export const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ["/"] };
+
+/**
+ * Parse a robots.txt body and return the rules that apply to `agentToken`
+ * (the product token of our User-Agent), falling back to the `*` group.
+ */
+export function parseRobots(body: string, agentToken: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const sep = line.indexOf(":");
+    if (sep === -1) continue;
+
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === "allow" && value) current.rules.allow.push(value);
+    else if (field === "disallow" && value) current.rules.disallow.push(value);
+    else if (field === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.rules.crawlDelay = delay;
+    }
+  }
+
+  const token = agentToken.toLowerCase();
+  const specific = groups.filter((g) => g.agents.some((a) => a !== "*" && token.includes(a)));
+  const matched = specific.length > 0 ? specific : groups.filter((g) => g.agents.includes("*"));
+
+  return matched.reduce<RobotsRules>(
+    (merged, g) => ({
+      allow: [...merged.allow, ...g.rules.allow],
+      disallow: [...merged.disallow, ...g.rules.disallow],
+      crawlDelay: g.rules.crawlDelay ?? merged.crawlDelay,
+    }),
+    { allow: [], disallow: [] }
+  );
+}
+
+/** Whether `path` (pathname + search) may be fetched under `rules`. */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce((best, p) => (matchesPattern(p, path) ? Math.max(best, p.length) : best), -1);
+
+  const allowLength = longestMatch(rules.allow);
+  const disallowLength = longestMatch(rules.disallow);
+
+  return disallowLength === -1 || allowLength >= disallowLength;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
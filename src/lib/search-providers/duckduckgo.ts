@@ -0,0 +1,165 @@
+import * as cheerio from "cheerio";
+import { USER_AGENT } from "@/lib/http";
+import { duckDuckGoLocale } from "./locale";
+import { ProviderSearchOptions, SearchProvider, SearchRecency, SearchResult } from "./types";
+
+/** DuckDuckGo `df` date filter codes */
+const DUCKDUCKGO_RECENCY: Record<SearchRecency, string> = {
+  day: "d",
+  week: "w",
+  month: "m",
+  year: "y",
+};
+
+function duckDuckGoParams(query: string, options: ProviderSearchOptions): URLSearchParams {
+  const params = new URLSearchParams({ q: query, kl: duckDuckGoLocale(options) });
+  if (options.recency) params.set("df", DUCKDUCKGO_RECENCY[options.recency]);
+  return params;
+}
+
+// ── DuckDuckGo HTML ──────────────────────────────────────────────────────
+
+export const duckDuckGoHtmlProvider: SearchProvider = {
+  id: "duckduckgo-html",
+  name: "DuckDuckGo HTML",
+  isConfigured: () => true,
+
+  async search(query: string, options: ProviderSearchOptions) {
+    const { maxResults, http } = options;
+    const params = duckDuckGoParams(query, options);
+
+    const response = await http.fetch(`https://html.duckduckgo.com/html/?${params}`, {
+      method: "POST",
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`DuckDuckGo HTML: ${response.status}`);
+    }
+
+    const html = await response.text();
+
+    // Detect if we got a bot-block page
+    if (html.includes("blocked") || html.includes("bot") || html.length < 1000) {
+      throw new Error("DuckDuckGo HTML: blocked");
+    }
+
+    return parseDuckDuckGoHtml(html, maxResults);
+  },
+};
+
+function parseDuckDuckGoHtml(html: string, maxResults: number): SearchResult[] {
+  const $ = cheerio.load(html);
+  const results: SearchResult[] = [];
+
+  $(".result").each((_i, element) => {
+    if (results.length >= maxResults) return false;
+
+    const $el = $(element);
+    const titleEl = $el.find(".result__title .result__a");
+    const snippetEl = $el.find(".result__snippet");
+    const urlEl = $el.find(".result__url");
+
+    const title = titleEl.text().trim();
+    let url = titleEl.attr("href") ?? "";
+    const snippet = snippetEl.text().trim();
+
+    if (url.includes("uddg=")) {
+      try {
+        const parsed = new URL(url, "https://duckduckgo.com");
+        url = decodeURIComponent(parsed.searchParams.get("uddg") ?? url);
+      } catch {
+        url = `https://${urlEl.text().trim()}`;
+      }
+    }
+
+    if (title && snippet) {
+      results.push({ title, url, snippet, provider: duckDuckGoHtmlProvider.id });
+    }
+  });
+
+  return results;
+}
+
+// ── DuckDuckGo Lite ──────────────────────────────────────────────────────
+
+export const duckDuckGoLiteProvider: SearchProvider = {
+  id: "duckduckgo-lite",
+  name: "DuckDuckGo Lite",
+  isConfigured: () => true,
+
+  async search(query: string, options: ProviderSearchOptions) {
+    const { maxResults, http } = options;
+    const params = duckDuckGoParams(query, options);
+
+    const response = await http.fetch("https://lite.duckduckgo.com/lite/", {
+      method: "POST",
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`DuckDuckGo Lite: ${response.status}`);
+    }
+
+    const html = await response.text();
+
+    if (html.includes("blocked") || html.length < 500) {
+      throw new Error("DuckDuckGo Lite: blocked");
+    }
+
+    return parseDuckDuckGoLite(html, maxResults);
+  },
+};
+
+function parseDuckDuckGoLite(html: string, maxResults: number): SearchResult[] {
+  const $ = cheerio.load(html);
+  const results: SearchResult[] = [];
+
+  // Lite format uses table rows with specific classes
+  const rows = $("table:last-of-type tr");
+
+  let current: Partial<SearchResult> = {};
+
+  rows.each((_i, row) => {
+    if (results.length >= maxResults) return false;
+
+    const $row = $(row);
+
+    // Title/link row
+    const link = $row.find("a.result-link");
+    if (link.length) {
+      current = {
+        title: link.text().trim(),
+        url: link.attr("href") ?? "",
+      };
+      return;
+    }
+
+    // Snippet row
+    const snippet = $row.find("td.result-snippet");
+    if (snippet.length && current.title) {
+      current.snippet = snippet.text().trim();
+      if (current.title && current.url && current.snippet) {
+        results.push({
+          title: current.title,
+          url: current.url,
+          snippet: current.snippet,
+          provider: duckDuckGoLiteProvider.id,
+        });
+      }
+      current = {};
+    }
+  });
+
+  return results;
+}
@@ -0,0 +1,64 @@
+import { USER_AGENT } from "@/lib/http";
+import { ProviderSearchOptions, SearchProvider, SearchRecency } from "./types";
+
+// ── Google Custom Search JSON API ────────────────────────────────────────
+// https://developers.google.com/custom-search/v1/reference/rest/v1/cse/list
+
+interface GoogleSearchItem {
+  title?: string;
+  link?: string;
+  snippet?: string;
+}
+
+/** `dateRestrict` values: the last 1 day/week/month/year */
+const GOOGLE_RECENCY: Record<SearchRecency, string> = {
+  day: "d1",
+  week: "w1",
+  month: "m1",
+  year: "y1",
+};
+
+export const googleProvider: SearchProvider = {
+  id: "google",
+  name: "Google Custom Search",
+  isConfigured: () =>
+    Boolean(process.env.GOOGLE_SEARCH_API_KEY && process.env.GOOGLE_SEARCH_ENGINE_ID),
+
+  async search(query: string, { maxResults, region, language, recency, http }: ProviderSearchOptions) {
+    const params = new URLSearchParams({
+      key: process.env.GOOGLE_SEARCH_API_KEY ?? "",
+      cx: process.env.GOOGLE_SEARCH_ENGINE_ID ?? "",
+      q: query,
+      // The API returns at most 10 results per request
+      num: String(Math.min(maxResults, 10)),
+    });
+    // gl boosts results from the region; lr restricts the document language
+    if (region) params.set("gl", region);
+    if (language) params.set("lr", `lang_${language}`);
+    if (recency) params.set("dateRestrict", GOOGLE_RECENCY[recency]);
+
+    const response = await http.fetch(
+      `https://www.googleapis.com/customsearch/v1?${params}`,
+      {
+        headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Custom Search: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const items: GoogleSearchItem[] = data?.items ?? [];
+
+    return items
+      .filter((item) => item.title && item.link && item.snippet)
+      .slice(0, maxResults)
+      .map((item) => ({
+        title: item.title!,
+        url: item.link!,
+        snippet: item.snippet!.replace(/\s+/g, " ").trim(),
+        provider: googleProvider.id,
+      }));
+  },
+};
@@ -0,0 +1,15 @@
+export { SearchProviderRegistry, getSearchProviderRegistry } from "./registry";
+export { googleProvider } from "./google";
+export { serpApiProvider } from "./serpapi";
+export { duckDuckGoHtmlProvider, duckDuckGoLiteProvider } from "./duckduckgo";
+export { wikipediaProvider } from "./wikipedia";
+export { localCorpusProvider, readLocalDocument } from "./local-corpus";
+export { parseSearchScope, duckDuckGoLocale, languageForScope } from "./locale";
+export { SEARCH_RECENCIES } from "./types";
+export type {
+  SearchProvider,
+  SearchResult,
+  ProviderSearchOptions,
+  SearchScope,
+  SearchRecency,
+} from "./types";
@@ -0,0 +1,60 @@
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { HttpClient } from "@/lib/http";
+import { localCorpusProvider, readLocalDocument } from "./local-corpus";
+
+const http = new HttpClient();
+
+let dir: string;
+let root: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "local-corpus-"));
+  root = path.join(dir, "corpus");
+  await mkdir(path.join(root, "notes"), { recursive: true });
+  await mkdir(path.join(dir, "corpus-private"));
+  await writeFile(
+    path.join(root, "heat-pumps.md"),
+    "# Heat pumps in Germany\n\nGermany installed 356,000 heat pumps in 2023. Heat pumps move heat from outside air."
+  );
+  await writeFile(path.join(root, "notes", "boilers.txt"), "Gas boilers\n\nGas boilers burn natural gas to heat water.");
+  await writeFile(path.join(dir, "corpus-private", "secret.txt"), "Private notes about heat pumps.");
+  await writeFile(path.join(dir, "outside.txt"), "Outside the corpus.");
+  vi.stubEnv("LOCAL_CORPUS_DIR", root);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("localCorpusProvider", () => {
+  it("ranks the documents matching the query, with file:// URLs and the Markdown title", async () => {
+    const results = await localCorpusProvider.search("heat pumps Germany", { maxResults: 5, http });
+    expect(results.map((r) => r.title)).toEqual(["Heat pumps in Germany", "Gas boilers"]);
+    expect(results[0].url).toBe(pathToFileURL(path.join(root, "heat-pumps.md")).href);
+    expect(results[0].snippet).toContain("356,000 heat pumps");
+  });
+
+  it("finds documents in subdirectories", async () => {
+    const results = await localCorpusProvider.search("gas boilers", { maxResults: 5, http });
+    expect(results.map((r) => r.title)).toEqual(["Gas boilers"]);
+  });
+});
+
+describe("readLocalDocument", () => {
+  it("reads a document inside the corpus", async () => {
+    const content = await readLocalDocument(pathToFileURL(path.join(root, "notes", "boilers.txt")).href, 1000);
+    expect(content?.paragraphs.join(" ")).toContain("Gas boilers burn natural gas to heat water.");
+  });
+
+  it("refuses paths outside the corpus", async () => {
+    expect(await readLocalDocument(pathToFileURL(path.join(dir, "outside.txt")).href, 1000)).toBeNull();
+    expect(await readLocalDocument(`file://${root}/../outside.txt`, 1000)).toBeNull();
+    // A sibling directory sharing the corpus name as a prefix is outside too
+    expect(await readLocalDocument(pathToFileURL(path.join(dir, "corpus-private", "secret.txt")).href, 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { extractMainContent, PageContent } from "@/lib/content-extractor";
+import { splitParagraphs, stripMarkdown } from "@/lib/document-extractor";
+import { ProviderSearchOptions, SearchProvider, SearchResult } from "./types";
+
+// ── Local corpus (offline) ───────────────────────────────────────────────
+// Indexes Markdown, HTML and plain-text files under LOCAL_CORPUS_DIR and
+// ranks them with BM25. Results use file:// URLs so fetchPageContent can
+// read the full document back from disk. A requested language skips HTML
+// documents that declare a different one; region and recency don't apply.
+
+const SUPPORTED_EXTENSIONS = new Set([".md", ".markdown", ".txt", ".html", ".htm"]);
+
+// BM25 tuning constants (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SNIPPET_LENGTH = 300;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "that", "the", "to", "was", "were",
+  "will", "with", "what", "how", "why", "about", "this", "these", "those",
+]);
+
+interface CorpusDocument {
+  filePath: string;
+  url: string;
+  title: string;
+  content: PageContent;
+  text: string;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+interface CorpusIndex {
+  root: string;
+  signature: string;
+  documents: CorpusDocument[];
+  docFreqs: Map<string, number>;
+  avgLength: number;
+}
+
+let cachedIndex: CorpusIndex | null = null;
+
+export const localCorpusProvider: SearchProvider = {
+  id: "local-corpus",
+  name: "Local Corpus",
+  isConfigured: () => Boolean(process.env.LOCAL_CORPUS_DIR),
+
+  async search(query: string, { maxResults, language }: ProviderSearchOptions) {
+    const index = await loadIndex(getCorpusRoot());
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || index.documents.length === 0) return [];
+
+    const scored = index.documents
+      .filter((doc) => !language || matchesLanguage(doc.content.language, language))
+      .map((doc) => ({ doc, score: scoreBm25(doc, queryTerms, index) }))
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+
+    return scored.map(({ doc }): SearchResult => ({
+      title: doc.title,
+      url: doc.url,
+      snippet: bestSnippet(doc.text, queryTerms),
+      provider: localCorpusProvider.id,
+    }));
+  },
+};
+
+/**
+ * Read a corpus document from a file:// URL as extracted page content.
+ * Returns null for paths outside LOCAL_CORPUS_DIR or unreadable files.
+ */
+export async function readLocalDocument(
+  url: string,
+  maxLength: number
+): Promise<PageContent | null> {
+  if (!process.env.LOCAL_CORPUS_DIR) return null;
+
+  try {
+    const filePath = fileURLToPath(url);
+    const root = getCorpusRoot();
+    if (!isInside(root, filePath)) return null;
+
+    const doc = await loadDocument(filePath);
+    if (!doc) return null;
+
+    const paragraphs: string[] = [];
+    let total = 0;
+    for (const p of doc.content.paragraphs) {
+      if (total + p.length > maxLength && paragraphs.length > 0) break;
+      paragraphs.push(p.slice(0, maxLength));
+      total += p.length;
+    }
+    return { ...doc.content, paragraphs };
+  } catch {
+    return null;
+  }
+}
+
+function matchesLanguage(declared: string | undefined, language: string): boolean {
+  return !declared || declared.toLowerCase().split(/[-_]/)[0] === language;
+}
+
+// ── Indexing ─────────────────────────────────────────────────────────────
+
+function getCorpusRoot(): string {
+  return path.resolve(process.env.LOCAL_CORPUS_DIR ?? ".");
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, path.resolve(filePath));
+  return relative.length > 0 && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+async function loadIndex(root: string): Promise<CorpusIndex> {
+  const files = await listCorpusFiles(root);
+  const stats = await Promise.all(files.map((f) => fs.stat(f)));
+  const signature = files
+    .map((f, i) => `${f}:${stats[i].mtimeMs}:${stats[i].size}`)
+    .join("|");
+
+  // Reuse the in-memory index until a file is added, removed or modified
+  if (cachedIndex && cachedIndex.root === root && cachedIndex.signature === signature) {
+    return cachedIndex;
+  }
+
+  const loaded = await Promise.all(files.map((f) => loadDocument(f)));
+  const documents = loaded.filter((d): d is CorpusDocument => d !== null);
+
+  const docFreqs = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of doc.termFreqs.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) ?? 0) + 1);
+    }
+  }
+
+  const totalLength = documents.reduce((sum, d) => sum + d.length, 0);
+
+  cachedIndex = {
+    root,
+    signature,
+    documents,
+    docFreqs,
+    avgLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+  return cachedIndex;
+}
+
+async function listCorpusFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listCorpusFiles(full)));
+    } else if (SUPPORTED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+
+  return files.sort();
+}
+
+async function loadDocument(filePath: string): Promise<CorpusDocument | null> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.has(ext)) return null;
+
+  const raw = await fs.readFile(filePath, "utf8");
+  const fallbackTitle = path.basename(filePath, ext).replace(/[-_]+/g, " ");
+
+  let content: PageContent;
+
+  if (ext === ".html" || ext === ".htm") {
+    content = extractMainContent(raw);
+  } else if (ext === ".md" || ext === ".markdown") {
+    content = {
+      format: "markdown",
+      title: raw.match(/^#\s+(.+)$/m)?.[1]?.trim() ?? "",
+      paragraphs: splitParagraphs(stripMarkdown(raw)),
+    };
+  } else {
+    content = {
+      format: "text",
+      title: raw.split("\n").find((line) => line.trim().length > 0)?.trim() ?? "",
+      paragraphs: splitParagraphs(raw),
+    };
+  }
+
+  const title = (content.title || fallbackTitle).slice(0, 200);
+  const text = content.paragraphs.join(" ");
+  if (!text) return null;
+
+  const terms = tokenize(`${title} ${text}`);
+  const termFreqs = new Map<string, number>();
+  for (const term of terms) {
+    termFreqs.set(term, (termFreqs.get(term) ?? 0) + 1);
+  }
+
+  return {
+    filePath,
+    url: pathToFileURL(filePath).href,
+    title,
+    content: { ...content, title },
+    text,
+    termFreqs,
+    length: terms.length,
+  };
+}
+
+// ── Ranking ──────────────────────────────────────────────────────────────
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length > 1 && !STOPWORDS.has(t)
+  );
+}
+
+function scoreBm25(doc: CorpusDocument, queryTerms: string[], index: CorpusIndex): number {
+  const n = index.documents.length;
+  let score = 0;
+
+  for (const term of queryTerms) {
+    const tf = doc.termFreqs.get(term);
+    if (!tf) continue;
+
+    const df = index.docFreqs.get(term) ?? 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    const norm = 1 - BM25_B + BM25_B * (doc.length / (index.avgLength || 1));
+    score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm));
+  }
+
+  return score;
+}
+
+/**
+ * Pick the run of sentences that mentions the most query terms,
+ * so the snippet reads like a search-engine excerpt.
+ */
+function bestSnippet(text: string, queryTerms: string[]): string {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  let bestIndex = 0;
+  let bestHits = -1;
+
+  for (let i = 0; i < sentences.length; i++) {
+    const terms = new Set(tokenize(sentences[i]));
+    const hits = queryTerms.filter((t) => terms.has(t)).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestIndex = i;
+    }
+  }
+
+  let snippet = "";
+  for (let i = bestIndex; i < sentences.length && snippet.length < SNIPPET_LENGTH; i++) {
+    snippet += (snippet ? " " : "") + sentences[i];
+  }
+
+  return snippet.length > SNIPPET_LENGTH * 2 ? snippet.slice(0, SNIPPET_LENGTH * 2) : snippet;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { duckDuckGoLocale, languageForScope, parseSearchScope } from "./locale";
+
+describe("parseSearchScope", () => {
+  it("normalizes region, language tags and recency", () => {
+    expect(parseSearchScope({ region: " UK ", language: "en-US", recency: "week" })).toEqual({
+      scope: { region: "gb", language: "en", recency: "week" },
+    });
+  });
+
+  it("rejects malformed values", () => {
+    expect(parseSearchScope({ region: "Germany" })).toHaveProperty("error");
+    expect(parseSearchScope({ language: 42 })).toHaveProperty("error");
+    expect(parseSearchScope({ recency: "decade" })).toHaveProperty("error");
+  });
+});
+
+describe("locale mapping", () => {
+  it("takes a region's main language when none is given", () => {
+    expect(languageForScope({ region: "at" })).toBe("de");
+    expect(languageForScope({ region: "at", language: "en" })).toBe("en");
+  });
+
+  it("forms DuckDuckGo kl pairs", () => {
+    expect(duckDuckGoLocale({})).toBe("us-en");
+    expect(duckDuckGoLocale({ region: "de" })).toBe("de-de");
+    expect(duckDuckGoLocale({ region: "gb" })).toBe("uk-en");
+    expect(duckDuckGoLocale({ language: "fr" })).toBe("fr-fr");
+    expect(duckDuckGoLocale({ region: "zz" })).toBe("wt-wt");
+  });
+});
@@ -0,0 +1,83 @@
+import { SEARCH_RECENCIES, SearchRecency, SearchScope } from "./types";
+
+// ── Region & language ────────────────────────────────────────────────────
+// Callers pass ISO country and language codes; each provider maps them to
+// its own parameters (DuckDuckGo `kl`, Google `gl`/`lr`, Wikipedia edition).
+
+/** Main language of regions we publish in, used when only a region is given */
+const REGION_LANGUAGES: Record<string, string> = {
+  ar: "es", at: "de", au: "en", be: "nl", br: "pt", ca: "en", ch: "de",
+  cl: "es", cn: "zh", co: "es", cz: "cs", de: "de", dk: "da", es: "es",
+  fi: "fi", fr: "fr", gb: "en", gr: "el", hk: "zh", hu: "hu", id: "id",
+  ie: "en", il: "he", in: "en", it: "it", jp: "ja", kr: "ko", mx: "es",
+  my: "en", nl: "nl", no: "no", nz: "en", pe: "es", ph: "en", pl: "pl",
+  pt: "pt", ro: "ro", ru: "ru", se: "sv", sg: "en", sk: "sk", th: "th",
+  tr: "tr", tw: "zh", ua: "uk", us: "en", vn: "vi", za: "en",
+};
+
+/** Default region for a language, used when only a language is given */
+const LANGUAGE_REGIONS: Record<string, string> = {
+  cs: "cz", da: "dk", de: "de", el: "gr", en: "us", es: "es", fi: "fi",
+  fr: "fr", he: "il", hu: "hu", id: "id", it: "it", ja: "jp", ko: "kr",
+  nl: "nl", no: "no", pl: "pl", pt: "br", ro: "ro", ru: "ru", sk: "sk",
+  sv: "se", th: "th", tr: "tr", uk: "ua", vi: "vn", zh: "cn",
+};
+
+/** Country codes that differ between ISO 3166 and DuckDuckGo's `kl` */
+const DUCKDUCKGO_REGIONS: Record<string, string> = { gb: "uk" };
+
+/**
+ * Validate and normalize user-supplied region/language/recency. Accepts
+ * "UK" for "gb" and full language tags such as "en-US" (keeping "en").
+ */
+export function parseSearchScope(input: {
+  region?: unknown;
+  language?: unknown;
+  recency?: unknown;
+}): { scope: SearchScope } | { error: string } {
+  const scope: SearchScope = {};
+
+  if (input.region !== undefined) {
+    const region = typeof input.region === "string" ? input.region.trim().toLowerCase() : "";
+    if (!/^[a-z]{2}$/.test(region)) {
+      return { error: "Invalid region. Use a two-letter country code such as \"us\" or \"de\"" };
+    }
+    scope.region = region === "uk" ? "gb" : region;
+  }
+
+  if (input.language !== undefined) {
+    const match =
+      typeof input.language === "string" && /^([a-z]{2,3})(?:[-_][a-z0-9]+)*$/i.exec(input.language.trim());
+    if (!match) {
+      return { error: "Invalid language. Use a language code such as \"en\" or \"de\"" };
+    }
+    scope.language = match[1].toLowerCase();
+  }
+
+  if (input.recency !== undefined) {
+    if (!SEARCH_RECENCIES.includes(input.recency as SearchRecency)) {
+      return { error: `Invalid recency. Must be one of: ${SEARCH_RECENCIES.join(", ")}` };
+    }
+    scope.recency = input.recency as SearchRecency;
+  }
+
+  return { scope };
+}
+
+/** The explicit language, else the region's main language, else undefined. */
+export function languageForScope({ region, language }: SearchScope): string | undefined {
+  return language ?? (region ? REGION_LANGUAGES[region] : undefined);
+}
+
+/**
+ * DuckDuckGo `kl` locale ("de-de", "uk-en", …). An empty scope keeps the
+ * historical "us-en"; "wt-wt" (no region) is used when a pair can't be formed.
+ * A language alone picks its default region, since `kl` always pairs both.
+ */
+export function duckDuckGoLocale(scope: SearchScope): string {
+  if (!scope.region && !scope.language) return "us-en";
+  const language = languageForScope(scope);
+  const region = scope.region ?? (language ? LANGUAGE_REGIONS[language] : undefined);
+  if (!region || !language) return "wt-wt";
+  return `${DUCKDUCKGO_REGIONS[region] ?? region}-${language}`;
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpClient } from "@/lib/http";
+import { googleProvider } from "./google";
+import { SearchProviderRegistry } from "./registry";
+import { SearchProvider } from "./types";
+
+const http = new HttpClient();
+
+const provider = (id: string, configured = true): SearchProvider => ({
+  id,
+  name: id,
+  isConfigured: () => configured,
+  search: async () => [],
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("SearchProviderRegistry.resolve", () => {
+  const registry = new SearchProviderRegistry();
+  registry.register(provider("google", false));
+  registry.register(provider("duckduckgo-html"));
+  registry.register(provider("wikipedia"));
+
+  it("follows the default order, skipping unconfigured providers", () => {
+    vi.stubEnv("SEARCH_PROVIDERS", "");
+    expect(registry.resolve().map((p) => p.id)).toEqual(["duckduckgo-html", "wikipedia"]);
+  });
+
+  it("takes the order from SEARCH_PROVIDERS and drops unknown IDs", () => {
+    vi.stubEnv("SEARCH_PROVIDERS", " Wikipedia, bing ,duckduckgo-html");
+    expect(registry.resolve().map((p) => p.id)).toEqual(["wikipedia", "duckduckgo-html"]);
+  });
+
+  it("prefers an explicit list over SEARCH_PROVIDERS", () => {
+    vi.stubEnv("SEARCH_PROVIDERS", "duckduckgo-html");
+    expect(registry.resolve(["wikipedia"]).map((p) => p.id)).toEqual(["wikipedia"]);
+  });
+});
+
+describe("googleProvider", () => {
+  it("needs both the API key and the engine ID", () => {
+    vi.stubEnv("GOOGLE_SEARCH_API_KEY", "key");
+    vi.stubEnv("GOOGLE_SEARCH_ENGINE_ID", "");
+    expect(googleProvider.isConfigured()).toBe(false);
+    vi.stubEnv("GOOGLE_SEARCH_ENGINE_ID", "cx");
+    expect(googleProvider.isConfigured()).toBe(true);
+  });
+
+  it("maps complete items to results and drops the rest", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Response.json({
+        items: [
+          { title: "Heat pumps", link: "https://example.org/a", snippet: "Heat pumps  move\nheat." },
+          { title: "No snippet", link: "https://example.org/b" },
+        ],
+      })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const results = await googleProvider.search("heat pumps", { maxResults: 5, http });
+    expect(results).toEqual([
+      { title: "Heat pumps", url: "https://example.org/a", snippet: "Heat pumps move heat.", provider: "google" },
+    ]);
+    expect(String(fetch.mock.calls[0][0])).toContain("num=5");
+  });
+
+  it("passes region, language and recency as gl, lr and dateRestrict", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => Response.json({ items: [] }));
+    vi.stubGlobal("fetch", fetch);
+
+    await googleProvider.search("heat pumps", { maxResults: 5, region: "de", language: "de", recency: "month", http });
+    const url = new URL(String(fetch.mock.calls[0][0]));
+    expect(url.searchParams.get("gl")).toBe("de");
+    expect(url.searchParams.get("lr")).toBe("lang_de");
+    expect(url.searchParams.get("dateRestrict")).toBe("m1");
+  });
+});
@@ -0,0 +1,77 @@
+import { SearchProvider } from "./types";
+import { googleProvider } from "./google";
+import { serpApiProvider } from "./serpapi";
+import { duckDuckGoHtmlProvider, duckDuckGoLiteProvider } from "./duckduckgo";
+import { wikipediaProvider } from "./wikipedia";
+import { localCorpusProvider } from "./local-corpus";
+
+/**
+ * Fallback order when SEARCH_PROVIDERS is not set. Keyed providers come first
+ * so that configuring an API key is enough to switch away from DuckDuckGo;
+ * they are skipped automatically while unconfigured. The local corpus is a
+ * last resort here; air-gapped setups should list it alone in SEARCH_PROVIDERS.
+ */
+const DEFAULT_ORDER = [
+  "google",
+  "serpapi",
+  "duckduckgo-html",
+  "duckduckgo-lite",
+  "wikipedia",
+  "local-corpus",
+];
+
+export class SearchProviderRegistry {
+  private providers: Map<string, SearchProvider> = new Map();
+
+  register(provider: SearchProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): SearchProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  getAll(): SearchProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  unregister(id: string): void {
+    this.providers.delete(id);
+  }
+
+  /**
+   * Resolve the ordered fallback chain. An explicit list wins, then the
+   * comma-separated SEARCH_PROVIDERS env var, then DEFAULT_ORDER.
+   * Unknown IDs and providers missing their configuration are dropped.
+   */
+  resolve(ids?: string[]): SearchProvider[] {
+    const order = ids?.length ? ids : parseProviderList(process.env.SEARCH_PROVIDERS);
+
+    return (order.length ? order : DEFAULT_ORDER)
+      .map((id) => this.providers.get(id))
+      .filter((p): p is SearchProvider => p !== undefined && p.isConfigured());
+  }
+}
+
+function parseProviderList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+let registryInstance: SearchProviderRegistry | null = null;
+
+export function getSearchProviderRegistry(): SearchProviderRegistry {
+  if (!registryInstance) {
+    registryInstance = new SearchProviderRegistry();
+    registryInstance.register(googleProvider);
+    registryInstance.register(serpApiProvider);
+    registryInstance.register(duckDuckGoHtmlProvider);
+    registryInstance.register(duckDuckGoLiteProvider);
+    registryInstance.register(wikipediaProvider);
+    registryInstance.register(localCorpusProvider);
+  }
+  return registryInstance;
+}
@@ -0,0 +1,67 @@
+import { USER_AGENT } from "@/lib/http";
+import { ProviderSearchOptions, SearchProvider, SearchRecency } from "./types";
+
+// ── SerpAPI (Google engine) ──────────────────────────────────────────────
+// https://serpapi.com/search-api
+
+interface SerpApiOrganicResult {
+  title?: string;
+  link?: string;
+  snippet?: string;
+}
+
+/** Google `tbs=qdr:` time filters */
+const SERPAPI_RECENCY: Record<SearchRecency, string> = {
+  day: "qdr:d",
+  week: "qdr:w",
+  month: "qdr:m",
+  year: "qdr:y",
+};
+
+export const serpApiProvider: SearchProvider = {
+  id: "serpapi",
+  name: "SerpAPI",
+  isConfigured: () => Boolean(process.env.SERPAPI_KEY),
+
+  async search(query: string, { maxResults, region, language, recency, http }: ProviderSearchOptions) {
+    const params = new URLSearchParams({
+      engine: "google",
+      q: query,
+      api_key: process.env.SERPAPI_KEY ?? "",
+      num: String(maxResults),
+    });
+    // gl sets the country, hl the interface language; lr restricts result language
+    if (region) params.set("gl", region);
+    if (language) {
+      params.set("hl", language);
+      params.set("lr", `lang_${language}`);
+    }
+    if (recency) params.set("tbs", SERPAPI_RECENCY[recency]);
+
+    const response = await http.fetch(`https://serpapi.com/search.json?${params}`, {
+      headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`SerpAPI: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data?.error) {
+      throw new Error(`SerpAPI: ${data.error}`);
+    }
+
+    const organic: SerpApiOrganicResult[] = data?.organic_results ?? [];
+
+    return organic
+      .filter((r) => r.title && r.link && r.snippet)
+      .slice(0, maxResults)
+      .map((r) => ({
+        title: r.title!,
+        url: r.link!,
+        snippet: r.snippet!,
+        provider: serpApiProvider.id,
+      }));
+  },
+};
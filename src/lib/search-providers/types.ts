@@ -0,0 +1,38 @@
+import type { HttpClient } from "@/lib/http";
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  /** ID of the search provider that produced this result */
+  provider: string;
+}
+
+export type SearchRecency = "day" | "week" | "month" | "year";
+
+export const SEARCH_RECENCIES: SearchRecency[] = ["day", "week", "month", "year"];
+
+/** Where, in which language and how recently to search. All fields optional. */
+export interface SearchScope {
+  /** ISO 3166-1 alpha-2 country code, lowercase (e.g. "de", "gb") */
+  region?: string;
+  /** ISO 639-1 language code, lowercase (e.g. "de", "en") */
+  language?: string;
+  /** Only return results published or updated within this window */
+  recency?: SearchRecency;
+}
+
+export interface ProviderSearchOptions extends SearchScope {
+  maxResults: number;
+  /** Client all provider traffic must go through (live, record or replay) */
+  http: HttpClient;
+}
+
+export interface SearchProvider {
+  /** Stable identifier used in SEARCH_PROVIDERS and on each SearchResult */
+  id: string;
+  name: string;
+  /** Whether the provider has everything it needs (e.g. API keys) to run */
+  isConfigured(): boolean;
+  search(query: string, options: ProviderSearchOptions): Promise<SearchResult[]>;
+}
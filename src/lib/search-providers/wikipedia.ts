@@ -0,0 +1,107 @@
+import { USER_AGENT } from "@/lib/http";
+import { languageForScope } from "./locale";
+import { ProviderSearchOptions, SearchProvider, SearchResult } from "./types";
+
+// ── Wikipedia API ────────────────────────────────────────────────────────
+
+export const wikipediaProvider: SearchProvider = {
+  id: "wikipedia",
+  name: "Wikipedia",
+  // Always works from serverless, no key needed
+  isConfigured: () => true,
+
+  async search(query: string, options: ProviderSearchOptions) {
+    const { maxResults, http } = options;
+    // Search the language edition matching the requested language or region
+    const host = `https://${languageForScope(options) ?? "en"}.wikipedia.org`;
+
+    const params = new URLSearchParams({
+      action: "query",
+      format: "json",
+      list: "search",
+      // Wikipedia can't filter by date; prefer-recent boosts recently edited articles
+      srsearch: options.recency ? `${query} prefer-recent:` : query,
+      srlimit: String(Math.min(maxResults, 10)),
+      srprop: "snippet|titlesnippet",
+      utf8: "1",
+      origin: "*",
+    });
+
+    const response = await http.fetch(
+      `${host}/w/api.php?${params}`,
+      {
+        headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Wikipedia API: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const searchResults: Array<{ title: string; snippet: string; pageid: number }> =
+      data?.query?.search ?? [];
+
+    // For each result, fetch the extract (first paragraph) for richer content
+    const results: SearchResult[] = [];
+
+    // Batch fetch extracts for all pages
+    if (searchResults.length > 0) {
+      const titles = searchResults.map((r) => r.title).join("|");
+      const extractParams = new URLSearchParams({
+        action: "query",
+        format: "json",
+        titles: titles,
+        prop: "extracts|info",
+        exintro: "1",
+        explaintext: "1",
+        exsentences: "5",
+        inprop: "url",
+        origin: "*",
+      });
+
+      const extractResponse = await http.fetch(
+        `${host}/w/api.php?${extractParams}`,
+        {
+          headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+        }
+      );
+
+      if (extractResponse.ok) {
+        const extractData = await extractResponse.json();
+        const pages: Record<
+          string,
+          { title: string; extract?: string; fullurl?: string }
+        > = extractData?.query?.pages ?? {};
+
+        // Build a lookup by title
+        const extractsByTitle = new Map<string, { extract: string; url: string }>();
+        for (const page of Object.values(pages)) {
+          if (page.extract && page.fullurl) {
+            extractsByTitle.set(page.title, {
+              extract: page.extract,
+              url: page.fullurl,
+            });
+          }
+        }
+
+        for (const sr of searchResults) {
+          const ext = extractsByTitle.get(sr.title);
+          // Strip HTML from the search snippet
+          const cleanSnippet = sr.snippet.replace(/<[^>]+>/g, "");
+
+          results.push({
+            title: `${sr.title} - Wikipedia`,
+            url:
+              ext?.url ??
+              `${host}/wiki/${encodeURIComponent(sr.title.replace(/ /g, "_"))}`,
+            snippet: ext?.extract ?? cleanSnippet,
+            provider: wikipediaProvider.id,
+          });
+        }
+      }
+    }
+
+    return results;
+  },
+};
@@ -0,0 +1,133 @@
+import { promises as dns } from "dns";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadSeedSources, parseSeedSources, readResearchRequest, SeedDocument } from "./seed-sources";
+
+const file = (name: string, text: string, type = ""): SeedDocument => ({
+  name,
+  type,
+  body: new TextEncoder().encode(text),
+});
+
+// No spacing between requests to one host, so the tests run at full speed
+vi.stubEnv("CRAWL_HOST_DELAY_MS", "0");
+
+beforeEach(() => {
+  // Hosts resolve to a public address unless a test says otherwise
+  vi.spyOn(dns, "lookup").mockImplementation(async () => [{ address: "93.184.216.34", family: 4 }] as never);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("parseSeedSources", () => {
+  it("accepts http(s) URLs and supported uploads", async () => {
+    const notes = file("notes.md", "# Notes");
+    expect(await parseSeedSources({ seedUrls: [" https://example.org/report "], seedOnly: true }, [notes])).toEqual({
+      seeds: { seedUrls: ["https://example.org/report"], uploads: [notes], seedOnly: true },
+    });
+  });
+
+  it("rejects other schemes, too many URLs and unsupported files", async () => {
+    expect(await parseSeedSources({ seedUrls: ["file:///etc/passwd"] }, [])).toHaveProperty("error");
+    expect(await parseSeedSources({ seedUrls: "https://example.org" }, [])).toHaveProperty("error");
+    expect(await parseSeedSources({ seedUrls: Array(11).fill("https://example.org") }, [])).toHaveProperty("error");
+    expect(await parseSeedSources({}, [file("photo.png", "", "image/png")])).toHaveProperty("error");
+  });
+
+  it("needs a seed for seedOnly research", async () => {
+    expect(await parseSeedSources({ seedOnly: true }, [])).toHaveProperty("error");
+    expect(await parseSeedSources({ seedOnly: "yes" }, [file("a.txt", "text")])).toHaveProperty("error");
+  });
+
+  it("rejects URLs on private or local networks", async () => {
+    for (const url of [
+      "http://127.0.0.1:3000/",
+      "http://10.0.0.1/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://0.0.0.0/",
+      "http://[::1]/",
+      "http://[fd12::1]/",
+      "http://[fe80::1]/",
+    ]) {
+      expect(await parseSeedSources({ seedUrls: [url] }, []), url).toEqual({
+        error: `Seed URL "${url}" points to a private or local network address`,
+      });
+    }
+
+    vi.mocked(dns.lookup).mockImplementation(async () => [{ address: "172.17.0.2", family: 4 }] as never);
+    expect(await parseSeedSources({ seedUrls: ["https://internal.example.org/"] }, [])).toHaveProperty("error");
+  });
+});
+
+describe("readResearchRequest", () => {
+  it("reads multipart uploads, one seed URL per line and JSON fields", async () => {
+    const form = new FormData();
+    form.append("topic", "heat pumps");
+    form.append("seedUrls", "https://a.example/\nhttps://b.example/");
+    form.append("seedOnly", "true");
+    form.append("files", new File(["# Notes"], "notes.md", { type: "text/markdown" }));
+
+    const { body, uploads } = await readResearchRequest(
+      new Request("http://localhost/api/agents/research", { method: "POST", body: form })
+    );
+    expect(body).toEqual({
+      topic: "heat pumps",
+      seedUrls: ["https://a.example/", "https://b.example/"],
+      seedOnly: true,
+    });
+    expect(uploads.map((u) => [u.name, u.type])).toEqual([["notes.md", "text/markdown"]]);
+  });
+
+  it("reads a JSON body as is", async () => {
+    const request = new Request("http://localhost/api/agents/research", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ topic: "heat pumps" }),
+    });
+    expect(await readResearchRequest(request)).toEqual({ body: { topic: "heat pumps" }, uploads: [] });
+  });
+});
+
+describe("loadSeedSources", () => {
+  it("turns readable uploads into results with upload:// URLs and lists the rest", async () => {
+    const loaded = await loadSeedSources({
+      seedUrls: [],
+      uploads: [
+        file("heat-pumps.md", "# Heat pump notes\n\nHeat pumps move heat from outside air into buildings."),
+        file("empty.txt", "Short."),
+      ],
+    });
+
+    expect(loaded.results).toEqual([
+      {
+        title: "Heat pump notes",
+        url: "upload://documents/1/heat-pumps.md",
+        snippet: "Heat pumps move heat from outside air into buildings.",
+        provider: "upload",
+      },
+    ]);
+    expect(loaded.pageContents.has("upload://documents/1/heat-pumps.md")).toBe(true);
+    expect(loaded.unreadable).toEqual(["empty.txt"]);
+  });
+
+  it("does not follow a seed URL's redirect to a private address", async () => {
+    // A followed redirect would land on the internal admin page
+    const fetch = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/robots.txt")) return new Response("", { status: 404 });
+      if (init?.redirect === "manual") {
+        return new Response(null, { status: 302, headers: { location: "http://127.0.0.1:8080/admin" } });
+      }
+      return new Response("<html><body><p>Internal admin console with every user account listed here.</p></body></html>", {
+        headers: { "content-type": "text/html" },
+      });
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    const loaded = await loadSeedSources({ seedUrls: ["https://redirect.example.org/report"], uploads: [] });
+    expect(loaded.unreadable).toEqual(["https://redirect.example.org/report"]);
+    expect(fetch.mock.calls.map(([url]) => url)).not.toContain("http://127.0.0.1:8080/admin");
+  });
+});
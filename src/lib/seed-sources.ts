@@ -0,0 +1,219 @@
+import type { CacheCounter } from "./cache";
+import type { HttpClient } from "./http";
+import { detectFormat, extractDocument } from "./document-extractor";
+import { reachesPrivateNetwork } from "./public-address";
+import { fetchPageContent, PageContent, SearchResult } from "./web-search";
+
+// ── Seed sources ─────────────────────────────────────────────────────────
+// Sources the user already has: URLs to fetch and uploaded files (Markdown,
+// PDF, DOCX, plain text). They enter research as ordinary search results
+// with their content already read, so fact extraction treats them like any
+// other source. Uploads get upload:// URLs for citation.
+
+export const MAX_SEED_URLS = 10;
+export const MAX_UPLOADS = 10;
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Seeds are read in full, up to this much text each (PDFs included) */
+const SEED_MAX_LENGTH = 60_000;
+const SNIPPET_LENGTH = 300;
+
+/** Fields of a multipart request that carry JSON rather than plain strings */
+const JSON_FIELDS = new Set([
+  "scoringWeights",
+  "maxRounds",
+  "queryBudget",
+  "seedOnly",
+  "useKnowledgeBase",
+  "saveToKnowledgeBase",
+  "topics",
+  "dimensions",
+  "reviewOutline",
+  "targetWordCount",
+  "repurpose",
+  "postLimit",
+]);
+
+export interface SeedDocument {
+  /** File name as uploaded, e.g. "q3-report.pdf" */
+  name: string;
+  /** MIME type sent by the browser, if any */
+  type?: string;
+  body: Uint8Array;
+}
+
+export interface SeedSources {
+  seedUrls: string[];
+  uploads: SeedDocument[];
+  /** Research from the seeds only, without web search */
+  seedOnly: boolean;
+}
+
+export interface LoadedSeeds {
+  results: SearchResult[];
+  pageContents: Map<string, PageContent>;
+  /** URLs and file names that could not be read */
+  unreadable: string[];
+}
+
+/**
+ * Fetch the seed URLs and extract the uploaded files. Each readable seed
+ * becomes a SearchResult (title and opening text as snippet) with its full
+ * content in `pageContents`. Redirects to private or local addresses are
+ * refused, so their seeds are listed as unreadable.
+ */
+export async function loadSeedSources(
+  { seedUrls, uploads }: Pick<SeedSources, "seedUrls" | "uploads">,
+  options: { http?: HttpClient; cacheCounter?: CacheCounter } = {}
+): Promise<LoadedSeeds> {
+  const loaded: LoadedSeeds = { results: [], pageContents: new Map(), unreadable: [] };
+
+  const fetched = await Promise.all(
+    seedUrls.map((url) => fetchPageContent(url, { ...options, maxLength: SEED_MAX_LENGTH, publicOnly: true }))
+  );
+  fetched.forEach((content, i) => add(loaded, seedUrls[i], content, "seed-url", hostname(seedUrls[i])));
+
+  for (const [i, file] of uploads.entries()) {
+    const url = `upload://documents/${i + 1}/${encodeURIComponent(file.name)}`;
+    const format = detectFormat(file.type || null, url, file.body);
+    const content = format ? await extractDocument(file.body, format, SEED_MAX_LENGTH, url) : null;
+    add(loaded, url, content, "upload", file.name.replace(/\.[^.]+$/, ""), file.name);
+  }
+
+  return loaded;
+}
+
+/**
+ * Read a research request body: JSON, or multipart form data whose file
+ * fields are uploads. In form data, `seedUrls` may be repeated or hold one
+ * URL per line, and JSON_FIELDS are parsed as JSON.
+ */
+export async function readResearchRequest(
+  request: Request
+): Promise<{ body: Record<string, unknown>; uploads: SeedDocument[] }> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return { body: await request.json(), uploads: [] };
+  }
+
+  const form = await request.formData();
+  const body: Record<string, unknown> = {};
+  const uploads: SeedDocument[] = [];
+  const seedUrls: string[] = [];
+
+  for (const [key, value] of form.entries()) {
+    if (typeof value !== "string") {
+      uploads.push({ name: value.name, type: value.type, body: new Uint8Array(await value.arrayBuffer()) });
+    } else if (key === "seedUrls") {
+      seedUrls.push(...value.split(/\r?\n/).map((u) => u.trim()).filter(Boolean));
+    } else if (JSON_FIELDS.has(key)) {
+      try {
+        body[key] = JSON.parse(value);
+      } catch {
+        body[key] = value;
+      }
+    } else {
+      body[key] = value;
+    }
+  }
+
+  if (seedUrls.length > 0) body.seedUrls = seedUrls;
+  return { body, uploads };
+}
+
+/**
+ * Validate `seedUrls`, `seedOnly` and the uploads of a research request.
+ * Seed URLs whose host is or resolves to a private or local address are
+ * rejected before anything is fetched.
+ */
+export async function parseSeedSources(
+  input: { seedUrls?: unknown; seedOnly?: unknown },
+  uploads: SeedDocument[]
+): Promise<{ seeds: SeedSources } | { error: string }> {
+  const seedUrls = input.seedUrls ?? [];
+  if (!Array.isArray(seedUrls) || !seedUrls.every((u) => typeof u === "string")) {
+    return { error: "Invalid seedUrls. Use an array of http(s) URLs" };
+  }
+  if (seedUrls.length > MAX_SEED_URLS) {
+    return { error: `Too many seedUrls. At most ${MAX_SEED_URLS} are allowed` };
+  }
+  const invalid = seedUrls.find((u) => !/^https?:$/.test(protocolOf(u)));
+  if (invalid !== undefined) {
+    return { error: `Invalid seed URL "${invalid}". Only http and https URLs are supported` };
+  }
+  const local = await Promise.all(seedUrls.map((u) => reachesPrivateNetwork(u.trim())));
+  const refused = seedUrls.find((_, i) => local[i]);
+  if (refused !== undefined) {
+    return { error: `Seed URL "${refused}" points to a private or local network address` };
+  }
+
+  if (uploads.length > MAX_UPLOADS) {
+    return { error: `Too many files. At most ${MAX_UPLOADS} can be uploaded` };
+  }
+  for (const file of uploads) {
+    if (file.body.byteLength > MAX_UPLOAD_BYTES) {
+      return { error: `File "${file.name}" is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` };
+    }
+    if (!detectFormat(file.type || null, `upload://documents/${encodeURIComponent(file.name)}`, file.body)) {
+      return { error: `Unsupported file "${file.name}". Upload Markdown, PDF, DOCX or plain text` };
+    }
+  }
+
+  if (input.seedOnly !== undefined && typeof input.seedOnly !== "boolean") {
+    return { error: "Invalid seedOnly. Use true or false" };
+  }
+  const seedOnly = input.seedOnly ?? false;
+  if (seedOnly && seedUrls.length === 0 && uploads.length === 0) {
+    return { error: "seedOnly needs at least one seed URL or uploaded file" };
+  }
+
+  return { seeds: { seedUrls: seedUrls.map((u) => u.trim()), uploads, seedOnly } };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function add(
+  loaded: LoadedSeeds,
+  url: string,
+  content: PageContent | null,
+  provider: string,
+  fallbackTitle: string,
+  label = url
+) {
+  if (!content || content.paragraphs.length === 0) {
+    loaded.unreadable.push(label);
+    return;
+  }
+
+  loaded.pageContents.set(url, content);
+  loaded.results.push({
+    title: content.title || fallbackTitle,
+    url,
+    snippet: snippetOf(content.paragraphs),
+    provider,
+  });
+}
+
+/** Opening paragraphs, cut at a word boundary. */
+function snippetOf(paragraphs: string[]): string {
+  const text = paragraphs.slice(0, 3).join(" ");
+  if (text.length <= SNIPPET_LENGTH) return text;
+  const cut = text.slice(0, SNIPPET_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : SNIPPET_LENGTH)}…`;
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function protocolOf(url: string): string {
+  try {
+    return new URL(url.trim()).protocol;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { segmenterLanguage, splitSentences } from "./sentence-segmenter";
+
+describe("splitSentences", () => {
+  it("keeps English abbreviations, initials and initialisms inside the sentence", () => {
+    expect(
+      splitSentences("Dr. Jane Doe met J. Smith at No. 5 Main St. in the U.S. last week. They agreed a plan.", "en")
+    ).toEqual(["Dr. Jane Doe met J. Smith at No. 5 Main St. in the U.S. last week.", "They agreed a plan."]);
+  });
+
+  it("splits after an initialism when the next word starts a sentence", () => {
+    expect(splitSentences("Prices rose in the U.S. The increase was small.", "en")).toEqual([
+      "Prices rose in the U.S.",
+      "The increase was small.",
+    ]);
+  });
+
+  it("reads German abbreviations and ordinals", () => {
+    expect(
+      splitSentences("Am 3. Oktober feiert man z. B. die Einheit. Das ist ein Feiertag.", "de")
+    ).toEqual(["Am 3. Oktober feiert man z. B. die Einheit.", "Das ist ein Feiertag."]);
+  });
+
+  it("keeps closing quotes with their sentence and short quotations whole", () => {
+    expect(splitSentences("She said “It works. Really.” Then she left.", "en")).toEqual([
+      "She said “It works. Really.”",
+      "Then she left.",
+    ]);
+    expect(splitSentences("« C'est fini. » Il est parti.", "fr")).toEqual(["« C'est fini. »", "Il est parti."]);
+  });
+
+  it("splits Japanese on CJK terminators", () => {
+    expect(splitSentences("ヒートポンプは効率的です。価格は下がっています。", "ja")).toEqual([
+      "ヒートポンプは効率的です。",
+      "価格は下がっています。",
+    ]);
+  });
+
+  it("always ends a sentence at a blank line", () => {
+    expect(splitSentences("A heading without a period\n\nThe body starts here.")).toEqual([
+      "A heading without a period",
+      "The body starts here.",
+    ]);
+  });
+});
+
+describe("segmenterLanguage", () => {
+  it("uses the tag's primary subtag or guesses from function words", () => {
+    expect(segmenterLanguage("", "fr-CA")).toBe("fr");
+    expect(segmenterLanguage("", "pt")).toBe("en");
+    expect(segmenterLanguage("Der Preis ist nicht mit den Kosten zu vergleichen.")).toBe("de");
+    expect(segmenterLanguage("価格は下がっています。")).toBe("ja");
+  });
+});
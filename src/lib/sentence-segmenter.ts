@@ -0,0 +1,222 @@
+// ── Sentence segmentation ────────────────────────────────────────────────
+// Rule-based splitter for English, German, French, Spanish and Japanese
+// (CJK punctuation generally). A period only ends a sentence when it isn't
+// an abbreviation ("Dr.", "z. B.", "Sra."), an initial or initialism
+// ("J.", "U.S." before a lowercase or non-starter word), or a German
+// ordinal ("3. Oktober"). Closing quotes and brackets stay with the
+// sentence they close, and short quoted or bracketed passages are never
+// split. Blank lines always end a sentence.
+
+export type SegmenterLanguage = "en" | "de" | "fr" | "es" | "ja";
+
+interface LanguageRules {
+  /** Abbreviations (lowercase, without the final period) that never end a sentence */
+  abbreviations: Set<string>;
+  /** Abbreviations that don't end a sentence before a number ("No. 5", "Jan. 3") */
+  numberAbbreviations: Set<string>;
+  /** Words that may start a sentence after an initialism such as "U.S." */
+  starters: Set<string>;
+  /** Opening → closing quote and bracket marks */
+  pairs: Record<string, string>;
+  /** Words after "<number>." that make the number an ordinal (German) */
+  ordinalFollowers?: Set<string>;
+}
+
+/** Quoted or bracketed passages longer than this may be split inside */
+const MAX_QUOTED_LENGTH = 300;
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const COMMON_ABBREVIATIONS = "e.g i.e vs cf ca approx al";
+const COMMON_NUMBER_ABBREVIATIONS = "no nr p pp vol fig art";
+
+const EN_MONTHS = "jan feb mar apr jun jul aug sep sept oct nov dec";
+const DE_MONTHS =
+  "januar februar märz april mai juni juli august september oktober november dezember";
+
+const EN_STARTERS =
+  "The This That These Those It Its In On At As For A An He She They We I His Her Their Our There But However And Yet";
+
+const DEFAULT_PAIRS: Record<string, string> = {
+  "(": ")", "[": "]", "“": "”", "«": "»", "「": "」", "『": "』", "（": "）",
+};
+
+const RULES: Record<SegmenterLanguage, LanguageRules> = {
+  en: {
+    abbreviations: words(`${COMMON_ABBREVIATIONS}
+      mr mrs ms dr prof sr jr st mt gen gov sen rep lt col capt sgt rev hon messrs
+      dept univ assn est ave blvd`),
+    numberAbbreviations: words(`${COMMON_NUMBER_ABBREVIATIONS} ${EN_MONTHS}`),
+    starters: words(EN_STARTERS),
+    pairs: DEFAULT_PAIRS,
+  },
+  de: {
+    abbreviations: words(`${COMMON_ABBREVIATIONS}
+      z.b d.h u.a o.ä s.o s.u z d u usw bzw vgl ggf inkl evtl sog bzgl ca mio mrd tsd
+      dr prof hr fr str jh dipl ing`),
+    numberAbbreviations: words(`${COMMON_NUMBER_ABBREVIATIONS} abs s bd jan feb okt dez`),
+    starters: words(`${EN_STARTERS} Der Die Das Es Er Sie Wir Ein Eine Im Am Aber Dies Diese Auch`),
+    pairs: { "„": "“", "»": "«", "(": ")", "[": "]", "‚": "‘" },
+    ordinalFollowers: words(`${DE_MONTHS} jahrhundert jahrtausend jahrestag platz mal klasse liga auflage stock`),
+  },
+  fr: {
+    abbreviations: words(`${COMMON_ABBREVIATIONS} m mm mme mmes mlle dr pr me st ste env av bd`),
+    numberAbbreviations: words(`${COMMON_NUMBER_ABBREVIATIONS} n janv févr avr juil sept oct nov déc`),
+    starters: words(`${EN_STARTERS} Le La Les Il Elle Ils Elles Un Une En Dans Mais Ce Cette Selon`),
+    pairs: DEFAULT_PAIRS,
+  },
+  es: {
+    abbreviations: words(`${COMMON_ABBREVIATIONS}
+      sr sra srta sres dr dra d dña ud uds lic ing gral av avda p.ej aprox ee.uu ee`),
+    numberAbbreviations: words(`${COMMON_NUMBER_ABBREVIATIONS} núm pág ene abr ago sept dic`),
+    starters: words(`${EN_STARTERS} El La Los Las Un Una En Pero Este Esta Según Sin`),
+    pairs: DEFAULT_PAIRS,
+  },
+  ja: {
+    abbreviations: words(COMMON_ABBREVIATIONS),
+    numberAbbreviations: words(COMMON_NUMBER_ABBREVIATIONS),
+    starters: words(EN_STARTERS),
+    pairs: DEFAULT_PAIRS,
+  },
+};
+
+/** Function words used to guess the language of untagged text */
+const LANGUAGE_MARKERS: Array<[SegmenterLanguage, Set<string>]> = [
+  ["en", words("the and of is are to that with was for")],
+  ["de", words("der die und das ist nicht mit den von zu")],
+  ["fr", words("le les et des est une dans du pour au")],
+  ["es", words("el los las y es una del que por con")],
+];
+
+const TERMINATOR = /[.!?…。！？．]+/g;
+const CJK_TERMINATOR = /[。！？．]/;
+/** Closing marks kept with the sentence; French » may follow a space */
+const CLOSERS = /(?:[”’"'）)\]」』»“«]|[ \u00a0\u202f]»)*/y;
+const NEXT_TOKEN = /\s+(\S+)/y;
+/** What may open the next sentence: a capital, a digit or an opening mark */
+const SENTENCE_START = /^[\p{Lu}\p{N}¿¡«“„"'(\[「『]/u;
+const OPENING_MARKS = /^[¿¡«“„"'(\[「『]+/;
+
+/**
+ * Split text into trimmed sentences. `language` is a BCP 47 tag ("de",
+ * "fr-CA"); without one the language is guessed from the text.
+ */
+export function splitSentences(text: string, language?: string): string[] {
+  const rules = RULES[segmenterLanguage(text, language)];
+  return text
+    .split(/\n\s*\n/)
+    .flatMap((block) => splitBlock(block, rules))
+    .filter((s) => s.length > 0);
+}
+
+/** The supported language a tag refers to, or the one the text looks like. */
+export function segmenterLanguage(text: string, language?: string): SegmenterLanguage {
+  const base = language?.toLowerCase().split(/[-_]/)[0];
+  if (base && base in RULES) return base as SegmenterLanguage;
+  if (base === "zh" || base === "ko" || /[぀-ヿ㐀-鿿]/.test(text)) return "ja";
+
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best: SegmenterLanguage = "en";
+  let bestHits = 0;
+  for (const [lang, markers] of LANGUAGE_MARKERS) {
+    const hits = tokens.filter((t) => markers.has(t)).length;
+    if (hits > bestHits) {
+      best = lang;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function splitBlock(text: string, rules: LanguageRules): string[] {
+  const spans = quotedSpans(text, rules.pairs);
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(TERMINATOR)) {
+    const index = match.index ?? 0;
+    CLOSERS.lastIndex = index + match[0].length;
+    CLOSERS.exec(text);
+    const boundary = CLOSERS.lastIndex;
+
+    if (spans.some(([open, close]) => open < index && boundary <= close)) continue;
+    if (CJK_TERMINATOR.test(match[0])) {
+      // 「…？」と言った: a quotative particle after the quote continues the sentence
+      if (boundary > index + match[0].length && /^[ぁ-ゖ]/.test(text.slice(boundary))) continue;
+    } else if (!endsSentence(text, start, index, boundary, match[0], rules)) {
+      continue;
+    }
+
+    sentences.push(text.slice(start, boundary).trim());
+    start = boundary;
+  }
+
+  sentences.push(text.slice(start).trim());
+  return sentences;
+}
+
+/** Whether a Western terminator at `index` (ending at `boundary`) closes a sentence. */
+function endsSentence(
+  text: string,
+  start: number,
+  index: number,
+  boundary: number,
+  terminator: string,
+  rules: LanguageRules
+): boolean {
+  if (boundary >= text.length) return true;
+
+  // "3.5", "U.S.-based", "example.com": no space, no boundary
+  NEXT_TOKEN.lastIndex = boundary;
+  const next = NEXT_TOKEN.exec(text)?.[1];
+  if (!next) return !/\S/.test(text.slice(boundary));
+  if (!SENTENCE_START.test(next)) return false;
+  if (terminator !== ".") return true;
+
+  const word = (/(\S+)$/.exec(text.slice(start, index))?.[1] ?? "").replace(OPENING_MARKS, "");
+  const lower = word.toLowerCase();
+  const nextWord = next.replace(OPENING_MARKS, "").replace(/[^\p{L}\p{N}]+$/u, "");
+
+  if (rules.abbreviations.has(lower)) return false;
+  if (rules.numberAbbreviations.has(lower) && /^\d/.test(nextWord)) return false;
+  // "J. R. R. Tolkien"
+  if (/^\p{Lu}$/u.test(word)) return false;
+  // "U.S. officials" vs "…in the U.S. The report…"
+  if (/^(?:\p{L}\.)+\p{L}$/u.test(word) && !rules.starters.has(nextWord)) return false;
+  // "am 3. Oktober", "im 19. Jahrhundert"
+  if (rules.ordinalFollowers && /^\d{1,3}$/.test(word) && rules.ordinalFollowers.has(nextWord.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * [open, close] index pairs of short quoted or bracketed passages. Straight
+ * double quotes pair up in order; typographic marks pair with the nearest
+ * matching closer.
+ */
+function quotedSpans(text: string, pairs: Record<string, string>): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  let straightOpen = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      if (straightOpen < 0) straightOpen = i;
+      else {
+        if (i - straightOpen <= MAX_QUOTED_LENGTH) spans.push([straightOpen, i]);
+        straightOpen = -1;
+      }
+      continue;
+    }
+
+    const closer = pairs[ch];
+    if (!closer) continue;
+    const close = text.indexOf(closer, i + 1);
+    if (close > 0 && close - i <= MAX_QUOTED_LENGTH) spans.push([i, close]);
+  }
+
+  return spans;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { ArticleCitation } from "@/agents/types";
+import { parseRepurposeOptions, parseRepurposeSources, repurposeArticle } from "./social-derivatives";
+
+const citations: ArticleCitation[] = [
+  { index: 1, sourceTitle: "Federal Association", sourceUrl: "https://bwp.example/market-2023" },
+  { index: 2, sourceTitle: "Energy Agency", sourceUrl: "https://agency.example/costs" },
+  { index: 3, sourceTitle: "Q3 report", sourceUrl: "upload://documents/1/q3-report.pdf" },
+];
+
+const article = [
+  "Heat pumps are drawing attention across Europe as gas prices stay high.",
+  "## Heat pumps today",
+  "According to Federal Association, Germany installed 356,000 heat pumps in 2023. [1] Furthermore, installers say older homes are now a common fit. [3]",
+  "Energy Agency notes that a typical heat pump costs about 15,000 euros to install. [2]",
+  '"Heat pumps are now the cheapest way to heat a new home," said Jane Doe. [1]',
+  "---\nSources:\n[1] Federal Association\n[2] Energy Agency\n[3] Q3 report",
+].join("\n\n");
+
+describe("repurposeArticle", () => {
+  const derivatives = repurposeArticle({
+    title: "Heat Pumps in Germany",
+    article,
+    topic: "heat pumps",
+    citations,
+    seoKeywords: ["heat pumps", "energy transition"],
+    articleUrl: "https://blog.example/heat-pumps",
+  });
+
+  it("takes cited statements as key facts, lead-ins stripped and figures first", () => {
+    expect(derivatives.keyFacts).toEqual([
+      { text: "Germany installed 356,000 heat pumps in 2023.", citations: [1] },
+      { text: "A typical heat pump costs about 15,000 euros to install.", citations: [2] },
+      { text: "Installers say older homes are now a common fit.", citations: [3] },
+    ]);
+  });
+
+  it("numbers the thread and links each fact's sources, or names uploads", () => {
+    const texts = derivatives.thread.map((p) => p.text);
+    expect(texts[0]).toMatch(/^1\/5 Heat Pumps in Germany/);
+    expect(texts[1]).toBe("2/5 Germany installed 356,000 heat pumps in 2023. https://bwp.example/market-2023");
+    expect(texts[3]).toBe("4/5 Installers say older homes are now a common fit. (Q3 report)");
+    expect(texts[4]).toBe("5/5 Read the full article: https://blog.example/heat-pumps");
+    for (const post of derivatives.thread) expect(post.length).toBeLessThanOrEqual(280);
+  });
+
+  it("renumbers the LinkedIn post's sources in order of use and adds hashtags", () => {
+    const post = derivatives.linkedInPost;
+    expect(post).toContain("• Germany installed 356,000 heat pumps in 2023. [1]");
+    expect(post).toContain("• A typical heat pump costs about 15,000 euros to install. [2]");
+    expect(post).toContain("[3] Q3 report — upload://documents/1/q3-report.pdf");
+    expect(post.endsWith("#HeatPumps #EnergyTransition")).toBe(true);
+  });
+
+  it("writes an email teaser and a plain meta description", () => {
+    expect(derivatives.emailTeaser.subject).toBe("Heat Pumps in Germany");
+    expect(derivatives.emailTeaser.body.startsWith("Heat pumps are drawing attention")).toBe(true);
+    expect(derivatives.emailTeaser.body).toContain("Read the full article: https://blog.example/heat-pumps");
+    expect(derivatives.metaDescription.length).toBeLessThanOrEqual(160);
+    expect(derivatives.metaDescription).not.toMatch(/https?:|\[\d/);
+  });
+});
+
+describe("parseRepurposeOptions", () => {
+  it("defaults the post limit and accepts an http(s) article URL", () => {
+    expect(parseRepurposeOptions({})).toEqual({ options: { postLimit: 280 } });
+    expect(parseRepurposeOptions({ postLimit: 500, articleUrl: " https://blog.example/a " })).toEqual({
+      options: { postLimit: 500, articleUrl: "https://blog.example/a" },
+    });
+  });
+
+  it("rejects out-of-range limits and other URL schemes", () => {
+    expect(parseRepurposeOptions({ postLimit: 50 })).toHaveProperty("error");
+    expect(parseRepurposeOptions({ postLimit: 280.5 })).toHaveProperty("error");
+    expect(parseRepurposeOptions({ articleUrl: "javascript:alert(1)" })).toHaveProperty("error");
+  });
+});
+
+describe("parseRepurposeSources", () => {
+  it("accepts well-formed citations and keyword strings", () => {
+    const citations = [{ index: 1, sourceTitle: "Report", sourceUrl: "https://example.org/report" }];
+    expect(parseRepurposeSources({})).toEqual({ sources: { citations: [] } });
+    expect(parseRepurposeSources({ citations, seoKeywords: ["heat pumps"] })).toEqual({
+      sources: { citations, seoKeywords: ["heat pumps"] },
+    });
+  });
+
+  it("rejects malformed citations and non-string keywords", () => {
+    const citation = { index: 1, sourceTitle: "Report", sourceUrl: "https://example.org/report" };
+    expect(parseRepurposeSources({ citations: "[1]" })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [null] })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [{ ...citation, index: 0 }] })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [{ ...citation, index: 1.5 }] })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [{ ...citation, index: "1" }] })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [{ ...citation, sourceUrl: 42 }] })).toHaveProperty("error");
+    expect(parseRepurposeSources({ citations: [{ index: 1, sourceUrl: "https://example.org" }] })).toHaveProperty(
+      "error"
+    );
+    expect(parseRepurposeSources({ seoKeywords: "heat pumps" })).toHaveProperty("error");
+    expect(parseRepurposeSources({ seoKeywords: ["heat pumps", 3] })).toHaveProperty("error");
+  });
+});
+
+const longCitations: ArticleCitation[] = [1, 2, 3, 4].map((index) => ({
+  index,
+  sourceTitle: `Source ${index}`,
+  sourceUrl: `https://example.org/reports/heat-pumps/${index}/${"annual-market-review-".repeat(4)}${index}`,
+}));
+
+const longArticle = [
+  "Heat pumps are drawing attention across Europe.",
+  "Germany installed 356,000 heat pumps in 2023, according to the federal association, up from 236,000 the year before and more than in any earlier year on record. [1][2][3][4]",
+  `A ${"supercalifragilistic".repeat(8)} installer network now covers every region. [2]`,
+  "---\nSources:\n[1] Source 1",
+].join("\n\n");
+
+describe("repurposeArticle thread", () => {
+  const { thread } = repurposeArticle({
+    title: "Heat Pumps in Germany",
+    article: longArticle,
+    topic: "heat pumps",
+    citations: longCitations,
+    postLimit: 100,
+    articleUrl: `https://example.org/articles/${"heat-pumps-in-germany-".repeat(6)}`,
+  });
+
+  it("keeps every post within the post limit", () => {
+    for (const post of thread) expect(post.length).toBeLessThanOrEqual(100);
+  });
+
+  it("links every source and the article whole", () => {
+    const text = thread.map((post) => post.text).join(" ");
+    for (const citation of longCitations) expect(text).toContain(citation.sourceUrl);
+    expect(text).toContain(`https://example.org/articles/${"heat-pumps-in-germany-".repeat(6)}`);
+  });
+});
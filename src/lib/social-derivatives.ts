@@ -0,0 +1,431 @@
+import type { ArticleCitation, EmailTeaser, RepurposedFact, ThreadPost } from "@/agents/types";
+import { stripLeadIns } from "./article-composer";
+import { parseFigures } from "./statistics-extractor";
+
+// ── Social derivatives ───────────────────────────────────────────────────
+// A finished article repurposed for other channels: an X/Twitter thread, a
+// LinkedIn post, an email teaser and a meta description. All four are built
+// from the article's key facts (its cited statements, those with figures
+// first) and link the sources the article cites for them.
+
+export const DEFAULT_POST_LIMIT = 280;
+export const MIN_POST_LIMIT = 100;
+export const MAX_POST_LIMIT = 4000;
+
+const MAX_KEY_FACTS = 5;
+/** X counts every link as this many characters, however long it is */
+const X_LINK_LENGTH = 23;
+const LINKEDIN_LIMIT = 3000;
+const MAX_HASHTAGS = 3;
+const EMAIL_SUBJECT_LIMIT = 60;
+const EMAIL_FACTS = 2;
+const META_DESCRIPTION_LIMIT = 160;
+
+const REFERENCES_MARKER = /\s*---\s*\nSources:/;
+/** A run of citation markers closing a statement, e.g. " [2][5]" or " [3, p. 12]" */
+const CITATION_RUN = /((?:\s*\[\d+(?:, p\. \d+)?\])+)/;
+const LIST_MARKER = /^(?:•|\d+\.)\s+/;
+/** A press release's "Berlin, March 3, 2025 — " */
+const DATELINE = /^[^—]*\b\d{4} —\s+/;
+const LINK = /https?:\/\/\S+/g;
+
+export interface RepurposeOptions {
+  title: string;
+  /** The edited article, with its Sources list */
+  article: string;
+  topic: string;
+  citations: ArticleCitation[];
+  /** The editor's SEO keywords; the first few become hashtags */
+  seoKeywords?: string[];
+  /** Characters per X post */
+  postLimit?: number;
+  /** Where the full article is published; every derivative but the meta description links it */
+  articleUrl?: string;
+}
+
+export interface Derivatives {
+  keyFacts: RepurposedFact[];
+  thread: ThreadPost[];
+  postLimit: number;
+  linkedInPost: string;
+  emailTeaser: EmailTeaser;
+  metaDescription: string;
+}
+
+/**
+ * Repurpose an article. Key facts are the cited statements of its body,
+ * lead-ins stripped ("According to …", "Furthermore,"), up to five, those
+ * with figures first. Each derivative keeps the facts' source links: the
+ * thread and teaser link them inline, the LinkedIn post numbers them and
+ * lists them under "Sources:".
+ */
+export function repurposeArticle({
+  title,
+  article,
+  topic,
+  citations,
+  seoKeywords = [],
+  postLimit = DEFAULT_POST_LIMIT,
+  articleUrl,
+}: RepurposeOptions): Derivatives {
+  const body = article.split(REFERENCES_MARKER)[0];
+  const facts = keyFacts(body, topic, citations);
+  const opening = openingOf(body);
+
+  return {
+    keyFacts: facts,
+    thread: buildThread(title, facts, citations, postLimit, articleUrl),
+    postLimit,
+    linkedInPost: buildLinkedInPost(title, opening, facts, citations, seoKeywords, articleUrl),
+    emailTeaser: buildEmailTeaser(title, opening, facts, citations, articleUrl),
+    metaDescription: buildMetaDescription(title, opening, facts),
+  };
+}
+
+/**
+ * Validate the optional `postLimit` (100–4000 characters; 280 by default)
+ * and `articleUrl` (http or https) of a repurpose request.
+ */
+export function parseRepurposeOptions(input: {
+  postLimit?: unknown;
+  articleUrl?: unknown;
+}): { options: { postLimit: number; articleUrl?: string } } | { error: string } {
+  const postLimit = input.postLimit ?? DEFAULT_POST_LIMIT;
+  if (
+    typeof postLimit !== "number" ||
+    !Number.isInteger(postLimit) ||
+    postLimit < MIN_POST_LIMIT ||
+    postLimit > MAX_POST_LIMIT
+  ) {
+    return {
+      error: `Invalid postLimit. Use a whole number of characters from ${MIN_POST_LIMIT} to ${MAX_POST_LIMIT}`,
+    };
+  }
+
+  if (input.articleUrl === undefined) return { options: { postLimit } };
+  if (typeof input.articleUrl !== "string" || !/^https?:$/.test(protocolOf(input.articleUrl))) {
+    return { error: "Invalid articleUrl. Use an http or https URL" };
+  }
+  return { options: { postLimit, articleUrl: input.articleUrl.trim() } };
+}
+
+/**
+ * Validate the optional `citations` (each { index, sourceTitle, sourceUrl }
+ * with a positive whole index) and `seoKeywords` (strings) of a repurpose
+ * request.
+ */
+export function parseRepurposeSources(input: {
+  citations?: unknown;
+  seoKeywords?: unknown;
+}): { sources: { citations: ArticleCitation[]; seoKeywords?: string[] } } | { error: string } {
+  const citations = input.citations ?? [];
+  const isCitation = (c: unknown): c is ArticleCitation => {
+    const { index, sourceTitle, sourceUrl } = (c ?? {}) as Record<string, unknown>;
+    return (
+      typeof index === "number" &&
+      Number.isInteger(index) &&
+      index > 0 &&
+      typeof sourceTitle === "string" &&
+      typeof sourceUrl === "string"
+    );
+  };
+  if (!Array.isArray(citations) || !citations.every(isCitation)) {
+    return {
+      error: "Invalid citations. Use an array of { index, sourceTitle, sourceUrl } with a positive whole index",
+    };
+  }
+
+  const seoKeywords = input.seoKeywords;
+  if (seoKeywords === undefined) return { sources: { citations } };
+  if (!Array.isArray(seoKeywords) || !seoKeywords.every((k) => typeof k === "string")) {
+    return { error: "Invalid seoKeywords. Use an array of strings" };
+  }
+  return { sources: { citations, seoKeywords } };
+}
+
+// ── Key facts ────────────────────────────────────────────────────────────
+
+/**
+ * Cited statements of the body, in article order, then stably sorted so
+ * those with figures come first. Headings, tables, quotes and lists under a label
+ * ("Key figures:", "In this issue:") are skipped: the quotes are the
+ * sources' words, and the lists repeat facts the body tells in full.
+ */
+function keyFacts(body: string, topic: string, citations: ArticleCitation[]): RepurposedFact[] {
+  const titles = citations.map((c) => c.sourceTitle);
+  const known = new Set(citations.map((c) => c.index));
+  const facts: RepurposedFact[] = [];
+
+  for (const paragraph of body.split(/\n{2,}/)) {
+    const lines = paragraph.split("\n");
+    if (lines.length > 1 && lines[0].trim().endsWith(":")) continue;
+
+    for (const line of lines) {
+      if (/^[#|]/.test(line) || line.includes('"')) continue;
+      const parts = line.replace(LIST_MARKER, "").replace(DATELINE, "").split(CITATION_RUN);
+
+      // Split on a capturing group: statement, citations, statement, citations, …, rest
+      for (let i = 0; i + 1 < parts.length; i += 2) {
+        // Markers may sit before the full stop ("… units [1]. Prices fell [2].")
+        const statement = parts[i].replace(/^[\s.;,]+/, "").trim();
+        if (!statement) continue;
+        const text = stripLeadIns(/[.!?]$/.test(statement) ? statement : `${statement}.`, topic, titles);
+        const cited = [...parts[i + 1].matchAll(/\[(\d+)/g)]
+          .map((m) => Number(m[1]))
+          .filter((n) => known.has(n));
+        if (!text || cited.length === 0) continue;
+
+        const key = text.toLowerCase();
+        const same = facts.find((f) => f.text.toLowerCase().includes(key) || key.includes(f.text.toLowerCase()));
+        if (same) continue;
+        facts.push({ text, citations: [...new Set(cited)] });
+      }
+    }
+  }
+
+  const hasFigures = (fact: RepurposedFact) => parseFigures(fact.text).length > 0;
+  return facts.sort((a, b) => Number(hasFigures(b)) - Number(hasFigures(a))).slice(0, MAX_KEY_FACTS);
+}
+
+/**
+ * The article's own opening: the last plain paragraph before its first
+ * cited one. Press releases (which open on "FOR IMMEDIATE RELEASE" and
+ * their lead fact) have none.
+ */
+function openingOf(body: string): string | undefined {
+  let opening: string | undefined;
+  for (const paragraph of body.split(/\n{2,}/).map((p) => p.trim())) {
+    if (CITATION_RUN.test(paragraph)) break;
+    if (!paragraph || paragraph.startsWith("#") || paragraph.includes("\n")) continue;
+    if (paragraph === paragraph.toUpperCase()) continue;
+    opening = paragraph;
+  }
+  return opening;
+}
+
+// ── Derivatives ──────────────────────────────────────────────────────────
+
+/**
+ * An X thread: the title, then one post per key fact with its source
+ * links, then the article link. A fact too long for one post runs on into
+ * the next, split between words; its links go with the last part, and run
+ * on into further posts when they don't all fit. Posts are numbered "2/7",
+ * and the number counts toward the limit.
+ */
+function buildThread(
+  title: string,
+  facts: RepurposedFact[],
+  citations: ArticleCitation[],
+  postLimit: number,
+  articleUrl?: string
+): ThreadPost[] {
+  // Leave room for the widest number ("7/7 ", then "12/12 " if the posts run into double digits)
+  let digits = 1;
+  let posts = threadPosts(title, facts, citations, postLimit - 2 * digits - 2, articleUrl);
+  while (String(posts.length).length > digits) {
+    digits = String(posts.length).length;
+    posts = threadPosts(title, facts, citations, postLimit - 2 * digits - 2, articleUrl);
+  }
+
+  return posts.map((post, i) => {
+    const text = `${i + 1}/${posts.length} ${post}`;
+    return { text, length: xLength(text) };
+  });
+}
+
+/** The thread's posts before numbering, each within `room` characters. */
+function threadPosts(
+  title: string,
+  facts: RepurposedFact[],
+  citations: ArticleCitation[],
+  room: number,
+  articleUrl?: string
+): string[] {
+  const posts: string[] = [truncate(`${title}\n\nThe key facts, with their sources:`, room)];
+
+  for (const fact of facts) {
+    // The source note stays in one piece where a post has room for it, else its links go one by one
+    const note = sourceNote(fact, citations);
+    const tail = xLength(note) <= room ? [note] : note.split(" ");
+    posts.push(...packWords([...fact.text.split(/\s+/), ...tail], room));
+  }
+
+  if (articleUrl) posts.push(...packWords(`Read the full article: ${articleUrl}`.split(" "), room));
+  return posts;
+}
+
+/**
+ * `words` joined into as few posts of at most `room` characters (as X
+ * counts them) as they fit. A link always fits a post of its own; a word
+ * too long for one is cut.
+ */
+function packWords(words: string[], room: number): string[] {
+  const posts: string[] = [];
+  let current = "";
+  for (const word of words.filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (xLength(next) <= room) {
+      current = next;
+      continue;
+    }
+    if (current) posts.push(current);
+    current = word;
+    while (xLength(current) > room) {
+      const chars = [...current];
+      posts.push(chars.slice(0, room).join(""));
+      current = chars.slice(room).join("");
+    }
+  }
+  if (current) posts.push(current);
+  return posts;
+}
+
+/**
+ * A LinkedIn post: title, the article's opening, the key facts as
+ * takeaways and the sources they cite, renumbered in order of use.
+ * Takeaways are dropped from the end while the post is over 3000
+ * characters.
+ */
+function buildLinkedInPost(
+  title: string,
+  opening: string | undefined,
+  facts: RepurposedFact[],
+  citations: ArticleCitation[],
+  seoKeywords: string[],
+  articleUrl?: string
+): string {
+  const byIndex = new Map(citations.map((c) => [c.index, c]));
+  const compose = (shown: RepurposedFact[]) => {
+    const numbers = new Map<number, number>();
+    const takeaways = shown.map((fact) => {
+      const refs = fact.citations.filter((n) => byIndex.has(n)).map((n) => {
+        if (!numbers.has(n)) numbers.set(n, numbers.size + 1);
+        return `[${numbers.get(n)}]`;
+      });
+      return `• ${fact.text} ${refs.join("")}`;
+    });
+    const sources = [...numbers].flatMap(([n, number]) => {
+      const citation = byIndex.get(n);
+      return citation ? [`[${number}] ${citation.sourceTitle} — ${linkOf(citation) ?? citation.sourceUrl}`] : [];
+    });
+
+    return [
+      title,
+      opening,
+      takeaways.length > 0 ? `Key takeaways:\n${takeaways.join("\n")}` : undefined,
+      articleUrl ? `Read the full article: ${articleUrl}` : undefined,
+      sources.length > 0 ? `Sources:\n${sources.join("\n")}` : undefined,
+      hashtags(seoKeywords),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  };
+
+  let shown = facts;
+  let post = compose(shown);
+  while (post.length > LINKEDIN_LIMIT && shown.length > 1) {
+    shown = shown.slice(0, -1);
+    post = compose(shown);
+  }
+  return post;
+}
+
+/** Subject: the title, cut to 60 characters. Body: the opening, the top two facts with their links, a call to action. */
+function buildEmailTeaser(
+  title: string,
+  opening: string | undefined,
+  facts: RepurposedFact[],
+  citations: ArticleCitation[],
+  articleUrl?: string
+): EmailTeaser {
+  const highlights = facts.slice(0, EMAIL_FACTS).map((fact) => {
+    const links = sourceNote(fact, citations);
+    return links ? `• ${fact.text} ${links}` : `• ${fact.text}`;
+  });
+
+  return {
+    subject: truncate(title, EMAIL_SUBJECT_LIMIT),
+    body: [
+      opening,
+      highlights.join("\n"),
+      articleUrl ? `Read the full article: ${articleUrl}` : "The full article has the rest of the story.",
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+/**
+ * Up to 160 characters: the top facts that fit whole, else the first cut
+ * at a word. No links or citation markers: search engines show the meta
+ * description as plain text.
+ */
+function buildMetaDescription(title: string, opening: string | undefined, facts: RepurposedFact[]): string {
+  let description = "";
+  for (const { text } of facts) {
+    const next = description ? `${description} ${text}` : text;
+    if (next.length > META_DESCRIPTION_LIMIT) break;
+    description = next;
+  }
+  return description || truncate(facts[0]?.text ?? opening ?? title, META_DESCRIPTION_LIMIT);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * The links of a fact's sources, or their titles in parentheses when none
+ * is on the web (uploaded documents have upload:// URLs).
+ */
+function sourceNote(fact: RepurposedFact, citations: ArticleCitation[]): string {
+  const cited = fact.citations
+    .map((n) => citations.find((c) => c.index === n))
+    .filter((c): c is ArticleCitation => c !== undefined);
+  const links = [...new Set(cited.map(linkOf).filter((l): l is string => l !== undefined))];
+  if (links.length > 0) return links.join(" ");
+  return cited.length > 0 ? `(${cited.map((c) => c.sourceTitle).join("; ")})` : "";
+}
+
+/** A citation's web link, canonical URL preferred. */
+function linkOf(citation: ArticleCitation): string | undefined {
+  const url = citation.canonicalUrl ?? citation.sourceUrl;
+  return /^https?:\/\//.test(url) ? url : undefined;
+}
+
+/** Length as X counts it: every link is 23 characters. */
+function xLength(text: string): number {
+  return [...text.replace(LINK, "x".repeat(X_LINK_LENGTH))].length;
+}
+
+/** "#HeatPumps" from "heat pumps"; keywords already used are skipped. */
+function hashtags(keywords: string[]): string | undefined {
+  const tags = [
+    ...new Set(
+      keywords.map(
+        (k) =>
+          "#" +
+          k
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(Boolean)
+            .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+            .join("")
+      )
+    ),
+  ].filter((t) => t.length > 1);
+  return tags.length > 0 ? tags.slice(0, MAX_HASHTAGS).join(" ") : undefined;
+}
+
+/** Cut at a word boundary, with an ellipsis, to at most `limit` characters. */
+function truncate(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > 0 ? cut.slice(0, space) : cut).replace(/[\s,;:—-]+$/, "")}…`;
+}
+
+function protocolOf(url: string): string {
+  try {
+    return new URL(url.trim()).protocol;
+  } catch {
+    return "";
+  }
+}
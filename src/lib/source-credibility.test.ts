@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { SourcePolicy } from "@/agents/types";
+import { credibilityWeight, SourceCredibilityScorer } from "./source-credibility";
+
+const scorer = new SourceCredibilityScorer({
+  allowlist: ["heatpump-association.de"],
+  denylist: ["spam.example"],
+  tiers: { primary: [], reputable: ["trade-journal.com"], low: ["bbc.com"] },
+});
+
+describe("SourceCredibilityScorer", () => {
+  it("tiers domains by built-in suffix and publication lists, subdomains included", () => {
+    expect(scorer.assess("https://www.energy.gov/heat-pumps").tier).toBe("primary");
+    expect(scorer.assess("https://ec.europa.eu/energy").tier).toBe("primary");
+    expect(scorer.assess("https://www.reuters.com/business").tier).toBe("reputable");
+    expect(scorer.assess("https://someone.medium.com/post").tier).toBe("low");
+    expect(scorer.assess("https://example.org/page").tier).toBe("general");
+    expect(scorer.assess("file:///corpus/notes.md").tier).toBe("reputable");
+  });
+
+  it("lets operator lists override the built-in tiers", () => {
+    expect(scorer.assess("https://trade-journal.com/a")).toMatchObject({
+      tier: "reputable",
+      reason: "operator tier list",
+    });
+    expect(scorer.assess("https://www.bbc.com/news").tier).toBe("low");
+    expect(scorer.assess("https://heatpump-association.de/stats")).toMatchObject({
+      tier: "primary",
+      reason: "allowlist",
+    });
+  });
+
+  it("never allows denylisted domains", () => {
+    expect(scorer.assess("https://news.spam.example/a", "any")).toMatchObject({ allowed: false, tier: "low" });
+  });
+
+  it("drops the tiers a policy excludes", () => {
+    const allowed = (url: string, policy: SourcePolicy) => scorer.assess(url, policy).allowed;
+    expect(allowed("https://example.org/page", "no-low")).toBe(true);
+    expect(allowed("https://medium.com/post", "no-low")).toBe(false);
+    expect(allowed("https://example.org/page", "reputable")).toBe(false);
+    expect(allowed("https://www.reuters.com/a", "primary")).toBe(false);
+    expect(allowed("https://www.energy.gov/a", "allowlist")).toBe(false);
+    expect(allowed("https://heatpump-association.de/a", "allowlist")).toBe(true);
+  });
+});
+
+describe("credibilityWeight", () => {
+  it("scales sentence scores from 0.7× to 1.5×", () => {
+    expect(credibilityWeight(0.2)).toBeCloseTo(0.7);
+    expect(credibilityWeight(1)).toBe(1.5);
+  });
+});
@@ -0,0 +1,175 @@
+import type { SourceCredibility, SourcePolicy, SourceTier } from "@/agents/types";
+
+// ── Source credibility ───────────────────────────────────────────────────
+// Assigns each source URL a trust tier from its domain: operator allow/deny
+// lists first, then operator-maintained tier lists, then built-in suffix and
+// publication lists. The tier's score weights fact selection, and a
+// SourcePolicy can drop whole tiers from a research run.
+
+export const SOURCE_POLICIES: SourcePolicy[] = ["any", "no-low", "reputable", "primary", "allowlist"];
+
+const TIER_SCORES: Record<SourceTier, number> = {
+  primary: 1,
+  reputable: 0.8,
+  general: 0.5,
+  low: 0.2,
+};
+
+const TIER_RANK: Record<SourceTier, number> = { primary: 3, reputable: 2, general: 1, low: 0 };
+
+/** Government, intergovernmental and academic domain suffixes */
+const PRIMARY_SUFFIXES = [
+  "gov", "mil", "int", "edu",
+  "gov.uk", "ac.uk", "nhs.uk", "gov.au", "edu.au", "gc.ca", "gouv.fr", "bund.de",
+  "gob.es", "gov.it", "go.jp", "ac.jp", "gov.in", "ac.in", "govt.nz", "ac.nz",
+  "europa.eu", "un.org", "who.int", "worldbank.org", "imf.org", "oecd.org",
+];
+
+/** Scholarly publishers, preprint servers and indexes */
+const PRIMARY_DOMAINS = [
+  "doi.org", "arxiv.org", "biorxiv.org", "medrxiv.org", "pubmed.ncbi.nlm.nih.gov",
+  "ncbi.nlm.nih.gov", "nature.com", "science.org", "sciencedirect.com", "springer.com",
+  "wiley.com", "thelancet.com", "nejm.org", "bmj.com", "jstor.org", "plos.org",
+];
+
+/** Established news organizations and reference works */
+const REPUTABLE_DOMAINS = [
+  "reuters.com", "apnews.com", "afp.com", "bbc.co.uk", "bbc.com", "nytimes.com",
+  "washingtonpost.com", "theguardian.com", "economist.com", "ft.com", "wsj.com",
+  "bloomberg.com", "npr.org", "pbs.org", "aljazeera.com", "dw.com", "lemonde.fr",
+  "spiegel.de", "elpais.com", "nhk.or.jp", "abc.net.au", "cbc.ca", "britannica.com",
+  "wikipedia.org", "statista.com", "pewresearch.org", "ourworldindata.org",
+];
+
+/** User-generated and content-farm domains */
+const LOW_DOMAINS = [
+  "pinterest.com", "quora.com", "answers.com", "ehow.com", "wikihow.com",
+  "reddit.com", "medium.com", "blogspot.com", "wordpress.com", "tumblr.com",
+  "facebook.com", "instagram.com", "tiktok.com", "x.com", "twitter.com",
+  "scribd.com", "coursehero.com", "studocu.com", "chegg.com",
+];
+
+export interface SourceAssessment extends SourceCredibility {
+  allowed: boolean;
+}
+
+interface CredibilityConfig {
+  allowlist: string[];
+  denylist: string[];
+  tiers: Record<Exclude<SourceTier, "general">, string[]>;
+}
+
+export class SourceCredibilityScorer {
+  private config: CredibilityConfig;
+
+  constructor(config: CredibilityConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Assess a source URL under `policy`. Denylisted domains are never
+   * allowed; file:// documents from the operator's local corpus count as
+   * reputable.
+   */
+  assess(url: string, policy: SourcePolicy = "any"): SourceAssessment {
+    const host = hostOf(url);
+    const denied = host !== null && matchesAny(host, this.config.denylist);
+    const allowlisted = host !== null && matchesAny(host, this.config.allowlist);
+    const result = denied ? credibility("low", "denylist") : this.credibilityOf(url, host);
+
+    let allowed = !denied;
+    if (policy === "allowlist") allowed &&= allowlisted;
+    if (policy === "primary") allowed &&= result.tier === "primary";
+    if (policy === "reputable") allowed &&= TIER_RANK[result.tier] >= TIER_RANK.reputable;
+    if (policy === "no-low") allowed &&= result.tier !== "low";
+
+    return { ...result, allowed };
+  }
+
+  /**
+   * Sources the user supplied (seed URLs, uploads) count as primary under
+   * every policy; only the denylist still excludes them.
+   */
+  assessSeed(url: string): SourceAssessment {
+    const host = url.startsWith("upload:") ? null : hostOf(url);
+    if (host !== null && matchesAny(host, this.config.denylist)) {
+      return { ...credibility("low", "denylist"), allowed: false };
+    }
+    return {
+      ...credibility("primary", url.startsWith("upload:") ? "uploaded document" : "supplied by user"),
+      allowed: true,
+    };
+  }
+
+  private credibilityOf(url: string, host: string | null): SourceCredibility {
+    if (url.startsWith("file://")) return credibility("reputable", "local corpus");
+    if (!host) return credibility("low", "invalid URL");
+
+    const { allowlist, tiers } = this.config;
+    if (matchesAny(host, allowlist)) return credibility("primary", "allowlist");
+
+    for (const tier of ["primary", "reputable", "low"] as const) {
+      if (matchesAny(host, tiers[tier])) return credibility(tier, "operator tier list");
+    }
+
+    if (matchesAny(host, PRIMARY_SUFFIXES)) return credibility("primary", "government or academic domain");
+    if (matchesAny(host, PRIMARY_DOMAINS)) return credibility("primary", "scholarly publisher");
+    if (matchesAny(host, REPUTABLE_DOMAINS)) return credibility("reputable", "known publication");
+    if (matchesAny(host, LOW_DOMAINS)) return credibility("low", "user-generated or content farm");
+
+    return credibility("general", "unclassified domain");
+  }
+}
+
+/**
+ * Multiplier applied to a sentence's score: 1.5× for primary sources down
+ * to 0.7× for low-quality ones, so credibility reorders facts without
+ * overriding how informative a sentence is.
+ */
+export function credibilityWeight(score: number): number {
+  return 0.5 + score;
+}
+
+function hostOf(url: string): string | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    return hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+function credibility(tier: SourceTier, reason: string): SourceCredibility {
+  return { score: TIER_SCORES[tier], tier, reason };
+}
+
+/** Whether `host` is `domain` or one of its subdomains. */
+function matchesAny(host: string, domains: string[]): boolean {
+  return domains.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+function parseDomainList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((d) => d.trim().toLowerCase().replace(/^\*?\./, "").replace(/^www\./, ""))
+    .filter(Boolean);
+}
+
+// ── Singleton ────────────────────────────────────────────────────────────
+
+let scorer: SourceCredibilityScorer | null = null;
+
+export function getSourceCredibilityScorer(): SourceCredibilityScorer {
+  if (!scorer) {
+    scorer = new SourceCredibilityScorer({
+      allowlist: parseDomainList(process.env.SOURCE_ALLOWLIST),
+      denylist: parseDomainList(process.env.SOURCE_DENYLIST),
+      tiers: {
+        primary: parseDomainList(process.env.SOURCE_TIER_PRIMARY),
+        reputable: parseDomainList(process.env.SOURCE_TIER_REPUTABLE),
+        low: parseDomainList(process.env.SOURCE_TIER_LOW),
+      },
+    });
+  }
+  return scorer;
+}
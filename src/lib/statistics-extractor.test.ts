@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { ResearchFact } from "@/agents/types";
+import { extractStatistics, formatNumber, formatStatistic, parseFigures } from "./statistics-extractor";
+
+const figures = (sentence: string) => parseFigures(sentence).map(({ kind, value, unit }) => ({ kind, value, unit }));
+const withRanges = (sentence: string) =>
+  parseFigures(sentence).map(({ kind, value, high, unit, text }) => ({ kind, value, high, unit, text }));
+
+describe("parseFigures", () => {
+  it("applies magnitude words and abbreviations", () => {
+    expect(figures("The app reached 1.2 million users.")).toEqual([{ kind: "count", value: 1.2e6, unit: "users" }]);
+    expect(figures("The project cost $4bn.")).toEqual([{ kind: "currency", value: 4e9, unit: "USD" }]);
+    expect(figures("Sales hit 1,200,000 units.")).toEqual([{ kind: "count", value: 1.2e6, unit: "units" }]);
+  });
+
+  it("normalizes currencies, percentages and unit spellings", () => {
+    expect(figures("Installs cost 15,000 euros.")).toEqual([{ kind: "currency", value: 15000, unit: "EUR" }]);
+    expect(figures("Demand rose 12.5% while rates fell 2 percentage points.")).toEqual([
+      { kind: "percentage", value: 12.5, unit: "%" },
+      { kind: "percentage", value: 2, unit: "pp" },
+    ]);
+    expect(figures("Capacity reached 82 gigawatts.")).toEqual([{ kind: "quantity", value: 82, unit: "GW" }]);
+  });
+
+  it("skips bare years, ordinals and unitless numbers", () => {
+    expect(figures("In 2023 it ranked 1st among 5G carriers.")).toEqual([]);
+    expect(figures("The score was 42.")).toEqual([]);
+  });
+
+  it("reads a lower-case m or bn before a unit as a magnitude", () => {
+    expect(figures("Exports reached 5m tonnes.")).toEqual([{ kind: "quantity", value: 5e6, unit: "t" }]);
+    expect(figures("The mine produced 2bn tonnes.")).toEqual([{ kind: "quantity", value: 2e9, unit: "t" }]);
+    expect(figures("The wall is 5m high.")).toEqual([{ kind: "quantity", value: 5, unit: "m" }]);
+  });
+
+  it("counts the head noun of a compound", () => {
+    expect(withRanges("Installers fitted 356,000 heat pump units last year.")).toEqual([
+      { kind: "count", value: 356000, high: undefined, unit: "units", text: "356,000 heat pump units" },
+    ]);
+    expect(figures("Drivers bought 2 million electric cars.")).toEqual([{ kind: "count", value: 2e6, unit: "cars" }]);
+    expect(figures("About 2,000 staff work there.")).toEqual([{ kind: "count", value: 2000, unit: "staff" }]);
+  });
+
+  it("keeps the sign of negative figures", () => {
+    expect(withRanges("Heat pumps work at -5 to 10 degrees.")).toEqual([
+      { kind: "count", value: -5, high: 10, unit: "degrees", text: "-5 to 10 degrees" },
+    ]);
+    expect(figures("Output fell by −3 GW.")).toEqual([{ kind: "quantity", value: -3, unit: "GW" }]);
+  });
+
+  it("skips ages", () => {
+    expect(figures("He was 45 years old when he founded the firm.")).toEqual([]);
+    expect(figures("Loans run for 25 years on average.")).toEqual([{ kind: "quantity", value: 25, unit: "years" }]);
+  });
+
+  it("reads 'between X and Y' as one range", () => {
+    expect(withRanges("A heat pump costs between 12,000 and 18,000 euros to install.")).toEqual([
+      { kind: "currency", value: 12000, high: 18000, unit: "EUR", text: "12,000 and 18,000 euros" },
+    ]);
+  });
+
+  it("applies a trailing magnitude to both ends of 'X to Y'", () => {
+    expect(withRanges("The fund raised $5 to $10 million last year.")).toEqual([
+      { kind: "currency", value: 5e6, high: 1e7, unit: "USD", text: "$5 to $10 million" },
+    ]);
+    expect(withRanges("Output reached 2 to 3 GW.")).toEqual([
+      { kind: "quantity", value: 2, high: 3, unit: "GW", text: "2 to 3 GW" },
+    ]);
+  });
+
+  it("keeps a low end that is already larger than the magnitude allows", () => {
+    expect(withRanges("Grants range from $500,000 to $1 million.")[0]).toMatchObject({ value: 500000, high: 1e6 });
+  });
+
+  it("reads dashed ranges", () => {
+    expect(withRanges("Prices rose 5–7% in 2024.")[0]).toMatchObject({ kind: "percentage", value: 5, high: 7 });
+    expect(withRanges("Installs cost 12,000-18,000 euros.")[0]).toMatchObject({ value: 12000, high: 18000 });
+  });
+
+  it("reads 'N of M' as a ratio", () => {
+    expect(withRanges("Heat pumps now warm 3 of 10 homes in Sweden.")).toEqual([
+      { kind: "ratio", value: 0.3, high: undefined, unit: "homes", text: "3 of 10 homes" },
+    ]);
+  });
+
+  it("keeps listed figures and years apart", () => {
+    expect(withRanges("Capacity grew from 12 GW and 15 GW between 2019 and 2023.").map((f) => f.text)).toEqual([
+      "12 GW",
+      "15 GW",
+    ]);
+  });
+});
+
+describe("extractStatistics", () => {
+  it("dates figures with the nearest year and keeps repeats once", () => {
+    const facts: ResearchFact[] = [
+      { fact: "Germany installed 356,000 heat pumps in 2023.", sourceUrl: "https://a.example", sourceTitle: "A" },
+      { fact: "In 2023, 356,000 heat pumps were installed.", sourceUrl: "https://b.example", sourceTitle: "B" },
+    ];
+    const statistics = extractStatistics(facts);
+    expect(statistics).toHaveLength(1);
+    expect(statistics[0]).toMatchObject({ value: 356000, year: 2023, factIndex: 0, sourceUrl: "https://a.example" });
+  });
+});
+
+describe("formatStatistic", () => {
+  it("spells figures in one style", () => {
+    expect(formatStatistic({ kind: "currency", value: 1.2e9, unit: "USD" })).toBe("$1.2 billion");
+    expect(formatStatistic({ kind: "percentage", value: 12.5, unit: "%" })).toBe("12.5%");
+    expect(formatStatistic({ kind: "quantity", value: 82, unit: "GW" })).toBe("82 GW");
+    expect(formatNumber(356000)).toBe("356,000");
+  });
+
+  it("formats ranges and ratios", () => {
+    expect(formatStatistic({ kind: "currency", value: 12000, high: 18000, unit: "EUR" })).toBe("€12,000–€18,000");
+    expect(formatStatistic({ kind: "quantity", value: 2, high: 3, unit: "GW" })).toBe("2–3 GW");
+    expect(formatStatistic({ kind: "ratio", value: 0.3, unit: "homes" })).toBe("30% of homes");
+  });
+});
@@ -0,0 +1,446 @@
+import { ResearchFact, ResearchStatistic, StatisticKind } from "@/agents/types";
+
+// ── Statistics extraction ────────────────────────────────────────────────
+// Parses the figures in a sentence into value + normalized unit: magnitude
+// words and abbreviations are applied ("1.2 million", "1,200,000" and
+// "1.2m" are all 1200000), currencies become ISO codes and unit spellings
+// collapse to one symbol ("gigawatts" → "GW"). Ranges ("between 12,000 and
+// 18,000 euros", "$5 to $10 million", "-5 to 10 degrees") are one figure
+// with a low and high end, and "3 of 10 homes" is a ratio. Bare years and
+// ages ("45 years old") are not figures; years date the figure closest to
+// them instead.
+
+/** A figure found in a sentence, before it is attached to a fact */
+export interface ParsedFigure {
+  kind: StatisticKind;
+  /** The figure, or the low end of a range */
+  value: number;
+  /** The high end of a range */
+  high?: number;
+  unit: string;
+  /** The figure as written */
+  text: string;
+  /** Offset of the figure in the sentence */
+  index: number;
+}
+
+const MAGNITUDES: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+/** Abbreviations written straight after the digits ("$4bn", "12k") */
+const MAGNITUDE_ABBREVIATIONS: Record<string, number> = {
+  k: 1e3,
+  mn: 1e6,
+  bn: 1e9,
+  tn: 1e12,
+};
+
+/**
+ * Only read as magnitudes after a currency ("$5m", "€2B") or, in lower case,
+ * before a unit ("5m tonnes"); otherwise "5m" is metres
+ */
+const CURRENCY_MAGNITUDE_ABBREVIATIONS: Record<string, number> = {
+  m: 1e6,
+  b: 1e9,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  us$: "USD",
+  a$: "AUD",
+  c$: "CAD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+};
+
+/** Display symbol for each currency code that has one */
+const SYMBOL_FOR_CODE: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+};
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: "USD",
+  dollars: "USD",
+  euro: "EUR",
+  euros: "EUR",
+  yen: "JPY",
+  yuan: "CNY",
+  rupee: "INR",
+  rupees: "INR",
+  usd: "USD",
+  eur: "EUR",
+  gbp: "GBP",
+  jpy: "JPY",
+  cny: "CNY",
+  inr: "INR",
+};
+
+/** Spellings and symbols of measurement units, keyed in lower case */
+const UNITS: Record<string, string> = {
+  w: "W", watt: "W", watts: "W",
+  kw: "kW", kilowatt: "kW", kilowatts: "kW",
+  mw: "MW", megawatt: "MW", megawatts: "MW",
+  gw: "GW", gigawatt: "GW", gigawatts: "GW",
+  tw: "TW", terawatt: "TW", terawatts: "TW",
+  kwh: "kWh", "kilowatt-hour": "kWh", "kilowatt-hours": "kWh",
+  mwh: "MWh", "megawatt-hour": "MWh", "megawatt-hours": "MWh",
+  gwh: "GWh", "gigawatt-hour": "GWh", "gigawatt-hours": "GWh",
+  twh: "TWh", "terawatt-hour": "TWh", "terawatt-hours": "TWh",
+  cm: "cm", centimetre: "cm", centimetres: "cm", centimeter: "cm", centimeters: "cm",
+  m: "m", metre: "m", metres: "m", meter: "m", meters: "m",
+  km: "km", kilometre: "km", kilometres: "km", kilometer: "km", kilometers: "km",
+  mi: "mi", mile: "mi", miles: "mi",
+  kg: "kg", kilogram: "kg", kilograms: "kg",
+  t: "t", tonne: "t", tonnes: "t", ton: "t", tons: "t",
+  ha: "ha", hectare: "ha", hectares: "ha",
+  l: "L", litre: "L", litres: "L", liter: "L", liters: "L",
+  bbl: "bbl", barrel: "bbl", barrels: "bbl",
+  mb: "MB", megabyte: "MB", megabytes: "MB",
+  gb: "GB", gigabyte: "GB", gigabytes: "GB",
+  tb: "TB", terabyte: "TB", terabytes: "TB",
+  second: "s", seconds: "s",
+  minute: "min", minutes: "min",
+  h: "h", hour: "h", hours: "h",
+  day: "days", days: "days",
+  week: "weeks", weeks: "weeks",
+  month: "months", months: "months",
+  year: "years", years: "years",
+};
+
+/** Words after a number that are not its unit ("between 2 and 5", "3 of 10") */
+const NOT_UNITS = new Set([
+  "and", "or", "to", "from", "than", "of", "in", "on", "at", "by", "for", "the",
+  "a", "an", "is", "was", "were", "are", "with", "per", "as", "percent",
+]);
+
+/** Adjectives skipped to reach the counted noun ("1.2 million new users") */
+const MODIFIERS = new Set([
+  "new", "more", "additional", "active", "registered", "total", "other", "unique",
+  "monthly", "daily", "annual", "full-time", "us",
+]);
+
+/** Plural nouns, the usual head of a counted compound; not "bus", "glass" or "analysis" */
+const PLURAL_NOUN = /^\p{L}[\p{L}-]{2,}(?<!ss|us|is)s$/u;
+
+const FIGURE_PATTERN = new RegExp(
+  [
+    // Not part of an identifier such as "COVID-19" or "v2.5"; "12,000-18,000" is a range
+    String.raw`(?<![\p{L}\d.,])(?<![\p{L}.,]-)`,
+    String.raw`(?:(US\$|A\$|C\$|[$€£¥])|\b(USD|EUR|GBP|JPY|CNY|INR)\s?)?\s?`,
+    // A minus sign only when written straight before the digits ("-5 degrees")
+    String.raw`((?:[-−](?=\d))?\d(?:[\d,]*\d)?(?:\.\d+)?)`,
+    String.raw`(?:\s*(%|percent\b|per cent\b|percentage points?\b))?`,
+    String.raw`(?:\s*(thousand|million|billion|trillion)\b|(\p{L}{1,3})\b)?`,
+    String.raw`((?:\s+\p{L}[\p{L}-]*){0,3})`,
+  ].join(""),
+  "giu"
+);
+
+/** What joins the ends of a range, or the parts of a ratio */
+const RANGE_JOINERS = new Set(["to", "and", "–", "-"]);
+const RATIO_JOINER = "of";
+
+interface FigureMatch {
+  symbol?: string;
+  code?: string;
+  digits: string;
+  percent?: string;
+  magnitude?: string;
+  suffix?: string;
+  words: string[];
+  /** Offset of the figure in the sentence */
+  start: number;
+  /** Offset just after the number and its unit symbol, before any trailing words */
+  end: number;
+  /** The number and its unit symbol as written */
+  core: string;
+}
+
+const YEAR_PATTERN = /\b(1[89]\d\d|20\d\d)\b(?![\d,.]*\s*(%|percent))/g;
+
+/**
+ * Every figure in `sentence` with a recognizable unit — a currency, "%",
+ * a measurement unit or a counted noun. Bare years and unitless numbers
+ * are skipped. The ends of a range share the unit and magnitude written
+ * after the high end ("between 2 and 5 million users"); "N of M" gives N/M.
+ */
+export function parseFigures(sentence: string): ParsedFigure[] {
+  const matches: FigureMatch[] = [...sentence.matchAll(FIGURE_PATTERN)].map((match) => {
+    const [whole, symbol, code, digits, percent, magnitude, suffix, trailing] = match;
+    const start = (match.index ?? 0) + (whole.length - whole.trimStart().length);
+    const core = whole.slice(0, whole.length - trailing.length).trim();
+    return {
+      symbol,
+      code,
+      digits,
+      percent,
+      magnitude,
+      suffix,
+      words: trailing.trim() ? trailing.trim().split(/\s+/) : [],
+      start,
+      end: start + core.length,
+      core,
+    };
+  });
+
+  const figures: ParsedFigure[] = [];
+  for (let i = 0; i < matches.length; i++) {
+    const joined = i + 1 < matches.length ? joinFigures(sentence, matches[i], matches[i + 1]) : null;
+    if (joined) {
+      figures.push(joined);
+      i++;
+      continue;
+    }
+    const figure = figureOf(matches[i]);
+    if (figure) figures.push(figure);
+  }
+
+  return figures;
+}
+
+/** Years mentioned in `sentence` with their offsets, excluding percentages such as "2020%". */
+export function findYears(sentence: string): Array<{ year: number; index: number }> {
+  return [...sentence.matchAll(YEAR_PATTERN)].map((m) => ({
+    year: Number(m[1]),
+    index: m.index ?? 0,
+  }));
+}
+
+/**
+ * Parse the figures of every fact into statistics, dated with the nearest
+ * year in the same sentence. Repeats of a value/unit/year are kept once,
+ * from the highest-ranked fact.
+ */
+export function extractStatistics(facts: ResearchFact[]): ResearchStatistic[] {
+  const statistics: ResearchStatistic[] = [];
+  const seen = new Set<string>();
+
+  facts.forEach((fact, factIndex) => {
+    const years = findYears(fact.fact);
+
+    for (const figure of parseFigures(fact.fact)) {
+      const year = nearestYear(figure, years);
+      const key = `${figure.kind}|${figure.unit}|${figure.value}|${figure.high ?? ""}|${year ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      statistics.push({
+        kind: figure.kind,
+        value: figure.value,
+        ...(figure.high !== undefined ? { high: figure.high } : {}),
+        unit: figure.unit,
+        text: figure.text,
+        year,
+        factIndex,
+        sourceUrl: fact.sourceUrl,
+        sourceTitle: fact.sourceTitle,
+        page: fact.page,
+      });
+    }
+  });
+
+  return statistics;
+}
+
+/**
+ * Display a statistic in one consistent style: "$1.2 billion", "12.5%",
+ * "82 GW"; ranges as "€12,000–€18,000" or "12–15 GW", ratios as "30% of homes".
+ */
+export function formatStatistic({
+  kind,
+  value,
+  high,
+  unit,
+}: Pick<ResearchStatistic, "kind" | "value" | "high" | "unit">): string {
+  const number = (v: number) =>
+    kind === "currency" ? (SYMBOL_FOR_CODE[unit] ? `${SYMBOL_FOR_CODE[unit]}${formatNumber(v)}` : formatNumber(v)) : formatNumber(v);
+  const amount = high !== undefined ? `${number(value)}–${number(high)}` : number(value);
+
+  switch (kind) {
+    case "percentage":
+      return unit === "pp" ? `${amount} percentage points` : `${amount}%`;
+    case "currency":
+      return SYMBOL_FOR_CODE[unit] ? amount : `${unit} ${amount}`;
+    case "ratio":
+      return `${formatNumber(round(value * 100))}% of ${unit}`;
+    default:
+      return unit ? `${amount} ${unit}` : amount;
+  }
+}
+
+/**
+ * Format a number the way the writer and editor spell figures: millions and
+ * up in words ("1.2 million"), smaller values with thousands separators.
+ */
+export function formatNumber(value: number): string {
+  for (const [word, scale] of Object.entries(MAGNITUDES).reverse()) {
+    if (scale >= 1e6 && Math.abs(value) >= scale) {
+      return `${round(value / scale).toLocaleString("en-US", { maximumFractionDigits: 2 })} ${word}`;
+    }
+  }
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+/** One figure on its own, or null when it has no unit or is a year, age, ordinal or identifier. */
+function figureOf({ symbol, code, digits, percent, magnitude, suffix, words, start, core }: FigureMatch): ParsedFigure | null {
+  // A bare year dates other figures rather than being one ("in 2023 sales rose")
+  if (isYear(digits) && !symbol && !code && !percent && !magnitude && !suffix) return null;
+
+  let scale = scaleOf({ symbol, code, magnitude, suffix });
+  let kind: StatisticKind | null = null;
+  let unit = "";
+  let used = 0;
+
+  // "5m tonnes", "2m euros": a lower-case "m" before a unit is millions, not metres
+  const described = describeUnit(words);
+  if (suffix === "m" && scale === 1 && !symbol && !code && described && described.kind !== "count") {
+    scale = CURRENCY_MAGNITUDE_ABBREVIATIONS.m;
+  }
+
+  if (suffix && scale === 1) {
+    const abbreviation = suffix.toLowerCase();
+    // Otherwise an ordinal or identifier ("1st", "5G"), not a figure
+    if (!UNITS[abbreviation]) return null;
+    kind = "quantity";
+    unit = UNITS[abbreviation];
+  }
+
+  if (symbol || code) {
+    kind = "currency";
+    unit = code ? code.toUpperCase() : CURRENCY_SYMBOLS[symbol!.toLowerCase()];
+  } else if (percent) {
+    kind = "percentage";
+    unit = /point/i.test(percent) ? "pp" : "%";
+  } else if (!kind) {
+    if (described) {
+      ({ kind, unit, used } = described);
+    } else if (scale !== 1) {
+      kind = "count";
+    } else {
+      return null;
+    }
+  }
+
+  // An age ("45 years old") describes a person, not a statistic
+  if (unit === "years" && words[used]?.toLowerCase() === "old") return null;
+
+  const value = round(numberOf(digits) * scale);
+  if (!Number.isFinite(value)) return null;
+
+  return { kind, value, unit, text: [core, ...words.slice(0, used)].join(" "), index: start };
+}
+
+/**
+ * Two figures joined into one: a range ("12,000 to 18,000 euros", "between
+ * 2 and 5 percent", "12–15 GW") or a ratio ("3 of 10 homes"). The low end
+ * takes the high end's unit, and its magnitude unless that would put it
+ * above the high end ("$5 to $10 million", but "$500,000 to $1 million").
+ * Null when the two are separate figures.
+ */
+function joinFigures(sentence: string, low: FigureMatch, high: FigureMatch): ParsedFigure | null {
+  const joiner = sentence.slice(low.end, high.start).trim().toLowerCase();
+  if (!RANGE_JOINERS.has(joiner) && joiner !== RATIO_JOINER) return null;
+  // "12 GW and 15 GW" lists two figures; only "between … and …" is a range
+  if (joiner === "and" && !/\bbetween\s+$/i.test(sentence.slice(0, low.start))) return null;
+
+  const top = figureOf(high);
+  if (!top) return null;
+  const own = figureOf({ ...low, words: [] });
+  if (own && (own.kind !== top.kind || own.unit !== top.unit)) return null;
+  if (!own && isYear(low.digits)) return null;
+
+  let value = numberOf(low.digits) * scaleOf(low);
+  const highScale = scaleOf(high);
+  if (scaleOf(low) === 1 && highScale !== 1 && value * highScale <= top.value) value *= highScale;
+  const text = `${sentence.slice(low.start, high.start)}${top.text}`;
+
+  if (joiner === RATIO_JOINER) {
+    if (own || top.kind !== "count" || value > top.value) return null;
+    return { kind: "ratio", value: round(value / top.value), unit: top.unit, text, index: low.start };
+  }
+  return {
+    kind: top.kind,
+    value: round(Math.min(value, top.value)),
+    high: round(Math.max(value, top.value)),
+    unit: top.unit,
+    text,
+    index: low.start,
+  };
+}
+
+/** The magnitude a figure is written with: a word ("million") or an abbreviation ("bn", "$5m"). */
+function scaleOf({ symbol, code, magnitude, suffix }: Pick<FigureMatch, "symbol" | "code" | "magnitude" | "suffix">): number {
+  if (magnitude) return MAGNITUDES[magnitude.toLowerCase()];
+  const abbreviation = suffix?.toLowerCase() ?? "";
+  if (MAGNITUDE_ABBREVIATIONS[abbreviation]) return MAGNITUDE_ABBREVIATIONS[abbreviation];
+  if ((symbol || code) && CURRENCY_MAGNITUDE_ABBREVIATIONS[abbreviation]) {
+    return CURRENCY_MAGNITUDE_ABBREVIATIONS[abbreviation];
+  }
+  return 1;
+}
+
+/**
+ * Unit from the words after a number: a currency, a measurement unit or a
+ * counted noun. The counted noun is the head of a compound, its first
+ * plural-looking word ("356,000 heat pump units" counts units), or else
+ * the first noun ("2,000 staff work").
+ */
+function describeUnit(words: string[]): { kind: StatisticKind; unit: string; used: number } | null {
+  let noun = -1;
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].toLowerCase();
+    if (noun < 0) {
+      if (CURRENCY_WORDS[word]) return { kind: "currency", unit: CURRENCY_WORDS[word], used: i + 1 };
+      // Symbols may be capitalized ("GW"); spelled-out units may not ("3 Mile Island")
+      if (UNITS[word] && (word.length <= 3 || /^\p{Ll}/u.test(words[i]))) {
+        return { kind: "quantity", unit: UNITS[word], used: i + 1 };
+      }
+    }
+    // Capitalized words after a number are usually a name ("3 Mile Island")
+    if (NOT_UNITS.has(word) || !/^\p{Ll}/u.test(words[i])) break;
+    if (MODIFIERS.has(word) && i < words.length - 1) continue;
+    if (noun < 0) noun = i;
+    if (PLURAL_NOUN.test(word)) {
+      noun = i;
+      break;
+    }
+  }
+  return noun < 0 ? null : { kind: "count", unit: words[noun].toLowerCase(), used: noun + 1 };
+}
+
+/** The year closest to the figure; on a tie the one after it ("12 GW in 2023"). */
+function nearestYear(figure: ParsedFigure, years: Array<{ year: number; index: number }>): number | undefined {
+  let best: { year: number; distance: number } | undefined;
+  for (const { year, index } of years) {
+    if (index >= figure.index && index < figure.index + figure.text.length) continue;
+    const distance = index > figure.index ? index - figure.index - figure.text.length : figure.index - index;
+    if (!best || distance < best.distance || (distance === best.distance && index > figure.index)) {
+      best = { year, distance };
+    }
+  }
+  return best?.year;
+}
+
+function isYear(digits: string): boolean {
+  return /^(1[89]\d\d|20\d\d)$/.test(digits);
+}
+
+/** The value of digits as written, with thousands separators and a minus sign. */
+function numberOf(digits: string): number {
+  return Number(digits.replace(/,/g, "").replace("−", "-"));
+}
+
+/** Drop floating-point noise from scaling ("4.6 billion" → 4600000000). */
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
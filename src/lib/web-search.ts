@@ -1,341 +1,193 @@
-import * as cheerio from "cheerio";
-
-export interface SearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-}
-
-export interface SearchOptions {
+import { getHttpClient, HttpClient, USER_AGENT } from "./http";
+import { reachesPrivateNetwork } from "./public-address";
+import { CacheCounter, getCache, normalizeQuery, normalizeUrl } from "./cache";
+import { PageContent } from "./content-extractor";
+import { detectFormat, DOCUMENT_ACCEPT, extractDocument } from "./document-extractor";
+import {
+  getSearchProviderRegistry,
+  readLocalDocument,
+  SearchResult,
+  SearchScope,
+} from "./search-providers";
+
+export type { SearchResult } from "./search-providers";
+export type { PageContent } from "./content-extractor";
+
+const PAGE_TIMEOUT_MS = 8000;
+/** Bump when the cached PageContent shape changes */
+const PAGE_CACHE_VERSION = 4;
+/** Paginated documents (PDF reports) get a larger text budget so later pages are reachable */
+const DOCUMENT_MAX_LENGTH = 60_000;
+/** Bodies larger than this are not parsed */
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+/** Redirects followed one by one when every hop must be checked */
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface SearchOptions extends SearchScope {
   maxResults?: number;
-  region?: string;
+  /** Override the provider fallback chain for this search (provider IDs, in order) */
+  providers?: string[];
+  /** Client to route traffic through; defaults to the HTTP_MODE-configured one */
+  http?: HttpClient;
+  /** Incremented on every cache lookup so callers can report hit rates */
+  cacheCounter?: CacheCounter;
 }
 
-const USER_AGENT =
-  "ContentStudio/1.0 (Multi-Agent Research Pipeline; contact@example.com)";
+export interface FetchPageOptions {
+  maxLength?: number;
+  http?: HttpClient;
+  cacheCounter?: CacheCounter;
+  /**
+   * Refuse hosts on private or local networks, for the URL and for every
+   * redirect it leads to. Set for URLs the user supplies.
+   */
+  publicOnly?: boolean;
+}
 
 /**
- * Search the web using multiple strategies with automatic fallback.
- * Order: DuckDuckGo HTML → DuckDuckGo Lite → Wikipedia API
+ * Search the web using the configured providers with automatic fallback.
+ * The chain is taken from `options.providers`, then SEARCH_PROVIDERS, then
+ * the default: Google CSE → SerpAPI → DuckDuckGo HTML → DuckDuckGo Lite →
+ * Wikipedia API (keyed providers are skipped when their keys are missing).
+ * `region`, `language` and `recency` are mapped onto each provider's own
+ * parameters (e.g. DuckDuckGo `kl`/`df`, the Wikipedia language edition).
+ *
+ * Non-empty results are cached by normalized query for CACHE_TTL_SECONDS.
+ * The cache is bypassed in record/replay mode so cassettes stay complete.
  */
 export async function searchWeb(
   query: string,
   options: SearchOptions = {}
 ): Promise<SearchResult[]> {
-  const { maxResults = 10 } = options;
-
-  // Strategy 1: DuckDuckGo HTML
-  try {
-    const results = await searchDuckDuckGoHtml(query, maxResults);
-    if (results.length > 0) return results;
-  } catch {
-    // Fall through to next strategy
-  }
-
-  // Strategy 2: DuckDuckGo Lite (different endpoint, sometimes less restricted)
-  try {
-    const results = await searchDuckDuckGoLite(query, maxResults);
-    if (results.length > 0) return results;
-  } catch {
-    // Fall through to next strategy
-  }
-
-  // Strategy 3: Wikipedia API (always works from serverless)
-  try {
-    const results = await searchWikipedia(query, maxResults);
-    if (results.length > 0) return results;
-  } catch {
-    // All strategies failed
-  }
-
-  return [];
-}
-
-// ── DuckDuckGo HTML ──────────────────────────────────────────────────────
-
-async function searchDuckDuckGoHtml(
-  query: string,
-  maxResults: number
-): Promise<SearchResult[]> {
-  const params = new URLSearchParams({ q: query, kl: "us-en" });
-
-  const response = await fetch(`https://html.duckduckgo.com/html/?${params}`, {
-    method: "POST",
-    headers: {
-      "User-Agent": USER_AGENT,
-      Accept: "text/html",
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
+  const {
+    maxResults = 10,
+    region,
+    language,
+    recency,
+    providers,
+    http = getHttpClient(),
+    cacheCounter,
+  } = options;
+  const chain = getSearchProviderRegistry().resolve(providers);
+
+  const cache = getCache();
+  const useCache = cache.enabled && http.mode === "live";
+  const cacheKey = JSON.stringify({
+    query: normalizeQuery(query),
+    maxResults,
+    region: region ?? null,
+    language: language ?? null,
+    recency: recency ?? null,
+    providers: chain.map((p) => p.id),
   });
 
-  if (!response.ok) {
-    throw new Error(`DuckDuckGo HTML: ${response.status}`);
+  if (useCache) {
+    const cached = await cache.get<SearchResult[]>("search", cacheKey);
+    if (cacheCounter) cacheCounter[cached ? "hits" : "misses"]++;
+    if (cached) return cached;
   }
 
-  const html = await response.text();
-
-  // Detect if we got a bot-block page
-  if (html.includes("blocked") || html.includes("bot") || html.length < 1000) {
-    throw new Error("DuckDuckGo HTML: blocked");
-  }
-
-  return parseDuckDuckGoHtml(html, maxResults);
-}
-
-function parseDuckDuckGoHtml(html: string, maxResults: number): SearchResult[] {
-  const $ = cheerio.load(html);
-  const results: SearchResult[] = [];
-
-  $(".result").each((_i, element) => {
-    if (results.length >= maxResults) return false;
-
-    const $el = $(element);
-    const titleEl = $el.find(".result__title .result__a");
-    const snippetEl = $el.find(".result__snippet");
-    const urlEl = $el.find(".result__url");
-
-    const title = titleEl.text().trim();
-    let url = titleEl.attr("href") ?? "";
-    const snippet = snippetEl.text().trim();
-
-    if (url.includes("uddg=")) {
-      try {
-        const parsed = new URL(url, "https://duckduckgo.com");
-        url = decodeURIComponent(parsed.searchParams.get("uddg") ?? url);
-      } catch {
-        url = `https://${urlEl.text().trim()}`;
+  for (const provider of chain) {
+    try {
+      const results = await provider.search(query, {
+        maxResults,
+        region,
+        language,
+        recency,
+        http,
+      });
+      if (results.length > 0) {
+        if (useCache) await cache.set("search", cacheKey, results);
+        return results;
       }
+    } catch {
+      // Fall through to next provider
     }
-
-    if (title && snippet) {
-      results.push({ title, url, snippet });
-    }
-  });
-
-  return results;
-}
-
-// ── DuckDuckGo Lite ──────────────────────────────────────────────────────
-
-async function searchDuckDuckGoLite(
-  query: string,
-  maxResults: number
-): Promise<SearchResult[]> {
-  const params = new URLSearchParams({ q: query });
-
-  const response = await fetch("https://lite.duckduckgo.com/lite/", {
-    method: "POST",
-    headers: {
-      "User-Agent": USER_AGENT,
-      Accept: "text/html",
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    throw new Error(`DuckDuckGo Lite: ${response.status}`);
-  }
-
-  const html = await response.text();
-
-  if (html.includes("blocked") || html.length < 500) {
-    throw new Error("DuckDuckGo Lite: blocked");
   }
 
-  return parseDuckDuckGoLite(html, maxResults);
-}
-
-function parseDuckDuckGoLite(html: string, maxResults: number): SearchResult[] {
-  const $ = cheerio.load(html);
-  const results: SearchResult[] = [];
-
-  // Lite format uses table rows with specific classes
-  const rows = $("table:last-of-type tr");
-
-  let current: Partial<SearchResult> = {};
-
-  rows.each((_i, row) => {
-    if (results.length >= maxResults) return false;
-
-    const $row = $(row);
-
-    // Title/link row
-    const link = $row.find("a.result-link");
-    if (link.length) {
-      current = {
-        title: link.text().trim(),
-        url: link.attr("href") ?? "",
-      };
-      return;
-    }
-
-    // Snippet row
-    const snippet = $row.find("td.result-snippet");
-    if (snippet.length && current.title) {
-      current.snippet = snippet.text().trim();
-      if (current.title && current.url && current.snippet) {
-        results.push(current as SearchResult);
-      }
-      current = {};
-    }
-  });
-
-  return results;
+  return [];
 }
 
-// ── Wikipedia API ────────────────────────────────────────────────────────
-
-async function searchWikipedia(
-  query: string,
-  maxResults: number
-): Promise<SearchResult[]> {
-  const params = new URLSearchParams({
-    action: "query",
-    format: "json",
-    list: "search",
-    srsearch: query,
-    srlimit: String(Math.min(maxResults, 10)),
-    srprop: "snippet|titlesnippet",
-    utf8: "1",
-    origin: "*",
-  });
-
-  const response = await fetch(
-    `https://en.wikipedia.org/w/api.php?${params}`,
-    {
-      headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
-    }
-  );
+/**
+ * Fetch a webpage or document and extract its main content (paragraphs plus
+ * title, byline, publisher, date, language and canonical URL). The format is detected from the
+ * Content-Type: HTML, PDF (with per-paragraph page numbers), plain text,
+ * JSON and CSV are supported. Used to gather deeper facts from individual
+ * search results. file:// URLs from the local corpus are read from disk.
+ * Extracted content is cached by normalized URL, like search results.
+ * With `publicOnly`, redirects are followed by hand so each target can be
+ * checked with reachesPrivateNetwork before it is requested.
+ * Returns null when the page cannot be fetched or has no readable content.
+ */
+export async function fetchPageContent(
+  url: string,
+  options: FetchPageOptions = {}
+): Promise<PageContent | null> {
+  const { maxLength = 5000, http = getHttpClient(), cacheCounter, publicOnly = false } = options;
 
-  if (!response.ok) {
-    throw new Error(`Wikipedia API: ${response.status}`);
+  if (url.startsWith("file://")) {
+    return readLocalDocument(url, maxLength);
   }
 
-  const data = await response.json();
-  const searchResults: Array<{ title: string; snippet: string; pageid: number }> =
-    data?.query?.search ?? [];
+  const cache = getCache();
+  const useCache = cache.enabled && http.mode === "live";
+  const cacheKey = `${normalizeUrl(url)} max=${maxLength} v=${PAGE_CACHE_VERSION}`;
 
-  // For each result, fetch the extract (first paragraph) for richer content
-  const results: SearchResult[] = [];
-
-  // Batch fetch extracts for all pages
-  if (searchResults.length > 0) {
-    const titles = searchResults.map((r) => r.title).join("|");
-    const extractParams = new URLSearchParams({
-      action: "query",
-      format: "json",
-      titles: titles,
-      prop: "extracts|info",
-      exintro: "1",
-      explaintext: "1",
-      exsentences: "5",
-      inprop: "url",
-      origin: "*",
-    });
-
-    const extractResponse = await fetch(
-      `https://en.wikipedia.org/w/api.php?${extractParams}`,
-      {
-        headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
-      }
-    );
-
-    if (extractResponse.ok) {
-      const extractData = await extractResponse.json();
-      const pages: Record<
-        string,
-        { title: string; extract?: string; fullurl?: string }
-      > = extractData?.query?.pages ?? {};
-
-      // Build a lookup by title
-      const extractsByTitle = new Map<string, { extract: string; url: string }>();
-      for (const page of Object.values(pages)) {
-        if (page.extract && page.fullurl) {
-          extractsByTitle.set(page.title, {
-            extract: page.extract,
-            url: page.fullurl,
-          });
-        }
-      }
-
-      for (const sr of searchResults) {
-        const ext = extractsByTitle.get(sr.title);
-        // Strip HTML from the search snippet
-        const cleanSnippet = sr.snippet.replace(/<[^>]+>/g, "");
-
-        results.push({
-          title: `${sr.title} - Wikipedia`,
-          url:
-            ext?.url ??
-            `https://en.wikipedia.org/wiki/${encodeURIComponent(sr.title.replace(/ /g, "_"))}`,
-          snippet: ext?.extract ?? cleanSnippet,
-        });
-      }
-    }
+  if (useCache) {
+    const cached = await cache.get<PageContent>("page", cacheKey);
+    if (cacheCounter) cacheCounter[cached ? "hits" : "misses"]++;
+    if (cached) return cached;
   }
 
-  return results;
+  const content = await fetchAndExtract(url, maxLength, http, publicOnly);
+  if (useCache && content) await cache.set("page", cacheKey, content);
+  return content;
 }
 
-/**
- * Fetch a webpage and extract its main text content.
- * Used to gather deeper facts from individual search results.
- */
-export async function fetchPageContent(
+async function fetchAndExtract(
   url: string,
-  maxLength = 5000
-): Promise<string> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 8000);
-
+  maxLength: number,
+  http: HttpClient,
+  publicOnly: boolean
+): Promise<PageContent | null> {
   try {
-    const response = await fetch(url, {
-      headers: { "User-Agent": USER_AGENT, Accept: "text/html" },
-      signal: controller.signal,
-      redirect: "follow",
-    });
-
-    if (!response.ok) return "";
-
-    const html = await response.text();
-    const $ = cheerio.load(html);
-
-    // Remove non-content elements
-    $("script, style, nav, header, footer, aside, iframe, noscript").remove();
-
-    // Extract text from likely content areas
-    const contentSelectors = [
-      "article",
-      '[role="main"]',
-      "main",
-      ".post-content",
-      ".article-body",
-      ".entry-content",
-    ];
-
-    let text = "";
-    for (const selector of contentSelectors) {
-      const el = $(selector);
-      if (el.length) {
-        text = el.text();
-        break;
-      }
+    let target = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      if (publicOnly && !(await isPublicHttpUrl(target))) return null;
+      response = await http.fetch(
+        target,
+        {
+          headers: { "User-Agent": USER_AGENT, Accept: DOCUMENT_ACCEPT },
+          redirect: publicOnly ? "manual" : "follow",
+        },
+        { respectRobots: true, timeoutMs: PAGE_TIMEOUT_MS }
+      );
+
+      const location = publicOnly && REDIRECT_STATUSES.has(response.status) && response.headers.get("location");
+      if (!location) break;
+      if (redirects >= MAX_REDIRECTS) return null;
+      target = new URL(location, target).href;
     }
 
-    // Fallback to body text
-    if (!text) {
-      text = $("body").text();
-    }
+    if (!response.ok) return null;
 
-    // Clean up whitespace
-    text = text.replace(/\s+/g, " ").trim();
+    const body = new Uint8Array(await response.arrayBuffer());
+    if (body.byteLength > MAX_DOCUMENT_BYTES) return null;
 
-    return text.slice(0, maxLength);
+    const format = detectFormat(response.headers.get("content-type"), target, body);
+    if (!format) return null;
+
+    const limit = format === "pdf" ? Math.max(maxLength, DOCUMENT_MAX_LENGTH) : maxLength;
+    const content = await extractDocument(body, format, limit, response.url || target);
+    return content && content.paragraphs.length > 0 ? content : null;
   } catch {
-    return "";
-  } finally {
-    clearTimeout(timeout);
+    // Robots-disallowed, timed out or unreachable (recorded in the fetch report)
+    return null;
   }
 }
+
+async function isPublicHttpUrl(url: string): Promise<boolean> {
+  return /^https?:$/.test(new URL(url).protocol) && !(await reachesPrivateNetwork(url));
+}